@@ -0,0 +1,60 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+import {
+  ForbiddenError,
+  getUserFromReq,
+  isTenantModerator,
+  requireScope,
+  UnauthorizedError,
+  type AuthenticatedUser,
+} from "@/lib/server-auth";
+import { TenantStoreError } from "@/lib/tenant-store";
+
+export const TENANT_ADMIN_SCOPES = ["admin", "tenants:admin"];
+
+export async function requireTenantAdmin(req: NextRequest): Promise<AuthenticatedUser> {
+  const user = await getUserFromReq(req);
+  requireScope(user, TENANT_ADMIN_SCOPES);
+  return user;
+}
+
+export async function requireTenantModerator(req: Request, tenantId: string): Promise<AuthenticatedUser> {
+  const user = await getUserFromReq(req);
+  if (!isTenantModerator(user, tenantId)) {
+    throw new ForbiddenError(`Moderating ${tenantId} requires the events:moderate scope`);
+  }
+  return user;
+}
+
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer $CRON_SECRET`;
+ * anyone else needs a tenant admin scope.
+ */
+export async function requireJobRunner(req: NextRequest): Promise<void> {
+  const secret = process.env.CRON_SECRET;
+  const header = req.headers.get("authorization") ?? "";
+  if (secret && header.startsWith("Bearer ")) {
+    const expected = Buffer.from(secret);
+    const received = Buffer.from(header.slice("Bearer ".length).trim());
+    if (expected.length === received.length && timingSafeEqual(expected, received)) {
+      return;
+    }
+  }
+  await requireTenantAdmin(req);
+}
+
+export function handleAdminError(context: string, error: unknown): NextResponse {
+  if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof TenantStoreError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof ZodError) {
+    return NextResponse.json({ error: "Invalid request payload", details: error.errors }, { status: 400 });
+  }
+  console.error(`${context} error`, error);
+  return NextResponse.json({ error: "Unexpected server error" }, { status: 500 });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import type { AiUsageSummary } from "@/app/services/ai-usage";
+import { monthBounds } from "@/lib/ai-usage-store";
+
+/**
+ * Public view of a usage summary for billing and partner dashboards.
+ */
+export function serializeAiUsage(summary: AiUsageSummary) {
+  const { start, end } = monthBounds(summary.month);
+  return {
+    tenantId: summary.tenantId,
+    month: summary.month,
+    period: { start: start.toISOString(), end: end.toISOString() },
+    status: summary.status,
+    utilization: summary.utilization,
+    totals: summary.totals,
+    byModel: summary.byModel,
+    quota: summary.quota,
+  };
+}
+
+/**
+ * 429 for a tenant whose monthly AI quota is used up. Distinct from the
+ * rate-limit body so clients can tell a monthly hard stop from a short window.
+ */
+export function aiQuotaExceededResponse(
+  summary: AiUsageSummary,
+  extraBody: Record<string, unknown> = {},
+): NextResponse {
+  const { end } = monthBounds(summary.month);
+  const retryAfter = Math.max(1, Math.ceil((end.getTime() - Date.now()) / 1000));
+  return NextResponse.json(
+    {
+      ...extraBody,
+      error: "AI quota exceeded",
+      message: `Monthly AI quota for ${summary.month} is used up. It resets at ${end.toISOString()}.`,
+      usage: serializeAiUsage(summary),
+    },
+    { status: 429, headers: { "Retry-After": retryAfter.toString() } },
+  );
+}
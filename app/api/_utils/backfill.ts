@@ -0,0 +1,20 @@
+import type { BackfillResult } from "@/app/services/event-backfill";
+import type { EventCursorPosition } from "@/lib/pagination-cursor";
+
+/** `?after=<createdAt ms>:<id>`; undefined without one and null when malformed. */
+export function parseBackfillCursor(value: string | null): EventCursorPosition | undefined | null {
+  if (!value) return undefined;
+  const separator = value.indexOf(":");
+  const createdAt = Number(value.slice(0, separator));
+  const id = value.slice(separator + 1);
+  return separator > 0 && Number.isInteger(createdAt) && id ? { createdAt, id } : null;
+}
+
+/** The `?after=` value that resumes after `position`. */
+export function formatBackfillCursor(position: EventCursorPosition | null): string | null {
+  return position ? `${position.createdAt}:${position.id}` : null;
+}
+
+export function serializeBackfillResult({ next, ...result }: BackfillResult) {
+  return { ...result, next: formatBackfillCursor(next), hasMore: next !== null };
+}
@@ -0,0 +1,19 @@
+import type { EventActor } from "@/lib/event-permissions";
+import { ForbiddenError, getUserFromReq, isTenantModerator } from "@/lib/server-auth";
+
+/**
+ * The user behind a plugin write, from the signed-in session. API keys end up
+ * in browser-visible widgets and subscription URLs, so they never stand in for
+ * a user; a claimed `userId` must match the session.
+ */
+export async function resolveEventActor(
+  req: Request,
+  tenantId: string,
+  claimedUserId?: string
+): Promise<EventActor> {
+  const user = await getUserFromReq(req);
+  if (claimedUserId && claimedUserId !== user.id) {
+    throw new ForbiddenError("userId does not match the signed-in user");
+  }
+  return { userId: user.id, isModerator: isTenantModerator(user, tenantId) };
+}
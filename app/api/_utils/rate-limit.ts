@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import type { RateLimitDecision } from "@/lib/rate-limit-store";
+import { getUserFromReq } from "@/lib/server-auth";
+
+/**
+ * Best-effort client address for keying anonymous limits. The platform proxy
+ * sets x-real-ip and appends the address it saw to x-forwarded-for; earlier
+ * x-forwarded-for hops come from the client and are ignored.
+ */
+export function getClientAddress(req: Request): string {
+  const realIp = req.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const last = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return last || "unknown";
+}
+
+/**
+ * Who a per-client quota is charged to: the signed-in user when known (pass the
+ * id already verified during tenant resolution to skip re-verifying), otherwise
+ * the client address of anonymous widget traffic.
+ */
+export async function identifyRateLimitClient(req: Request, knownUserId?: string | null): Promise<string> {
+  if (knownUserId) {
+    return `user:${knownUserId}`;
+  }
+
+  const authorization = req.headers.get("authorization")?.trim() ?? "";
+  const bearer = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : "";
+  if (bearer.split(".").length === 3) {
+    try {
+      const user = await getUserFromReq(req);
+      return `user:${user.id}`;
+    } catch {
+      // Unverifiable tokens are treated as anonymous traffic.
+    }
+  }
+
+  return `ip:${getClientAddress(req)}`;
+}
+
+function secondsUntil(timestamp: number, now: number): number {
+  return Math.max(0, Math.ceil((timestamp - now) / 1000));
+}
+
+/**
+ * `RateLimit-*` headers (IETF draft, delta-seconds reset). `Retry-After` is
+ * only meaningful on a 429 and is added there.
+ */
+export function rateLimitHeaders(decision: RateLimitDecision, now = Date.now()): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": decision.limit.toString(),
+    "RateLimit-Remaining": decision.remaining.toString(),
+    "RateLimit-Reset": secondsUntil(decision.resetAt, now).toString(),
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = Math.max(1, secondsUntil(decision.resetAt, now)).toString();
+  }
+  return headers;
+}
+
+export function applyRateLimitHeaders<T extends Response>(response: T, decision: RateLimitDecision | undefined): T {
+  if (!decision) return response;
+  for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * The one 429 shape every plugin and spontaneous route returns. `extraBody`
+ * keeps route-specific empty payloads (e.g. `events: []`) for older clients.
+ */
+export function rateLimitExceededResponse(
+  decision: RateLimitDecision,
+  extraBody: Record<string, unknown> = {},
+): NextResponse {
+  const now = Date.now();
+  const retryAfter = Math.max(1, secondsUntil(decision.resetAt, now));
+  return NextResponse.json(
+    {
+      ...extraBody,
+      error: "Rate limit exceeded",
+      message: `Too many requests. Limit: ${decision.limit}. Retry after ${retryAfter} seconds.`,
+      rateLimit: {
+        limit: decision.limit,
+        remaining: 0,
+        resetAt: decision.resetAt,
+        retryAfter,
+      },
+    },
+    { status: 429, headers: rateLimitHeaders({ ...decision, allowed: false, remaining: 0 }, now) },
+  );
+}
@@ -3,22 +3,65 @@ import {
   extractTenantIdFromRequest,
   type TenantExtractionResult,
   type TenantExtractionSources,
+  type TenantResolution,
 } from "@/app/services/tenant";
 
+type RejectedTenantResolution = Extract<TenantResolution, { status: "rejected" }>;
+
+function requestPath(req: Request): string {
+  try {
+    return new URL(req.url).pathname;
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Emit one structured audit line per tenant resolution. Sources are already
+ * redacted, so no raw API key ever reaches the logs.
+ */
+function auditTenantResolution(req: Request, context: string, extraction: TenantExtractionResult) {
+  const { resolution, sources } = extraction;
+  const entry = {
+    event: "tenant_resolution",
+    context,
+    method: req.method,
+    path: requestPath(req),
+    outcome: resolution.status,
+    ...(resolution.status === "resolved" && {
+      tenantId: resolution.tenantId,
+      via: resolution.via,
+      keyId: resolution.keyId ?? null,
+      userId: resolution.userId ?? null,
+    }),
+    ...(resolution.status === "rejected" && { reason: resolution.reason }),
+    sources,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (resolution.status === "resolved") {
+    console.info("[tenant-audit]", entry);
+  } else {
+    console.warn("[tenant-audit]", entry);
+  }
+}
+
 export async function extractTenantId(
   req: Request,
   context: string,
-): Promise<{ tenantId?: string; sources: TenantExtractionSources; parsedBody?: unknown }> {
+): Promise<{
+  tenantId?: string;
+  resolution: TenantResolution;
+  sources: TenantExtractionSources;
+  parsedBody?: unknown;
+}> {
   const extraction: TenantExtractionResult = await extractTenantIdFromRequest(req);
 
-  console.log("[TRACE tenantId]", context, extraction.sources);
-
-  if (!extraction.tenantId) {
-    console.warn(`[tenantId missing] in ${context}`);
-  }
+  auditTenantResolution(req, context, extraction);
 
   return {
     tenantId: extraction.tenantId,
+    resolution: extraction.resolution,
     sources: extraction.sources,
     parsedBody: extraction.parsedBody,
   };
@@ -35,3 +78,27 @@ export function respondMissingTenantId(context: string, sources: TenantExtractio
     { status: 400 },
   );
 }
+
+export function respondTenantRejected(context: string, resolution: RejectedTenantResolution) {
+  console.warn(`[tenantId guard] Rejecting request in ${context}: ${resolution.reason}`);
+  return NextResponse.json(
+    {
+      error: resolution.reason === "tenant_mismatch" ? "Tenant mismatch" : "Tenant not authorized",
+      message: resolution.message,
+    },
+    { status: resolution.httpStatus },
+  );
+}
+
+/**
+ * Response for any request whose tenant could not be resolved.
+ */
+export function respondUnresolvedTenant(
+  context: string,
+  { resolution, sources }: { resolution: TenantResolution; sources: TenantExtractionSources },
+) {
+  if (resolution.status === "rejected") {
+    return respondTenantRejected(context, resolution);
+  }
+  return respondMissingTenantId(context, sources);
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { currentMonth } from "@/lib/ai-usage-store";
+import { getAiValidationStats } from "@/lib/ai-validation-store";
+import { usageMonthSchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+/**
+ * How often each model's structured answers failed validation in a calendar
+ * month (`?month=YYYY-MM`, default current). Repair retries count as answers.
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const month = usageMonthSchema.parse(req.nextUrl.searchParams.get("month") ?? currentMonth());
+    const models = await getAiValidationStats(month);
+    return NextResponse.json({ data: { month, models } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("AI validation API", error);
+  }
+}
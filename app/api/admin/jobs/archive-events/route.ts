@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { archiveEndedEvents } from "@/app/services/event-archive";
+import { handleAdminError, requireJobRunner } from "@/app/api/_utils/admin";
+import { formatBackfillCursor, parseBackfillCursor } from "@/app/api/_utils/backfill";
+
+async function runArchive(req: NextRequest): Promise<NextResponse> {
+  try {
+    await requireJobRunner(req);
+    const batchSizeParam = req.nextUrl.searchParams.get("batchSize");
+    const batchSize = batchSizeParam ? parseInt(batchSizeParam, 10) : undefined;
+    const after = parseBackfillCursor(req.nextUrl.searchParams.get("after"));
+    if (after === null) {
+      return NextResponse.json({ error: "Invalid after cursor" }, { status: 400 });
+    }
+    const result = await archiveEndedEvents({
+      after,
+      batchSize: batchSize !== undefined && Number.isFinite(batchSize) ? batchSize : undefined,
+    });
+    console.info(`[Archive] Moved ${result.archived} ended hangouts to the archive`);
+    return NextResponse.json({ data: { ...result, next: formatBackfillCursor(result.next) } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Archive events job", error);
+  }
+}
+
+/**
+ * Archives hangouts that have ended. GET is for cron schedulers, POST for
+ * manual runs; both accept `?batchSize=` and `?after=` (the previous run's
+ * `data.next`).
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return runArchive(req);
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return runArchive(req);
+}
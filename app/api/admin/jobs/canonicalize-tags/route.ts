@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canonicalizeStoredTags } from "@/app/services/event-backfill";
+import { handleAdminError, requireJobRunner } from "@/app/api/_utils/admin";
+import { parseBackfillCursor, serializeBackfillResult } from "@/app/api/_utils/backfill";
+
+async function runCanonicalize(req: NextRequest): Promise<NextResponse> {
+  try {
+    await requireJobRunner(req);
+    const batchSizeParam = req.nextUrl.searchParams.get("batchSize");
+    const batchSize = batchSizeParam ? parseInt(batchSizeParam, 10) : undefined;
+    const collection = req.nextUrl.searchParams.get("collection") ?? "live";
+    if (collection !== "live" && collection !== "pending") {
+      return NextResponse.json({ error: "collection must be live or pending" }, { status: 400 });
+    }
+    const after = parseBackfillCursor(req.nextUrl.searchParams.get("after"));
+    if (after === null) {
+      return NextResponse.json({ error: "Invalid after cursor" }, { status: 400 });
+    }
+    const result = await canonicalizeStoredTags({
+      collection,
+      after,
+      batchSize: batchSize !== undefined && Number.isFinite(batchSize) ? batchSize : undefined,
+    });
+    console.info(`[Tags] Canonicalized tags on ${result.updated} of ${result.scanned} ${collection} hangouts`);
+    return NextResponse.json({ data: serializeBackfillResult(result) }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Canonicalize tags job", error);
+  }
+}
+
+/**
+ * Rewrites stored tags in the tenant's canonical form, one page per call.
+ * GET is for cron schedulers, POST for manual runs; both accept `?batchSize=`,
+ * `?collection=live|pending` and `?after=` (the previous run's `data.next`).
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return runCanonicalize(req);
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return runCanonicalize(req);
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeDeletedEvents } from "@/app/services/event-history";
+import { handleAdminError, requireJobRunner } from "@/app/api/_utils/admin";
+
+async function runPurge(req: NextRequest): Promise<NextResponse> {
+  try {
+    await requireJobRunner(req);
+    const batchSizeParam = req.nextUrl.searchParams.get("batchSize");
+    const batchSize = batchSizeParam ? parseInt(batchSizeParam, 10) : undefined;
+    const result = await purgeDeletedEvents({
+      batchSize: batchSize !== undefined && Number.isFinite(batchSize) ? batchSize : undefined,
+    });
+    console.info(`[Purge] Removed ${result.purged} deleted hangouts past their restore window`);
+    return NextResponse.json({ data: result }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Purge deleted events job", error);
+  }
+}
+
+/**
+ * Permanently removes soft-deleted hangouts once they can no longer be
+ * restored. GET is for cron schedulers, POST for manual runs; both accept
+ * `?batchSize=`.
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return runPurge(req);
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return runPurge(req);
+}
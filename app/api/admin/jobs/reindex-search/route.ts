@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reindexEventSearch } from "@/app/services/event-backfill";
+import { handleAdminError, requireJobRunner } from "@/app/api/_utils/admin";
+import { parseBackfillCursor, serializeBackfillResult } from "@/app/api/_utils/backfill";
+
+async function runReindex(req: NextRequest): Promise<NextResponse> {
+  try {
+    await requireJobRunner(req);
+    const batchSizeParam = req.nextUrl.searchParams.get("batchSize");
+    const batchSize = batchSizeParam ? parseInt(batchSizeParam, 10) : undefined;
+    const after = parseBackfillCursor(req.nextUrl.searchParams.get("after"));
+    if (after === null) {
+      return NextResponse.json({ error: "Invalid after cursor" }, { status: 400 });
+    }
+    const result = await reindexEventSearch({
+      after,
+      batchSize: batchSize !== undefined && Number.isFinite(batchSize) ? batchSize : undefined,
+    });
+    console.info(`[Reindex] Indexed ${result.updated} of ${result.scanned} hangouts for keyword search`);
+    return NextResponse.json({ data: serializeBackfillResult(result) }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Reindex search job", error);
+  }
+}
+
+/**
+ * Adds every live hangout to the keyword search index, one page per call.
+ * GET is for cron schedulers, POST for manual runs; both accept `?batchSize=`
+ * and `?after=` (the previous run's `data.next`).
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return runReindex(req);
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return runReindex(req);
+}
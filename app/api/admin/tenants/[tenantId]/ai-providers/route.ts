@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearProviderOrderCache, getProviderOrder } from "@/app/services/llm";
+import { getTenantAiProviderOrder, setTenantAiProviderOrder } from "@/lib/ai-provider-store";
+import { getLLMProviderHealth } from "@/lib/llm-provider";
+import { getTenant, TenantStoreError } from "@/lib/tenant-store";
+import { tenantAiProvidersSchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string }> };
+
+async function requireExistingTenant(tenantId: string) {
+  if (!(await getTenant(tenantId))) {
+    throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+  }
+}
+
+/**
+ * The tenant's stored failover order (null for the default), the order in
+ * effect, and this instance's view of each provider's circuit.
+ */
+export async function GET(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    await requireExistingTenant(tenantId);
+    const [providers, effective] = await Promise.all([getTenantAiProviderOrder(tenantId), getProviderOrder(tenantId)]);
+    return NextResponse.json({ data: { providers, effective, health: getLLMProviderHealth() } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant AI provider API", error);
+  }
+}
+
+/**
+ * Set the failover order; `null` goes back to the default. Other instances
+ * pick up changes within a minute.
+ */
+export async function PUT(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const { providers } = tenantAiProvidersSchema.parse(await req.json());
+    await requireExistingTenant(tenantId);
+    const saved = await setTenantAiProviderOrder(tenantId, providers);
+    clearProviderOrderCache(tenantId);
+    console.info(`[tenant-admin] ${user.id} updated the AI provider order for ${tenantId}`, saved);
+    return NextResponse.json({ data: { providers: saved, effective: await getProviderOrder(tenantId) } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant AI provider API", error);
+  }
+}
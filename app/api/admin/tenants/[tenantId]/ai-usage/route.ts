@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAiUsageSummary } from "@/app/services/ai-usage";
+import { currentMonth, setTenantAiQuota } from "@/lib/ai-usage-store";
+import { getTenant, TenantStoreError } from "@/lib/tenant-store";
+import { tenantAiQuotaSchema, usageMonthSchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+import { serializeAiUsage } from "@/app/api/_utils/ai-usage";
+
+type RouteContext = { params: Promise<{ tenantId: string }> };
+
+async function requireExistingTenant(tenantId: string) {
+  if (!(await getTenant(tenantId))) {
+    throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+  }
+}
+
+/**
+ * Token and cost usage for a calendar month (`?month=YYYY-MM`, default current).
+ */
+export async function GET(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const month = usageMonthSchema.parse(req.nextUrl.searchParams.get("month") ?? currentMonth());
+    await requireExistingTenant(tenantId);
+    const summary = await getAiUsageSummary(tenantId, month);
+    return NextResponse.json({ data: serializeAiUsage(summary) }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant AI usage API", error);
+  }
+}
+
+/**
+ * Update the monthly quota; `null` limits are unlimited.
+ */
+export async function PUT(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const quota = tenantAiQuotaSchema.parse(await req.json());
+    await requireExistingTenant(tenantId);
+    const updated = await setTenantAiQuota(tenantId, quota);
+    console.info(`[tenant-admin] ${user.id} updated AI quota for ${tenantId}`, Object.keys(quota));
+    return NextResponse.json({ data: { quota: updated } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant AI usage API", error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rotateTenantApiKey } from "@/lib/tenant-store";
+import { rotateApiKeySchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string; keyId: string }> };
+
+/**
+ * Replace a key. The previous key keeps working for `graceSeconds` (default 24 hours).
+ */
+export async function POST(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId, keyId } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const payload = rotateApiKeySchema.parse(body);
+    const result = await rotateTenantApiKey(tenantId, keyId, payload);
+    console.info(
+      `[tenant-admin] ${user.id} rotated key ${result.previous.keyPrefix}… for ${tenantId}`,
+      { previousExpiresAt: result.previous.expiresAt }
+    );
+    return NextResponse.json({ data: result }, { status: 201 });
+  } catch (error) {
+    return handleAdminError("Tenant key admin API", error);
+  }
+}
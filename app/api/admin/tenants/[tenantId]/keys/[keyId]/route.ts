@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeTenantApiKey } from "@/lib/tenant-store";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string; keyId: string }> };
+
+export async function DELETE(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId, keyId } = await context.params;
+    const key = await revokeTenantApiKey(tenantId, keyId);
+    console.info(`[tenant-admin] ${user.id} revoked key ${key.keyPrefix}… for ${tenantId}`);
+    return NextResponse.json({ data: key }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant key admin API", error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createTenantApiKey, listTenantApiKeys } from "@/lib/tenant-store";
+import { createApiKeySchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string }> };
+
+export async function GET(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const apiKeys = await listTenantApiKeys(tenantId);
+    return NextResponse.json({ data: apiKeys }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant key admin API", error);
+  }
+}
+
+/**
+ * Mint a new key. The plaintext `apiKey` is only returned in this response.
+ */
+export async function POST(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const payload = createApiKeySchema.parse(body);
+    const { apiKey, key } = await createTenantApiKey(tenantId, {
+      label: payload.label,
+      expiresAt: payload.expiresAt ? new Date(payload.expiresAt) : null,
+    });
+    console.info(`[tenant-admin] ${user.id} minted key ${key.keyPrefix}… for ${tenantId}`);
+    return NextResponse.json({ data: { apiKey, key } }, { status: 201 });
+  } catch (error) {
+    return handleAdminError("Tenant key admin API", error);
+  }
+}
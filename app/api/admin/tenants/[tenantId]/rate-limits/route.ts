@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRateLimitStatus } from "@/app/services/rate-limit";
+import { getTenant, getTenantRateLimits, setTenantRateLimits, TenantStoreError } from "@/lib/tenant-store";
+import { tenantRateLimitsSchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string }> };
+
+/**
+ * Stored overrides plus the live, read-only usage for each limit type.
+ */
+export async function GET(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    if (!(await getTenant(tenantId))) {
+      throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+    }
+    const [overrides, status] = await Promise.all([getTenantRateLimits(tenantId), getRateLimitStatus(tenantId)]);
+    return NextResponse.json({ data: { overrides, status } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant rate limit API", error);
+  }
+}
+
+/**
+ * Upsert per-tenant overrides. Instances pick up changes within a minute.
+ */
+export async function PUT(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const limits = tenantRateLimitsSchema.parse(await req.json());
+    const overrides = await setTenantRateLimits(tenantId, limits);
+    console.info(`[tenant-admin] ${user.id} updated rate limits for ${tenantId}`, Object.keys(limits));
+    return NextResponse.json({ data: { overrides } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant rate limit API", error);
+  }
+}
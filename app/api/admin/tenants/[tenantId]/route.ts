@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTenant, listTenantApiKeys, TenantStoreError, updateTenant } from "@/lib/tenant-store";
+import { updateTenantSchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string }> };
+
+export async function GET(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const tenant = await getTenant(tenantId);
+    if (!tenant) {
+      throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+    }
+    const apiKeys = await listTenantApiKeys(tenantId);
+    return NextResponse.json({ data: { ...tenant, apiKeys } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant admin API", error);
+  }
+}
+
+/**
+ * Update name, enabled state or branding. Send `enabled: false` to disable a tenant; its keys
+ * stop resolving immediately. Branding fields set to null revert to platform defaults.
+ */
+export async function PATCH(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const patch = updateTenantSchema.parse(await req.json());
+    const tenant = await updateTenant(tenantId, patch);
+    console.info(`[tenant-admin] ${user.id} updated tenant ${tenantId}`, Object.keys(patch));
+    return NextResponse.json({ data: tenant }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant admin API", error);
+  }
+}
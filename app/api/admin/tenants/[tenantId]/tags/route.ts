@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearTagTaxonomyCache, getTagTaxonomy } from "@/app/services/tags";
+import { DEFAULT_TAG_VOCABULARY } from "@/lib/tag-taxonomy";
+import { getTenantTagVocabulary, setTenantTagVocabulary } from "@/lib/tag-vocabulary-store";
+import { getTenant, TenantStoreError } from "@/lib/tenant-store";
+import { tenantTagVocabularySchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+type RouteContext = { params: Promise<{ tenantId: string }> };
+
+async function requireExistingTenant(tenantId: string) {
+  if (!(await getTenant(tenantId))) {
+    throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+  }
+}
+
+/**
+ * The tenant's own tags, the built-in ones, and the vocabulary in effect.
+ */
+export async function GET(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    await requireExistingTenant(tenantId);
+    const [tags, taxonomy] = await Promise.all([getTenantTagVocabulary(tenantId), getTagTaxonomy(tenantId)]);
+    return NextResponse.json(
+      { data: { tags, defaults: DEFAULT_TAG_VOCABULARY, effective: taxonomy.vocabulary } },
+      { status: 200 },
+    );
+  } catch (error) {
+    return handleAdminError("Tenant tag vocabulary API", error);
+  }
+}
+
+/**
+ * Replace the tenant's own tags. Other instances pick up changes within a minute.
+ */
+export async function PUT(req: NextRequest, context: RouteContext): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const { tenantId } = await context.params;
+    const { tags } = tenantTagVocabularySchema.parse(await req.json());
+    await requireExistingTenant(tenantId);
+    const saved = await setTenantTagVocabulary(tenantId, tags);
+    clearTagTaxonomyCache(tenantId);
+    console.info(`[tenant-admin] ${user.id} updated the tag vocabulary for ${tenantId}`, saved.length);
+    return NextResponse.json({ data: { tags: saved } }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant tag vocabulary API", error);
+  }
+}
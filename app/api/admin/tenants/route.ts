@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createTenant, listTenants } from "@/lib/tenant-store";
+import { createTenantSchema } from "@/lib/validation/tenant-schema";
+import { handleAdminError, requireTenantAdmin } from "@/app/api/_utils/admin";
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  try {
+    await requireTenantAdmin(req);
+    const tenants = await listTenants();
+    return NextResponse.json({ data: tenants }, { status: 200 });
+  } catch (error) {
+    return handleAdminError("Tenant admin API", error);
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireTenantAdmin(req);
+    const payload = createTenantSchema.parse(await req.json());
+    const tenant = await createTenant(payload);
+    console.info(`[tenant-admin] ${user.id} created tenant ${tenant.tenantId}`);
+    return NextResponse.json({ data: tenant }, { status: 201 });
+  } catch (error) {
+    return handleAdminError("Tenant admin API", error);
+  }
+}
@@ -1,19 +1,8 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
+import { generateText } from "@/app/services/llm";
 
 export async function POST(req: Request) {
   try {
-    const apiKey = process.env.OPENAI_KEY || process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
-      console.error("OpenAI API key not configured");
-      return NextResponse.json(
-        { error: "OpenAI API key not configured" },
-        { status: 500 }
-      );
-    }
-
-    const openai = new OpenAI({ apiKey });
     const { location } = await req.json();
     
     const prompt = `
@@ -21,15 +10,16 @@ export async function POST(req: Request) {
       Output JSON with keys: title (string), description (string), tags (array of strings), location {lat, lng}.
     `;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await generateText({
+      tenantId: null,
+      route: "/api/generate-event",
       messages: [{ role: "user", content: prompt }],
     });
 
-    const content = completion.choices[0]?.message?.content;
+    const content = completion.text;
     
     if (!content) {
-      console.error("No content received from OpenAI");
+      console.error("No content received from the AI provider");
       return NextResponse.json(
         { error: "No response from AI" },
         { status: 500 }
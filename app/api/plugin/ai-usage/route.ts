@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getAiUsageSummary } from "@/app/services/ai-usage";
+import { checkRateLimit } from "@/app/services/rate-limit";
+import { currentMonth } from "@/lib/ai-usage-store";
+import { usageMonthSchema } from "@/lib/validation/tenant-schema";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { serializeAiUsage } from "@/app/api/_utils/ai-usage";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The calling tenant's AI usage for a month, for partner dashboards.
+ */
+export async function GET(req: Request) {
+  const { tenantId, resolution, sources } = await extractTenantId(req, "/app/api/plugin/ai-usage");
+
+  if (!tenantId) {
+    return respondUnresolvedTenant("/app/api/plugin/ai-usage", { resolution, sources });
+  }
+
+  const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+  if (!rateLimitCheck.allowed) {
+    return rateLimitExceededResponse(rateLimitCheck);
+  }
+
+  const monthCheck = usageMonthSchema.safeParse(new URL(req.url).searchParams.get("month") ?? currentMonth());
+  if (!monthCheck.success) {
+    return applyRateLimitHeaders(
+      NextResponse.json(
+        { error: "Invalid month", message: monthCheck.error.errors[0]?.message ?? "Invalid month" },
+        { status: 400 },
+      ),
+      rateLimitCheck,
+    );
+  }
+
+  try {
+    const summary = await getAiUsageSummary(tenantId, monthCheck.data);
+    return applyRateLimitHeaders(
+      NextResponse.json(serializeAiUsage(summary), { headers: { "Cache-Control": "no-store" } }),
+      rateLimitCheck,
+    );
+  } catch (error) {
+    console.error("[ai-usage] Failed to load usage summary", error);
+    return applyRateLimitHeaders(
+      NextResponse.json(
+        { error: "Failed to load AI usage", message: "Usage data is temporarily unavailable" },
+        { status: 500 },
+      ),
+      rateLimitCheck,
+    );
+  }
+}
@@ -1,52 +1,35 @@
 import { NextResponse } from "next/server";
-import { deleteEvent } from "@/app/services/events";
-import { getTenantId } from "@/app/services/tenant";
+import {
+  cancelFollowingOccurrences,
+  cancelOccurrence,
+  deleteEvent,
+  type DeletedEventMarker,
+} from "@/app/services/events";
+import { describeDeletion } from "@/app/services/event-history";
 import { checkRateLimit } from "@/app/services/rate-limit";
-import { extractTenantId, respondMissingTenantId } from "@/app/api/_utils/tenant";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { resolveEventActor } from "@/app/api/_utils/event-actor";
+import { EventAccessError } from "@/lib/event-permissions";
+import { parseOccurrenceId, RecurrenceError } from "@/lib/recurrence";
+import { ForbiddenError, UnauthorizedError } from "@/lib/server-auth";
 
+/**
+ * Deletes a hangout. For recurring hangouts, `scope=this` cancels one
+ * occurrence and `scope=following` it and every later one, with the
+ * occurrence given by `occurrenceStart` or an occurrence id as `eventId`
+ * (which defaults the scope to `this`).
+ */
 export async function DELETE(req: Request) {
   try {
-    const { tenantId: extractedTenantId, sources, parsedBody } = await extractTenantId(
-      req,
-      "/app/api/plugin/delete-event",
-    );
+    const { tenantId, resolution, sources } = await extractTenantId(req, "/app/api/plugin/delete-event");
 
     const { searchParams } = new URL(req.url);
-    const eventId = searchParams.get("eventId");
+    const occurrence = parseOccurrenceId(searchParams.get("eventId") ?? "");
+    const eventId = occurrence?.seriesId ?? searchParams.get("eventId");
     const userId = searchParams.get("userId");
-    const tenantIdQuery = searchParams.get("tenantId");
-    const apiKeyQuery = searchParams.get("apiKey");
-
-    let bodyTenantId: string | null = null;
-    let bodyApiKey: string | null = null;
-    if (parsedBody && typeof parsedBody === "object") {
-      const bodyRecord = parsedBody as Record<string, unknown>;
-      if (typeof bodyRecord.tenantId === "string" && bodyRecord.tenantId.trim().length > 0) {
-        bodyTenantId = bodyRecord.tenantId.trim();
-      }
-      if (typeof bodyRecord.apiKey === "string" && bodyRecord.apiKey.trim().length > 0) {
-        bodyApiKey = bodyRecord.apiKey.trim();
-      }
-    }
-
-    const apiKeyCandidate =
-      apiKeyQuery ??
-      bodyApiKey ??
-      sources.bodyApiKey ??
-      sources.queryApiKey ??
-      sources.headerApiKey ??
-      null;
-
-    const tenantIdCandidate =
-      extractedTenantId ??
-      tenantIdQuery ??
-      bodyTenantId ??
-      sources.bodyTenantId ??
-      sources.queryTenantId ??
-      sources.headerTenantId ??
-      undefined;
-
-    const tenantId = getTenantId(apiKeyCandidate || undefined, tenantIdCandidate || undefined) ?? undefined;
+    const occurrenceStart = searchParams.get("occurrenceStart") ?? occurrence?.occurrenceStart;
+    const scope = searchParams.get("scope") ?? (occurrence ? "this" : "series");
 
     if (!eventId || !userId) {
       return NextResponse.json(
@@ -55,33 +38,59 @@ export async function DELETE(req: Request) {
       );
     }
 
+    if (!["series", "this", "following"].includes(scope) || (scope !== "series" && !occurrenceStart)) {
+      return NextResponse.json(
+        {
+          error: "Invalid scope",
+          message: "scope must be series, this or following; this and following need occurrenceStart",
+        },
+        { status: 400 },
+      );
+    }
+
     if (!tenantId) {
-      const traceSources = { ...sources, apiKey: apiKeyCandidate, tenantIdCandidate: tenantIdCandidate ?? null };
-      return respondMissingTenantId("/app/api/plugin/delete-event", traceSources);
+      return respondUnresolvedTenant("/app/api/plugin/delete-event", { resolution, sources });
     }
 
-    const rateLimitCheck = checkRateLimit(tenantId, "requests");
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
     if (!rateLimitCheck.allowed) {
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded",
-          message: `Too many requests. Limit: ${rateLimitCheck.limit} per minute. Reset at: ${new Date(rateLimitCheck.resetAt).toISOString()}`,
-        },
-        {
-          status: 429,
-          headers: {
-            "X-RateLimit-Limit": rateLimitCheck.limit.toString(),
-            "X-RateLimit-Remaining": "0",
-            "X-RateLimit-Reset": rateLimitCheck.resetAt.toString(),
-            "Retry-After": Math.ceil((rateLimitCheck.resetAt - Date.now()) / 1000).toString(),
-          },
-        },
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const actor = await resolveEventActor(req, tenantId, userId);
+    if (scope === "this") {
+      const revision = await cancelOccurrence(eventId, occurrenceStart as string, tenantId, actor);
+      return applyRateLimitHeaders(
+        NextResponse.json({ success: true, tenantId, revisionId: revision?.id ?? null }),
+        rateLimitCheck,
       );
     }
 
-    await deleteEvent(eventId, tenantId);
-    return NextResponse.json({ success: true, tenantId });
+    let marker: DeletedEventMarker;
+    if (scope === "following") {
+      const { revision, deleted } = await cancelFollowingOccurrences(eventId, occurrenceStart as string, tenantId, actor);
+      if (!deleted) {
+        return applyRateLimitHeaders(
+          NextResponse.json({ success: true, tenantId, revisionId: revision?.id ?? null }),
+          rateLimitCheck,
+        );
+      }
+      marker = deleted;
+    } else {
+      // Soft delete; restorable through /api/plugin/event-history until restoreUntil
+      marker = await deleteEvent(eventId, tenantId, actor);
+    }
+    const { restoreUntil } = describeDeletion(marker);
+    return applyRateLimitHeaders(NextResponse.json({ success: true, tenantId, restoreUntil }), rateLimitCheck);
   } catch (err) {
+    if (
+      err instanceof EventAccessError ||
+      err instanceof UnauthorizedError ||
+      err instanceof ForbiddenError ||
+      err instanceof RecurrenceError
+    ) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("=== DELETE EVENT ERROR ===", err);
     const message = err instanceof Error ? err.message : "Failed to delete event";
     return NextResponse.json({ error: "Failed to delete event", message }, { status: 500 });
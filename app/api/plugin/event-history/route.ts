@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { EventHistoryError, getEventHistory, restoreEvent, revertRevision } from "@/app/services/event-history";
+import { checkRateLimit } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { requireTenantModerator } from "@/app/api/_utils/admin";
+import { EventAccessError } from "@/lib/event-permissions";
+import { ForbiddenError, getUserFromReq, isTenantModerator, UnauthorizedError } from "@/lib/server-auth";
+
+const ROUTE = "/app/api/plugin/event-history";
+
+function handleHistoryError(err: unknown): NextResponse {
+  if (
+    err instanceof EventHistoryError ||
+    err instanceof EventAccessError ||
+    err instanceof UnauthorizedError ||
+    err instanceof ForbiddenError
+  ) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error("=== EVENT HISTORY ERROR ===", err);
+  const message = err instanceof Error ? err.message : "Failed to process event history";
+  return NextResponse.json({ error: "Failed to process event history", message }, { status: 500 });
+}
+
+function parsePositiveInt(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Revisions of `?eventId=` (or of the whole tenant), newest first, for tenant
+ * moderators. Page back with `?before=<revision id>`.
+ */
+export async function GET(req: Request) {
+  try {
+    const { tenantId, resolution, sources } = await extractTenantId(req, ROUTE);
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const eventId = searchParams.get("eventId") || undefined;
+    const before = parsePositiveInt(searchParams.get("before"));
+    const limit = parsePositiveInt(searchParams.get("limit"));
+    if (before === null || limit === null) {
+      return NextResponse.json(
+        { error: "Invalid request", message: "before and limit must be positive integers" },
+        { status: 400 },
+      );
+    }
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    await requireTenantModerator(req, tenantId);
+    const history = await getEventHistory({ tenantId, eventId, before, limit });
+    return applyRateLimitHeaders(NextResponse.json({ ...history, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleHistoryError(err);
+  }
+}
+
+/**
+ * `{ action: "restore", eventId }` brings back a deleted hangout;
+ * `{ action: "revert", revisionId }` undoes one revision (moderators only).
+ */
+export async function POST(req: Request) {
+  try {
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(req, ROUTE);
+
+    let data: Record<string, unknown>;
+    if (parsedBody && typeof parsedBody === "object") {
+      data = parsedBody as Record<string, unknown>;
+    } else {
+      try {
+        const body = await req.json();
+        data = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON in request body", message: "Request body must be valid JSON" },
+          { status: 400 },
+        );
+      }
+    }
+
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const { action, eventId, revisionId } = data;
+    if (action === "restore" ? typeof eventId !== "string" || !eventId : action !== "revert") {
+      return NextResponse.json(
+        { error: "Invalid request", message: "Send action restore with eventId, or action revert with revisionId" },
+        { status: 400 },
+      );
+    }
+    if (action === "revert" && (typeof revisionId !== "number" || !Number.isInteger(revisionId))) {
+      return NextResponse.json(
+        { error: "Invalid request", message: "revisionId must be an integer" },
+        { status: 400 },
+      );
+    }
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    if (action === "restore") {
+      const user = await getUserFromReq(req);
+      const result = await restoreEvent({
+        eventId: eventId as string,
+        tenantId,
+        actorId: user.id,
+        isModerator: isTenantModerator(user, tenantId),
+      });
+      return applyRateLimitHeaders(NextResponse.json({ ...result, tenantId }), rateLimitCheck);
+    }
+
+    const moderator = await requireTenantModerator(req, tenantId);
+    const revision = await revertRevision({ revisionId: revisionId as number, tenantId, actorId: moderator.id });
+    return applyRateLimitHeaders(NextResponse.json({ revision, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleHistoryError(err);
+  }
+}
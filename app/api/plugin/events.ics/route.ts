@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { fetchUpcomingEvents } from "@/app/services/events";
+import { checkRateLimit } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { buildCalendar } from "@/lib/ical";
+
+const ROUTE = "/app/api/plugin/events.ics";
+const MAX_FEED_EVENTS = 200;
+const DEFAULT_RADIUS_KM = 25;
+const MAX_RADIUS_KM = 500;
+// Hangouts stay in the feed for a day after they start, so calendars keep today's
+const FEED_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const FEED_HORIZON_DAYS = 90;
+
+/**
+ * Calendar subscription feed of a tenant's upcoming hangouts. Calendar apps
+ * cannot send headers, so the API key usually comes as `?apiKey=`. Filters:
+ * `tags` (comma-separated) and `near=lat,lng` with `radiusKm`. A failed read
+ * returns 503, so subscribed calendars keep their copy instead of emptying it.
+ */
+export async function GET(req: Request) {
+  try {
+    const { tenantId, resolution, sources } = await extractTenantId(req, ROUTE);
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const tags = (searchParams.get("tags") ?? "")
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0);
+
+    const nearParam = searchParams.get("near");
+    const [lat, lng] = (nearParam ?? "").split(",").map((part) => parseFloat(part));
+    const near = Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+    if (nearParam && !near) {
+      return NextResponse.json(
+        { error: "Invalid location query", message: "near must be a valid lat,lng" },
+        { status: 400 },
+      );
+    }
+    const requestedRadius = parseFloat(searchParams.get("radiusKm") ?? "");
+    const radiusKm = Number.isFinite(requestedRadius)
+      ? Math.min(Math.max(requestedRadius, 0.1), MAX_RADIUS_KM)
+      : DEFAULT_RADIUS_KM;
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const now = Date.now();
+    const events = await fetchUpcomingEvents({
+      tenantId,
+      startsAfter: new Date(now - FEED_LOOKBACK_MS),
+      startsBefore: new Date(now + FEED_HORIZON_DAYS * 86_400_000),
+      tags: tags.length > 0 ? tags : undefined,
+      near: near ?? undefined,
+      radiusKm,
+      limit: MAX_FEED_EVENTS,
+    });
+
+    const calendar = buildCalendar(events, { name: tags.length > 0 ? `Hangouts: ${tags.join(", ")}` : "Hangouts" });
+    return applyRateLimitHeaders(
+      new NextResponse(calendar, {
+        status: 200,
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="hangouts.ics"',
+          "Cache-Control": "private, max-age=300",
+        },
+      }),
+      rateLimitCheck,
+    );
+  } catch (err) {
+    console.error("=== EVENTS ICS ERROR ===", err);
+    const message = err instanceof Error ? err.message : "Failed to build calendar";
+    return NextResponse.json(
+      { error: "Failed to build calendar", message },
+      { status: 503, headers: { "Retry-After": "300" } },
+    );
+  }
+}
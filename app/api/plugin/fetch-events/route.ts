@@ -1,9 +1,30 @@
 import { NextResponse } from "next/server";
-import { fetchUserEvents } from "@/app/services/events";
+import { fetchUserEvents, fetchUserEventsPaginated } from "@/app/services/events";
+import { getTagTaxonomy } from "@/app/services/tags";
 import { generateLocalAISuggestions, type WeatherContext } from "@/app/services/ai";
-import { checkRateLimit } from "@/app/services/rate-limit";
+import { checkAiRateLimit, checkRateLimit } from "@/app/services/rate-limit";
 import { fetchSpontaneousData, type SpontaneousCard } from "@/lib/fetchSpontaneousData";
-import { extractTenantId, respondMissingTenantId } from "@/app/api/_utils/tenant";
+import {
+  compareFeedPositions,
+  decodeEventCursor,
+  encodeEventCursor,
+  filtersMatch,
+  InvalidCursorError,
+  isAfterCursor,
+  type CursorFilters,
+  type EventCursor,
+  type EventCursorPosition,
+  type FeedOrder,
+} from "@/lib/pagination-cursor";
+import { haversineDistanceKm, type GeoPoint } from "@/lib/geohash";
+import { matchesTimeWindow, parseTimeBoundary, type TimeWindow } from "@/lib/event-schedule";
+import { MAX_SEARCH_QUERY_LENGTH } from "@/lib/event-search";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import {
+  applyRateLimitHeaders,
+  identifyRateLimitClient,
+  rateLimitExceededResponse,
+} from "@/app/api/_utils/rate-limit";
 
 // Enhanced in-memory cache for AI events with incremental updates support
 interface CacheEntry {
@@ -16,6 +37,12 @@ interface CacheEntry {
 const aiEventCache: Map<string, CacheEntry> = new Map();
 const DEFAULT_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 const DEFAULT_COORDS = { lat: 38.9072, lng: -77.0369 };
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_RADIUS_KM = 25;
+const MAX_RADIUS_KM = 500;
+// Radius, keyword and time-window queries load every match up front and page through them in memory
+const MAX_RANKED_RESULTS = 500;
 
 /**
  * Clean up expired cache entries
@@ -43,6 +70,9 @@ interface EventResponse {
   tenantId?: string;
   createdAt?: string | Date;
   startTime?: string;
+  endTime?: string;
+  distanceKm?: number;
+  relevance?: number;
 }
 
 import type { FirestoreEventRecord } from "@/types/firestore";
@@ -86,6 +116,21 @@ const resolveEventDate = (value?: unknown): Date => {
   return new Date();
 };
 
+const toFeedPosition = (event: EventResponse): EventCursorPosition => ({
+  createdAt: resolveEventDate(event.createdAt).getTime(),
+  id: event.id,
+  ...(typeof event.distanceKm === "number" ? { distanceKm: event.distanceKm } : {}),
+  ...(typeof event.relevance === "number" ? { relevance: event.relevance } : {}),
+});
+
+const parseGeoPoint = (lat: string | null | undefined, lng: string | null | undefined): GeoPoint | null => {
+  const parsedLat = lat ? parseFloat(lat) : Number.NaN;
+  const parsedLng = lng ? parseFloat(lng) : Number.NaN;
+  if (!Number.isFinite(parsedLat) || !Number.isFinite(parsedLng)) return null;
+  if (Math.abs(parsedLat) > 90 || Math.abs(parsedLng) > 180) return null;
+  return { lat: parsedLat, lng: parsedLng };
+};
+
 const sanitizeText = (value?: unknown): string | undefined => {
   if (typeof value !== "string") {
     return undefined;
@@ -225,7 +270,7 @@ export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
 
-    const { tenantId, sources, parsedBody } = await extractTenantId(
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(
       req,
       "/app/api/plugin/fetch-events",
     );
@@ -239,39 +284,19 @@ export async function GET(req: Request) {
       req.headers.get("x-api-key");
 
     if (!resolvedTenantId) {
-      return respondMissingTenantId("/app/api/plugin/fetch-events", sources);
+      return respondUnresolvedTenant("/app/api/plugin/fetch-events", { resolution, sources });
     }
 
-    const rateLimitCheck = checkRateLimit(resolvedTenantId, "requests");
+    const rateLimitCheck = await checkRateLimit(resolvedTenantId, "requests");
     if (!rateLimitCheck.allowed) {
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded",
-          message: `Too many requests. Limit: ${rateLimitCheck.limit} per minute. Reset at: ${new Date(rateLimitCheck.resetAt).toISOString()}`,
-          events: [],
-          meta: {},
-          rateLimit: {
-            remaining: 0,
-            resetAt: rateLimitCheck.resetAt,
-            limit: rateLimitCheck.limit,
-          },
-        },
-        {
-          status: 429,
-          headers: {
-            "X-RateLimit-Limit": rateLimitCheck.limit.toString(),
-            "X-RateLimit-Remaining": "0",
-            "X-RateLimit-Reset": rateLimitCheck.resetAt.toString(),
-            "Retry-After": Math.ceil((rateLimitCheck.resetAt - Date.now()) / 1000).toString(),
-          },
-        }
-      );
+      return rateLimitExceededResponse(rateLimitCheck, { events: [], meta: {} });
     }
 
 // Parse query parameters
-    const limit = searchParams.get("limit") 
-      ? parseInt(searchParams.get("limit")!, 10) 
-      : 50;
+    const requestedLimit = parseInt(searchParams.get("limit") ?? "", 10);
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
     const location = searchParams.get("location") || "New York";
     const userLatParam = searchParams.get("userLat");
     const userLngParam = searchParams.get("userLng");
@@ -285,25 +310,170 @@ export async function GET(req: Request) {
     const parsedTags = tagsParam ? tagsParam.split(",").map(t => t.trim()).filter(t => t.length > 0) : undefined;
     const tags = pruneOutdoorTags(parsedTags, avoidOutdoor);
     const createdBy = searchParams.get("createdBy") || undefined;
-    const sortBy = searchParams.get("sortBy") || "newest"; // newest, nearest (future)
+    // Keyword search over title, description, tags and host name; best match first unless sortBy says otherwise
+    const q = sanitizeText(searchParams.get("q"));
+    if (q && q.length > MAX_SEARCH_QUERY_LENGTH) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          {
+            error: "Invalid search query",
+            message: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`,
+            events: [],
+            meta: {},
+          },
+          { status: 400 },
+        ),
+        rateLimitCheck,
+      );
+    }
+    const sortBy = searchParams.get("sortBy") || (q ? "relevance" : "newest");
+
+    // Radius filtering and nearest sorting: `near=lat,lng` (or userLat/userLng) plus `radiusKm`
+    const nearParam = searchParams.get("near");
+    const radiusParam = searchParams.get("radiusKm");
+    const [nearLat, nearLng] = nearParam ? nearParam.split(",").map((part) => part.trim()) : [];
+    const geoCenter = nearParam
+      ? parseGeoPoint(nearLat, nearLng)
+      : sortBy === "nearest" || radiusParam
+      ? parseGeoPoint(userLatParam, userLngParam)
+      : null;
+    const requestedRadius = radiusParam ? parseFloat(radiusParam) : DEFAULT_RADIUS_KM;
+    const radiusKm = Number.isFinite(requestedRadius)
+      ? Math.min(Math.max(requestedRadius, 0.1), MAX_RADIUS_KM)
+      : DEFAULT_RADIUS_KM;
+
+    if (
+      (sortBy !== "newest" && sortBy !== "nearest" && sortBy !== "relevance") ||
+      (sortBy === "relevance" && !q) ||
+      (!geoCenter && (sortBy === "nearest" || nearParam || radiusParam))
+    ) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          {
+            error: "Invalid location query",
+            message:
+              "sortBy must be newest, nearest or relevance (with q); nearest and radiusKm need a valid near=lat,lng (or userLat and userLng)",
+            events: [],
+            meta: {},
+          },
+          { status: 400 },
+        ),
+        rateLimitCheck,
+      );
+    }
+    const feedOrder: FeedOrder = sortBy;
+
+    // Time windows on startTime: ISO dates or epoch ms, plus happeningNow=true
+    const startsAfterParam = searchParams.get("startsAfter");
+    const startsBeforeParam = searchParams.get("startsBefore");
+    const happeningNowParam = searchParams.get("happeningNow");
+    const startsAfter = startsAfterParam ? parseTimeBoundary(startsAfterParam) : null;
+    const startsBefore = startsBeforeParam ? parseTimeBoundary(startsBeforeParam) : null;
+    const happeningNow = happeningNowParam === "true";
+    if (
+      (startsAfterParam && !startsAfter) ||
+      (startsBeforeParam && !startsBefore) ||
+      (happeningNowParam !== null && happeningNowParam !== "true" && happeningNowParam !== "false")
+    ) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          {
+            error: "Invalid time window",
+            message: "startsAfter and startsBefore must be ISO dates or epoch milliseconds; happeningNow must be true or false",
+            events: [],
+            meta: {},
+          },
+          { status: 400 },
+        ),
+        rateLimitCheck,
+      );
+    }
+    const timeWindow: TimeWindow = {
+      startsAfter: startsAfter ?? undefined,
+      startsBefore: startsBefore ?? undefined,
+      happeningNow,
+    };
     
     // Incremental updates: only fetch events created after this timestamp
     const sinceTimestamp = searchParams.get("since");
     const sinceDate = sinceTimestamp ? new Date(parseInt(sinceTimestamp, 10)) : undefined;
 
-    // Fetch user events with filters (tenant-filtered)
+    // Cursor pagination: the cursor is bound to the tenant and to these filters
+    const cursorFilters: CursorFilters = {
+      tags: tags ?? [],
+      createdBy: createdBy ?? null,
+      since: sinceDate ? sinceDate.getTime() : null,
+      includeAI,
+      location,
+      sortBy: feedOrder,
+      near: geoCenter ? `${geoCenter.lat},${geoCenter.lng}` : null,
+      radiusKm: geoCenter ? radiusKm : null,
+      startsAfter: startsAfter ? startsAfter.getTime() : null,
+      startsBefore: startsBefore ? startsBefore.getTime() : null,
+      happeningNow,
+      q: q ?? null,
+    };
+    const cursorParam = searchParams.get("cursor");
+    let cursor: EventCursor | null = null;
+    if (cursorParam) {
+      try {
+        cursor = decodeEventCursor(cursorParam);
+        if (cursor.tenantId !== resolvedTenantId || !filtersMatch(cursor.filters, cursorFilters)) {
+          throw new InvalidCursorError("Cursor does not match this tenant or the current filters");
+        }
+      } catch (cursorError) {
+        if (!(cursorError instanceof InvalidCursorError)) throw cursorError;
+        return applyRateLimitHeaders(
+          NextResponse.json(
+            { error: "Invalid cursor", message: cursorError.message, events: [], meta: {} },
+            { status: cursorError.status },
+          ),
+          rateLimitCheck,
+        );
+      }
+    }
+
+    // Fetch one page of user events with filters (tenant-filtered), resuming after the cursor
     // If sinceDate is provided, only fetch events created after that date (incremental updates)
-    const userEvents = (await fetchUserEvents({
-      limit: sinceDate ? 1000 : limit, // Fetch more if incremental to filter properly
-      tags,
-      createdBy,
-      tenantId, // Multi-tenant filtering
-    })) as FirestoreEventRecord[];
-    
-    // Filter by timestamp if incremental update requested
-    const filteredUserEvents = sinceDate 
-      ? userEvents.filter((event) => resolveEventDate(event.createdAt) > sinceDate)
-      : userEvents;
+    let filteredUserEvents: FirestoreEventRecord[];
+    let userHasMore = false;
+    if (geoCenter || q || startsAfter || startsBefore || happeningNow) {
+      // Radius, keyword and time-window queries return every match, with recurring events expanded
+      // into their occurrences; since and the cursor apply in memory
+      const rankedEvents = await fetchUserEvents({
+        limit: MAX_RANKED_RESULTS,
+        tags,
+        createdBy,
+        tenantId, // Multi-tenant filtering
+        ...(geoCenter ? { near: geoCenter, radiusKm } : {}),
+        q,
+        ...timeWindow,
+      });
+      filteredUserEvents = rankedEvents.filter((event) => {
+        const createdAt = resolveEventDate(event.createdAt);
+        if (sinceDate && createdAt <= sinceDate) return false;
+        return (
+          !cursor ||
+          isAfterCursor(
+            { createdAt: createdAt.getTime(), id: event.id ?? "", distanceKm: event.distanceKm, relevance: event.relevance },
+            cursor,
+            feedOrder,
+          )
+        );
+      }) as FirestoreEventRecord[];
+    } else {
+      const userPage = await fetchUserEventsPaginated({
+        limit,
+        tags,
+        createdBy,
+        tenantId, // Multi-tenant filtering
+        createdAfter: sinceDate,
+        after: cursor ?? undefined,
+        ...timeWindow,
+      });
+      filteredUserEvents = userPage.events as FirestoreEventRecord[];
+      userHasMore = userPage.hasMore;
+    }
 
     // Normalize user events to consistent schema
     const normalizedUserEvents: EventResponse[] = filteredUserEvents.map((event, index) => {
@@ -346,13 +516,20 @@ export async function GET(req: Request) {
           typeof event.startTime === "string" && event.startTime.trim().length > 0
             ? event.startTime
             : undefined,
+        endTime:
+          typeof event.endTime === "string" && event.endTime.trim().length > 0
+            ? event.endTime
+            : undefined,
+        ...(typeof event.distanceKm === "number" ? { distanceKm: event.distanceKm } : {}),
+        ...(typeof event.relevance === "number" ? { relevance: event.relevance } : {}),
       };
     });
 
     let allEvents: EventResponse[] = [...normalizedUserEvents];
 
-        // Optionally include AI event (with tenant-specific caching and incremental updates)
-        if (includeAI) {
+        // Optionally include AI event (with tenant-specific caching and incremental updates).
+        // AI suggestions do not match keywords, so searches leave them out.
+        if (includeAI && !q) {
           try {
             // Get cache duration from query params (in minutes, default 5)
             const cacheDurationParam = searchParams.get("cacheDuration");
@@ -371,9 +548,15 @@ export async function GET(req: Request) {
               // Use cached event (incremental update - no new AI generation)
               aiEventsForResponse = Array.isArray(cached.event) ? cached.event : [cached.event];
               console.log(`[Cache Hit] Using cached AI event for ${tenantId} at ${location}`);
+            } else if (cursor) {
+              // Later pages never generate; AI events only come from the first page's cache
+              aiEventsForResponse = [];
             } else {
               // Rate limiting: Check AI event generation limit (only if not cached)
-              const aiRateLimit = checkRateLimit(tenantId, "aiEvents");
+              const aiRateLimit = await checkAiRateLimit(
+                tenantId,
+                await identifyRateLimitClient(req, resolution.status === "resolved" ? resolution.userId : undefined),
+              );
               if (!aiRateLimit.allowed) {
                 console.warn(`[Rate Limit] AI event generation limit exceeded for ${tenantId}`);
                 // Return cached event if available, otherwise skip AI event
@@ -391,7 +574,7 @@ export async function GET(req: Request) {
                         lat: parseFloat(userLatParam),
                         lng: parseFloat(userLngParam),
                       }
-                    : undefined;
+                    : geoCenter ?? undefined;
                 const hasValidCoordinates =
                   coordinatesCandidate &&
                   Number.isFinite(coordinatesCandidate.lat) &&
@@ -407,6 +590,7 @@ export async function GET(req: Request) {
                     mood: mood || undefined,
                     preferences: tags ?? undefined,
                     requestedAt: new Date().toISOString(),
+                    taxonomy: await getTagTaxonomy(tenantId),
                   });
                 } catch (aggregateError) {
                   console.warn("Failed to aggregate spontaneous data for AI prompt:", aggregateError);
@@ -455,7 +639,21 @@ export async function GET(req: Request) {
             // Periodic cleanup of expired cache entries
             cleanupCache(cacheDuration);
             
-            allEvents = [...aiEventsForResponse, ...normalizedUserEvents];
+            // AI events are placed relative to this request's location query
+            const locatedAiEvents = geoCenter
+              ? aiEventsForResponse
+                  .map((event) => ({
+                    ...event,
+                    distanceKm: Math.round(haversineDistanceKm(geoCenter, event.location) * 1000) / 1000,
+                  }))
+                  .filter((event) => event.distanceKm <= radiusKm)
+              : aiEventsForResponse;
+            const pageAiEvents = locatedAiEvents.filter(
+              (event) =>
+                matchesTimeWindow(event, timeWindow) &&
+                (!cursor || isAfterCursor(toFeedPosition(event), cursor, feedOrder)),
+            );
+            allEvents = [...pageAiEvents, ...normalizedUserEvents];
           } catch (aiError) {
             const message = aiError instanceof Error ? aiError.message : "Unknown AI generation error";
             console.warn("Failed to generate AI event:", message);
@@ -463,31 +661,43 @@ export async function GET(req: Request) {
           }
         }
 
-    // Apply sorting (currently only newest is supported)
-    if (sortBy === "newest") {
-      allEvents.sort((a, b) => {
-        const dateA = a.createdAt instanceof Date ? a.createdAt : new Date(a.createdAt || 0);
-        const dateB = b.createdAt instanceof Date ? b.createdAt : new Date(b.createdAt || 0);
-        return dateB.getTime() - dateA.getTime();
-      });
-    }
+    // Apply sorting (newest or nearest). Ties are broken by id so AI and user events
+    // interleave the same way on every request and pages never overlap.
+    allEvents.sort((a, b) => compareFeedPositions(toFeedPosition(a), toFeedPosition(b), feedOrder));
 
     // Apply limit after sorting
     const limitedEvents = allEvents.slice(0, limit);
+    const hasMore = userHasMore || allEvents.length > limit;
+    const lastEvent = limitedEvents[limitedEvents.length - 1];
+    const nextCursor =
+      hasMore && lastEvent
+        ? encodeEventCursor({ tenantId: resolvedTenantId, ...toFeedPosition(lastEvent), filters: cursorFilters })
+        : null;
 
     // Return consistent JSON structure
-    return NextResponse.json({
-      events: limitedEvents,
-      meta: {
-        total: limitedEvents.length,
-        limit,
-        includeAI,
-        location,
-        tags: tags || [],
-        sortBy,
-        tenantId, // Include tenantId in response
-      },
-    });
+    return applyRateLimitHeaders(
+      NextResponse.json({
+        events: limitedEvents,
+        meta: {
+          total: limitedEvents.length,
+          limit,
+          hasMore,
+          nextCursor,
+          includeAI,
+          location,
+          tags: tags || [],
+          sortBy,
+          near: geoCenter,
+          radiusKm: geoCenter ? radiusKm : null,
+          startsAfter: startsAfter ? startsAfter.toISOString() : null,
+          startsBefore: startsBefore ? startsBefore.toISOString() : null,
+          happeningNow,
+          q: q ?? null,
+          tenantId, // Include tenantId in response
+        },
+      }),
+      rateLimitCheck,
+    );
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     console.error("Error fetching events:", err);
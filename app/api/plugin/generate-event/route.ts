@@ -1,25 +1,21 @@
 import { NextResponse } from "next/server";
 import { generateLocalAISuggestions } from "@/app/services/ai";
-import { getTenantId } from "@/app/services/tenant";
-import { extractTenantId, respondMissingTenantId } from "@/app/api/_utils/tenant";
-
-const RATE_LIMIT_COOLDOWN_MS = 10 * 60 * 1000; // 10 minutes
-const RATE_LIMIT_KEY = "__openaiRateLimitUntil";
-
-function isOpenAiRateLimited(): boolean {
-  const until = (globalThis as Record<string, unknown>)[RATE_LIMIT_KEY];
-  return typeof until === "number" && Date.now() < until;
-}
-
-function setOpenAiRateLimited() {
-  (globalThis as Record<string, unknown>)[RATE_LIMIT_KEY] = Date.now() + RATE_LIMIT_COOLDOWN_MS;
-}
+import { AiQuotaExceededError } from "@/app/services/ai-usage";
+import { checkAiRateLimit, type RateLimitResult } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import {
+  applyRateLimitHeaders,
+  identifyRateLimitClient,
+  rateLimitExceededResponse,
+} from "@/app/api/_utils/rate-limit";
+import { aiQuotaExceededResponse } from "@/app/api/_utils/ai-usage";
 
 export async function POST(req: Request) {
   let tenantIdForResponse: string | undefined;
+  let rateLimitCheck: RateLimitResult | undefined;
 
   try {
-    const { tenantId: extractedTenantId, sources, parsedBody } = await extractTenantId(
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(
       req,
       "/app/api/plugin/generate-event",
     );
@@ -53,33 +49,19 @@ export async function POST(req: Request) {
       locationString = `${lat}, ${lng}`;
     }
 
-    const tenantIdParam =
-      typeof payload.tenantId === "string" && payload.tenantId.trim().length > 0 ? payload.tenantId.trim() : undefined;
-    const apiKeyParam =
-      typeof payload.apiKey === "string" && payload.apiKey.trim().length > 0 ? payload.apiKey.trim() : undefined;
-
-    const apiKeyCandidate =
-      (typeof apiKeyParam === "string" && apiKeyParam.trim().length > 0 ? apiKeyParam.trim() : null) ??
-      sources.bodyApiKey ??
-      sources.queryApiKey ??
-      sources.headerApiKey ??
-      null;
-
-    const tenantId =
-      extractedTenantId ??
-      getTenantId(apiKeyCandidate || undefined, tenantIdParam ?? undefined) ??
-      undefined;
-
     tenantIdForResponse = tenantId;
 
     if (!tenantId) {
-      const traceSources = { ...sources, apiKey: apiKeyCandidate };
-      return respondMissingTenantId("/app/api/plugin/generate-event", traceSources);
+      return respondUnresolvedTenant("/app/api/plugin/generate-event", { resolution, sources });
     }
 
-    if (isOpenAiRateLimited()) {
-      console.warn("[Spontaneous Generate] OpenAI rate limit previously reached – skipping call.");
-      return NextResponse.json({ suggestion: null, tenantId, rateLimited: true }, { status: 200 });
+    const clientId = await identifyRateLimitClient(
+      req,
+      resolution.status === "resolved" ? resolution.userId : undefined,
+    );
+    rateLimitCheck = await checkAiRateLimit(tenantId, clientId);
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck, { suggestion: null, tenantId });
     }
 
     const suggestions = await generateLocalAISuggestions({
@@ -91,8 +73,16 @@ export async function POST(req: Request) {
     if (!suggestions.length) {
       throw new Error("No AI suggestions generated");
     }
-    return NextResponse.json({ suggestion: suggestions[0], tenantId });
+    return applyRateLimitHeaders(NextResponse.json({ suggestion: suggestions[0], tenantId }), rateLimitCheck);
   } catch (error) {
+    if (error instanceof AiQuotaExceededError) {
+      console.warn(`[Spontaneous Generate] ${error.message}`);
+      return applyRateLimitHeaders(
+        aiQuotaExceededResponse(error.summary, { suggestion: null, tenantId: tenantIdForResponse ?? null }),
+        rateLimitCheck,
+      );
+    }
+
     const status =
       typeof (error as { status?: number }).status === "number"
         ? (error as { status?: number }).status
@@ -105,23 +95,29 @@ export async function POST(req: Request) {
       (error as { message?: string })?.message ??
       "Failed to generate AI event";
 
+    // Every provider is rate limited or cooling down (LLMUnavailableError)
     if (status === 429) {
-      setOpenAiRateLimited();
-      console.warn("[Spontaneous Generate] OpenAI rate limit reached.", message);
-      return NextResponse.json(
-        { suggestion: null, tenantId: tenantIdForResponse ?? null, rateLimited: true, message },
-        { status: 200 },
+      console.warn("[Spontaneous Generate] AI providers rate limited.", message);
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { suggestion: null, tenantId: tenantIdForResponse ?? null, rateLimited: true, message },
+          { status: 200 },
+        ),
+        rateLimitCheck,
       );
     }
 
-    console.error("[Spontaneous Generate] OpenAI request failed:", { status, error });
-
-    return new Response(
-      JSON.stringify({ error: "Failed to generate AI event", message }),
-      {
-        status: status === 0 ? 500 : status,
-        headers: { "Content-Type": "application/json" },
-      },
+    console.error("[Spontaneous Generate] AI request failed:", { status, error });
+
+    return applyRateLimitHeaders(
+      new Response(
+        JSON.stringify({ error: "Failed to generate AI event", message }),
+        {
+          status: status === 0 ? 500 : status,
+          headers: { "Content-Type": "application/json" },
+        },
+      ),
+      rateLimitCheck,
     );
   }
 }
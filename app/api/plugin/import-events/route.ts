@@ -0,0 +1,160 @@
+import { after, NextResponse } from "next/server";
+import { runAutoJoin } from "@/app/services/auto-join";
+import { importEvents } from "@/app/services/event-import";
+import type { EventInput } from "@/app/services/event-input";
+import { checkRateLimit } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import {
+  detectImportFormat,
+  IMPORT_FORMATS,
+  ImportError,
+  parseImportFile,
+  parseJsonRows,
+  type ImportFormat,
+  type ImportRow,
+} from "@/lib/event-import";
+
+const ROUTE = "/app/api/plugin/import-events";
+const MAX_IMPORT_BYTES = 1_000_000;
+
+type ImportEventsBody = Pick<EventInput, "creator" | "creatorName" | "creatorProfileImageUrl" | "consentGiven"> & {
+  userId?: string;
+  dryRun?: boolean;
+  format?: string;
+  filename?: string;
+  content?: string; // The file as text, in `format`
+  events?: unknown; // Or the events themselves, as in a JSON file
+};
+
+function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === "string" && (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Bulk-creates hangouts from a CSV, JSON or iCalendar file. Send either a JSON
+ * body (`content` plus `format`, or an `events` array) or the raw file with
+ * its Content-Type and `userId` in the query. `dryRun=true` only validates.
+ */
+export async function POST(req: Request) {
+  try {
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(req, ROUTE);
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const contentType = req.headers.get("content-type");
+    const raw = await req.text();
+    if (new TextEncoder().encode(raw).length > MAX_IMPORT_BYTES) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "Import too large", message: `Import files are limited to ${MAX_IMPORT_BYTES / 1_000_000} MB` },
+          { status: 413 },
+        ),
+        rateLimitCheck,
+      );
+    }
+
+    // A JSON object is the request envelope; anything else is the file itself
+    const envelope =
+      parsedBody && typeof parsedBody === "object" && !Array.isArray(parsedBody) ? (parsedBody as ImportEventsBody) : null;
+    const userId = envelope?.userId ?? searchParams.get("userId") ?? undefined;
+    const dryRun = envelope?.dryRun === true || searchParams.get("dryRun") === "true";
+
+    if (envelope?.consentGiven === false) {
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "Consent required", message: "User consent is required for data processing" },
+          { status: 400 },
+        ),
+        rateLimitCheck,
+      );
+    }
+
+    if (!userId) {
+      return applyRateLimitHeaders(
+        NextResponse.json({ error: "Authentication required", message: "User ID is required" }, { status: 401 }),
+        rateLimitCheck,
+      );
+    }
+
+    let rows: ImportRow[];
+    try {
+      if (envelope && envelope.events !== undefined) {
+        rows = parseJsonRows(envelope.events);
+      } else if (envelope && "content" in envelope) {
+        const format = isImportFormat(envelope.format) ? envelope.format : detectImportFormat(null, envelope.filename);
+        if (!format || typeof envelope.content !== "string") {
+          throw new ImportError(`content must be a string and format one of: ${IMPORT_FORMATS.join(", ")}`);
+        }
+        rows = parseImportFile(envelope.content, format);
+      } else {
+        const requested = searchParams.get("format");
+        const format = isImportFormat(requested) ? requested : detectImportFormat(contentType, searchParams.get("filename"));
+        if (!format) {
+          throw new ImportError(
+            "Send text/csv, application/json or text/calendar, or set format to csv, json or ics",
+            415,
+          );
+        }
+        rows = parseImportFile(raw, format);
+      }
+    } catch (importError) {
+      if (importError instanceof ImportError) {
+        return applyRateLimitHeaders(
+          NextResponse.json({ error: "Invalid import file", message: importError.message }, { status: importError.status }),
+          rateLimitCheck,
+        );
+      }
+      throw importError;
+    }
+
+    const result = await importEvents(rows, {
+      tenantId,
+      userId,
+      dryRun,
+      creator: envelope
+        ? {
+            creator: envelope.creator,
+            creatorName: envelope.creatorName,
+            creatorProfileImageUrl: envelope.creatorProfileImageUrl,
+            consentGiven: envelope.consentGiven,
+          }
+        : undefined,
+    });
+    console.log("Event import finished:", {
+      tenantId,
+      dryRun,
+      total: result.total,
+      created: result.created,
+      failed: result.failed,
+    });
+
+    // Rows held for review are matched once a moderator approves them
+    const createdIds = result.rows.flatMap((row) => (row.id && row.moderationStatus !== "pending" ? [row.id] : []));
+    if (createdIds.length > 0) {
+      // Same as submit-event, opted-in users are matched after the response is sent
+      after(async () => {
+        for (const id of createdIds) {
+          try {
+            await runAutoJoin(id, tenantId);
+          } catch (autoJoinError) {
+            console.error("Auto-join failed:", autoJoinError);
+          }
+        }
+      });
+    }
+
+    return applyRateLimitHeaders(NextResponse.json({ success: result.failed === 0, ...result, tenantId }), rateLimitCheck);
+  } catch (err) {
+    console.error("=== IMPORT EVENTS ERROR ===", err);
+    const message = err instanceof Error ? err.message : "An unexpected error occurred";
+    return NextResponse.json({ error: "Failed to import events", message }, { status: 500 });
+  }
+}
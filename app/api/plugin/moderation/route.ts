@@ -0,0 +1,141 @@
+import { after, NextResponse } from "next/server";
+import { runAutoJoin } from "@/app/services/auto-join";
+import { approveEvent, listModerationQueue, ModerationError, rejectEvent } from "@/app/services/moderation";
+import { checkRateLimit, type RateLimitResult } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { requireTenantModerator } from "@/app/api/_utils/admin";
+import { EventAccessError } from "@/lib/event-permissions";
+import { ForbiddenError, UnauthorizedError } from "@/lib/server-auth";
+
+const ROUTE = "/app/api/plugin/moderation";
+const MAX_QUEUE_LIMIT = 100;
+const MAX_REJECTION_REASON_LENGTH = 500;
+
+function handleModerationError(err: unknown, rateLimitCheck: RateLimitResult | undefined): NextResponse {
+  if (
+    err instanceof ModerationError ||
+    err instanceof EventAccessError ||
+    err instanceof UnauthorizedError ||
+    err instanceof ForbiddenError
+  ) {
+    return applyRateLimitHeaders(NextResponse.json({ error: err.message }, { status: err.status }), rateLimitCheck);
+  }
+  console.error("=== MODERATION ERROR ===", err);
+  const message = err instanceof Error ? err.message : "Failed to process moderation request";
+  return NextResponse.json({ error: "Failed to process moderation request", message }, { status: 500 });
+}
+
+/**
+ * The tenant's moderation queue, for tenant moderators: held hangouts
+ * (`?status=pending`, the default, or `rejected`) and live ones with open reports.
+ */
+export async function GET(req: Request) {
+  let rateLimitCheck: RateLimitResult | undefined;
+  try {
+    const { tenantId, resolution, sources } = await extractTenantId(req, ROUTE);
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status") ?? "pending";
+    const limit = searchParams.has("limit") ? Number(searchParams.get("limit")) : undefined;
+    if ((status !== "pending" && status !== "rejected") || (limit !== undefined && !(Number.isInteger(limit) && limit > 0))) {
+      return NextResponse.json(
+        { error: "Invalid request", message: "status must be pending or rejected, and limit a positive integer" },
+        { status: 400 },
+      );
+    }
+
+    rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    await requireTenantModerator(req, tenantId);
+    const queue = await listModerationQueue(tenantId, {
+      status,
+      limit: limit === undefined ? undefined : Math.min(limit, MAX_QUEUE_LIMIT),
+    });
+    return applyRateLimitHeaders(NextResponse.json({ ...queue, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleModerationError(err, rateLimitCheck);
+  }
+}
+
+/**
+ * `{ action: "approve", eventId }` publishes a held hangout or dismisses the
+ * reports of a live one; `{ action: "reject", eventId, reason? }` keeps a held
+ * one out of the feeds or deletes a live one. Tenant moderators only.
+ */
+export async function POST(req: Request) {
+  let rateLimitCheck: RateLimitResult | undefined;
+  try {
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(req, ROUTE);
+
+    let data: Record<string, unknown>;
+    if (parsedBody && typeof parsedBody === "object") {
+      data = parsedBody as Record<string, unknown>;
+    } else {
+      try {
+        const body = await req.json();
+        data = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON in request body", message: "Request body must be valid JSON" },
+          { status: 400 },
+        );
+      }
+    }
+
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const { action, eventId, reason } = data;
+    if ((action !== "approve" && action !== "reject") || typeof eventId !== "string" || !eventId) {
+      return NextResponse.json(
+        { error: "Invalid request", message: "Send action approve or reject with eventId" },
+        { status: 400 },
+      );
+    }
+    if (reason !== undefined && (typeof reason !== "string" || reason.length > MAX_REJECTION_REASON_LENGTH)) {
+      return NextResponse.json(
+        { error: "Invalid request", message: `reason must be a string of at most ${MAX_REJECTION_REASON_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const moderator = await requireTenantModerator(req, tenantId);
+    if (action === "reject") {
+      const result = await rejectEvent({
+        eventId,
+        tenantId,
+        moderatorId: moderator.id,
+        reason: typeof reason === "string" ? reason.trim() || undefined : undefined,
+      });
+      return applyRateLimitHeaders(NextResponse.json({ success: true, ...result, tenantId }), rateLimitCheck);
+    }
+
+    const result = await approveEvent({ eventId, tenantId, moderatorId: moderator.id });
+    if (result.published && result.source === "screening") {
+      // Auto-join was skipped while the event was held at submission; a hold from reports already ran it
+      after(async () => {
+        try {
+          await runAutoJoin(eventId, tenantId);
+        } catch (autoJoinError) {
+          console.error("Auto-join failed:", autoJoinError);
+        }
+      });
+    }
+    return applyRateLimitHeaders(NextResponse.json({ success: true, ...result, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleModerationError(err, rateLimitCheck);
+  }
+}
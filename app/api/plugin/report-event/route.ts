@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { ModerationError, reportEvent } from "@/app/services/moderation";
+import { checkRateLimit, type RateLimitResult } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { resolveEventActor } from "@/app/api/_utils/event-actor";
+import { REPORT_REASONS, type ReportReason } from "@/lib/moderation";
+import { ForbiddenError, UnauthorizedError } from "@/lib/server-auth";
+
+const ROUTE = "/app/api/plugin/report-event";
+const MAX_DETAILS_LENGTH = 1000;
+
+function isReportReason(value: unknown): value is ReportReason {
+  return typeof value === "string" && (REPORT_REASONS as readonly string[]).includes(value);
+}
+
+/**
+ * `{ eventId, reason, details? }` reports a hangout to the tenant's moderators
+ * as the signed-in user. One report per user and event; reporting again
+ * replaces it. Reports can hold an event, so an API key alone cannot file one.
+ */
+export async function POST(req: Request) {
+  let rateLimitCheck: RateLimitResult | undefined;
+  try {
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(req, ROUTE);
+
+    let data: Record<string, unknown>;
+    if (parsedBody && typeof parsedBody === "object") {
+      data = parsedBody as Record<string, unknown>;
+    } else {
+      try {
+        const body = await req.json();
+        data = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON in request body", message: "Request body must be valid JSON" },
+          { status: 400 },
+        );
+      }
+    }
+
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const { eventId, userId, reason, details } = data;
+    if (typeof eventId !== "string" || !eventId || !isReportReason(reason)) {
+      return NextResponse.json(
+        { error: "Invalid request", message: `Send eventId and a reason: ${REPORT_REASONS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+    if (details !== undefined && (typeof details !== "string" || details.length > MAX_DETAILS_LENGTH)) {
+      return NextResponse.json(
+        { error: "Invalid request", message: `details must be a string of at most ${MAX_DETAILS_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const actor = await resolveEventActor(req, tenantId, typeof userId === "string" ? userId : undefined);
+    const { report, heldForReview } = await reportEvent({
+      eventId,
+      tenantId,
+      reporterId: actor.userId,
+      reason,
+      details: details as string | undefined,
+    });
+    // Other reporters stay private; the reporter only learns theirs was filed
+    return applyRateLimitHeaders(
+      NextResponse.json({
+        success: true,
+        report: { eventId: report.eventId, reason: report.reason, createdAt: report.createdAt },
+        heldForReview,
+        tenantId,
+      }),
+      rateLimitCheck,
+    );
+  } catch (err) {
+    if (err instanceof ModerationError || err instanceof UnauthorizedError || err instanceof ForbiddenError) {
+      return applyRateLimitHeaders(NextResponse.json({ error: err.message }, { status: err.status }), rateLimitCheck);
+    }
+    console.error("=== REPORT EVENT ERROR ===", err);
+    const message = err instanceof Error ? err.message : "An unexpected error occurred";
+    return NextResponse.json({ error: "Failed to report event", message }, { status: 500 });
+  }
+}
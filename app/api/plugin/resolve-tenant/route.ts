@@ -1,36 +1,30 @@
 import { NextResponse } from "next/server";
-import { getTenantId } from "@/app/services/tenant";
-import { extractTenantId, respondMissingTenantId } from "@/app/api/_utils/tenant";
+import { checkRateLimit } from "@/app/services/rate-limit";
+import { getTenantConfig } from "@/app/services/tenant";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(req: Request) {
-  const { tenantId: extractedTenantId, sources } = await extractTenantId(
+  const { tenantId: finalTenantId, resolution, sources } = await extractTenantId(
     req,
     "/app/api/plugin/resolve-tenant",
   );
 
-  const url = new URL(req.url);
-  const apiKeyQuery = url.searchParams.get("apiKey");
-
-  const finalTenantId =
-    extractedTenantId ??
-    getTenantId(
-      sources.bodyApiKey ?? sources.queryApiKey ?? sources.headerApiKey ?? apiKeyQuery ?? undefined,
-      sources.bodyTenantId ?? sources.queryTenantId ?? sources.headerTenantId ?? sources.cookieTenantId ?? undefined,
-    ) ??
-    undefined;
-
   if (!finalTenantId) {
-    return respondMissingTenantId("/app/api/plugin/resolve-tenant", {
-      ...sources,
-      queryApiKey: apiKeyQuery ?? sources.queryApiKey ?? null,
-    });
+    return respondUnresolvedTenant("/app/api/plugin/resolve-tenant", { resolution, sources });
+  }
+
+  const rateLimitCheck = await checkRateLimit(finalTenantId, "requests");
+  if (!rateLimitCheck.allowed) {
+    return rateLimitExceededResponse(rateLimitCheck);
   }
 
-  return NextResponse.json(
+  const response = NextResponse.json(
     {
       tenantId: finalTenantId,
+      config: await getTenantConfig(finalTenantId),
       sources,
     },
     {
@@ -39,6 +33,7 @@ export async function GET(req: Request) {
       },
     },
   );
+  return applyRateLimitHeaders(response, rateLimitCheck);
 }
 
 export async function POST(req: Request) {
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { getAttendance, leaveEvent, respondToEvent, RsvpError } from "@/app/services/rsvp";
+import { checkRateLimit } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { resolveEventActor } from "@/app/api/_utils/event-actor";
+import { ForbiddenError, UnauthorizedError } from "@/lib/server-auth";
+
+const ROUTE = "/app/api/plugin/rsvp";
+const RSVP_RESPONSES = ["going", "maybe"] as const;
+
+function handleRsvpError(err: unknown): NextResponse {
+  if (err instanceof RsvpError || err instanceof UnauthorizedError || err instanceof ForbiddenError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error("=== RSVP ERROR ===", err);
+  const message = err instanceof Error ? err.message : "Failed to process RSVP";
+  return NextResponse.json({ error: "Failed to process RSVP", message }, { status: 500 });
+}
+
+/**
+ * Attendee counts and list for `?eventId=`. A signed-in session sees its own
+ * RSVP and profile; anyone else, including API-key callers, gets the public view.
+ */
+export async function GET(req: Request) {
+  try {
+    const { tenantId, resolution, sources } = await extractTenantId(req, ROUTE);
+    const { searchParams } = new URL(req.url);
+    const eventId = searchParams.get("eventId");
+    const userId = searchParams.get("userId") || undefined;
+
+    if (!eventId) {
+      return NextResponse.json({ error: "Invalid request", message: "eventId is required" }, { status: 400 });
+    }
+
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    let viewerId: string | undefined;
+    try {
+      viewerId = (await resolveEventActor(req, tenantId, userId)).userId;
+    } catch (err) {
+      if (!(err instanceof UnauthorizedError)) throw err;
+    }
+    const attendance = await getAttendance({ eventId, tenantId, viewerId });
+    return applyRateLimitHeaders(NextResponse.json({ ...attendance, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleRsvpError(err);
+  }
+}
+
+/**
+ * RSVP "going" (the default) or "maybe" as the signed-in user. Full events put
+ * "going" on the waitlist.
+ */
+export async function POST(req: Request) {
+  try {
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(req, ROUTE);
+
+    let data: Record<string, unknown>;
+    if (parsedBody && typeof parsedBody === "object") {
+      data = parsedBody as Record<string, unknown>;
+    } else {
+      try {
+        const body = await req.json();
+        data = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON in request body", message: "Request body must be valid JSON" },
+          { status: 400 },
+        );
+      }
+    }
+
+    const { eventId, userId, response = "going" } = data;
+    if (typeof eventId !== "string" || !eventId) {
+      return NextResponse.json({ error: "Invalid request", message: "eventId is required" }, { status: 400 });
+    }
+    if (!RSVP_RESPONSES.includes(response as (typeof RSVP_RESPONSES)[number])) {
+      return NextResponse.json(
+        { error: "Invalid request", message: "response must be going or maybe" },
+        { status: 400 },
+      );
+    }
+
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const actor = await resolveEventActor(req, tenantId, typeof userId === "string" ? userId : undefined);
+    const result = await respondToEvent({
+      eventId,
+      tenantId,
+      userId: actor.userId,
+      response: response as (typeof RSVP_RESPONSES)[number],
+    });
+    return applyRateLimitHeaders(NextResponse.json({ success: true, ...result, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleRsvpError(err);
+  }
+}
+
+/**
+ * Leave `?eventId=` as the signed-in user; the first waitlisted user takes the seat.
+ */
+export async function DELETE(req: Request) {
+  try {
+    const { tenantId, resolution, sources } = await extractTenantId(req, ROUTE);
+    const { searchParams } = new URL(req.url);
+    const eventId = searchParams.get("eventId");
+    const userId = searchParams.get("userId") || undefined;
+
+    if (!eventId) {
+      return NextResponse.json({ error: "Invalid request", message: "eventId is required" }, { status: 400 });
+    }
+
+    if (!tenantId) {
+      return respondUnresolvedTenant(ROUTE, { resolution, sources });
+    }
+
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
+    if (!rateLimitCheck.allowed) {
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const actor = await resolveEventActor(req, tenantId, userId);
+    const result = await leaveEvent({ eventId, tenantId, userId: actor.userId });
+    return applyRateLimitHeaders(NextResponse.json({ success: true, ...result, tenantId }), rateLimitCheck);
+  } catch (err) {
+    return handleRsvpError(err);
+  }
+}
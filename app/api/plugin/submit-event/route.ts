@@ -1,43 +1,16 @@
-import { NextResponse } from "next/server";
-import { submitEvent, type SubmitEventPayload } from "@/app/services/events";
-import { getTenantId } from "@/app/services/tenant";
+import { after, NextResponse } from "next/server";
+import type { SubmitEventPayload } from "@/app/services/events";
+import { submitScreenedEvent } from "@/app/services/moderation";
+import { runAutoJoin } from "@/app/services/auto-join";
+import { validateEventInput, type EventInput } from "@/app/services/event-input";
 import { checkRateLimit } from "@/app/services/rate-limit";
-import { extractTenantId, respondMissingTenantId } from "@/app/api/_utils/tenant";
-
-type RawCreator = {
-  uid?: string;
-  name?: string;
-  profileImageUrl?: string;
-};
-
-type RawLocation =
-  | {
-      lat?: unknown;
-      lng?: unknown;
-      [key: string]: unknown;
-    }
-  | string
-  | null;
-
-type SubmitEventBody = {
-  userId?: string;
-  apiKey?: string;
-  tenantId?: string;
-  creator?: RawCreator;
-  creatorName?: string;
-  creatorProfileImageUrl?: string;
-  consentGiven?: boolean;
-  title?: string;
-  description?: string;
-  location?: RawLocation;
-  tags?: unknown;
-  startTime?: unknown;
-  [key: string]: unknown;
-};
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { EventValidationError } from "@/lib/validation/event-schema";
 
 export async function POST(req: Request) {
   try {
-    const { tenantId: extractedTenantId, sources, parsedBody } = await extractTenantId(
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(
       req,
       "/app/api/plugin/submit-event",
     );
@@ -58,178 +31,51 @@ export async function POST(req: Request) {
       }
     }
 
-    const {
-      userId,
-      apiKey,
-      tenantId: tenantIdParam,
-      creator,
-      creatorName,
-      creatorProfileImageUrl,
-      consentGiven,
-      title,
-      description,
-      location,
-      tags,
-      startTime,
-      ...additionalFields
-    } = data as SubmitEventBody;
-
-    const creatorPayload = creator;
-
-    const apiKeyCandidate =
-      (typeof apiKey === "string" && apiKey.trim().length > 0 ? apiKey.trim() : null) ??
-      sources.bodyApiKey ??
-      sources.queryApiKey ??
-      sources.headerApiKey ??
-      null;
-
-    const tenantId =
-      extractedTenantId ??
-      getTenantId(apiKeyCandidate || undefined, tenantIdParam ?? undefined) ??
-      undefined;
+    const { userId, consentGiven } = data as EventInput;
 
     if (!tenantId) {
-      const traceSources = { ...sources, apiKey: apiKeyCandidate };  
-      return respondMissingTenantId("/app/api/plugin/submit-event", traceSources);
+      return respondUnresolvedTenant("/app/api/plugin/submit-event", { resolution, sources });
     }
 
-    const rateLimitCheck = checkRateLimit(tenantId, "requests");
+    const rateLimitCheck = await checkRateLimit(tenantId, "requests");
     if (!rateLimitCheck.allowed) {
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded",
-          message: `Too many requests. Limit: ${rateLimitCheck.limit} per minute. Reset at: ${new Date(rateLimitCheck.resetAt).toISOString()}`,
-        },
-        {
-          status: 429,
-          headers: {
-            "X-RateLimit-Limit": rateLimitCheck.limit.toString(),
-            "X-RateLimit-Remaining": "0",
-            "X-RateLimit-Reset": rateLimitCheck.resetAt.toString(),
-            "Retry-After": Math.ceil((rateLimitCheck.resetAt - Date.now()) / 1000).toString(),
-          },
-        },
-      );
+      return rateLimitExceededResponse(rateLimitCheck);
     }
 
     if (consentGiven === false) {
-      return NextResponse.json(
-        { error: "Consent required", message: "User consent is required for data processing" },
-        { status: 400 },
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "Consent required", message: "User consent is required for data processing" },
+          { status: 400 },
+        ),
+        rateLimitCheck,
       );
     }
 
     if (!userId) {
-      return NextResponse.json(
-        { error: "Authentication required", message: "User ID is required" },
-        { status: 401 },
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "Authentication required", message: "User ID is required" },
+          { status: 401 },
+        ),
+        rateLimitCheck,
       );
     }
 
-    const fallbackCreatorName =
-      typeof creatorName === "string" && creatorName.trim().length > 0 ? creatorName.trim() : undefined;
-    const fallbackCreatorImage =
-      typeof creatorProfileImageUrl === "string" && creatorProfileImageUrl.trim().length > 0
-        ? creatorProfileImageUrl.trim()
-        : undefined;
-
-    const normalizedTitle =
-      typeof title === "string" && title.trim().length > 0 ? title.trim() : undefined;
-    const normalizedDescription =
-      typeof description === "string" && description.trim().length > 0 ? description.trim() : undefined;
-
-    const normalizedTags = Array.isArray(tags)
-      ? (tags as unknown[])
-          .filter((tag): tag is string => typeof tag === "string" && tag.trim().length > 0)
-          .map((tag) => tag.trim())
-      : [];
-
-    const normalizedStartTime =
-      typeof startTime === "string" && startTime.trim().length > 0 ? startTime.trim() : undefined;
-
-    const normalizedLocation = (() => {
-      if (!location) {
-        return undefined;
-      }
-      if (typeof location === "string") {
-        const match = location.match(/^(-?\d+\.?\d*),\s*(-?\d+\.?\d*)$/);
-        if (match) {
-          const lat = parseFloat(match[1]);
-          const lng = parseFloat(match[2]);
-          if (Number.isFinite(lat) && Number.isFinite(lng)) {
-            return { lat, lng };
-          }
-        }
-        return undefined;
-      }
-      if (
-        typeof location === "object" &&
-        typeof (location as { lat?: unknown }).lat === "number" &&
-        typeof (location as { lng?: unknown }).lng === "number"
-      ) {
-        const lat = (location as { lat: number }).lat;
-        const lng = (location as { lng: number }).lng;
-        if (Number.isFinite(lat) && Number.isFinite(lng)) {
-          return { lat, lng };
-        }
+    let event: SubmitEventPayload;
+    try {
+      event = validateEventInput(data, userId);
+    } catch (inputError) {
+      if (inputError instanceof EventValidationError) {
+        return applyRateLimitHeaders(
+          NextResponse.json(
+            { error: "Invalid event", message: inputError.message, fields: inputError.fields },
+            { status: inputError.status },
+          ),
+          rateLimitCheck,
+        );
       }
-      return undefined;
-    })();
-
-    const eventCreator =
-      creatorPayload && typeof creatorPayload === "object"
-        ? {
-            uid:
-              typeof creatorPayload.uid === "string" && creatorPayload.uid.trim().length > 0
-                ? creatorPayload.uid.trim()
-                : userId,
-            name:
-              typeof creatorPayload.name === "string" && creatorPayload.name.trim().length > 0
-                ? creatorPayload.name.trim()
-                : fallbackCreatorName,
-            profileImageUrl:
-              typeof creatorPayload.profileImageUrl === "string" && creatorPayload.profileImageUrl.trim().length > 0
-                ? creatorPayload.profileImageUrl.trim()
-                : fallbackCreatorImage,
-          }
-        : {
-            uid: userId,
-            name: fallbackCreatorName,
-            profileImageUrl: fallbackCreatorImage,
-          };
-
-    if (!normalizedTitle || !normalizedDescription || !normalizedLocation) {
-      return NextResponse.json(
-        { error: "Missing required fields", message: "Title, description, and location are required" },
-        { status: 400 },
-      );
-    }
-
-    const event: SubmitEventPayload = {
-      ...additionalFields,
-      title: normalizedTitle,
-      description: normalizedDescription,
-      tags: normalizedTags,
-      location: normalizedLocation,
-      createdBy: userId,
-      consentGiven: typeof consentGiven === "boolean" ? consentGiven : true,
-      creator: eventCreator,
-    };
-
-    if (normalizedStartTime) {
-      event.startTime = normalizedStartTime;
-    }
-
-    if (
-      typeof event.location.lat !== "number" ||
-      typeof event.location.lng !== "number" ||
-      Number.isNaN(event.location.lat) ||
-      Number.isNaN(event.location.lng)
-    ) {
-      return NextResponse.json(
-        { error: "Invalid location", message: "Location must have both lat and lng" },
-        { status: 400 },
-      );
+      throw inputError;
     }
 
     console.log("Submitting event with:", {
@@ -239,10 +85,34 @@ export async function POST(req: Request) {
       hasUserId: !!userId,
     });
 
-    const result = await submitEvent(event, tenantId);
-    const { id, ...rest } = result ?? {};
-    console.log("submitEvent succeeded:", { id, tenantId });
-    return NextResponse.json({ success: true, id, ...rest, tenantId });
+    const { id, moderationStatus, ...rest } = await submitScreenedEvent(event, tenantId);
+    console.log("submitEvent succeeded:", { id, tenantId, moderationStatus });
+    if (moderationStatus === "pending") {
+      // Held events stay out of feeds and auto-join until a moderator approves them
+      return applyRateLimitHeaders(
+        NextResponse.json({
+          success: true,
+          id,
+          ...rest,
+          moderationStatus,
+          message: "Your event will be published once a moderator has reviewed it",
+          tenantId,
+        }),
+        rateLimitCheck,
+      );
+    }
+    if (id) {
+      // Matching opted-in users can take a while, so it runs after the response is sent
+      after(async () => {
+        try {
+          const summary = await runAutoJoin(id, tenantId);
+          if (summary) console.log("Auto-join finished:", summary);
+        } catch (autoJoinError) {
+          console.error("Auto-join failed:", autoJoinError);
+        }
+      });
+    }
+    return applyRateLimitHeaders(NextResponse.json({ success: true, id, ...rest, moderationStatus, tenantId }), rateLimitCheck);
   } catch (err) {
     console.error("=== SUBMIT EVENT ERROR ===");
     console.error("Error type:", typeof err);
@@ -1,12 +1,36 @@
 import { NextResponse } from "next/server";
-import { updateEvent } from "@/app/services/events";
-import { getTenantId } from "@/app/services/tenant";
-import { checkRateLimit } from "@/app/services/rate-limit";
-import { extractTenantId, respondMissingTenantId } from "@/app/api/_utils/tenant";
-
+import { updateEvent, updateFollowingOccurrences, updateOccurrence } from "@/app/services/events";
+import { refreshWaitlist, RsvpError } from "@/app/services/rsvp";
+import { checkRateLimit, type RateLimitResult } from "@/app/services/rate-limit";
+import { extractTenantId, respondUnresolvedTenant } from "@/app/api/_utils/tenant";
+import { applyRateLimitHeaders, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { resolveEventActor } from "@/app/api/_utils/event-actor";
+import { EventAccessError } from "@/lib/event-permissions";
+import { EventScheduleError } from "@/lib/event-schedule";
+import type { EventRevision } from "@/lib/event-history-store";
+import { parseOccurrenceId, RecurrenceError } from "@/lib/recurrence";
+import { ForbiddenError, UnauthorizedError } from "@/lib/server-auth";
+import {
+  EventValidationError,
+  fieldErrorFrom,
+  parseEventPayload,
+  updateEventSchema,
+} from "@/lib/validation/event-schema";
+
+const EDIT_SCOPES = ["series", "this", "following"] as const;
+type EditScope = (typeof EDIT_SCOPES)[number];
+
+/**
+ * Edits a hangout. For recurring hangouts, `scope` picks what changes: the
+ * whole `series` (default), only `this` occurrence or it and every
+ * `following` one, with the occurrence given by `occurrenceStart` or an
+ * occurrence id as `eventId` (which defaults the scope to `this`).
+ */
 export async function PATCH(req: Request) {
+  let rateLimitCheck: RateLimitResult | undefined;
+
   try {
-    const { tenantId: extractedTenantId, sources, parsedBody } = await extractTenantId(
+    const { tenantId, resolution, sources, parsedBody } = await extractTenantId(
       req,
       "/app/api/plugin/update-event",
     );
@@ -31,33 +55,22 @@ export async function PATCH(req: Request) {
       eventId?: string;
       updates?: Record<string, unknown>;
       userId?: string;
-      apiKey?: string;
-      tenantId?: string;
+      scope?: unknown;
+      occurrenceStart?: unknown;
     };
 
-    const eventId = typeof body.eventId === "string" ? body.eventId : undefined;
+    const occurrence = typeof body.eventId === "string" ? parseOccurrenceId(body.eventId) : null;
+    const eventId = occurrence?.seriesId ?? (typeof body.eventId === "string" ? body.eventId : undefined);
+    const occurrenceStart =
+      typeof body.occurrenceStart === "string" ? body.occurrenceStart : occurrence?.occurrenceStart;
+    const scope = body.scope ?? (occurrence ? "this" : "series");
     const updates = (body.updates && typeof body.updates === "object" ? body.updates : undefined) as
       | Record<string, unknown>
       | undefined;
     const userId = typeof body.userId === "string" ? body.userId : undefined;
-    const apiKey = typeof body.apiKey === "string" ? body.apiKey : undefined;
-    const tenantIdParam = typeof body.tenantId === "string" ? body.tenantId : undefined;
-
-    const apiKeyCandidate =
-      (typeof apiKey === "string" && apiKey.trim().length > 0 ? apiKey.trim() : null) ??
-      sources.bodyApiKey ??
-      sources.queryApiKey ??
-      sources.headerApiKey ??
-      null;
-
-    const tenantId =
-      extractedTenantId ??
-      getTenantId(apiKeyCandidate || undefined, tenantIdParam ?? undefined) ??
-      undefined;
 
     if (!tenantId) {
-      const traceSources = { ...sources, apiKey: apiKeyCandidate };
-      return respondMissingTenantId("/app/api/plugin/update-event", traceSources);
+      return respondUnresolvedTenant("/app/api/plugin/update-event", { resolution, sources });
     }
 
     if (!eventId) {
@@ -67,6 +80,16 @@ export async function PATCH(req: Request) {
       );
     }
 
+    if (!EDIT_SCOPES.includes(scope as EditScope) || (scope !== "series" && !occurrenceStart)) {
+      return NextResponse.json(
+        {
+          error: "Invalid scope",
+          message: "scope must be series, this or following; this and following need occurrenceStart",
+        },
+        { status: 400 },
+      );
+    }
+
     if (!userId) {
       return NextResponse.json(
         { error: "Authentication required", message: "userId is required" },
@@ -81,29 +104,60 @@ export async function PATCH(req: Request) {
       );
     }
 
-    const rateLimitCheck = checkRateLimit(tenantId, "requests");
+    rateLimitCheck = await checkRateLimit(tenantId, "requests");
     if (!rateLimitCheck.allowed) {
-      return NextResponse.json(
-        {
-          error: "Rate limit exceeded",
-          message: `Too many requests. Limit: ${rateLimitCheck.limit} per minute. Reset at: ${new Date(rateLimitCheck.resetAt).toISOString()}`,
-        },
-        {
-          status: 429,
-          headers: {
-            "X-RateLimit-Limit": rateLimitCheck.limit.toString(),
-            "X-RateLimit-Remaining": "0",
-            "X-RateLimit-Reset": rateLimitCheck.resetAt.toString(),
-            "Retry-After": Math.ceil((rateLimitCheck.resetAt - Date.now()) / 1000).toString(),
-          },
-        },
-      );
+      return rateLimitExceededResponse(rateLimitCheck);
+    }
+
+    const changes = parseEventPayload(updateEventSchema, updates);
+    const capacityChanged = "capacity" in changes;
+
+    const actor = await resolveEventActor(req, tenantId, userId);
+    let revision: EventRevision | null;
+    let updatedEventId = eventId;
+    if (scope === "this") {
+      revision = await updateOccurrence(eventId, occurrenceStart as string, changes, tenantId, actor);
+    } else if (scope === "following") {
+      ({ eventId: updatedEventId, revision } = await updateFollowingOccurrences(
+        eventId,
+        occurrenceStart as string,
+        changes,
+        tenantId,
+        actor,
+      ));
+    } else {
+      revision = await updateEvent(eventId, changes, tenantId, actor);
     }
 
-    await updateEvent(eventId, updates, tenantId);
+    if (capacityChanged && updatedEventId === eventId) {
+      // A larger (or removed) capacity opens seats for the waitlist
+      await refreshWaitlist(eventId, tenantId);
+    }
 
-    return NextResponse.json({ success: true, tenantId });
+    return applyRateLimitHeaders(
+      NextResponse.json({ success: true, tenantId, eventId: updatedEventId, revisionId: revision?.id ?? null }),
+      rateLimitCheck,
+    );
   } catch (err) {
+    if (
+      err instanceof EventAccessError ||
+      err instanceof UnauthorizedError ||
+      err instanceof ForbiddenError ||
+      err instanceof RsvpError
+    ) {
+      return applyRateLimitHeaders(NextResponse.json({ error: err.message }, { status: err.status }), rateLimitCheck);
+    }
+    if (err instanceof EventValidationError || err instanceof EventScheduleError || err instanceof RecurrenceError) {
+      // Rules checked against the stored event fail like the schema does
+      const invalid = err instanceof EventValidationError ? err : fieldErrorFrom(err);
+      return applyRateLimitHeaders(
+        NextResponse.json(
+          { error: "Invalid event", message: invalid.message, fields: invalid.fields },
+          { status: invalid.status },
+        ),
+        rateLimitCheck,
+      );
+    }
     console.error("=== UPDATE EVENT ERROR ===", err);
     const message = err instanceof Error ? err.message : "Failed to update event";
     return NextResponse.json({ error: "Failed to update event", message }, { status: 500 });
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
+import { checkClientRateLimit } from "@/app/services/rate-limit";
+import { generateStructured } from "@/app/services/llm";
+import { applyRateLimitHeaders, getClientAddress, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import type { AiProvider } from "@/lib/ai-usage-store";
+import { getLLMProviderHealth } from "@/lib/llm-provider";
+import { defaultTagTaxonomy } from "@/lib/tag-taxonomy";
+import { aiCardsOutput } from "@/lib/validation/ai-schema";
 
 const OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
 const MEETUP_ACCESS_TOKEN = process.env.MEETUP_ACCESS_TOKEN;
 const EVENTBRITE_TOKEN = process.env.EVENTBRITE_TOKEN;
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.GOOGLE_GEMINI_API_KEY;
+const USAGE_ROUTE = "/api/spontaneous-cards";
 
 interface OsmElement {
   id: number;
@@ -13,8 +19,7 @@ interface OsmElement {
   tags?: Record<string, string>;
 }
 
-type ModelSource = "openai" | "gemini";
-type AiSource = ModelSource | "fallback";
+type AiSource = AiProvider | "fallback";
 
 interface CombinedDatum {
   id: string;
@@ -42,25 +47,14 @@ interface WeatherSnapshot {
 }
 
 const CACHE_TTL_MS = 5 * 60 * 1000;
-const RATE_LIMIT_COOLDOWN_MS = 10 * 60 * 1000;
 const FALLBACK_CARD_COUNT = 5;
 
 const cache = new Map<string, { timestamp: number; payload: unknown }>();
-const rateLimitRegistry: Partial<Record<ModelSource, number>> = {};
 
 function buildCacheKey(lat: number, lon: number, mood: string | null | undefined) {
   return `${lat.toFixed(3)}:${lon.toFixed(3)}:${mood ?? "default"}`;
 }
 
-function isModelRateLimited(model: ModelSource): boolean {
-  const until = rateLimitRegistry[model];
-  return typeof until === "number" && Date.now() < until;
-}
-
-function setModelRateLimited(model: ModelSource) {
-  rateLimitRegistry[model] = Date.now() + RATE_LIMIT_COOLDOWN_MS;
-}
-
 function sanitizeString(value: unknown): string {
   if (typeof value !== "string") return "";
   const trimmed = value.trim();
@@ -94,7 +88,8 @@ function normalizeVibeTags(value: unknown, fallbackTags: string[]): string[] {
     tags.add("spontaneous");
   }
 
-  return Array.from(tags).slice(0, 4);
+  // Synonyms collapse into one canonical tag ("gig" and "concert" both become "live music")
+  return defaultTagTaxonomy.canonicalTags(Array.from(tags)).slice(0, 4);
 }
 
 function normalizeNavigationLink(value: unknown): string | null {
@@ -319,7 +314,7 @@ interface UserContext {
   weather: WeatherSnapshot | null;
 }
 
-function buildOpenAiPrompt(context: UserContext, combinedData: CombinedDatum[]) {
+function buildCardPrompt(context: UserContext, combinedData: CombinedDatum[]) {
   return `You are a hyper-local travel concierge.
 Traveler coordinates: ${context.lat.toFixed(4)}, ${context.lon.toFixed(4)}
 Traveler mood: ${context.mood}
@@ -331,138 +326,31 @@ Each card MUST be an object with ONLY these keys:
   "title" - short headline (string)
   "description" - 1-2 sentence summary rooted in nearby context (string)
   "vibeTags" - array of 2-4 short mood descriptors (array of strings)
-  "navigationLink" - https URL for more info or empty string if unavailable (string)
-
-Return a valid JSON array. No markdown. No additional commentary.`;
-}
-
-async function generateOpenAiCards(context: UserContext, combinedData: CombinedDatum[]): Promise<NormalizedAiCard[]> {
-  if (!OPENAI_API_KEY) return [];
-  if (isModelRateLimited("openai")) {
-    console.warn("[spontaneous-cards] Skipping OpenAI call due to recent rate limit.");
-    return [];
-  }
-
-  const prompt = buildOpenAiPrompt(context, combinedData);
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.7,
-        max_tokens: 700,
-        messages: [{ role: "user", content: prompt }],
-      }),
-    });
-
-    if (!response.ok) {
-      const text = await response.text().catch(() => response.statusText);
-      console.warn("[spontaneous-cards] OpenAI request failed", { status: response.status, detail: text });
-      if (response.status === 429) {
-        setModelRateLimited("openai");
-      }
-      return [];
-    }
-
-    const json = (await response.json()) as { choices?: Array<{ message?: { content?: string } }> };
-    const payload = json?.choices?.[0]?.message?.content ?? "[]";
-
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(payload);
-    } catch (error) {
-      console.error("[spontaneous-cards] Failed to parse OpenAI payload", { error, payload });
-      return [];
-    }
-
-    const fallbackTags = [context.mood, "openai"];
-    return normalizeCollection(parsed, "openai", fallbackTags);
-  } catch (error) {
-    console.error("[spontaneous-cards] OpenAI fetch error", error);
-    return [];
-  }
-}
-
-function buildGeminiPrompt(context: UserContext, combinedData: CombinedDatum[]) {
-  return `You are a spontaneous travel planner.
-Traveler coordinates: ${context.lat.toFixed(4)}, ${context.lon.toFixed(4)}
-Traveler mood: ${context.mood}
-Weather snapshot: ${JSON.stringify(context.weather ?? {})}
-Nearby findings: ${JSON.stringify(combinedData.slice(0, 12))}
+  "navigationLink" - https URL for more info, or null if unavailable (string or null)
 
-Generate 4 unique hangout cards as a JSON array. Each item must contain exactly:
-  "title": string,
-  "description": string (1-2 sentences, grounded in local insight),
-  "vibeTags": array of up to 4 short descriptors,
-  "navigationLink": string (https URL or empty string if unknown).
-
-Respond with valid JSON only.`;
+Return a JSON object {"cards": [...]}. No markdown. No additional commentary.`;
 }
 
-async function generateGeminiCards(context: UserContext, combinedData: CombinedDatum[]): Promise<NormalizedAiCard[]> {
-  if (!GEMINI_API_KEY) return [];
-  if (isModelRateLimited("gemini")) {
-    console.warn("[spontaneous-cards] Skipping Gemini call due to recent rate limit.");
-    return [];
-  }
-
-  const prompt = buildGeminiPrompt(context, combinedData);
-  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${GEMINI_API_KEY}`;
-
-  try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: prompt }],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.7,
-          topP: 0.9,
-          maxOutputTokens: 700,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const text = await response.text().catch(() => response.statusText);
-      console.warn("[spontaneous-cards] Gemini request failed", { status: response.status, detail: text });
-      if (response.status === 429) {
-        setModelRateLimited("gemini");
-      }
-      return [];
-    }
-
-    const data = (await response.json()) as {
-      candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
-    };
-
-    const textPayload =
-      data?.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("")?.trim() ?? "[]";
-
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(textPayload);
-    } catch (error) {
-      console.error("[spontaneous-cards] Failed to parse Gemini payload", { error, textPayload });
-      return [];
-    }
+/**
+ * Cards from the first AI provider that answers, validated against
+ * `aiCardsOutput`. The local stub answers with the deterministic fallback cards.
+ */
+async function generateAiCards(context: UserContext, combinedData: CombinedDatum[]): Promise<NormalizedAiCard[]> {
+  // This first-party route has no tenant, so it uses the default provider order and usage is unattributed.
+  const completion = await generateStructured({
+    tenantId: null,
+    route: USAGE_ROUTE,
+    messages: [{ role: "user", content: buildCardPrompt(context, combinedData) }],
+    temperature: 0.7,
+    topP: 0.9,
+    maxTokens: 700,
+    output: aiCardsOutput,
+    stubResponse: JSON.stringify({ cards: generateFallbackCards(combinedData, context) }),
+  });
+  const source: AiSource = completion.provider === "stub" ? "fallback" : completion.provider;
 
-    const fallbackTags = [context.mood, "gemini"];
-    return normalizeCollection(parsed, "gemini", fallbackTags);
-  } catch (error) {
-    console.error("[spontaneous-cards] Gemini fetch error", error);
-    return [];
-  }
+  const fallbackTags = [context.mood, source];
+  return normalizeCollection(completion.data.cards, source, fallbackTags);
 }
 
 const STATIC_FALLBACKS: NormalizedAiCard[] = [
@@ -515,19 +403,24 @@ function generateFallbackCards(combinedData: CombinedDatum[], context: UserConte
 }
 
 export async function GET(req: NextRequest) {
+  const rateLimitCheck = await checkClientRateLimit(getClientAddress(req), "aiEvents");
+  if (!rateLimitCheck.allowed) {
+    return rateLimitExceededResponse(rateLimitCheck);
+  }
+
   const { searchParams } = new URL(req.url);
   const lat = Number(searchParams.get("lat"));
   const lon = Number(searchParams.get("lon"));
   const mood = sanitizeString(searchParams.get("mood")) || "adventurous";
 
   if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
-    return NextResponse.json({ error: "Missing lat/lon" }, { status: 400 });
+    return applyRateLimitHeaders(NextResponse.json({ error: "Missing lat/lon" }, { status: 400 }), rateLimitCheck);
   }
 
   const cacheKey = buildCacheKey(lat, lon, mood);
   const cached = cache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return NextResponse.json(cached.payload);
+    return applyRateLimitHeaders(NextResponse.json(cached.payload), rateLimitCheck);
   }
 
   try {
@@ -543,23 +436,16 @@ export async function GET(req: NextRequest) {
 
     const errorLog: string[] = [];
 
-    const [openAiCards, geminiCards] = await Promise.all([
-      generateOpenAiCards(userContext, combinedData).catch((error) => {
-        errorLog.push(`openai:${error instanceof Error ? error.message : String(error)}`);
-        console.warn("[spontaneous-cards] OpenAI generator threw", error);
-        return [] as NormalizedAiCard[];
-      }),
-      generateGeminiCards(userContext, combinedData).catch((error) => {
-        errorLog.push(`gemini:${error instanceof Error ? error.message : String(error)}`);
-        console.warn("[spontaneous-cards] Gemini generator threw", error);
-        return [] as NormalizedAiCard[];
-      }),
-    ]);
+    const generatedCards = await generateAiCards(userContext, combinedData).catch((error) => {
+      errorLog.push(error instanceof Error ? error.message : String(error));
+      console.warn("[spontaneous-cards] AI generator threw", error);
+      return [] as NormalizedAiCard[];
+    });
 
-    let aiCards = dedupeCards([...openAiCards, ...geminiCards]).slice(0, FALLBACK_CARD_COUNT);
+    let aiCards = dedupeCards(generatedCards).slice(0, FALLBACK_CARD_COUNT);
 
     if (aiCards.length === 0) {
-      console.warn("[spontaneous-cards] Both AI providers returned no cards. Falling back to deterministic cards.");
+      console.warn("[spontaneous-cards] No AI provider returned cards. Falling back to deterministic cards.");
       aiCards = dedupeCards(generateFallbackCards(combinedData, userContext));
     }
 
@@ -582,16 +468,18 @@ export async function GET(req: NextRequest) {
       weather,
       combinedDataCount: combinedData.length,
       diagnostics: {
-        openaiRateLimited: isModelRateLimited("openai"),
-        geminiRateLimited: isModelRateLimited("gemini"),
+        providers: getLLMProviderHealth().map(({ provider, state }) => ({ provider, state })),
         errors: errorLog,
       },
     };
 
     cache.set(cacheKey, { timestamp: Date.now(), payload: responsePayload });
-    return NextResponse.json(responsePayload);
+    return applyRateLimitHeaders(NextResponse.json(responsePayload), rateLimitCheck);
   } catch (error) {
     console.error("[spontaneous-cards] Unexpected error", error);
-    return NextResponse.json({ error: "Failed to generate spontaneous cards" }, { status: 500 });
+    return applyRateLimitHeaders(
+      NextResponse.json({ error: "Failed to generate spontaneous cards" }, { status: 500 }),
+      rateLimitCheck,
+    );
   }
 }
@@ -1,6 +1,7 @@
 import { generateLocalAISuggestions } from "@/app/services/ai";
 import type { Event } from "@/lib/types";
 import type { SpontaneousCard, SpontaneousCategory, SpontaneousQuery } from "@/lib/fetchSpontaneousData";
+import { defaultTagTaxonomy } from "@/lib/tag-taxonomy";
 
 const OPENAI_SOURCE_LABEL = "OpenAI";
 const DEFAULT_RESULT_COUNT = 5;
@@ -17,26 +18,25 @@ function jitterLongitude(value: number, range = 0.01) {
   return clamp(value + (Math.random() - 0.5) * range, -179.9999, 179.9999);
 }
 
+// Canonical tags or tag categories (see lib/tag-taxonomy) that mark each kind of card, checked in order
 const CATEGORY_KEYWORDS: Record<SpontaneousCategory, string[]> = {
-  event: ["event", "festival", "concert", "class", "tour", "meetup", "gathering", "party"],
-  venue: ["venue", "bar", "club", "cafe", "restaurant", "lounge", "gallery", "studio"],
-  place: ["park", "trail", "place", "market", "neighborhood", "district", "spot", "walk"],
-  weather: ["weather", "forecast", "rain", "sunset", "sunrise", "temperature", "climate"],
+  event: ["festival", "live music", "class", "tour", "meetup", "party"],
+  venue: ["bar", "club", "cafe", "restaurant", "gallery", "museum"],
+  place: ["outdoors", "market"],
+  weather: ["weather"],
 };
 
 function inferCategory(event: Event): SpontaneousCategory {
-  const haystack = [
-    event.title,
-    event.description,
-    ...(Array.isArray(event.tags) ? event.tags : []),
-  ]
-    .join(" ")
-    .toLowerCase();
+  const tags = defaultTagTaxonomy.tagsInText(
+    [event.title, event.description, ...(Array.isArray(event.tags) ? event.tags : [])].join(" "),
+  );
+  const matched = new Set(tags);
+  tags.forEach((tag) => matched.add(defaultTagTaxonomy.categoryOf(tag) ?? tag));
 
   for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS) as Array<
     [SpontaneousCategory, string[]]
   >) {
-    if (keywords.some((keyword) => haystack.includes(keyword))) {
+    if (keywords.some((keyword) => matched.has(keyword))) {
       return category;
     }
   }
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 
 import type { SpontaneousCard, SpontaneousQuery } from "@/lib/fetchSpontaneousData";
 import { storeSpontaneousCards } from "@/lib/storeToFirebase";
+import { checkClientRateLimit } from "@/app/services/rate-limit";
+import { applyRateLimitHeaders, getClientAddress, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
 
 import { fetchOpenAISpontaneousCards, OPENAI_SOURCE_LABEL } from "./openai";
 
@@ -49,6 +51,11 @@ async function resolveSuggestions(query: SpontaneousQuery): Promise<SpontaneousC
 }
 
 export async function POST(req: Request) {
+  const rateLimitCheck = await checkClientRateLimit(getClientAddress(req), "aiEvents");
+  if (!rateLimitCheck.allowed) {
+    return rateLimitExceededResponse(rateLimitCheck);
+  }
+
   try {
     const body = (await req.json()) as SpontaneousRequestBody;
     const query = validateRequestBody(body);
@@ -69,7 +76,7 @@ export async function POST(req: Request) {
       new Set(cards.map((card) => card.source ?? OPENAI_SOURCE_LABEL)),
     ).sort();
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         cards,
         generatedAt: new Date().toISOString(),
@@ -81,14 +88,16 @@ export async function POST(req: Request) {
         },
       },
     );
+    return applyRateLimitHeaders(response, rateLimitCheck);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         error: "Failed to fetch spontaneous experiences",
         message,
       },
       { status: 400 },
     );
+    return applyRateLimitHeaders(response, rateLimitCheck);
   }
 }
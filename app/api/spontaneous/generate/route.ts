@@ -1,18 +1,12 @@
-import OpenAI from "openai";
+import { generateText } from "@/app/services/llm";
+import { checkClientRateLimit } from "@/app/services/rate-limit";
+import { applyRateLimitHeaders, getClientAddress, rateLimitExceededResponse } from "@/app/api/_utils/rate-limit";
+import { LLMUnavailableError } from "@/lib/llm-provider";
 
-export const runtime = "edge";
+// Node runtime: the rate limiter shares its counters through Postgres.
+export const runtime = "nodejs";
 
-const RATE_LIMIT_COOLDOWN_MS = 10 * 60 * 1000;
-const RATE_LIMIT_KEY = "__openaiRateLimitUntil";
-
-function isOpenAiRateLimited(): boolean {
-  const until = (globalThis as Record<string, unknown>)[RATE_LIMIT_KEY];
-  return typeof until === "number" && Date.now() < until;
-}
-
-function setOpenAiRateLimited() {
-  (globalThis as Record<string, unknown>)[RATE_LIMIT_KEY] = Date.now() + RATE_LIMIT_COOLDOWN_MS;
-}
+const USAGE_ROUTE = "/api/spontaneous/generate";
 
 interface GenerateSpontaneousRequest {
   location?: { lat?: number; lng?: number };
@@ -29,10 +23,6 @@ interface GenerateSpontaneousRequest {
     | null;
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY,
-});
-
 function validateRequest(body: GenerateSpontaneousRequest) {
   const { location, mood, preferences, aggregatedCards } = body ?? {};
 
@@ -116,6 +106,14 @@ Rules:
 }
 
 export async function POST(req: Request) {
+  const rateLimitCheck = await checkClientRateLimit(getClientAddress(req), "aiEvents");
+  if (!rateLimitCheck.allowed) {
+    return rateLimitExceededResponse(rateLimitCheck);
+  }
+  return applyRateLimitHeaders(await generateSuggestions(req), rateLimitCheck);
+}
+
+async function generateSuggestions(req: Request): Promise<Response> {
   let requestData: ReturnType<typeof validateRequest>;
 
   try {
@@ -132,31 +130,16 @@ export async function POST(req: Request) {
     });
   }
 
-  if (!openai.apiKey) {
-    console.error("[Spontaneous Generate] Missing OpenAI API key.");
-    return new Response(JSON.stringify({ error: "OpenAI configuration missing." }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
-  }
-
-  if (isOpenAiRateLimited()) {
-    console.warn("[Spontaneous Generate] OpenAI rate limit previously reached – skipping call.");
-    return new Response(JSON.stringify([]), {
-      status: 200,
-      headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
-    });
-  }
-
   const userPrompt = buildPrompt(requestData);
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    // The whole answer is awaited so a failing provider can hand over to the next one
+    const completion = await generateText({
+      tenantId: null,
+      route: USAGE_ROUTE,
       temperature: 0.75,
-      top_p: 0.9,
-      stream: true,
-      max_tokens: 900,
+      topP: 0.9,
+      maxTokens: 900,
       messages: [
         {
           role: "system",
@@ -170,50 +153,23 @@ export async function POST(req: Request) {
       ],
     });
 
-    const encoder = new TextEncoder();
-
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of completion) {
-            const content = chunk.choices[0]?.delta?.content;
-            if (content) {
-              controller.enqueue(encoder.encode(content));
-            }
-          }
-        } catch (error) {
-          console.error("[Spontaneous Generate] Streaming error:", error);
-          controller.error(error);
-        } finally {
-          controller.close();
-        }
-      },
-    });
-
-    return new Response(stream, {
+    return new Response(completion.text, {
       headers: {
         "Content-Type": "text/plain; charset=utf-8",
         "Cache-Control": "no-cache",
       },
     });
   } catch (error) {
-    const status =
-      typeof (error as { status?: number }).status === "number"
-        ? (error as { status?: number }).status
-        : typeof (error as { code?: number }).code === "number"
-        ? (error as { code?: number }).code
-        : 500;
-
-    if (status === 429) {
-      setOpenAiRateLimited();
-      console.warn("[Spontaneous Generate] OpenAI rate limit reached.", error);
+    // Every provider is rate limited or cooling down
+    if (error instanceof LLMUnavailableError && error.status === 429) {
+      console.warn("[Spontaneous Generate] AI providers rate limited.", error.message);
       return new Response(JSON.stringify([]), {
         status: 200,
         headers: { "Content-Type": "application/json", "Cache-Control": "no-cache" },
       });
     }
 
-    console.error("[Spontaneous Generate] OpenAI request failed:", error);
+    console.error("[Spontaneous Generate] AI request failed:", error);
     return new Response(JSON.stringify({ error: "Failed to generate spontaneous suggestions." }), {
       status: 500,
       headers: { "Content-Type": "application/json" },
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError, z } from "zod";
+import { getUserFromReq, UnauthorizedError } from "@/lib/server-auth";
+import { getSettings } from "@/lib/settings-store";
+import { getFeatureFlagSnapshot } from "@/lib/feature-flags";
+import { enforcePreferenceFlags } from "@/lib/feature-flag-types";
+import { deleteUserLocations, saveUserLocation } from "@/lib/user-location-store";
+
+const locationSchema = z
+  .object({
+    tenantId: z.string().min(1),
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  })
+  .strict();
+
+function handleError(error: unknown): NextResponse {
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof ZodError) {
+    return NextResponse.json({ error: "Invalid location payload", details: error.errors }, { status: 400 });
+  }
+  console.error("[location] unexpected error", error);
+  return NextResponse.json({ error: "Unexpected server error" }, { status: 500 });
+}
+
+/**
+ * Reports the signed-in user's position for auto-join matching. Only stored
+ * while the user's `locationSharing` preference is on.
+ */
+export async function PUT(req: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getUserFromReq(req);
+    const { tenantId, lat, lng } = locationSchema.parse(await req.json());
+    const preferences = await getSettings(user.id);
+    const sharing = preferences
+      ? enforcePreferenceFlags(preferences, await getFeatureFlagSnapshot()).locationSharing
+      : "off";
+    if (sharing === "off") {
+      return NextResponse.json({ error: "Location sharing is off" }, { status: 409 });
+    }
+
+    await saveUserLocation(user.id, tenantId, { lat, lng });
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+/**
+ * Forgets every stored position of the signed-in user.
+ */
+export async function DELETE(req: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getUserFromReq(req);
+    await deleteUserLocations(user.id);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
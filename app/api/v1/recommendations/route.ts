@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { getRecommendations } from "@/app/services/recommendations";
+import { checkAiRateLimit, type RateLimitResult } from "@/app/services/rate-limit";
+import { extractTenantId, respondTenantRejected } from "@/app/api/_utils/tenant";
+import {
+  applyRateLimitHeaders,
+  identifyRateLimitClient,
+  rateLimitExceededResponse,
+} from "@/app/api/_utils/rate-limit";
+import { RecommenderError } from "@/lib/recommender";
+import { ForbiddenError, getUserFromReq, UnauthorizedError } from "@/lib/server-auth";
+import { recommendationRequestSchema } from "@/lib/validation/recommender-schema";
+
+function handleError(error: unknown): NextResponse {
+  if (error instanceof UnauthorizedError || error instanceof ForbiddenError || error instanceof RecommenderError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof ZodError) {
+    return NextResponse.json({ error: "Invalid recommendation request", details: error.errors }, { status: 400 });
+  }
+  console.error("[recommendations] unexpected error", error);
+  return NextResponse.json({ error: "Unexpected server error" }, { status: 500 });
+}
+
+/**
+ * Ranked hangouts, spontaneous cards and AI suggestions for the signed-in
+ * user; see docs/recommender-contract.md. The tenant is resolved like on the
+ * plugin routes, and AI suggestions count against its `aiEvents` limits.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  let rateLimitCheck: RateLimitResult | undefined;
+  try {
+    const user = await getUserFromReq(req);
+    const { resolution, parsedBody } = await extractTenantId(req, "/app/api/v1/recommendations");
+    const body = recommendationRequestSchema.parse(parsedBody ?? {});
+    if (body.userId !== user.id) {
+      throw new ForbiddenError("Recommendations can only be requested for yourself");
+    }
+    if (resolution.status === "rejected") {
+      return respondTenantRejected("/app/api/v1/recommendations", resolution);
+    }
+
+    const tenantId = resolution.status === "resolved" ? resolution.tenantId : undefined;
+    if (tenantId && body.includeAi) {
+      rateLimitCheck = await checkAiRateLimit(tenantId, await identifyRateLimitClient(req, user.id));
+      if (!rateLimitCheck.allowed) {
+        return rateLimitExceededResponse(rateLimitCheck, { recommendations: [] });
+      }
+    }
+
+    const result = await getRecommendations({ ...body, tenantId });
+    return applyRateLimitHeaders(NextResponse.json(result, { status: 200 }), rateLimitCheck);
+  } catch (error) {
+    return applyRateLimitHeaders(handleError(error), rateLimitCheck);
+  }
+}
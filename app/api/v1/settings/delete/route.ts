@@ -14,6 +14,7 @@ import {
   isFeatureEnabled,
 } from "@/lib/feature-flags";
 import { enforcePreferenceFlags } from "@/lib/feature-flag-types";
+import { deleteUserLocations } from "@/lib/user-location-store";
 import type { UserPreferences } from "@/types/settings";
 
 function handleError(error: unknown): NextResponse {
@@ -52,6 +53,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     } as UserPreferences;
 
     await saveSettings(user.id, sanitized, { previous: currentPrefs });
+    await deleteUserLocations(user.id);
 
     console.info(
       `Deletion scheduled for ${user.id} on ${scheduledFor.toISOString()}`
@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useState } from "react";
 import { Event } from "@/lib/types";
-import { formatDateTime } from "@/lib/helpers";
+import { formatAttendance, formatDateTime } from "@/lib/helpers";
 import { useAuth } from "./AuthContext";
 import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
@@ -41,6 +41,7 @@ export default function EventCard({
 
   const isOwner = user && event.createdBy === user.uid;
   const isAI = event.id?.startsWith("AI-") || event.createdBy === "ai" || event.createdBy?.startsWith("AI-");
+  const attendance = isAI ? null : formatAttendance(event);
 
   type LegacyCreatorFields = {
     creatorName?: string;
@@ -261,6 +262,12 @@ export default function EventCard({
             {formatDateTime(new Date(event.startTime))}
           </p>
         )}
+        {attendance && (
+          <p className="mt-1 flex items-center gap-2 text-xs font-medium text-gray-600">
+            <span aria-hidden="true" role="img">👥</span>
+            {attendance}
+          </p>
+        )}
       </div>
 
       {editing ? (
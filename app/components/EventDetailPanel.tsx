@@ -1,8 +1,36 @@
 "use client";
 
-import { formatDateTime } from "@/lib/helpers";
+import { useCallback, useEffect, useState } from "react";
+import { formatAttendance, formatDateTime } from "@/lib/helpers";
+import { buildCalendar } from "@/lib/ical";
+import { REPORT_REASONS, type ReportReason } from "@/lib/moderation";
 import { Event } from "@/lib/types";
 import Link from "next/link";
+import { useAuth } from "./AuthContext";
+
+type RsvpStatus = "going" | "maybe" | "waitlisted";
+
+interface AttendanceResponse {
+  capacity: number | null;
+  counts: { going: number; maybe: number; waitlisted: number };
+  attendees: Array<{ userId?: string; name: string; photoUrl?: string; status: RsvpStatus; isViewer: boolean }>;
+  hiddenCount: number;
+  viewer: { status: RsvpStatus; waitlistPosition: number | null } | null;
+}
+
+const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+  going: "Going",
+  maybe: "Maybe",
+  waitlisted: "Waitlisted",
+};
+
+const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam or advertising",
+  inappropriate: "Inappropriate content",
+  misleading: "Misleading or fake",
+  unsafe: "Unsafe or harmful",
+  other: "Something else",
+};
 
 interface EventDetailPanelProps {
   event: Event;
@@ -40,6 +68,126 @@ export default function EventDetailPanel({ event, onClose }: EventDetailPanelPro
   const hasLocation = Boolean(event.location && typeof event.location.lat === "number" && typeof event.location.lng === "number");
   const isAI = (event.source ?? "").toLowerCase() === "ai" || (event.createdBy ?? "").toLowerCase() === "ai" || event.id?.startsWith("AI-");
   const normalizedSource = (event.source ?? "").toString().trim();
+  const { user } = useAuth();
+  const [attendance, setAttendance] = useState<AttendanceResponse | null>(null);
+  const [rsvpPending, setRsvpPending] = useState(false);
+  const [rsvpError, setRsvpError] = useState<string | null>(null);
+  const canRsvp = !isAI && Boolean(event.id && event.tenantId);
+  const canReport = canRsvp && Boolean(user) && event.createdBy !== user?.uid && event.creator?.uid !== user?.uid;
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reportReason, setReportReason] = useState<ReportReason>("spam");
+  const [reportDetails, setReportDetails] = useState("");
+  const [reportPending, setReportPending] = useState(false);
+  const [reportStatus, setReportStatus] = useState<{ sent: boolean; message: string } | null>(null);
+
+  const rsvpRequest = useCallback(
+    async (method: "GET" | "POST" | "DELETE", body?: Record<string, unknown>) => {
+      const params = new URLSearchParams({ eventId: event.id ?? "", tenantId: event.tenantId ?? "" });
+      if (user) params.set("userId", user.uid);
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (user) {
+        try {
+          headers.Authorization = `Bearer ${await user.getIdToken()}`;
+        } catch (error) {
+          console.warn("Unable to obtain Firebase ID token", error);
+        }
+      }
+      const response = await fetch(`/api/plugin/rsvp?${params.toString()}`, {
+        method,
+        headers,
+        cache: "no-store",
+        ...(body ? { body: JSON.stringify({ ...body, tenantId: event.tenantId }) } : {}),
+      });
+      const payload = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error || `RSVP request failed (${response.status})`);
+      }
+      return payload;
+    },
+    [event.id, event.tenantId, user],
+  );
+
+  const loadAttendance = useCallback(async () => {
+    try {
+      setAttendance((await rsvpRequest("GET")) as AttendanceResponse);
+    } catch (error) {
+      console.warn("Failed to load attendees", error);
+      setAttendance(null);
+    }
+  }, [rsvpRequest]);
+
+  useEffect(() => {
+    if (canRsvp) {
+      void loadAttendance();
+    }
+  }, [canRsvp, loadAttendance]);
+
+  const updateRsvp = async (response: "going" | "maybe" | null) => {
+    if (!user) return;
+    setRsvpPending(true);
+    setRsvpError(null);
+    try {
+      if (response) {
+        await rsvpRequest("POST", { eventId: event.id, userId: user.uid, response });
+      } else {
+        await rsvpRequest("DELETE");
+      }
+      await loadAttendance();
+    } catch (error) {
+      setRsvpError(error instanceof Error ? error.message : "Could not update your RSVP");
+    } finally {
+      setRsvpPending(false);
+    }
+  };
+
+  const submitReport = async () => {
+    if (!user) return;
+    setReportPending(true);
+    setReportStatus(null);
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      try {
+        headers.Authorization = `Bearer ${await user.getIdToken()}`;
+      } catch (error) {
+        console.warn("Unable to obtain Firebase ID token", error);
+      }
+      const response = await fetch("/api/plugin/report-event", {
+        method: "POST",
+        headers,
+        cache: "no-store",
+        body: JSON.stringify({
+          eventId: event.id,
+          tenantId: event.tenantId,
+          userId: user.uid,
+          reason: reportReason,
+          ...(reportDetails.trim() ? { details: reportDetails.trim() } : {}),
+        }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error || `Report failed (${response.status})`);
+      }
+      setReportStatus({ sent: true, message: "Thanks, our moderators will take a look." });
+      setReportOpen(false);
+      setReportDetails("");
+    } catch (error) {
+      setReportStatus({ sent: false, message: error instanceof Error ? error.message : "Could not send your report" });
+    } finally {
+      setReportPending(false);
+    }
+  };
+
+  const attendanceSummary = formatAttendance(
+    attendance
+      ? {
+          attendeeCount: attendance.counts.going,
+          maybeCount: attendance.counts.maybe,
+          waitlistCount: attendance.counts.waitlisted,
+          capacity: attendance.capacity ?? undefined,
+        }
+      : event,
+  );
+  const viewerStatus = attendance?.viewer?.status ?? null;
 
   const sourceMeta: Record<
     string,
@@ -83,6 +231,16 @@ export default function EventDetailPanel({ event, onClose }: EventDetailPanelPro
 
   const sourceDetails = sourceMeta[normalizedSource] ?? fallbackSource;
 
+  const downloadCalendarFile = () => {
+    const blob = new Blob([buildCalendar([event])], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${(event.title || "hangout").replace(/[^\w\- ]+/g, "").trim() || "hangout"}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const mapLink = hasLocation
     ? `https://www.google.com/maps/search/?api=1&query=${event.location!.lat},${event.location!.lng}`
     : undefined;
@@ -116,8 +274,89 @@ export default function EventDetailPanel({ event, onClose }: EventDetailPanelPro
               Start time: {formatDateTime(resolveDate(event.startTime))}
             </p>
           )}
+          {event.startTime && event.id && (
+            <button
+              type="button"
+              onClick={downloadCalendarFile}
+              className="inline-flex items-center gap-2 text-sm font-semibold text-blue-600 transition hover:text-blue-700"
+            >
+              Add to calendar (.ics)
+            </button>
+          )}
         </section>
 
+        {canRsvp && (
+          <section className="mt-6 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900">Who&apos;s going</h4>
+            <p className="text-sm text-gray-600">{attendanceSummary ?? "No RSVPs yet. Be the first!"}</p>
+
+            {attendance && attendance.attendees.length > 0 && (
+              <ul className="space-y-2">
+                {attendance.attendees.map((attendee, index) => (
+                  <li key={attendee.userId ?? `${attendee.name}-${index}`} className="flex items-center gap-3 text-sm">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={attendee.photoUrl || "/default-profile.png"}
+                      alt=""
+                      className="h-8 w-8 rounded-full object-cover"
+                      loading="lazy"
+                      referrerPolicy="no-referrer"
+                    />
+                    <span className="flex-1 text-gray-800">
+                      {attendee.name}
+                      {attendee.isViewer && <span className="text-gray-500"> (you)</span>}
+                    </span>
+                    <span className="text-xs font-medium text-gray-500">{RSVP_STATUS_LABELS[attendee.status]}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {attendance && attendance.hiddenCount > 0 && (
+              <p className="text-xs text-gray-500">
+                + {attendance.hiddenCount} {attendance.hiddenCount === 1 ? "person keeps" : "people keep"} their profile private
+              </p>
+            )}
+
+            {user ? (
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={rsvpPending || viewerStatus === "going" || viewerStatus === "waitlisted"}
+                  onClick={() => void updateRsvp("going")}
+                  className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {viewerStatus === "waitlisted"
+                    ? `Waitlisted (#${attendance?.viewer?.waitlistPosition ?? "?"})`
+                    : viewerStatus === "going"
+                    ? "You're going"
+                    : "Join"}
+                </button>
+                <button
+                  type="button"
+                  disabled={rsvpPending || viewerStatus === "maybe"}
+                  onClick={() => void updateRsvp("maybe")}
+                  className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-900 transition hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Maybe
+                </button>
+                {viewerStatus && (
+                  <button
+                    type="button"
+                    disabled={rsvpPending}
+                    onClick={() => void updateRsvp(null)}
+                    className="flex-1 rounded-lg border border-red-200 px-4 py-2 text-sm font-semibold text-red-600 transition hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Leave
+                  </button>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Sign in to RSVP.</p>
+            )}
+            {rsvpError && <p className="text-xs text-red-600">{rsvpError}</p>}
+          </section>
+        )}
+
         {isAI && (
           <section className="mt-6 space-y-3 rounded-xl border border-indigo-100 bg-indigo-50/70 p-4">
             <h4 className="text-sm font-semibold text-indigo-900">Why you&apos;re seeing this</h4>
@@ -183,6 +422,66 @@ export default function EventDetailPanel({ event, onClose }: EventDetailPanelPro
           <p className="text-sm font-semibold text-gray-800">{sourceDetails.label}</p>
           <p className="text-sm text-gray-600 leading-relaxed">{sourceDetails.description}</p>
         </section>
+
+        {canReport && (
+          <section className="mt-6 space-y-2">
+            {reportOpen ? (
+              <div className="space-y-2 rounded-xl border border-gray-200 p-4">
+                <h4 className="text-sm font-semibold text-gray-900">Report this hang out</h4>
+                <select
+                  value={reportReason}
+                  onChange={(e) => setReportReason(e.target.value as ReportReason)}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                >
+                  {REPORT_REASONS.map((reason) => (
+                    <option key={reason} value={reason}>
+                      {REPORT_REASON_LABELS[reason]}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  value={reportDetails}
+                  onChange={(e) => setReportDetails(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                  placeholder="Anything moderators should know (optional)"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={reportPending}
+                    onClick={() => void submitReport()}
+                    className="flex-1 rounded-lg bg-red-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Send report
+                  </button>
+                  <button
+                    type="button"
+                    disabled={reportPending}
+                    onClick={() => setReportOpen(false)}
+                    className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-900 transition hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              !reportStatus?.sent && (
+                <button
+                  type="button"
+                  onClick={() => setReportOpen(true)}
+                  className="text-xs font-semibold text-gray-500 transition hover:text-red-600"
+                >
+                  Report this hang out
+                </button>
+              )
+            )}
+            {reportStatus && (
+              <p className={`text-xs ${reportStatus.sent ? "text-gray-600" : "text-red-600"}`}>{reportStatus.message}</p>
+            )}
+          </section>
+        )}
       </div>
     </aside>
   );
@@ -52,6 +52,8 @@ interface UpdateEventPayload {
   eventId: string;
   updates: Partial<Event>;
   userId: string;
+  scope?: "this" | "following";
+  occurrenceStart?: string;
   apiKey?: string;
   tenantId?: string;
 }
@@ -195,6 +197,8 @@ export default function EventFeed({
   const [locationLoading, setLocationLoading] = useState(false);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
   const [limit, setLimit] = useState(50);
 
   const [aiSourceBreakdown, setAiSourceBreakdown] = useState<{
@@ -221,6 +225,122 @@ export default function EventFeed({
     limit,
   });
 
+  // Search as the user pauses typing rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // "Nearest" and searches are ranked by the server (geohash radius query, search index);
+  // the realtime feed stays newest-first.
+  const [rankedHangouts, setRankedHangouts] = useState<Event[] | null>(null);
+  const nearestActive = enableSorting && sortBy === "nearest" && Boolean(userCoordinates) && Boolean(tenantId);
+  const searchActive = searchQuery.length > 0 && Boolean(tenantId);
+  const serverRanked = nearestActive || searchActive;
+
+  useEffect(() => {
+    if (!serverRanked) {
+      setRankedHangouts(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRanked = async () => {
+      const params = new URLSearchParams({
+        includeAI: "false",
+        limit: Math.min(limit, 100).toString(),
+      });
+      if (nearestActive && userCoordinates) {
+        params.set("sortBy", "nearest");
+        params.set("near", `${userCoordinates.lat},${userCoordinates.lng}`);
+      }
+      if (searchActive) {
+        params.set("q", searchQuery);
+      }
+      if (tags.length > 0) {
+        params.set("tags", tags.join(","));
+      }
+
+      const headers: Record<string, string> = {};
+      if (useApiKey && sanitizedApiKey.length > 0) {
+        headers["x-api-key"] = sanitizedApiKey;
+      } else {
+        params.set("tenantId", tenantId);
+        if (user) {
+          try {
+            headers.Authorization = `Bearer ${await user.getIdToken()}`;
+          } catch (error) {
+            console.warn("Unable to obtain Firebase ID token", error);
+          }
+        }
+      }
+
+      try {
+        const response = await fetch(`${apiBaseUrl}/api/plugin/fetch-events?${params.toString()}`, {
+          headers,
+          cache: "no-store",
+        });
+        if (!response.ok) {
+          throw new Error(`Ranked hang outs request failed (${response.status})`);
+        }
+        const payload = (await response.json()) as { events?: Array<Event & { createdAt: string }> };
+        if (cancelled) return;
+        setRankedHangouts(
+          (payload.events ?? []).map((event) => ({ ...event, createdAt: new Date(event.createdAt) })),
+        );
+      } catch (error) {
+        // A failed search shows nothing rather than hang outs that do not match
+        console.warn(searchActive ? "Search failed" : "Falling back to newest-first hang outs", error);
+        if (!cancelled) setRankedHangouts(searchActive ? [] : null);
+      }
+    };
+
+    void loadRanked();
+    return () => {
+      cancelled = true;
+    };
+    // Refetch when the realtime feed changes so new hang outs are ranked too.
+  }, [
+    serverRanked,
+    nearestActive,
+    searchActive,
+    searchQuery,
+    userCoordinates,
+    tenantId,
+    tags,
+    limit,
+    useApiKey,
+    sanitizedApiKey,
+    user,
+    apiBaseUrl,
+    hangouts,
+  ]);
+
+  // Share the signed-in user's position for auto-join matching (the server ignores it unless location sharing is on)
+  const reportedLocationRef = useRef<string>("");
+  useEffect(() => {
+    if (!user || !tenantId || !userCoordinates) return;
+    const locationKey = `${tenantId}:${userCoordinates.lat.toFixed(3)},${userCoordinates.lng.toFixed(3)}`;
+    if (reportedLocationRef.current === locationKey) return;
+    reportedLocationRef.current = locationKey;
+
+    const reportLocation = async () => {
+      try {
+        const response = await fetch(`${apiBaseUrl}/api/v1/location`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` },
+          body: JSON.stringify({ tenantId, lat: userCoordinates.lat, lng: userCoordinates.lng }),
+        });
+        if (!response.ok && response.status !== 409) {
+          console.warn(`Location report failed (${response.status})`);
+        }
+      } catch (error) {
+        console.warn("Unable to report location", error);
+      }
+    };
+    void reportLocation();
+  }, [user, tenantId, userCoordinates, apiBaseUrl]);
+
   const sortedHangouts = useMemo(() => {
     const deduped: Event[] = [];
     const seen = new Set<string>();
@@ -234,7 +354,8 @@ export default function EventFeed({
       }`;
     };
 
-    hangouts.forEach((event) => {
+    const source = serverRanked && rankedHangouts ? rankedHangouts : hangouts;
+    source.forEach((event) => {
       const key = getEventId(event);
       if (!seen.has(key)) {
         seen.add(key);
@@ -263,45 +384,15 @@ export default function EventFeed({
       return new Date(0);
     };
 
-    const distanceFromUser = (event: Event) => {
-      if (!userCoordinates || !event.location) {
-        return Number.POSITIVE_INFINITY;
-      }
-
-      const { lat: lat1, lng: lon1 } = userCoordinates;
-      const { lat: lat2, lng: lon2 } = event.location;
-
-      if (
-        typeof lat2 !== "number" ||
-        typeof lon2 !== "number" ||
-        Number.isNaN(lat2) ||
-        Number.isNaN(lon2)
-      ) {
-        return Number.POSITIVE_INFINITY;
-      }
-
-      const toRadians = (deg: number) => (deg * Math.PI) / 180;
-      const R = 6371;
-      const dLat = toRadians(lat2 - lat1);
-      const dLon = toRadians(lon2 - lon1);
-      const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-          Math.sin(dLon / 2) * Math.sin(dLon / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c;
-    };
-
     const sorted = [...deduped];
 
-    if (enableSorting && sortBy === "nearest" && userCoordinates) {
-      sorted.sort((a, b) => distanceFromUser(a) - distanceFromUser(b));
-    } else {
+    // Server results arrive ranked; only the realtime feed needs ordering here.
+    if (!(serverRanked && rankedHangouts)) {
       sorted.sort((a, b) => getEventDate(b).getTime() - getEventDate(a).getTime());
     }
 
     return sorted;
-  }, [hangouts, enableSorting, sortBy, userCoordinates]);
+  }, [hangouts, rankedHangouts, serverRanked]);
 
   const [panelState, setPanelState] = useState<CarouselSnapshot>({
     cards: [],
@@ -315,7 +406,8 @@ export default function EventFeed({
 
   const commitCombinedCards = useCallback(
     (options?: { resetIndex?: boolean }) => {
-      const aiCards = showAIEvents && includeAI ? aiCardsRef.current : [];
+      // AI suggestions do not match search keywords
+      const aiCards = showAIEvents && includeAI && !searchActive ? aiCardsRef.current : [];
       const combined = combineAdventureCards(aiCards, sortedHangouts);
 
       setPanelState((previous) => {
@@ -351,7 +443,7 @@ export default function EventFeed({
         };
       });
     },
-    [includeAI, showAIEvents, sortedHangouts],
+    [includeAI, showAIEvents, searchActive, sortedHangouts],
   );
 
   const loadAiSuggestions = useCallback(
@@ -391,6 +483,11 @@ export default function EventFeed({
           cache: "no-store",
         });
 
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get("Retry-After")) || 60;
+          throw new Error(`Lots of people are exploring right now. Try again in ${retryAfter} seconds.`);
+        }
+
         if (!response.ok) {
           const textResponse = await response.text().catch(() => response.statusText);
           throw new Error(textResponse || `Failed to load AI suggestions (${response.status})`);
@@ -764,6 +861,17 @@ Directions: ${navigationLink}`
     };
   }, [useApiKey, sanitizedApiKey, tenantId]);
 
+  // A bare tenantId is only honoured for signed-in sessions, so it travels with the user's ID token.
+  const getSessionAuthHeaders = async (): Promise<Record<string, string>> => {
+    if (!user) return {};
+    try {
+      return { Authorization: `Bearer ${await user.getIdToken()}` };
+    } catch (error) {
+      console.warn("Unable to obtain Firebase ID token", error);
+      return {};
+    }
+  };
+
   const handleSubmit = async (formData: EventFormData) => {
     if (!user) {
       showNotification("error", "You must be logged in to create hang outs");
@@ -785,10 +893,12 @@ Directions: ${navigationLink}`
         },
       };
 
+      let sessionHeaders: Record<string, string> = {};
       if (useApiKey && sanitizedApiKey.length > 0) {
         requestBody.apiKey = sanitizedApiKey;
       } else if (tenantId) {
         requestBody.tenantId = tenantId;
+        sessionHeaders = await getSessionAuthHeaders();
       } else {
         requestBody.apiKey = sanitizedApiKey || defaultApiKey || "demo-key-1";
       }
@@ -798,6 +908,7 @@ Directions: ${navigationLink}`
         headers: {
           "Content-Type": "application/json",
           ...(requestBody.apiKey && { "x-api-key": requestBody.apiKey }),
+          ...sessionHeaders,
         },
         body: JSON.stringify(requestBody),
       });
@@ -826,7 +937,8 @@ Directions: ${navigationLink}`
     }
   };
 
-  const handleUpdate = async (id: string, updates: Partial<Event>, ownerId: string) => {
+  // For a recurring hang out, occurrenceStart is the occurrence being edited
+  const handleUpdate = async (id: string, updates: Partial<Event>, ownerId: string, occurrenceStart?: string) => {
     if (!user) {
       showNotification("error", "You must be logged in to update hang outs");
       return;
@@ -848,7 +960,17 @@ Directions: ${navigationLink}`
         updates,
         userId: user.uid,
       };
+      if (occurrenceStart) {
+        requestBody.occurrenceStart = occurrenceStart;
+        requestBody.scope = confirm(
+          "This hang out repeats. Apply the change to all future occurrences? Choose Cancel to change only this one."
+        )
+          ? "following"
+          : "this";
+      }
 
+      // Edits act as the signed-in user, so the ID token goes with API-key calls too
+      const sessionHeaders = await getSessionAuthHeaders();
       if (useApiKey && sanitizedApiKey.length > 0) {
         requestBody.apiKey = sanitizedApiKey;
       } else if (tenantId) {
@@ -857,7 +979,7 @@ Directions: ${navigationLink}`
 
       const response = await fetch(`${apiBaseUrl}${updateEventEndpoint}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...sessionHeaders },
         body: JSON.stringify(requestBody),
       });
 
@@ -901,6 +1023,7 @@ Directions: ${navigationLink}`
       deleteParams.set("eventId", id);
       deleteParams.set("userId", user.uid);
 
+      const sessionHeaders = await getSessionAuthHeaders();
       if (useApiKey && sanitizedApiKey.length > 0) {
         deleteParams.set("apiKey", sanitizedApiKey);
       } else if (tenantId) {
@@ -909,6 +1032,7 @@ Directions: ${navigationLink}`
 
       const response = await fetch(`${apiBaseUrl}${deleteEventEndpoint}?${deleteParams.toString()}`, {
         method: "DELETE",
+        headers: sessionHeaders,
       });
 
       const result = await response.json();
@@ -964,6 +1088,20 @@ Directions: ${navigationLink}`
         </div>
       )}
 
+      {tenantId && (
+        <div className="mb-4">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder={`Search ${eventLabel.toLowerCase()}s`}
+            aria-label={`Search ${eventLabel.toLowerCase()}s`}
+            maxLength={200}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+          />
+        </div>
+      )}
+
       {combinedErrorMessage && (
         <div className="mb-4 p-3 rounded-lg bg-red-100 text-red-700">
           {combinedErrorMessage}
@@ -1200,7 +1338,12 @@ Directions: ${navigationLink}`
                     currentAdventure.createdBy === user?.uid
                       ? (updates: Partial<Event>) => {
                           if (currentAdventure.id) {
-                            void handleUpdate(currentAdventure.id, updates, currentAdventure.createdBy);
+                            void handleUpdate(
+                              currentAdventure.id,
+                              updates,
+                              currentAdventure.createdBy,
+                              currentAdventure.recurrence ? currentAdventure.startTime : undefined,
+                            );
                           }
                         }
                       : undefined
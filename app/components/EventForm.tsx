@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { useAuth } from "./AuthContext";
-import { EventFormData } from "@/lib/types";
+import { EventFormData, RecurrenceInput } from "@/lib/types";
 import LocationPicker from "./LocationPicker";
 
 interface EventFormProps {
@@ -24,6 +24,13 @@ interface EventFormProps {
   primaryColor?: string; // For submit button
 }
 
+const REPEAT_OPTIONS = [
+  { value: "", label: "Does not repeat" },
+  { value: "DAILY", label: "Every day" },
+  { value: "WEEKLY", label: "Every week" },
+  { value: "MONTHLY", label: "Every month" },
+];
+
 const deriveTimeInputValue = (value?: string) => {
   if (!value) {
     return "18:00";
@@ -54,6 +61,8 @@ export default function EventForm({
   const [showLocationPicker, setShowLocationPicker] = useState(false);
   const [consentGiven, setConsentGiven] = useState(false); // GDPR consent flag
   const [startTime, setStartTime] = useState<string>(deriveTimeInputValue(event?.startTime));
+  const [repeat, setRepeat] = useState("");
+  const [repeatUntil, setRepeatUntil] = useState("");
 
   const {
     register,
@@ -148,6 +157,15 @@ export default function EventForm({
     const startDate = new Date();
     startDate.setHours(Number(hours), Number(minutes), 0, 0);
 
+    // Occurrences keep the creator's local time across daylight saving changes
+    const recurrence: RecurrenceInput | undefined = repeat
+      ? {
+          rrule: `FREQ=${repeat}`,
+          until: repeatUntil ? new Date(`${repeatUntil}T23:59:59`).toISOString() : undefined,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }
+      : undefined;
+
     try {
       // Include consent flag in submission
       // Ensure tags is an array
@@ -159,6 +177,7 @@ export default function EventForm({
           lng: typeof data.location.lng === "number" ? data.location.lng : parseFloat(data.location.lng),
         },
         startTime: startDate.toISOString(),
+        recurrence,
         consentGiven: true,
       };
       
@@ -211,6 +230,36 @@ export default function EventForm({
             />
           </section>
 
+          {!event && (
+            <section className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-900">Repeats</label>
+                <select
+                  value={repeat}
+                  onChange={(eventValue) => setRepeat(eventValue.target.value)}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {REPEAT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {repeat && (
+                <div>
+                  <label className="block text-sm font-medium mb-1 text-gray-900">Until</label>
+                  <input
+                    type="date"
+                    value={repeatUntil}
+                    onChange={(eventValue) => setRepeatUntil(eventValue.target.value)}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+            </section>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-1 text-gray-900">
               Description *
@@ -0,0 +1,137 @@
+/**
+ * AI Usage Service
+ * Meters model calls per tenant and enforces monthly token/cost quotas
+ */
+
+import {
+  currentMonth,
+  getMonthlyUsage,
+  getTenantAiQuota,
+  recordAiUsage,
+  type AiProvider,
+  type AiUsageByModel,
+  type AiUsageTotals,
+  type TenantAiQuota,
+} from "@/lib/ai-usage-store";
+
+export type AiQuotaStatus = "ok" | "warning" | "exceeded";
+
+export interface AiUsageSummary {
+  tenantId: string;
+  month: string;
+  totals: AiUsageTotals;
+  byModel: AiUsageByModel[];
+  quota: TenantAiQuota;
+  /** Highest share of the token or cost limit used so far; null when unlimited. */
+  utilization: number | null;
+  status: AiQuotaStatus;
+}
+
+export class AiQuotaExceededError extends Error {
+  status: number;
+  summary: AiUsageSummary;
+
+  constructor(summary: AiUsageSummary) {
+    super(`Monthly AI quota exceeded for tenant ${summary.tenantId} (${summary.month})`);
+    this.name = "AiQuotaExceededError";
+    this.status = 429;
+    this.summary = summary;
+  }
+}
+
+export interface MeterAiCallOptions {
+  tenantId: string | null;
+  provider: AiProvider;
+  model: string;
+  route: string;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+}
+
+// Tenants already warned about the soft limit this month, to keep logs quiet.
+const warnedTenants = new Set<string>();
+
+function utilizationOf(totals: AiUsageTotals, quota: TenantAiQuota): number | null {
+  const ratios: number[] = [];
+  if (quota.monthlyTokenLimit !== null) {
+    ratios.push(quota.monthlyTokenLimit > 0 ? totals.totalTokens / quota.monthlyTokenLimit : 1);
+  }
+  if (quota.monthlyCostLimitUsd !== null) {
+    ratios.push(quota.monthlyCostLimitUsd > 0 ? totals.costUsd / quota.monthlyCostLimitUsd : 1);
+  }
+  return ratios.length > 0 ? Math.max(...ratios) : null;
+}
+
+/**
+ * Usage, quota and threshold status for a tenant's calendar month (UTC)
+ * @param month - `YYYY-MM`, defaults to the current month
+ */
+export async function getAiUsageSummary(tenantId: string, month: string = currentMonth()): Promise<AiUsageSummary> {
+  const [{ totals, byModel }, quota] = await Promise.all([
+    getMonthlyUsage(tenantId, month),
+    getTenantAiQuota(tenantId),
+  ]);
+  const utilization = utilizationOf(totals, quota);
+  const status: AiQuotaStatus =
+    utilization === null ? "ok" : utilization >= 1 ? "exceeded" : utilization >= quota.softLimitRatio ? "warning" : "ok";
+
+  return { tenantId, month, totals, byModel, quota, utilization, status };
+}
+
+/**
+ * Hard stop before a model call: throws once the tenant has used up its
+ * monthly quota and logs a warning past the soft threshold. Fails open when
+ * usage cannot be read so a metering outage never blocks generation.
+ */
+export async function enforceAiQuota(tenantId: string): Promise<AiUsageSummary | null> {
+  let summary: AiUsageSummary;
+  try {
+    summary = await getAiUsageSummary(tenantId);
+  } catch (error) {
+    console.warn("[ai-usage] Failed to read usage, skipping quota check", error);
+    return null;
+  }
+
+  if (summary.status === "exceeded") {
+    throw new AiQuotaExceededError(summary);
+  }
+
+  const warningKey = `${tenantId}:${summary.month}`;
+  if (summary.status === "warning" && !warnedTenants.has(warningKey)) {
+    warnedTenants.add(warningKey);
+    console.warn(
+      `[ai-usage] Tenant ${tenantId} has used ${Math.round((summary.utilization ?? 0) * 100)}% of its ${summary.month} AI quota`
+    );
+  }
+  return summary;
+}
+
+/**
+ * Record tokens and estimated cost of one model call. Calls without a tenant
+ * (first-party spontaneous routes) are stored unattributed. Never throws.
+ */
+export async function meterAiCall({
+  tenantId,
+  provider,
+  model,
+  route,
+  promptTokens,
+  completionTokens,
+}: MeterAiCallOptions): Promise<void> {
+  try {
+    await recordAiUsage({
+      tenantId,
+      provider,
+      model,
+      route,
+      promptTokens: Math.max(0, Math.round(promptTokens ?? 0)),
+      completionTokens: Math.max(0, Math.round(completionTokens ?? 0)),
+    });
+  } catch (error) {
+    console.warn("[ai-usage] Failed to record AI usage", error);
+  }
+}
+
+export function resetAiUsageWarningsForTests() {
+  warnedTenants.clear();
+}
@@ -1,18 +1,20 @@
-import OpenAI from "openai";
 import { getTenantPromptTemplate } from "./tenant";
+import { enforceAiQuota } from "./ai-usage";
+import { generateStructured } from "./llm";
 import type { Event } from "@/lib/types";
 import { getAdminDb } from "@/lib/firebase-admin";
 import type { SpontaneousCard } from "@/lib/fetchSpontaneousData";
+import { aiSuggestionsOutput } from "@/lib/validation/ai-schema";
 
 const FALLBACK_COORDS = { lat: 40.7128, lng: -74.0060 }; // NYC
 const MAX_HISTORY_ENTRIES = 15;
 
 interface AISuggestion {
-  name?: string;
-  type?: string;
-  description?: string;
-  distance?: string;
-  tip?: string;
+  name?: string | null;
+  type?: string | null;
+  description?: string | null;
+  distance?: string | null;
+  tip?: string | null;
 }
 
 export interface WeatherContext {
@@ -213,17 +215,6 @@ function fewShotBlock() {
   ).join("\n\n");
 }
 
-function extractJsonArray(content: string): unknown {
-  const start = content.indexOf("[");
-  const end = content.lastIndexOf("]");
-  if (start === -1 || end === -1 || end <= start) {
-    throw new Error("No JSON array found in AI response");
-  }
-
-  const slice = content.slice(start, end + 1);
-  return JSON.parse(slice);
-}
-
 async function readRecentTitles(historyKey: string | null, limit = 10): Promise<string[]> {
   if (!historyKey) return [];
   const db = getAdminDb();
@@ -283,18 +274,11 @@ export async function generateLocalAISuggestions({
   recentOverride,
   allowStaticFallback = true,
 }: GenerateAISuggestionsOptions): Promise<Event[]> {
-  const apiKey = process.env.OPENAI_KEY || process.env.OPENAI_API_KEY;
-
-  if (!apiKey) {
-    console.warn("OpenAI API key not configured. Falling back to static AI suggestions.");
-    if (!allowStaticFallback) {
-      throw new Error("OpenAI API key not configured");
-    }
-    return mapSuggestionsToEvents(FALLBACK_SUGGESTIONS, coordinates || FALLBACK_COORDS, tenantId);
+  if (tenantId) {
+    // Outside the fallback try below: an exhausted quota is a hard stop, not a failed call.
+    await enforceAiQuota(tenantId);
   }
 
-  const openai = new OpenAI({ apiKey });
-
   const trimmedLocation = sanitizeText(location) || "New York";
 
   let locationCoords: { lat: number; lng: number } | null = coordinates;
@@ -326,7 +310,8 @@ export async function generateLocalAISuggestions({
     }
   }
 
-  const tenantTemplate = getTenantPromptTemplate(tenantId);
+  const tenantTemplate = await getTenantPromptTemplate(tenantId);
+  const tenantBrief = tenantTemplate.replace(/\{location\}/g, locationLabel);
 
   const { snapshot: weatherSnapshot, advisory: weatherAdvisory } = buildWeatherContext(weather);
 
@@ -352,7 +337,7 @@ export async function generateLocalAISuggestions({
 
   const systemPrompt = `
 You are an AI travel concierge creating spontaneous local experiences.
-Always respond with a valid JSON array of cards. Match the tone of the examples.
+Always respond with a JSON object {"suggestions": [...]} holding the cards. Match the tone of the examples.
   `.trim();
 
   const userPrompt = `
@@ -369,20 +354,23 @@ Traveler context:
 ${weatherSnapshot ? `- ${weatherSnapshot}` : ""}
 ${weatherAdvisory ? `- ${weatherAdvisory}` : ""}
 
+Partner brief: ${tenantBrief}
+
 Using the context JSON below, create 5 unique activity cards. Each card must include:
-- title
-- 1-2 sentence description grounded in local details
-- category (event | venue | place | weather)
-- optional startTime if relevant
-- optional address or neighborhood detail
+- name: the title
+- description: 1-2 sentences grounded in local details
+- type: event | venue | place | weather
+- distance: distance and neighborhood, or null
+- tip: an insider tip, or null
 
 JSON context (do not echo this verbatim—transform it into fresh experiences):
 ${JSON.stringify(promptPayload, null, 2)}
   `.trim();
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await generateStructured({
+      tenantId,
+      route: "generateLocalAISuggestions",
       messages: [
         {
           role: "system",
@@ -394,28 +382,16 @@ ${JSON.stringify(promptPayload, null, 2)}
         },
       ],
       temperature: 0.7,
-      top_p: 0.9,
-      max_tokens: 800,
+      topP: 0.9,
+      maxTokens: 800,
+      output: aiSuggestionsOutput,
+      stubResponse: JSON.stringify({ suggestions: FALLBACK_SUGGESTIONS }),
     });
 
-    const message = completion.choices[0]?.message?.content || "";
-    const cleanedPayload = extractJsonArray(message.trim());
-
-    if (!Array.isArray(cleanedPayload)) {
-      throw new Error("AI response was not an array");
-    }
-
-    const suggestions = (cleanedPayload as AISuggestion[])
-      .filter((item) => item && typeof item === "object")
-      .slice(0, 5)
-      .map((suggestion) => ({
-        ...suggestion,
-        description: addVariation(sanitizeText(suggestion.description) || ""),
-      }));
-
-    if (!suggestions.length) {
-      throw new Error("AI did not return any suggestions");
-    }
+    const suggestions = completion.data.suggestions.slice(0, 5).map((suggestion) => ({
+      ...suggestion,
+      description: addVariation(suggestion.description),
+    }));
 
     const mapped = mapSuggestionsToEvents(suggestions, locationCoords || FALLBACK_COORDS, tenantId);
     await appendHistory(historyDocKey, mapped);
@@ -0,0 +1,85 @@
+import { getEvent } from "@/app/services/events";
+import { respondToEvent } from "@/app/services/rsvp";
+import { getTagTaxonomy } from "@/app/services/tags";
+import { evaluateAutoJoin } from "@/lib/auto-join";
+import { isFeatureEnabled } from "@/lib/feature-flags";
+import { logAutoJoinTriggered } from "@/lib/telemetry";
+import { listAutoJoinCandidates } from "@/lib/user-location-store";
+
+/** Locations older than this are too stale to match against a radius. */
+const LOCATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_AUTO_JOIN_CANDIDATES = 200;
+
+export interface AutoJoinSummary {
+  eventId: string;
+  evaluated: number;
+  joined: string[];
+  waitlisted: string[];
+  skipped: number;
+  failed: number;
+}
+
+async function recordDecision(entry: Parameters<typeof logAutoJoinTriggered>[0]) {
+  try {
+    await logAutoJoinTriggered(entry);
+  } catch (error) {
+    console.warn("[auto-join] Failed to record decision", error);
+  }
+}
+
+/**
+ * RSVPs opted-in users of the tenant to a newly submitted hangout when their
+ * preferences match (see `evaluateAutoJoin`). Only users who reported a
+ * location recently are considered. Every decision is logged as an
+ * `auto_join_triggered` telemetry event. Returns null when `auto_join_v1` is
+ * off or the event is gone.
+ */
+export async function runAutoJoin(
+  eventId: string,
+  tenantId: string,
+  now: Date = new Date()
+): Promise<AutoJoinSummary | null> {
+  if (!(await isFeatureEnabled("auto_join_v1"))) {
+    return null;
+  }
+
+  const event = await getEvent(eventId, tenantId);
+  if (!event) {
+    return null;
+  }
+
+  const taxonomy = await getTagTaxonomy(tenantId);
+  const candidates = await listAutoJoinCandidates(tenantId, {
+    since: new Date(now.getTime() - LOCATION_MAX_AGE_MS),
+    limit: MAX_AUTO_JOIN_CANDIDATES,
+  });
+
+  const summary: AutoJoinSummary = { eventId, evaluated: candidates.length, joined: [], waitlisted: [], skipped: 0, failed: 0 };
+  // Sequential so capacity and waitlist order follow the candidate order
+  for (const { preferences, location } of candidates) {
+    const userId = preferences.userId;
+    const decision = evaluateAutoJoin({ preferences, event, userLocation: location, now, taxonomy });
+    if (decision.action === "skip") {
+      summary.skipped += 1;
+      await recordDecision({ userId, eventId, outcome: "skipped", reason: decision.reason });
+      continue;
+    }
+
+    try {
+      const { rsvp } = await respondToEvent({ eventId, tenantId, userId, response: "going" });
+      (rsvp?.status === "waitlisted" ? summary.waitlisted : summary.joined).push(userId);
+      await recordDecision({ userId, eventId, outcome: "joined", reason: rsvp?.status });
+    } catch (error) {
+      summary.failed += 1;
+      console.warn(`[auto-join] Failed to RSVP ${userId} to ${eventId}`, error);
+      await recordDecision({
+        userId,
+        eventId,
+        outcome: "failed",
+        reason: error instanceof Error ? error.message : "unknown_error",
+      });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,96 @@
+import { positionOf } from "@/app/services/event-backfill";
+import { getEventRepository, syncSearchIndex } from "@/app/services/events";
+import { DEFAULT_EVENT_DURATION_MINUTES } from "@/lib/event-schedule";
+import type { StoredEvent } from "@/lib/event-repository";
+import { mapHangoutDocument } from "@/lib/hangouts";
+import type { EventCursorPosition } from "@/lib/pagination-cursor";
+import { currentOccurrence, seriesDurationMs } from "@/lib/recurrence";
+
+const DEFAULT_BATCH_SIZE = 200;
+// Bounds the writes of one run; each archived event is moved on its own
+const MAX_BATCH_SIZE = 250;
+
+export interface ArchiveResult {
+  archived: number;
+  archivedIds: string[];
+  rolledForward: number; // Recurring series moved on to their next occurrence
+  hasMore: boolean;
+  /** Where the scan for events without `endTime` continues; pass it back as `after`. */
+  next: EventCursorPosition | null;
+  ranAt: string;
+}
+
+/**
+ * Moves hangouts that have ended into `hangOutsArchive` (same id, plus
+ * `archivedAt`) and removes them from `hangOuts`. Events without `endTime`
+ * are treated as lasting the default duration; events without `startTime`
+ * never expire. Recurring series move on to their next occurrence instead, and
+ * are archived after their last one. Each run handles at most `batchSize` events per pass, so a
+ * scheduler can simply call it again while `hasMore` is true.
+ *
+ * Events without `endTime` cannot be queried for directly, so they are found
+ * by scanning events that started before the cutoff, newest first. Most of
+ * those already have an `endTime`; `next` moves the scan past them.
+ */
+export async function archiveEndedEvents({
+  now = new Date(),
+  batchSize = DEFAULT_BATCH_SIZE,
+  after,
+}: { now?: Date; batchSize?: number; after?: EventCursorPosition } = {}): Promise<ArchiveResult> {
+  const repository = getEventRepository();
+  const pageSize = Math.min(Math.max(Math.floor(batchSize), 1), MAX_BATCH_SIZE);
+  const legacyCutoff = new Date(now.getTime() - DEFAULT_EVENT_DURATION_MINUTES * 60_000);
+  const [ended, legacy] = await Promise.all([
+    repository.find("live", { endsBefore: now, limit: pageSize }),
+    repository.find("live", { startsBefore: legacyCutoff, newestFirst: true, after, limit: pageSize }),
+  ]);
+
+  const candidates = new Map<string, StoredEvent>();
+  ended.forEach((stored) => candidates.set(stored.id, stored));
+  // Legacy events that were stored before endTime existed
+  legacy
+    .filter((stored) => stored.data.endTime === undefined)
+    .forEach((stored) => candidates.set(stored.id, stored));
+
+  const archivedIds: string[] = [];
+  let rolledForward = 0;
+  const archivedAt = now.toISOString();
+  for (const stored of candidates.values()) {
+    const occurrence = nextOccurrence(stored, now);
+    if (occurrence) {
+      await repository.update("live", stored.id, occurrence);
+      rolledForward += 1;
+    } else if (await repository.move(stored.id, "live", "archive", { set: { archivedAt } })) {
+      archivedIds.push(stored.id);
+      await syncSearchIndex(stored.id);
+    }
+  }
+
+  const next = legacy.length === pageSize ? positionOf(legacy[legacy.length - 1]) : null;
+  return {
+    archived: archivedIds.length,
+    archivedIds,
+    rolledForward,
+    hasMore: ended.length === pageSize || next !== null,
+    next,
+    ranAt: archivedAt,
+  };
+}
+
+/**
+ * The upcoming occurrence of a recurring series, or null when the event does
+ * not repeat or its last occurrence has ended.
+ */
+function nextOccurrence({ id, data }: StoredEvent, now: Date): { startTime: string; endTime: string } | null {
+  const event = mapHangoutDocument(data, id);
+  const recurrence = event.recurrence;
+  if (!recurrence) return null;
+  try {
+    const durationMs = seriesDurationMs(event);
+    const occurrence = currentOccurrence(recurrence, durationMs, now);
+    return occurrence && Date.parse(occurrence.endTime) >= now.getTime() ? occurrence : null;
+  } catch (error) {
+    console.warn(`Archiving recurring event ${id} with an invalid rule:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+import { getEventRepository, syncSearchIndex } from "@/app/services/events";
+import { getTagTaxonomy } from "@/app/services/tags";
+import { toSearchDocument } from "@/lib/event-search";
+import { indexSearchDocument } from "@/lib/event-search-store";
+import type { EventCollection, StoredEvent } from "@/lib/event-repository";
+import { mapHangoutDocument } from "@/lib/hangouts";
+import type { EventCursorPosition } from "@/lib/pagination-cursor";
+
+const DEFAULT_BATCH_SIZE = 200;
+const MAX_BATCH_SIZE = 500;
+
+export interface BackfillResult {
+  scanned: number;
+  updated: number;
+  /** Where the next run continues; null once every hangout was visited. */
+  next: EventCursorPosition | null;
+  ranAt: string;
+}
+
+/** Where a newest-first walk resumes after `stored`. */
+export function positionOf({ id, data }: StoredEvent): EventCursorPosition {
+  return { id, createdAt: data.createdAt instanceof Date ? data.createdAt.getTime() : 0 };
+}
+
+/**
+ * One page of `collection`, newest first, after `after`. Writes by the
+ * backfill do not change `createdAt`, so a walk never sees a hangout twice.
+ */
+async function pageOf(collection: EventCollection, after: EventCursorPosition | undefined, batchSize: number) {
+  const limit = Math.min(Math.max(Math.floor(batchSize), 1), MAX_BATCH_SIZE);
+  const page = await getEventRepository().find(collection, { newestFirst: true, after, limit });
+  return { page, next: page.length === limit ? positionOf(page[page.length - 1]) : null };
+}
+
+/**
+ * Adds live hangouts to the keyword search index, e.g. those stored before it
+ * existed. Each run indexes one page; pass `next` back as `after` until it is
+ * null.
+ */
+export async function reindexEventSearch({
+  after,
+  batchSize = DEFAULT_BATCH_SIZE,
+  now = new Date(),
+}: { after?: EventCursorPosition; batchSize?: number; now?: Date } = {}): Promise<BackfillResult> {
+  const { page, next } = await pageOf("live", after, batchSize);
+  let updated = 0;
+  for (const stored of page) {
+    const event = mapHangoutDocument(stored.data, stored.id);
+    if (!event.tenantId) continue;
+    await indexSearchDocument(toSearchDocument({ ...event, id: stored.id, tenantId: event.tenantId }), now);
+    updated += 1;
+  }
+  return { scanned: page.length, updated, next, ranAt: now.toISOString() };
+}
+
+/**
+ * Rewrites stored tags in their tenant's canonical form, for hangouts saved
+ * before the taxonomy existed or before a vocabulary change. Live hangouts
+ * are reindexed for search. Pages work as in `reindexEventSearch`.
+ */
+export async function canonicalizeStoredTags({
+  collection = "live",
+  after,
+  batchSize = DEFAULT_BATCH_SIZE,
+  now = new Date(),
+}: {
+  collection?: Extract<EventCollection, "live" | "pending">;
+  after?: EventCursorPosition;
+  batchSize?: number;
+  now?: Date;
+} = {}): Promise<BackfillResult> {
+  const { page, next } = await pageOf(collection, after, batchSize);
+  let updated = 0;
+  for (const stored of page) {
+    const event = mapHangoutDocument(stored.data, stored.id);
+    const taxonomy = await getTagTaxonomy(event.tenantId);
+    const tags = taxonomy.canonicalTags(event.tags);
+    if (tags.length === event.tags.length && tags.every((tag, index) => tag === event.tags[index])) continue;
+    if (!(await getEventRepository().update(collection, stored.id, { tags }))) continue;
+    if (collection === "live") await syncSearchIndex(stored.id);
+    updated += 1;
+  }
+  return { scanned: page.length, updated, next, ranAt: now.toISOString() };
+}
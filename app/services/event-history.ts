@@ -0,0 +1,181 @@
+import {
+  getDeletedEvent,
+  getEvent,
+  getEventRepository,
+  restoreDeletedEvent,
+  updateEvent,
+} from "@/app/services/events";
+import { getRevision, listRevisions, revertedFields, type EventRevision } from "@/lib/event-history-store";
+import { isEventOwner } from "@/lib/event-permissions";
+import type { Event } from "@/lib/types";
+
+export const DEFAULT_RESTORE_WINDOW_HOURS = 72;
+const DEFAULT_PURGE_BATCH_SIZE = 200;
+// Bounds the deletes of one run
+const MAX_PURGE_BATCH_SIZE = 500;
+
+export class EventHistoryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "EventHistoryError";
+    this.status = status;
+  }
+}
+
+export interface PurgeResult {
+  purged: number;
+  purgedIds: string[];
+  hasMore: boolean;
+  ranAt: string;
+}
+
+export interface DeletedEventStatus {
+  deletedAt: string;
+  deletedBy: string;
+  restoreUntil: string;
+  restorable: boolean;
+}
+
+/**
+ * How long a deleted hangout can be restored, from `EVENT_RESTORE_WINDOW_HOURS`.
+ * Applies to events deleted before a change as well.
+ */
+export function getRestoreWindowMs(): number {
+  const hours = Number(process.env.EVENT_RESTORE_WINDOW_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RESTORE_WINDOW_HOURS) * 60 * 60 * 1000;
+}
+
+export function describeDeletion(
+  { deletedAt, deletedBy }: { deletedAt: string; deletedBy: string },
+  now: Date = new Date()
+): DeletedEventStatus {
+  const restoreUntil = new Date(new Date(deletedAt).getTime() + getRestoreWindowMs());
+  return {
+    deletedAt,
+    deletedBy,
+    restoreUntil: restoreUntil.toISOString(),
+    restorable: restoreUntil.getTime() >= now.getTime(),
+  };
+}
+
+/**
+ * Revisions newest first; with `eventId`, also whether the event is deleted.
+ */
+export async function getEventHistory({
+  tenantId,
+  eventId,
+  before,
+  limit,
+  now = new Date(),
+}: {
+  tenantId: string;
+  eventId?: string;
+  before?: number;
+  limit?: number;
+  now?: Date;
+}): Promise<{ revisions: EventRevision[]; deleted?: DeletedEventStatus | null }> {
+  const revisions = await listRevisions({ tenantId, eventId, before, limit });
+  if (!eventId) {
+    return { revisions };
+  }
+  const trashed = await getDeletedEvent(eventId, tenantId);
+  return { revisions, deleted: trashed ? describeDeletion(trashed, now) : null };
+}
+
+/**
+ * Brings back a soft-deleted hangout within the restore window. Besides
+ * moderators, its creator and whoever deleted it may restore it.
+ */
+export async function restoreEvent({
+  eventId,
+  tenantId,
+  actorId,
+  isModerator,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  actorId: string;
+  isModerator: boolean;
+  now?: Date;
+}): Promise<{ event: Event | null; revision: EventRevision | null }> {
+  const trashed = await getDeletedEvent(eventId, tenantId);
+  if (!trashed) {
+    const live = await getEvent(eventId, tenantId);
+    throw live
+      ? new EventHistoryError("Event is not deleted", 409)
+      : new EventHistoryError("Event not found", 404);
+  }
+  if (!isModerator && trashed.deletedBy !== actorId && !isEventOwner(trashed, actorId)) {
+    throw new EventHistoryError("Only the creator or a tenant moderator can restore this event", 403);
+  }
+  if (!describeDeletion(trashed, now).restorable) {
+    throw new EventHistoryError("The restore window for this event has passed", 410);
+  }
+
+  const revision = await restoreDeletedEvent(eventId, tenantId, actorId, now);
+  return { event: await getEvent(eventId, tenantId), revision };
+}
+
+/**
+ * Undoes one revision: edits are rolled back to their previous values and a
+ * delete is restored. Fields edited again since then are overwritten too, and
+ * fields the edit added (recorded as `before: null`) are removed again.
+ */
+export async function revertRevision({
+  revisionId,
+  tenantId,
+  actorId,
+  now = new Date(),
+}: {
+  revisionId: number;
+  tenantId: string;
+  actorId: string;
+  now?: Date;
+}): Promise<EventRevision | null> {
+  const revision = await getRevision(revisionId);
+  if (!revision || revision.tenantId !== tenantId) {
+    throw new EventHistoryError("Revision not found", 404);
+  }
+
+  if (revision.action === "delete") {
+    return (await restoreEvent({ eventId: revision.eventId, tenantId, actorId, isModerator: true, now })).revision;
+  }
+  if (revision.action === "restore") {
+    throw new EventHistoryError("Delete the event again instead of reverting a restore", 409);
+  }
+
+  if (!(await getEvent(revision.eventId, tenantId))) {
+    const trashed = await getDeletedEvent(revision.eventId, tenantId);
+    throw trashed
+      ? new EventHistoryError("Restore the event before reverting its edits", 409)
+      : new EventHistoryError("Event not found", 404);
+  }
+
+  const { previous, unset } = revertedFields(revision.changes);
+  return updateEvent(revision.eventId, previous, tenantId, { userId: actorId, isModerator: true }, revision.id, unset);
+}
+
+/**
+ * Permanently removes deleted hangouts whose restore window has passed, at
+ * most `batchSize` per run.
+ */
+export async function purgeDeletedEvents({
+  now = new Date(),
+  batchSize = DEFAULT_PURGE_BATCH_SIZE,
+}: { now?: Date; batchSize?: number } = {}): Promise<PurgeResult> {
+  const repository = getEventRepository();
+  const pageSize = Math.min(Math.max(Math.floor(batchSize), 1), MAX_PURGE_BATCH_SIZE);
+  const cutoff = new Date(now.getTime() - getRestoreWindowMs());
+  const expired = await repository.find("trash", { deletedBefore: cutoff, limit: pageSize });
+  await Promise.all(expired.map(({ id }) => repository.delete("trash", id)));
+
+  return {
+    purged: expired.length,
+    purgedIds: expired.map(({ id }) => id),
+    hasMore: expired.length === pageSize,
+    ranAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,122 @@
+import { parseLocationInput, validateEventInput, type EventInput } from "@/app/services/event-input";
+import { submitEvent } from "@/app/services/events";
+import { screeningModeration, screenSubmission } from "@/app/services/moderation";
+import { geocodeAddress, GeocodingError, type GeocodedAddress } from "@/app/services/geocoding";
+import type { ImportRow } from "@/lib/event-import";
+import { EventValidationError } from "@/lib/validation/event-schema";
+
+export type ImportRowStatus = "valid" | "created" | "failed";
+
+export interface ImportRowResult {
+  row: number;
+  status: ImportRowStatus;
+  title?: string;
+  id?: string; // Set once the event was created
+  moderationStatus?: "published" | "pending"; // "pending" when screening held the event for review
+  geocoded?: { address: string; lat: number; lng: number; placeName?: string };
+  error?: string;
+  message?: string;
+  fields?: Record<string, string[]>; // Per-field messages when the row is not a valid event
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  created: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+export interface ImportEventsOptions {
+  tenantId: string;
+  userId: string;
+  dryRun?: boolean;
+  // Applied to every row, like the creator fields of submit-event
+  creator?: Pick<EventInput, "creator" | "creatorName" | "creatorProfileImageUrl" | "consentGiven">;
+}
+
+/** The address a row needs geocoded: `address`, or a `location` that is not coordinates. */
+function addressToGeocode(fields: Record<string, unknown>): string | undefined {
+  if (parseLocationInput(fields.location)) return undefined;
+  const address = typeof fields.address === "string" ? fields.address : fields.location;
+  return typeof address === "string" && address.trim().length > 0 ? address.trim() : undefined;
+}
+
+/**
+ * Validates every row by the submit-event rules, geocoding address-only rows,
+ * screens it like submit-event, and creates the valid ones unless `dryRun` is set. Rows are processed one at
+ * a time; a failing row is reported and does not stop the others.
+ */
+export async function importEvents(rows: ImportRow[], options: ImportEventsOptions): Promise<ImportResult> {
+  const { tenantId, userId, dryRun = false, creator } = options;
+  // Schedules often repeat a venue, so each address is looked up once per import
+  const geocodeCache = new Map<string, Promise<GeocodedAddress | null>>();
+  const results: ImportRowResult[] = [];
+
+  for (const { row, fields, error } of rows) {
+    const title = typeof fields.title === "string" ? fields.title.trim() || undefined : undefined;
+    if (error) {
+      results.push({ row, status: "failed", title, error: "Invalid row", message: error });
+      continue;
+    }
+
+    const input: Record<string, unknown> = { ...fields };
+    delete input.address;
+    const address = addressToGeocode(fields);
+    let geocoded: ImportRowResult["geocoded"];
+    if (address) {
+      try {
+        if (!geocodeCache.has(address)) geocodeCache.set(address, geocodeAddress(address));
+        const point = await geocodeCache.get(address)!;
+        if (!point) {
+          results.push({ row, status: "failed", title, error: "Address not found", message: `No match for "${address}"` });
+          continue;
+        }
+        input.location = { lat: point.lat, lng: point.lng };
+        geocoded = { address, ...point };
+      } catch (geocodeError) {
+        if (!(geocodeError instanceof GeocodingError)) throw geocodeError;
+        results.push({ row, status: "failed", title, error: "Geocoding failed", message: geocodeError.message });
+        continue;
+      }
+    }
+
+    try {
+      const event = validateEventInput({ ...input, ...creator }, userId);
+      const screening = await screenSubmission(event, tenantId);
+      const moderationStatus = screening.flagged ? "pending" : "published";
+      if (dryRun) {
+        results.push({ row, status: "valid", title: event.title, moderationStatus, ...(geocoded && { geocoded }) });
+        continue;
+      }
+      const created = await submitEvent(event, tenantId, { moderation: screeningModeration(screening) });
+      results.push({
+        row,
+        status: "created",
+        title: event.title,
+        id: created?.id,
+        moderationStatus,
+        ...(geocoded && { geocoded }),
+      });
+    } catch (rowError) {
+      if (rowError instanceof EventValidationError) {
+        results.push({ row, status: "failed", title, error: "Invalid event", message: rowError.message, fields: rowError.fields });
+      } else {
+        console.error(`Failed to import row ${row}:`, rowError);
+        const message = rowError instanceof Error ? rowError.message : "An unexpected error occurred";
+        results.push({ row, status: "failed", title, error: "Failed to submit event", message });
+      }
+    }
+  }
+
+  const count = (status: ImportRowStatus) => results.filter((result) => result.status === status).length;
+  return {
+    dryRun,
+    total: results.length,
+    valid: count("valid") + count("created"),
+    created: count("created"),
+    failed: count("failed"),
+    rows: results,
+  };
+}
@@ -0,0 +1,160 @@
+import type { SubmitEventPayload } from "@/app/services/events";
+import type { GeoPoint } from "@/lib/geohash";
+import { createEventSchema, parseEventPayload } from "@/lib/validation/event-schema";
+
+// Request-level fields that are never stored on the event
+const REQUEST_FIELDS = ["userId", "apiKey", "tenantId"] as const;
+
+type RawCreator = {
+  uid?: string;
+  name?: string;
+  profileImageUrl?: string;
+};
+
+export type EventInput = {
+  userId?: string;
+  apiKey?: string;
+  tenantId?: string;
+  creator?: RawCreator;
+  creatorName?: string;
+  creatorProfileImageUrl?: string;
+  consentGiven?: boolean;
+  title?: string;
+  description?: string;
+  location?: unknown;
+  tags?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
+  durationMinutes?: unknown;
+  capacity?: unknown;
+  priceCents?: unknown;
+  recurrence?: unknown;
+  [key: string]: unknown;
+};
+
+/** A `{lat, lng}` object or a "lat,lng" string; undefined for anything else. */
+export function parseLocationInput(location: unknown): GeoPoint | undefined {
+  if (!location) {
+    return undefined;
+  }
+  if (typeof location === "string") {
+    const match = location.match(/^(-?\d+\.?\d*),\s*(-?\d+\.?\d*)$/);
+    if (match) {
+      const lat = parseFloat(match[1]);
+      const lng = parseFloat(match[2]);
+      if (Number.isFinite(lat) && Number.isFinite(lng)) {
+        return { lat, lng };
+      }
+    }
+    return undefined;
+  }
+  if (
+    typeof location === "object" &&
+    typeof (location as { lat?: unknown }).lat === "number" &&
+    typeof (location as { lng?: unknown }).lng === "number"
+  ) {
+    const lat = (location as { lat: number }).lat;
+    const lng = (location as { lng: number }).lng;
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      return { lat, lng };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks a submitted event with `createEventSchema` and returns what
+ * `submitEvent()` stores. Throws `EventValidationError` listing every invalid
+ * field. Fields it does not know are passed through.
+ */
+export function validateEventInput(data: EventInput, userId: string): SubmitEventPayload {
+  const {
+    creator,
+    creatorName,
+    creatorProfileImageUrl,
+    consentGiven,
+    title,
+    description,
+    location,
+    tags,
+    startTime,
+    endTime,
+    durationMinutes,
+    capacity,
+    priceCents,
+    recurrence,
+    ...additionalFields
+  } = data;
+  for (const field of REQUEST_FIELDS) {
+    delete additionalFields[field];
+  }
+
+  const fields = parseEventPayload(createEventSchema, {
+    title,
+    description,
+    location,
+    tags,
+    startTime,
+    endTime,
+    durationMinutes,
+    capacity,
+    priceCents,
+    recurrence,
+  });
+
+  const fallbackCreatorName =
+    typeof creatorName === "string" && creatorName.trim().length > 0 ? creatorName.trim() : undefined;
+  const fallbackCreatorImage =
+    typeof creatorProfileImageUrl === "string" && creatorProfileImageUrl.trim().length > 0
+      ? creatorProfileImageUrl.trim()
+      : undefined;
+
+  const eventCreator =
+    creator && typeof creator === "object"
+      ? {
+          uid: typeof creator.uid === "string" && creator.uid.trim().length > 0 ? creator.uid.trim() : userId,
+          name:
+            typeof creator.name === "string" && creator.name.trim().length > 0
+              ? creator.name.trim()
+              : fallbackCreatorName,
+          profileImageUrl:
+            typeof creator.profileImageUrl === "string" && creator.profileImageUrl.trim().length > 0
+              ? creator.profileImageUrl.trim()
+              : fallbackCreatorImage,
+        }
+      : {
+          uid: userId,
+          name: fallbackCreatorName,
+          profileImageUrl: fallbackCreatorImage,
+        };
+
+  const event: SubmitEventPayload = {
+    ...additionalFields,
+    title: fields.title,
+    description: fields.description,
+    tags: fields.tags,
+    location: fields.location,
+    createdBy: userId,
+    consentGiven: typeof consentGiven === "boolean" ? consentGiven : true,
+    creator: eventCreator,
+  };
+
+  if (fields.capacity) {
+    event.capacity = fields.capacity;
+  }
+
+  if (fields.priceCents !== undefined) {
+    event.priceCents = fields.priceCents;
+  }
+
+  if (fields.startTime) {
+    event.startTime = fields.startTime;
+    event.endTime = fields.endTime;
+  }
+
+  if (fields.recurrence) {
+    event.recurrence = fields.recurrence;
+  }
+
+  return event;
+}
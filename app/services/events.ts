@@ -1,24 +1,48 @@
-import { db } from "@/lib/firebase";
+import type {
+  Event,
+  EventCreator,
+  EventRecurrence,
+  OccurrenceOverride,
+  RecurrenceInput,
+} from "@/lib/types";
+import { getQueryExecutor } from "@/lib/db";
 import {
-  collection,
-  doc,
-  getDocs,
-  getDoc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  query,
-  orderBy,
-  serverTimestamp,
-  where,
-  limit as firestoreLimit,
-  startAfter,
-  QueryDocumentSnapshot,
-  DocumentData,
-} from "firebase/firestore";
+  InMemoryEventRepository,
+  PostgresEventRepository,
+  type EventDocument,
+  type EventQuery,
+  type EventRepository,
+  type StoredEvent,
+} from "@/lib/event-repository";
+import { FirestoreEventRepository } from "@/lib/firestore-event-repository";
+import { toSearchDocument } from "@/lib/event-search";
+import { indexSearchDocument, removeSearchDocument, searchEventIndex } from "@/lib/event-search-store";
+import { getTagTaxonomy } from "@/app/services/tags";
 import { getAdminDb } from "@/lib/firebase-admin";
-import { FieldValue } from "firebase-admin/firestore";
-import type { Event, EventCreator } from "@/lib/types";
+import { DEFAULT_AVATAR, mapHangoutDocument, sanitizeString } from "@/lib/hangouts";
+import type { EventCursorPosition } from "@/lib/pagination-cursor";
+import { encodeGeohash, geohashQueryBounds, haversineDistanceKm, type GeoPoint } from "@/lib/geohash";
+import { matchesTimeWindow, parseTimeBoundary, resolveEventSchedule } from "@/lib/event-schedule";
+import { diffFields, recordRevision, type EventRevision, type FieldChange } from "@/lib/event-history-store";
+import {
+  assertCanModifyEvent,
+  EventAccessError,
+  pickEventUpdates,
+  type EventActor,
+} from "@/lib/event-permissions";
+import type { EventModeration, ModerationStatus } from "@/lib/moderation";
+import { createEventSchema, parseEventPayload } from "@/lib/validation/event-schema";
+import {
+  currentOccurrence,
+  expandOccurrences,
+  isOccurrenceStart,
+  normalizeRecurrence,
+  OCCURRENCE_OVERRIDE_FIELDS,
+  RecurrenceError,
+  seriesDurationMs,
+  shiftRecurrence,
+  splitRecurrence,
+} from "@/lib/recurrence";
 
 export interface FetchEventsOptions {
   limit?: number;
@@ -26,84 +50,84 @@ export interface FetchEventsOptions {
   tags?: string[]; // Filter by tags
   createdBy?: string; // Filter by creator
   tenantId?: string; // Multi-tenant: filter by tenant
+  near?: GeoPoint; // Only events within radiusKm of this point, nearest first
+  radiusKm?: number;
+  startsAfter?: Date; // Only events starting at or after this instant
+  startsBefore?: Date; // Only events starting at or before this instant
+  happeningNow?: boolean; // Only events that have started and not yet ended
+  q?: string; // Keyword search over title, description, tags and creator name, best match first
+}
+
+export interface PaginatedEventsOptions extends FetchEventsOptions {
+  createdAfter?: Date; // Only events created after this instant
+  after?: EventCursorPosition; // Resume after this (createdAt, id) position
 }
 
 export interface PaginatedEvents {
   events: Event[];
   total: number;
   hasMore: boolean;
-  lastDoc?: QueryDocumentSnapshot<DocumentData>;
-}
-
-type FirestoreTimestampLike = {
-  toDate?: () => Date;
-  seconds?: number;
-};
-
-type RawEventCreator = {
-  uid?: unknown;
-  name?: unknown;
-  profileImageUrl?: unknown;
-};
-
-type RawEventData = {
-  title?: unknown;
-  description?: unknown;
-  tags?: unknown;
-  location?: unknown;
-  createdBy?: unknown;
-  createdAt?: unknown;
-  startTime?: unknown;
-  tenantId?: unknown;
-  consentGiven?: unknown;
-  creator?: RawEventCreator;
-  creatorName?: unknown;
-  creatorProfileImageUrl?: unknown;
-  createdByName?: unknown;
-  profileImageUrl?: unknown;
-  displayName?: unknown;
-  name?: unknown;
-};
-
-const sanitizeString = (value: unknown): string | undefined => {
-  if (typeof value !== "string") return undefined;
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-};
-
-const DEFAULT_AVATAR = "/default-profile.png";
-
-const resolveTimestamp = (value: unknown): Date => {
-  if (value instanceof Date) {
-    return value;
-  }
-
-  if (value && typeof value === "object") {
-    const timestampLike = value as FirestoreTimestampLike;
-    if (typeof timestampLike.toDate === "function") {
-      try {
-        const date = timestampLike.toDate();
-        if (date instanceof Date && !Number.isNaN(date.getTime())) {
-          return date;
-        }
-      } catch (error) {
-        console.warn("Failed to convert Firestore timestamp via toDate:", error);
-      }
-    }
-    if (typeof timestampLike.seconds === "number") {
-      return new Date(timestampLike.seconds * 1000);
-    }
-  }
+}
+
+const DEFAULT_RADIUS_KM = 25;
+// Per geohash range; bounds the read cost of a radius query in dense areas.
+const MAX_NEARBY_CANDIDATES = 500;
+// Recurring series read per time-window query; their occurrences are expanded in memory
+const MAX_RECURRING_SERIES = 200;
+// How far ahead occurrences are listed when the window has no upper bound
+const OCCURRENCE_HORIZON_DAYS = 30;
+// Search matches loaded per query before the other filters apply
+const MAX_SEARCH_HITS = 200;
+
+let eventRepository: EventRepository | null = null;
+let testRepository: EventRepository | null = null;
 
-  if (typeof value === "string") {
-    const parsed = new Date(value);
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed;
+/**
+ * The hangout store named by `EVENT_STORE`: "firestore" (the default, through
+ * the Admin SDK), "postgres", or "memory" for local development.
+ */
+export function getEventRepository(): EventRepository {
+  if (testRepository) return testRepository;
+  if (eventRepository) return eventRepository;
+
+  const store = process.env.EVENT_STORE || "firestore";
+  if (store === "postgres") {
+    eventRepository = new PostgresEventRepository(getQueryExecutor());
+  } else if (store === "memory") {
+    eventRepository = new InMemoryEventRepository();
+  } else if (store === "firestore") {
+    const adminDb = getAdminDb();
+    if (!adminDb) {
+      throw new Error("Firebase Admin is not configured – cannot read or write events");
     }
+    eventRepository = new FirestoreEventRepository(adminDb);
+  } else {
+    throw new Error(`Unknown EVENT_STORE "${store}"`);
   }
+  return eventRepository;
+}
 
-  return new Date();
-};
+export function setEventRepositoryForTests(repository: EventRepository | null) {
+  testRepository = repository;
+  eventRepository = null;
+}
+
+const toEvent = ({ id, data }: StoredEvent): Event => mapHangoutDocument(data, id);
+
+/** Tag filters in the tenant's canonical form, so "gig" finds hangouts saved as "live music". */
+async function withCanonicalTags<T extends FetchEventsOptions>(options: T): Promise<T> {
+  if (!options.tags?.length) return options;
+  const taxonomy = await getTagTaxonomy(options.tenantId);
+  return { ...options, tags: taxonomy.canonicalTags(options.tags) };
+}
+
+/** `pickEventUpdates` with new tags in the tenant's canonical form. */
+async function pickCanonicalUpdates(changes: Record<string, unknown>, tenantId: string) {
+  const updates = pickEventUpdates(changes);
+  if (!updates.tags) return updates;
+  const taxonomy = await getTagTaxonomy(tenantId);
+  return { ...updates, tags: taxonomy.canonicalTags(updates.tags) };
+}
 
 export interface SubmitEventPayload {
   title: string;
@@ -116,202 +140,215 @@ export interface SubmitEventPayload {
   creatorName?: string;
   creatorProfileImageUrl?: string;
   startTime?: string;
+  endTime?: string;
+  durationMinutes?: number;
+  capacity?: number | null;
+  priceCents?: number;
+  recurrence?: string | RecurrenceInput | EventRecurrence | null; // Validated by submitEvent
   [key: string]: unknown;
 }
 
 /**
- * Anonymize user ID for GDPR compliance when serving external tenants
- * Uses a hash of the user ID to prevent tracking while maintaining uniqueness
+ * Tenant, creator, tag and time-window filters shared by every hangOuts query.
  */
-function anonymizeUserId(userId: string): string {
-  // Simple hash function (in production, use crypto.createHash)
-  let hash = 0;
-  for (let i = 0; i < userId.length; i++) {
-    const char = userId.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return `anon-${Math.abs(hash).toString(36)}`;
+function eventFilters(
+  { tenantId, createdBy, tags, startsAfter, startsBefore, happeningNow }: FetchEventsOptions,
+  now: Date = new Date()
+): EventQuery {
+  return { tenantId, createdBy, tags, startsAfter, startsBefore, ongoingAt: happeningNow ? now : undefined };
 }
 
 /**
- * Normalize event data to consistent API schema with GDPR compliance
+ * Radius query over the stored `geohash`: one range scan per covering geohash
+ * prefix, then an exact distance check. Results carry `distanceKm` and are
+ * sorted nearest first (ties by id).
  */
-function normalizeEvent(docData: RawEventData, docId: string, anonymize: boolean = false): Event {
-  const title = sanitizeString(docData.title) || "";
-  const description = sanitizeString(docData.description) || "";
-  const createdBy = sanitizeString(docData.createdBy) || "unknown";
-
-  const tags = Array.isArray(docData.tags)
-    ? (docData.tags as unknown[]).filter((tag): tag is string => typeof tag === "string" && tag.trim().length > 0)
-    : [];
-
-  const rawLocation = docData.location as
-    | { lat?: unknown; lng?: unknown }
-    | undefined;
-  const location =
-    rawLocation &&
-    typeof rawLocation === "object" &&
-    typeof rawLocation.lat === "number" &&
-    typeof rawLocation.lng === "number"
-      ? { lat: rawLocation.lat, lng: rawLocation.lng }
-      : { lat: 0, lng: 0 };
-
-  const rawCreator = docData.creator && typeof docData.creator === "object" ? (docData.creator as RawEventCreator) : undefined;
-  const creatorUid =
-    sanitizeString(rawCreator?.uid) ||
-    createdBy;
-  const creatorName =
-    sanitizeString(rawCreator?.name) ||
-    sanitizeString(docData.creatorName) ||
-    sanitizeString(docData.createdByName) ||
-    sanitizeString(docData.displayName) ||
-    sanitizeString(docData.name);
-  const creatorProfileImage =
-    sanitizeString(rawCreator?.profileImageUrl) ||
-    sanitizeString(docData.creatorProfileImageUrl) ||
-    sanitizeString(docData.profileImageUrl) ||
-    DEFAULT_AVATAR;
-
-  const creator: EventCreator = {
-    uid: creatorUid,
-    name: creatorName,
-    profileImageUrl: creatorProfileImage,
-  };
-
-  const normalized: Event = {
-    id: docId,
-    title,
-    description,
-    tags,
-    location,
-    createdBy,
-    createdAt: resolveTimestamp(docData.createdAt),
-    source: "User",
-    tenantId: sanitizeString(docData.tenantId),
-    consentGiven: typeof docData.consentGiven === "boolean" ? docData.consentGiven : true,
-    creator,
-    startTime:
-      typeof docData.startTime === "string" && docData.startTime.trim().length > 0
-        ? docData.startTime
-        : docData.startTime && typeof docData.startTime === "object" && "toDate" in (docData.startTime as { toDate?: () => Date })
-        ? (() => {
-            try {
-              const converted = (docData.startTime as { toDate: () => Date }).toDate();
-              return converted instanceof Date && !Number.isNaN(converted.valueOf())
-                ? converted.toISOString()
-                : undefined;
-            } catch (error) {
-              console.warn("Failed to convert startTime timestamp:", error);
-              return undefined;
-            }
-          })()
-        : undefined,
-  };
+async function fetchUserEventsNear(options: FetchEventsOptions & { near: GeoPoint }): Promise<Event[]> {
+  const repository = getEventRepository();
+  const { near, radiusKm = DEFAULT_RADIUS_KM } = options;
+
+  const candidates = await Promise.all(
+    geohashQueryBounds(near, radiusKm).map((geohashRange) =>
+      repository.find("live", { ...eventFilters(options), geohashRange, limit: MAX_NEARBY_CANDIDATES })
+    )
+  );
 
-  if (anonymize && normalized.createdBy && normalized.createdBy !== "ai" && !normalized.createdBy.startsWith("AI-")) {
-    normalized.anonymizedUserId = anonymizeUserId(normalized.createdBy);
+  const seen = new Set<string>();
+  const events: Event[] = [];
+  for (const stored of candidates.flat()) {
+    if (seen.has(stored.id)) continue;
+    seen.add(stored.id);
+    const event = toEvent(stored);
+    const distanceKm = haversineDistanceKm(near, event.location);
+    if (distanceKm <= radiusKm) {
+      events.push({ ...event, distanceKm: Math.round(distanceKm * 1000) / 1000 });
+    }
   }
 
-  return normalized;
+  return events.sort(compareByDistance);
 }
 
-export async function fetchUserEvents(options: FetchEventsOptions = {}): Promise<Event[]> {
-  if (!db) {
-    console.error("Firestore database not initialized");
-    return [];
-  }
+async function fetchLatestEvents(options: FetchEventsOptions): Promise<Event[]> {
+  const { limit = 50 } = options;
+  const stored = await getEventRepository().find("live", { ...eventFilters(options), newestFirst: true, limit });
+  return stored.map(toEvent);
+}
 
-  try {
-    const { limit = 50, tags, createdBy, tenantId } = options;
-    let q = query(collection(db, "hangOuts"));
+const compareByDistance = (a: Event, b: Event) =>
+  (a.distanceKm ?? 0) - (b.distanceKm ?? 0) || (a.id ?? "").localeCompare(b.id ?? "");
 
-    // Apply tenant filter first (required for multi-tenant)
-    if (tenantId) {
-      q = query(q, where("tenantId", "==", tenantId));
-    }
+const createdAtMillis = ({ createdAt }: Event) =>
+  createdAt instanceof Date ? createdAt.getTime() : createdAt.toMillis();
 
-    // Apply filters
-    if (createdBy) {
-      q = query(q, where("createdBy", "==", createdBy));
-    }
+const startMillis = ({ startTime }: Event) => parseTimeBoundary(startTime)?.getTime() ?? 0;
 
-    if (tags && tags.length > 0) {
-      // Firestore 'in' query supports up to 10 values
-      const tagFilter = tags.slice(0, 10);
-      q = query(q, where("tags", "array-contains-any", tagFilter));
-    }
+// Recurring series sort by their current occurrence
+const compareByStart = (a: Event, b: Event) => startMillis(a) - startMillis(b) || (a.id ?? "").localeCompare(b.id ?? "");
 
-    // Apply ordering and limit
-    try {
-      q = query(q, orderBy("createdAt", "desc"), firestoreLimit(limit));
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      console.warn("orderBy query failed, trying without sorting", message);
-      q = query(q, firestoreLimit(limit));
-    }
+// Occurrences share their series' createdAt, so they fall back to start order
+const compareByNewest = (a: Event, b: Event) =>
+  createdAtMillis(b) - createdAtMillis(a) || (a.startTime ?? "").localeCompare(b.startTime ?? "");
 
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map((doc) => normalizeEvent(doc.data() as RawEventData, doc.id));
-  } catch (error) {
-    console.error("Error fetching events:", error);
-    return [];
-  }
+/**
+ * Occurrences in the time window of the recurring series that match the
+ * tenant, creator and tag filters. The series themselves are read without
+ * the time filters, since their stored times only cover one occurrence.
+ */
+async function fetchOccurrences(options: FetchEventsOptions, now: Date = new Date()): Promise<Event[]> {
+  const { tenantId, createdBy, tags, near, radiusKm = DEFAULT_RADIUS_KM } = options;
+
+  const series = await getEventRepository().find("live", {
+    tenantId,
+    createdBy,
+    tags,
+    recurring: true,
+    limit: MAX_RECURRING_SERIES,
+  });
+
+  const occurrences = occurrencesInWindow(series.map(toEvent), options, now);
+  // Overrides can move a single occurrence, so the distance is checked per occurrence
+  return near ? withinRadius(occurrences, near, radiusKm) : occurrences;
 }
 
-export async function fetchUserEventsPaginated(
-  options: FetchEventsOptions = {},
-  lastDoc?: QueryDocumentSnapshot<DocumentData>
-): Promise<PaginatedEvents> {
-  if (!db) {
-    console.error("Firestore database not initialized");
-    return { events: [], total: 0, hasMore: false };
-  }
+function occurrencesInWindow(series: Event[], options: FetchEventsOptions, now: Date): Event[] {
+  const { startsAfter, startsBefore, happeningNow, limit = 50 } = options;
+  const from = startsAfter ?? now;
+  const to = startsBefore ?? (happeningNow ? now : new Date(from.getTime() + OCCURRENCE_HORIZON_DAYS * 86_400_000));
+  return series
+    .flatMap((event) => {
+      try {
+        return expandOccurrences(event, { from, to, limit });
+      } catch (error) {
+        console.warn(`Skipping recurring event ${event.id} with an invalid rule:`, error);
+        return [];
+      }
+    })
+    .filter((occurrence) => matchesTimeWindow(occurrence, options, now));
+}
 
-  try {
-    const { limit = 50, tags, createdBy, tenantId } = options;
-    let q = query(collection(db, "hangOuts"));
+/** The events within `radiusKm` of `near`, with their `distanceKm`. */
+function withinRadius(events: Event[], near: GeoPoint, radiusKm: number): Event[] {
+  return events.flatMap((event) => {
+    const distanceKm = haversineDistanceKm(near, event.location);
+    return distanceKm <= radiusKm ? [{ ...event, distanceKm: Math.round(distanceKm * 1000) / 1000 }] : [];
+  });
+}
 
-    // Apply tenant filter first (required for multi-tenant)
-    if (tenantId) {
-      q = query(q, where("tenantId", "==", tenantId));
-    }
+const compareByRelevance = (a: Event, b: Event) =>
+  (b.relevance ?? 0) - (a.relevance ?? 0) || (a.id ?? "").localeCompare(b.id ?? "");
 
-    // Apply filters
-    if (createdBy) {
-      q = query(q, where("createdBy", "==", createdBy));
-    }
+/**
+ * Keyword search within a tenant, best match first or nearest first with
+ * `near`. The other filters apply to the matches, and in a time window
+ * recurring series are replaced by their occurrences, as in the feed.
+ */
+async function searchUserEvents(options: FetchEventsOptions & { q: string }, now: Date = new Date()): Promise<Event[]> {
+  const { tenantId, createdBy, tags, near, radiusKm = DEFAULT_RADIUS_KM, limit = 50 } = options;
+  // The index is kept per tenant
+  if (!tenantId) return [];
+
+  const hits = await searchEventIndex(tenantId, options.q, MAX_SEARCH_HITS);
+  const stored = new Map(
+    (await getEventRepository().getMany("live", hits.map(({ eventId }) => eventId))).map((entry) => [entry.id, entry])
+  );
+  const wantedTags = new Set(tags ?? []);
+  const matches = hits.flatMap(({ eventId, score }) => {
+    const entry = stored.get(eventId);
+    if (!entry) return [];
+    const event: Event = { ...toEvent(entry), relevance: score };
+    if (event.tenantId !== tenantId || (createdBy && event.createdBy !== createdBy)) return [];
+    if (wantedTags.size > 0 && !event.tags.some((tag) => wantedTags.has(tag))) return [];
+    return [event];
+  });
+
+  const windowed = Boolean(options.startsAfter || options.startsBefore || options.happeningNow);
+  const inWindow = windowed
+    ? [
+        ...matches.filter((event) => !event.recurrence && matchesTimeWindow(event, options, now)),
+        ...occurrencesInWindow(matches.filter((event) => event.recurrence), options, now),
+      ]
+    : matches;
+  return near
+    ? withinRadius(inWindow, near, radiusKm).sort(compareByDistance).slice(0, limit)
+    : inWindow.sort(compareByRelevance).slice(0, limit);
+}
 
-    if (tags && tags.length > 0) {
-      const tagFilter = tags.slice(0, 10);
-      q = query(q, where("tags", "array-contains-any", tagFilter));
+/**
+ * Newest events first, or nearest first with `near`; best match first with
+ * `q`. With a time window, recurring series are replaced by their occurrences
+ * in that window.
+ */
+export async function fetchUserEvents(filters: FetchEventsOptions = {}): Promise<Event[]> {
+  try {
+    const options = await withCanonicalTags(filters);
+    const q = options.q?.trim();
+    if (q) {
+      return await searchUserEvents({ ...options, q });
     }
 
-    // Apply ordering and limit
-    try {
-      q = query(q, orderBy("createdAt", "desc"));
-      if (lastDoc) {
-        q = query(q, startAfter(lastDoc));
-      }
-      q = query(q, firestoreLimit(limit + 1)); // Fetch one extra to check if there's more
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      console.warn("orderBy query failed, trying without sorting", message);
-      q = query(q, firestoreLimit(limit + 1));
+    const { limit = 50, near, startsAfter, startsBefore, happeningNow } = options;
+    const windowed = Boolean(startsAfter || startsBefore || happeningNow);
+    const [events, occurrences] = await Promise.all([
+      near ? fetchUserEventsNear({ ...options, near }) : fetchLatestEvents(options),
+      windowed ? fetchOccurrences(options) : Promise.resolve([]),
+    ]);
+    if (!windowed) {
+      return events.slice(0, limit);
     }
+    return [...events.filter((event) => !event.recurrence), ...occurrences]
+      .sort(near ? compareByDistance : compareByNewest)
+      .slice(0, limit);
+  } catch (error) {
+    console.error("Error fetching events:", error);
+    return [];
+  }
+}
 
-    const snapshot = await getDocs(q);
-    const docs = snapshot.docs;
-    const hasMore = docs.length > limit;
-    const events = (hasMore ? docs.slice(0, limit) : docs).map(doc => 
-      normalizeEvent(doc.data() as RawEventData, doc.id)
-    );
+/**
+ * One page of events ordered by `createdAt` desc, then id desc. Resume from
+ * the `after` position of the last event returned. Recurring series are
+ * listed once, at their current occurrence, so time-window feeds that should
+ * list occurrences use `fetchUserEvents` instead.
+ */
+export async function fetchUserEventsPaginated(filters: PaginatedEventsOptions = {}): Promise<PaginatedEvents> {
+  try {
+    const options = await withCanonicalTags(filters);
+    const { limit = 50, createdAfter, after } = options;
+    // Fetch one extra to check if there's more
+    const stored = await getEventRepository().find("live", {
+      ...eventFilters(options),
+      createdAfter,
+      newestFirst: true,
+      after,
+      limit: limit + 1,
+    });
+    const hasMore = stored.length > limit;
+    const events = (hasMore ? stored.slice(0, limit) : stored).map(toEvent);
 
     return {
       events,
-      total: events.length, // Note: Firestore doesn't provide total count easily
+      total: events.length, // Note: the stores don't provide a total count cheaply
       hasMore,
-      lastDoc: hasMore ? docs[limit - 1] : undefined,
     };
   } catch (error) {
     console.error("Error fetching paginated events:", error);
@@ -319,181 +356,640 @@ export async function fetchUserEventsPaginated(
   }
 }
 
-export async function submitEvent(event: SubmitEventPayload, tenantId?: string) {
+/**
+ * Hangouts starting between `startsAfter` and `startsBefore`, soonest first
+ * (nearest first with `near`), for calendar feeds. Recurring series are listed
+ * once, as the series, when one of their occurrences falls in the window.
+ * Unlike `fetchUserEvents`, failures are thrown rather than read as no events.
+ */
+export async function fetchUpcomingEvents(
+  filters: FetchEventsOptions & { startsAfter: Date; startsBefore: Date }
+): Promise<Event[]> {
+  const options = await withCanonicalTags({ ...filters, happeningNow: undefined, q: undefined });
+  const { limit = 50, near } = options;
+  const [events, occurrences] = await Promise.all([
+    near ? fetchUserEventsNear({ ...options, near }) : fetchLatestEvents(options),
+    fetchOccurrences(options),
+  ]);
+  // A series is as near as its nearest occurrence in the window
+  const seriesDistance = new Map<string, number | undefined>();
+  for (const { seriesId, distanceKm } of occurrences) {
+    if (!seriesId) continue;
+    const known = seriesDistance.get(seriesId);
+    seriesDistance.set(seriesId, known === undefined || (distanceKm ?? 0) < known ? distanceKm : known);
+  }
+  const series = (await getEventRepository().getMany("live", [...seriesDistance.keys()])).map((stored) => {
+    const distanceKm = seriesDistance.get(stored.id);
+    return { ...toEvent(stored), ...(distanceKm !== undefined && { distanceKm }) };
+  });
+
+  return [...events.filter((event) => !event.recurrence), ...series]
+    .sort(near ? compareByDistance : compareByStart)
+    .slice(0, limit);
+}
+
+function normalizeCreatorInfo(
+  rawCreator?: EventCreator | null,
+  fallbackCreatedBy?: string,
+  fallbackName?: string,
+  fallbackProfileImage?: string
+): EventCreator {
+  if (rawCreator) {
+    return {
+      uid: sanitizeString(rawCreator.uid) || fallbackCreatedBy || "unknown",
+      name: sanitizeString(rawCreator.name) || sanitizeString(fallbackName) || "Anonymous",
+      profileImageUrl:
+        sanitizeString(rawCreator.profileImageUrl) ||
+        sanitizeString(fallbackProfileImage) ||
+        DEFAULT_AVATAR,
+    };
+  }
+  return {
+    uid: fallbackCreatedBy || "unknown",
+    name: sanitizeString(fallbackName) || "Anonymous",
+    profileImageUrl: sanitizeString(fallbackProfileImage) || DEFAULT_AVATAR,
+  };
+}
+
+/**
+ * Creates a hangout. With `moderation`, it is held in `hangOutsPending` instead
+ * of going live, until a moderator approves it.
+ */
+export async function submitEvent(
+  event: SubmitEventPayload,
+  tenantId?: string,
+  { moderation }: { moderation?: EventModeration } = {}
+) {
   if (!tenantId) {
     throw new Error("tenantId is required for multi-tenant support");
   }
 
-  const normalizedStartTime = event.startTime
-    ? (() => {
-        const parsed = new Date(event.startTime as string);
-        return Number.isNaN(parsed.valueOf()) ? undefined : parsed.toISOString();
-      })()
-    : undefined;
+  // Routes validate with the same schema; direct callers get the same rules
+  const fields = parseEventPayload(createEventSchema, event);
+  const tags = (await getTagTaxonomy(tenantId)).canonicalTags(fields.tags);
+  const schedule = { startTime: fields.startTime, endTime: fields.endTime };
+  // A recurring event starts at the first occurrence its rule generates
+  const recurrence = fields.recurrence;
+  const { startTime: normalizedStartTime, endTime: normalizedEndTime } = recurrence
+    ? {
+        startTime: recurrence.dtstart,
+        endTime: new Date(Date.parse(recurrence.dtstart) + seriesDurationMs(schedule)).toISOString(),
+      }
+    : schedule;
+
+  const creatorInfo = normalizeCreatorInfo(
+    event.creator,
+    event.createdBy,
+    sanitizeString(event.creatorName),
+    sanitizeString(event.creatorProfileImageUrl)
+  );
+
+  // Firestore rejects undefined, so optional fields are only set when given
+  const data: EventDocument = {
+    title: fields.title,
+    description: fields.description,
+    tags,
+    location: fields.location,
+    geohash: encodeGeohash(fields.location),
+    createdBy: event.createdBy || "unknown",
+    creator: creatorInfo,
+    tenantId,
+    consentGiven: event.consentGiven ?? true,
+    ...(normalizedStartTime !== undefined && { startTime: normalizedStartTime }),
+    ...(normalizedEndTime !== undefined && { endTime: normalizedEndTime }),
+    ...(fields.capacity && { capacity: fields.capacity }),
+    ...(fields.priceCents !== undefined && { priceCents: fields.priceCents }),
+    // `recurring` lets time-window queries find every series without a time filter
+    ...(recurrence && { recurrence, recurring: true }),
+    ...(moderation && { moderation }),
+  };
 
-  // Validate required fields
-  if (!event.title || !event.description || !event.location) {
-    throw new Error("Missing required fields: title, description, and location are required");
+  const id = await getEventRepository().create(moderation ? "pending" : "live", data);
+  if (!moderation) {
+    await syncSearchIndex(id);
   }
+  return {
+    id,
+    ...event,
+    tags,
+    startTime: normalizedStartTime,
+    endTime: normalizedEndTime,
+    recurrence,
+    tenantId,
+    creator: creatorInfo,
+  };
+}
 
-  // Ensure location is properly formatted
-  if (typeof event.location.lat !== "number" || typeof event.location.lng !== "number") {
-    throw new Error("Invalid location: lat and lng must be numbers");
+/**
+ * Applies the editable fields in `updates` (see `EDITABLE_EVENT_FIELDS`) for
+ * the creator or a tenant moderator, and records the fields that actually
+ * changed as a revision ("revert" when undoing revision `revertOf`). Fields in
+ * `unsetFields` are removed from the event; unsetting `startTime` removes
+ * `endTime` too. Returns null when nothing changed.
+ */
+export async function updateEvent(
+  id: string,
+  changes: Record<string, unknown>,
+  tenantId: string | undefined,
+  actor: EventActor,
+  revertOf?: number,
+  unsetFields: string[] = []
+): Promise<EventRevision | null> {
+  if (!tenantId) {
+    throw new Error("tenantId is required for multi-tenant support");
   }
 
-  // Ensure tags is an array
-  if (!Array.isArray(event.tags)) {
-    event.tags = [];
+  const updates = await pickCanonicalUpdates(changes, tenantId);
+  const repository = getEventRepository();
+
+  // Verify tenant and ownership by fetching the event first
+  const stored = await repository.get("live", id);
+  // Another tenant's event is reported as missing, so ids cannot be probed
+  if (!stored || stored.data.tenantId !== tenantId) {
+    throw new EventAccessError("Event not found", 404);
+  }
+  const current = toEvent(stored);
+  assertCanModifyEvent(current, actor);
+
+  // Keep the geohash index in step with the location
+  const location = updates.location;
+  const indexedUpdates: Omit<Partial<Event>, "recurrence"> & {
+    geohash?: string;
+    recurrence?: EventRecurrence | null;
+    recurring?: boolean;
+  } =
+    location && typeof location.lat === "number" && typeof location.lng === "number"
+      ? { ...updates, geohash: encodeGeohash(location) }
+      : { ...updates };
+
+  // An event without a start has no end either
+  const unset = new Set(unsetFields);
+  if (unset.has("startTime")) {
+    unset.add("endTime");
+    delete indexedUpdates.startTime;
+    delete indexedUpdates.endTime;
+  }
+  unset.forEach((field) => delete indexedUpdates[field as keyof typeof indexedUpdates]);
+
+  // Moving the start keeps the previous duration unless a new end is given
+  const previousStart = parseTimeBoundary(current.startTime);
+  const previousEnd = parseTimeBoundary(current.endTime);
+  if (!unset.has("startTime") && (updates.startTime !== undefined || updates.endTime !== undefined)) {
+    const previousDuration =
+      previousStart && previousEnd ? (previousEnd.getTime() - previousStart.getTime()) / 60_000 : undefined;
+    const schedule = resolveEventSchedule({
+      startTime: updates.startTime ?? previousStart ?? undefined,
+      endTime: updates.endTime,
+      durationMinutes: updates.endTime === undefined ? previousDuration : undefined,
+    });
+    indexedUpdates.startTime = schedule.startTime;
+    indexedUpdates.endTime = schedule.endTime;
   }
 
-  const normalizeCreatorInfo = (
-    rawCreator?: EventCreator | null,
-    fallbackCreatedBy?: string,
-    fallbackName?: string,
-    fallbackProfileImage?: string
-  ): EventCreator => {
-    if (rawCreator) {
-      return {
-        uid: sanitizeString(rawCreator.uid) || fallbackCreatedBy || "unknown",
-        name: sanitizeString(rawCreator.name) || sanitizeString(fallbackName) || "Anonymous",
-        profileImageUrl:
-          sanitizeString(rawCreator.profileImageUrl) ||
-          sanitizeString(fallbackProfileImage) ||
-          DEFAULT_AVATAR,
-      };
+  // A new rule replaces the old one (null ends the series) and moving the start
+  // moves every occurrence; the stored times then follow the current occurrence
+  const previousRecurrence = current.recurrence;
+  let recurrence = previousRecurrence;
+  if ("recurrence" in updates || unset.has("recurrence")) {
+    recurrence =
+      updates.recurrence === undefined || updates.recurrence === null
+        ? undefined
+        : normalizeRecurrence(updates.recurrence, indexedUpdates.startTime ?? previousStart?.toISOString());
+  } else if (previousRecurrence && previousStart && indexedUpdates.startTime) {
+    recurrence = shiftRecurrence(previousRecurrence, Date.parse(indexedUpdates.startTime) - previousStart.getTime());
+  }
+  if (recurrence !== previousRecurrence) {
+    indexedUpdates.recurrence = recurrence ?? null;
+    indexedUpdates.recurring = recurrence !== undefined;
+    if (recurrence) {
+      const durationMs = seriesDurationMs({
+        startTime: indexedUpdates.startTime ?? previousStart?.toISOString(),
+        endTime: indexedUpdates.endTime ?? previousEnd?.toISOString(),
+      });
+      Object.assign(indexedUpdates, currentOccurrence(recurrence, durationMs));
     }
-    return {
-      uid: fallbackCreatedBy || "unknown",
-      name: sanitizeString(fallbackName) || "Anonymous",
-      profileImageUrl: sanitizeString(fallbackProfileImage) || DEFAULT_AVATAR,
-    };
-  };
+  }
 
-  const creatorInfo = normalizeCreatorInfo(
-    event.creator as EventCreator | undefined,
-    event.createdBy,
-    sanitizeString((event as { creatorName?: string }).creatorName),
-    sanitizeString((event as { creatorProfileImageUrl?: string }).creatorProfileImageUrl)
+  // The geohash and recurring flag follow other fields, so they are not worth a diff of their own
+  const auditedUpdates: Record<string, unknown> = { ...indexedUpdates };
+  delete auditedUpdates.geohash;
+  delete auditedUpdates.recurring;
+  unset.forEach((field) => (auditedUpdates[field] = null));
+  await repository.update("live", id, indexedUpdates, [...unset]);
+  await syncSearchIndex(id);
+  return recordEventRevision({
+    eventId: id,
+    tenantId,
+    actorId: actor.userId,
+    action: revertOf === undefined ? "update" : "revert",
+    changes: diffFields(stored.data, auditedUpdates),
+    revertOf,
+  });
+}
+
+async function getOccurrenceSeries(seriesId: string, occurrenceStart: string, tenantId: string) {
+  const series = await getEvent(seriesId, tenantId);
+  if (!series) {
+    throw new EventAccessError("Event not found", 404);
+  }
+  if (!series.recurrence) {
+    throw new RecurrenceError("This event does not repeat", 409);
+  }
+  const start = parseTimeBoundary(occurrenceStart);
+  if (!start || !isOccurrenceStart(series.recurrence, start)) {
+    throw new RecurrenceError("No occurrence of this event starts at occurrenceStart", 404);
+  }
+  return { series, recurrence: series.recurrence, start };
+}
+
+/**
+ * Edits one occurrence of a recurring hangout. The change is stored as an
+ * override on the series, so it is recorded and reverted like any other edit.
+ */
+export async function updateOccurrence(
+  seriesId: string,
+  occurrenceStart: string,
+  changes: Record<string, unknown>,
+  tenantId: string,
+  actor: EventActor
+): Promise<EventRevision | null> {
+  const { series, recurrence, start } = await getOccurrenceSeries(seriesId, occurrenceStart, tenantId);
+  assertCanModifyEvent(series, actor);
+
+  const updates = await pickCanonicalUpdates(changes, tenantId);
+  const allowed = new Set<string>(OCCURRENCE_OVERRIDE_FIELDS);
+  const seriesOnly = Object.keys(updates).filter((field) => !allowed.has(field));
+  if (seriesOnly.length > 0) {
+    throw new RecurrenceError(`Change ${seriesOnly.join(", ")} for the whole series instead`);
+  }
+
+  const key = start.toISOString();
+  const override: OccurrenceOverride = { ...recurrence.overrides?.[key], ...(updates as OccurrenceOverride) };
+  if (updates.startTime !== undefined || updates.endTime !== undefined) {
+    const schedule = resolveEventSchedule({
+      startTime: override.startTime ?? key,
+      endTime: updates.endTime ?? (updates.startTime === undefined ? override.endTime : undefined),
+      durationMinutes: seriesDurationMs(series) / 60_000,
+    });
+    override.startTime = schedule.startTime;
+    override.endTime = schedule.endTime;
+  }
+
+  return updateEvent(
+    seriesId,
+    { recurrence: { ...recurrence, overrides: { ...recurrence.overrides, [key]: override } } },
+    tenantId,
+    actor
+  );
+}
+
+/**
+ * Cancels one occurrence by adding it to the series' exceptions.
+ */
+export async function cancelOccurrence(
+  seriesId: string,
+  occurrenceStart: string,
+  tenantId: string,
+  actor: EventActor
+): Promise<EventRevision | null> {
+  const { series, recurrence, start } = await getOccurrenceSeries(seriesId, occurrenceStart, tenantId);
+  assertCanModifyEvent(series, actor);
+
+  const key = start.toISOString();
+  const overrides = { ...recurrence.overrides };
+  delete overrides[key];
+  return updateEvent(
+    seriesId,
+    { recurrence: { ...recurrence, exdates: [...(recurrence.exdates ?? []), key], overrides } },
+    tenantId,
+    actor
   );
+}
 
-  // Try Admin SDK first (bypasses security rules)
-  const adminDb = getAdminDb();
-  if (adminDb) {
-    try {
-      console.log("Using Firebase Admin SDK (bypasses security rules)");
-      const docRef = await adminDb.collection("hangOuts").add({
-        title: event.title.trim(),
-        description: event.description.trim(),
-        tags: event.tags,
-        location: {
-          lat: Number(event.location.lat),
-          lng: Number(event.location.lng),
-        },
-        createdBy: event.createdBy || "unknown",
-        creator: creatorInfo,
-        tenantId,
-        consentGiven: event.consentGiven ?? true,
-        startTime: normalizedStartTime,
-        createdAt: FieldValue.serverTimestamp(),
-      });
-      return { id: docRef.id, ...event, startTime: normalizedStartTime, tenantId, creator: creatorInfo };
-    } catch (error) {
-      console.error("Admin SDK error:", error);
-      // Fall through to regular SDK
-    }
+/**
+ * Edits an occurrence and every later one: the series now ends before it and a
+ * new series with the changes takes over from it. From the first occurrence
+ * this is a whole-series edit. Returns the id of the series holding the
+ * edited occurrences; RSVPs stay with the original series.
+ */
+export async function updateFollowingOccurrences(
+  seriesId: string,
+  occurrenceStart: string,
+  changes: Record<string, unknown>,
+  tenantId: string,
+  actor: EventActor
+): Promise<{ eventId: string; revision: EventRevision | null }> {
+  const { series, recurrence, start } = await getOccurrenceSeries(seriesId, occurrenceStart, tenantId);
+  assertCanModifyEvent(series, actor);
+  const updates = await pickCanonicalUpdates(changes, tenantId);
+  const { previous, following } = splitRecurrence(recurrence, start);
+  if (!previous) {
+    return { eventId: seriesId, revision: await updateEvent(seriesId, changes, tenantId, actor) };
+  }
+
+  const durationMs = seriesDurationMs(series);
+  const schedule = resolveEventSchedule({
+    startTime: updates.startTime ?? start.toISOString(),
+    endTime: updates.endTime,
+    durationMinutes: updates.endTime === undefined ? durationMs / 60_000 : undefined,
+  });
+  const scheduledStart = schedule.startTime ?? start.toISOString();
+  let nextRecurrence: EventRecurrence | undefined;
+  if (!("recurrence" in updates)) {
+    nextRecurrence = shiftRecurrence(following, Date.parse(scheduledStart) - start.getTime());
+  } else if (updates.recurrence !== undefined && updates.recurrence !== null) {
+    nextRecurrence = normalizeRecurrence(updates.recurrence, scheduledStart);
   }
 
-  // Fallback to regular SDK (if Admin not available)
-  if (!db) {
-    throw new Error("Firestore database not initialized. Please set up Firebase Admin SDK or configure regular Firebase SDK.");
+  const fields: Record<string, unknown> = { ...updates };
+  delete fields.startTime;
+  delete fields.endTime;
+  delete fields.recurrence;
+  const repository = getEventRepository();
+  const data: EventDocument = { ...(await repository.get("live", seriesId))?.data };
+  delete data.createdAt;
+  delete data.attendeeCount;
+  delete data.maybeCount;
+  delete data.waitlistCount;
+  const nextSeries: EventDocument = {
+    ...data,
+    ...fields,
+    geohash: encodeGeohash(updates.location ?? series.location),
+    startTime: scheduledStart,
+    endTime: schedule.endTime,
+    ...(nextRecurrence && currentOccurrence(nextRecurrence, seriesDurationMs(schedule))),
+    recurrence: nextRecurrence ?? null,
+    recurring: nextRecurrence !== undefined,
+  };
+
+  // End the original first: if creating the new series fails, the revision can bring the occurrences back
+  const revision = await updateEvent(seriesId, { recurrence: previous }, tenantId, actor);
+  const eventId = await repository.create("live", nextSeries);
+  await syncSearchIndex(eventId);
+  return { eventId, revision };
+}
+
+/**
+ * Cancels an occurrence and every later one. From the first occurrence this
+ * soft-deletes the whole series instead.
+ */
+export async function cancelFollowingOccurrences(
+  seriesId: string,
+  occurrenceStart: string,
+  tenantId: string,
+  actor: EventActor
+): Promise<{ revision: EventRevision | null; deleted?: DeletedEventMarker }> {
+  const { series, recurrence, start } = await getOccurrenceSeries(seriesId, occurrenceStart, tenantId);
+  assertCanModifyEvent(series, actor);
+
+  const { previous } = splitRecurrence(recurrence, start);
+  if (!previous) {
+    return { revision: null, deleted: await deleteEvent(seriesId, tenantId, actor) };
   }
+  return { revision: await updateEvent(seriesId, { recurrence: previous }, tenantId, actor) };
+}
 
+/**
+ * Revisions are written after the change; a failure is logged rather than
+ * undoing an edit the user already made.
+ */
+async function recordEventRevision(
+  entry: Parameters<typeof recordRevision>[0]
+): Promise<EventRevision | null> {
+  if ((entry.action === "update" || entry.action === "revert") && entry.changes.length === 0) {
+    return null;
+  }
   try {
-    console.log("Using regular Firebase SDK (security rules apply)");
-    const ref = collection(db, "hangOuts");
-    const docRef = await addDoc(ref, {
-      title: event.title.trim(),
-      description: event.description.trim(),
-      tags: event.tags,
-      location: {
-        lat: Number(event.location.lat),
-        lng: Number(event.location.lng),
-      },
-      createdBy: event.createdBy || "unknown",
-      creator: creatorInfo,
-      tenantId,
-      consentGiven: event.consentGiven ?? true,
-      startTime: normalizedStartTime,
-      createdAt: serverTimestamp(),
-    });
-    return { id: docRef.id, ...event, startTime: normalizedStartTime, tenantId, creator: creatorInfo };
+    return await recordRevision(entry);
   } catch (error) {
-    const err = error as { code?: string; message?: string; name?: string };
-    console.error("Firestore submit error:", error);
-    console.error("Error code:", err?.code);
-    console.error("Error message:", err?.message);
-    console.error("Error name:", err?.name);
-    
-    // Provide more specific error messages
-    if (err?.code === "permission-denied" || err?.code === "permission_denied") {
-      throw new Error(`Permission denied: Firestore security rules are blocking writes. Please either: 1) Update Firestore rules to allow writes (use 'if true' for development), or 2) Set up Firebase Admin SDK with service account credentials.`);
-    }
-    if (err?.code === "unavailable") {
-      throw new Error("Firestore service unavailable: Check your Firebase configuration and network connection.");
+    console.error(`[event-history] Failed to record ${entry.action} of ${entry.eventId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Indexes the live hangout for search, or drops it from the index once it is
+ * no longer live. Like revisions, a failure is logged and the change stands.
+ */
+export async function syncSearchIndex(id: string): Promise<void> {
+  try {
+    const stored = await getEventRepository().get("live", id);
+    const event = stored ? toEvent(stored) : null;
+    if (event?.tenantId) {
+      await indexSearchDocument(toSearchDocument({ ...event, id, tenantId: event.tenantId }));
+    } else {
+      await removeSearchDocument(id);
     }
-    
-    throw new Error(`Failed to save event to Firestore: ${err?.message || err?.code || "Unknown error"}. Code: ${err?.code || "N/A"}`);
+  } catch (error) {
+    console.error(`[search] Failed to index ${id}:`, error);
   }
 }
 
-export async function updateEvent(id: string, updates: Partial<Event>, tenantId?: string) {
-  if (!db) {
-    throw new Error("Firestore database not initialized");
+/**
+ * Single event, or null when it does not exist or belongs to another tenant.
+ */
+export async function getEvent(id: string, tenantId: string): Promise<Event | null> {
+  const stored = await getEventRepository().get("live", id);
+  if (!stored) {
+    return null;
   }
 
+  const event = toEvent(stored);
+  return event.tenantId === tenantId ? event : null;
+}
+
+/**
+ * Denormalized RSVP counts, so feeds can show attendance without a lookup.
+ */
+export async function setEventAttendance(
+  id: string,
+  counts: { going: number; maybe: number; waitlisted: number }
+): Promise<void> {
+  await getEventRepository().update("live", id, {
+    attendeeCount: counts.going,
+    maybeCount: counts.maybe,
+    waitlistCount: counts.waitlisted,
+  });
+}
+
+export interface DeletedEventMarker {
+  deletedAt: string;
+  deletedBy: string;
+}
+
+/**
+ * Soft delete: the hangout moves to `hangOutsTrash` (same id, plus
+ * `deletedAt`/`deletedBy`), which takes it out of every feed and query while
+ * it can still be restored.
+ */
+export async function deleteEvent(
+  id: string,
+  tenantId: string | undefined,
+  actor: EventActor,
+  now: Date = new Date()
+): Promise<DeletedEventMarker> {
   if (!tenantId) {
     throw new Error("tenantId is required for multi-tenant support");
   }
 
-  const eventRef = doc(db, "hangOuts", id);
-  
-  // Verify tenant ownership by fetching the document first
-  const eventSnap = await getDoc(eventRef);
-  
-  if (!eventSnap.exists()) {
-    throw new Error("Event not found");
+  // Verify tenant and ownership before deleting
+  const repository = getEventRepository();
+  const stored = await repository.get("live", id);
+  if (!stored || stored.data.tenantId !== tenantId) {
+    throw new EventAccessError("Event not found", 404);
   }
+  assertCanModifyEvent(toEvent(stored), actor);
 
-  const eventData = eventSnap.data();
-  if (eventData.tenantId !== tenantId) {
-    throw new Error("Unauthorized: Tenant mismatch");
+  const marker: DeletedEventMarker = { deletedAt: now.toISOString(), deletedBy: actor.userId };
+  if (!(await repository.move(id, "live", "trash", { set: { ...marker } }))) {
+    throw new EventAccessError("Event not found", 404);
   }
+  await syncSearchIndex(id);
 
-  await updateDoc(eventRef, updates);
+  const changes: FieldChange[] = [{ field: "deletedAt", before: null, after: marker.deletedAt }];
+  await recordEventRevision({ eventId: id, tenantId, actorId: actor.userId, action: "delete", changes, now });
+  return marker;
 }
 
-export async function deleteEvent(id: string, tenantId?: string) {
-  if (!db) {
-    throw new Error("Firestore database not initialized");
+/**
+ * A soft-deleted hangout, or null when there is none for this tenant.
+ */
+export async function getDeletedEvent(
+  id: string,
+  tenantId: string
+): Promise<(Event & DeletedEventMarker) | null> {
+  const stored = await getEventRepository().get("trash", id);
+  if (!stored) {
+    return null;
   }
 
-  if (!tenantId) {
-    throw new Error("tenantId is required for multi-tenant support");
+  const event = toEvent(stored);
+  if (event.tenantId !== tenantId) {
+    return null;
+  }
+  return {
+    ...event,
+    deletedAt: sanitizeString(stored.data.deletedAt) ?? new Date(0).toISOString(),
+    deletedBy: sanitizeString(stored.data.deletedBy) ?? "unknown",
+  };
+}
+
+/**
+ * Moves a soft-deleted hangout back into `hangOuts` as it was.
+ */
+export async function restoreDeletedEvent(
+  id: string,
+  tenantId: string,
+  actorId: string,
+  now: Date = new Date()
+): Promise<EventRevision | null> {
+  const repository = getEventRepository();
+  const stored = await repository.get("trash", id);
+  if (!stored || stored.data.tenantId !== tenantId) {
+    throw new EventAccessError("Event not found", 404);
   }
 
-  const eventRef = doc(db, "hangOuts", id);
-  
-  // Verify tenant ownership before deleting
-  const eventDoc = await getDoc(eventRef);
-  
-  if (!eventDoc.exists()) {
-    throw new Error("Event not found");
+  if (!(await repository.move(id, "trash", "live", { remove: ["deletedAt", "deletedBy"] }))) {
+    throw new EventAccessError("Event not found", 404);
   }
+  await syncSearchIndex(id);
 
-  const eventData = eventDoc.data();
-  if (eventData.tenantId !== tenantId) {
-    throw new Error("Unauthorized: Tenant mismatch");
+  const changes: FieldChange[] = [{ field: "deletedAt", before: stored.data.deletedAt ?? null, after: null }];
+  return recordEventRevision({ eventId: id, tenantId, actorId, action: "restore", changes, now });
+}
+
+export type PendingEvent = Event & { moderation: EventModeration };
+
+// Enough for a tenant's queue; older held events are still reachable by id
+const MAX_PENDING_EVENTS = 200;
+
+function readModeration(value: unknown): EventModeration | null {
+  if (!value || typeof value !== "object") return null;
+  const moderation = value as Partial<EventModeration>;
+  if (moderation.status !== "pending" && moderation.status !== "rejected") return null;
+  return {
+    ...moderation,
+    status: moderation.status,
+    source: moderation.source === "reports" ? "reports" : "screening",
+    flags: Array.isArray(moderation.flags) ? moderation.flags : [],
+    flaggedAt: sanitizeString(moderation.flaggedAt) ?? new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Takes a live hangout out of the feeds and into `hangOutsPending` until a
+ * moderator reviews it. Returns false when there is no such live event.
+ */
+export async function holdEventForReview(
+  id: string,
+  tenantId: string,
+  moderation: EventModeration
+): Promise<boolean> {
+  const repository = getEventRepository();
+  const stored = await repository.get("live", id);
+  if (!stored || stored.data.tenantId !== tenantId) {
+    return false;
+  }
+  const held = await repository.move(id, "live", "pending", { set: { moderation } });
+  await syncSearchIndex(id);
+  return held;
+}
+
+/**
+ * A held hangout, or null when there is none for this tenant.
+ */
+export async function getPendingEvent(id: string, tenantId: string): Promise<PendingEvent | null> {
+  const stored = await getEventRepository().get("pending", id);
+  if (!stored) {
+    return null;
+  }
+
+  const event = toEvent(stored);
+  const moderation = readModeration(stored.data.moderation);
+  if (event.tenantId !== tenantId || !moderation) {
+    return null;
   }
+  return { ...event, moderation };
+}
 
-  await deleteDoc(eventRef);
+/**
+ * Held hangouts of the tenant with the given status, oldest flag first so the
+ * queue is worked in order.
+ */
+export async function listPendingEvents(
+  tenantId: string,
+  { status = "pending", limit = 50 }: { status?: ModerationStatus; limit?: number } = {}
+): Promise<PendingEvent[]> {
+  // Filtered by status here, so Firestore needs no composite index
+  const held = await getEventRepository().find("pending", { tenantId, limit: MAX_PENDING_EVENTS });
+  return held
+    .flatMap((stored) => {
+      const moderation = readModeration(stored.data.moderation);
+      if (!moderation || moderation.status !== status) return [];
+      return [{ ...toEvent(stored), moderation }];
+    })
+    .sort((a, b) => a.moderation.flaggedAt.localeCompare(b.moderation.flaggedAt))
+    .slice(0, limit);
+}
+
+/**
+ * Records a review on a held hangout that stays out of the feeds.
+ */
+export async function setPendingModeration(id: string, moderation: EventModeration): Promise<void> {
+  await getEventRepository().update("pending", id, { moderation });
+}
+
+/**
+ * Moves a held hangout into `hangOuts`, without its moderation record.
+ * Returns false when there is no such held event.
+ */
+export async function publishPendingEvent(id: string, tenantId: string): Promise<boolean> {
+  const repository = getEventRepository();
+  const stored = await repository.get("pending", id);
+  if (!stored || stored.data.tenantId !== tenantId) {
+    return false;
+  }
+  const published = await repository.move(id, "pending", "live", { remove: ["moderation"] });
+  await syncSearchIndex(id);
+  return published;
 }
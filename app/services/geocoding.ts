@@ -0,0 +1,53 @@
+import type { GeoPoint } from "@/lib/geohash";
+
+const MAPBOX_GEOCODING_URL = "https://api.mapbox.com/geocoding/v5/mapbox.places";
+
+export class GeocodingError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 502) {
+    super(message);
+    this.name = "GeocodingError";
+    this.status = status;
+  }
+}
+
+interface MapboxGeocodingResponse {
+  features?: Array<{ center?: [number, number]; place_name?: string }>;
+}
+
+export interface GeocodedAddress extends GeoPoint {
+  placeName?: string;
+}
+
+/**
+ * Forward-geocodes an address with Mapbox (server-side key). Resolves to null
+ * when nothing matches; throws when Mapbox is not configured or unreachable.
+ */
+export async function geocodeAddress(address: string): Promise<GeocodedAddress | null> {
+  const mapboxToken = process.env.MAPBOX_KEY || process.env.NEXT_PUBLIC_MAPBOX_KEY;
+  if (!mapboxToken) {
+    throw new GeocodingError("Geocoding is not configured. Set MAPBOX_KEY.", 503);
+  }
+
+  const url = new URL(`${MAPBOX_GEOCODING_URL}/${encodeURIComponent(address)}.json`);
+  url.searchParams.set("limit", "1");
+  url.searchParams.set("access_token", mapboxToken);
+
+  let response: Response;
+  try {
+    response = await fetch(url.toString());
+  } catch {
+    throw new GeocodingError("Network error contacting the Mapbox Geocoding API");
+  }
+  if (!response.ok) {
+    throw new GeocodingError(`Geocoding failed: ${response.status}`);
+  }
+
+  const data = (await response.json()) as MapboxGeocodingResponse;
+  const [lng, lat] = data.features?.[0]?.center ?? [];
+  if (typeof lat !== "number" || typeof lng !== "number") {
+    return null;
+  }
+  return { lat, lng, placeName: data.features?.[0]?.place_name };
+}
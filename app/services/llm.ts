@@ -0,0 +1,151 @@
+/**
+ * LLM Service
+ * Runs model calls through the tenant's provider order with failover, meters
+ * them, and validates structured answers
+ */
+
+import { meterAiCall } from "./ai-usage";
+import { getTenantAiProviderOrder } from "@/lib/ai-provider-store";
+import { recordAiValidation } from "@/lib/ai-validation-store";
+import {
+  completeWithFailover,
+  defaultProviderOrder,
+  type LLMProviderName,
+  type LLMRequest,
+  type LLMMessage,
+  type LLMResponse,
+} from "@/lib/llm-provider";
+import { parseStructuredOutput, type StructuredOutput } from "@/lib/validation/ai-schema";
+
+export interface GenerateTextOptions extends LLMRequest {
+  tenantId: string | null;
+  /** Recorded with the usage, e.g. "moderation". */
+  route: string;
+  timeoutMs?: number;
+}
+
+export interface GenerateStructuredOptions<T> extends Omit<GenerateTextOptions, "responseSchema" | "json"> {
+  output: StructuredOutput<T>;
+  /** Retries that feed the validation errors back to the model. */
+  maxRepairs?: number;
+}
+
+/** A model answer that still failed validation after the repair retries. */
+export class AiOutputValidationError extends Error {
+  status: number;
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`AI answer failed validation: ${issues.slice(0, 5).join("; ")}`);
+    this.name = "AiOutputValidationError";
+    this.status = 502;
+    this.issues = issues;
+  }
+}
+
+export const DEFAULT_MAX_REPAIRS = 1;
+const ORDER_CACHE_TTL_MS = 60 * 1000;
+
+const orderCache: Map<string, { order: LLMProviderName[]; expiresAt: number }> = new Map();
+
+/**
+ * The tenant's failover order, or the default without a tenant or override.
+ * Instances pick up changes within a minute.
+ */
+export async function getProviderOrder(tenantId?: string | null): Promise<LLMProviderName[]> {
+  if (!tenantId) {
+    return defaultProviderOrder();
+  }
+  const cached = orderCache.get(tenantId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.order;
+  }
+
+  let order = defaultProviderOrder();
+  try {
+    order = (await getTenantAiProviderOrder(tenantId)) ?? order;
+  } catch (error) {
+    console.warn("[llm] Failed to load the tenant provider order, using the default", error);
+  }
+  orderCache.set(tenantId, { order, expiresAt: Date.now() + ORDER_CACHE_TTL_MS });
+  return order;
+}
+
+/** Drops cached orders, so this instance sees a change at once. */
+export function clearProviderOrderCache(tenantId?: string) {
+  if (tenantId) {
+    orderCache.delete(tenantId);
+  } else {
+    orderCache.clear();
+  }
+}
+
+/**
+ * One completion from the first provider in the tenant's order that answers.
+ * Quotas are the caller's to enforce; usage of real providers is metered here.
+ * Throws `LLMUnavailableError` when no provider answers.
+ */
+export async function generateText({ tenantId, route, timeoutMs, ...request }: GenerateTextOptions): Promise<LLMResponse> {
+  const response = await completeWithFailover(await getProviderOrder(tenantId), request, { timeoutMs });
+  if (response.provider !== "stub") {
+    await meterAiCall({
+      tenantId,
+      provider: response.provider,
+      model: response.model,
+      route,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+    });
+  }
+  return response;
+}
+
+function repairPrompt(issues: string[]): LLMMessage {
+  return {
+    role: "user",
+    content: `Your answer did not match the required JSON format:\n${issues
+      .slice(0, 10)
+      .map((issue) => `- ${issue}`)
+      .join("\n")}\nReply with the corrected JSON only.`,
+  };
+}
+
+/** Counts a validated answer towards the model's failure rate. Never throws. */
+async function recordValidation(response: LLMResponse, route: string, valid: boolean): Promise<void> {
+  if (response.provider === "stub") return;
+  try {
+    await recordAiValidation({ provider: response.provider, model: response.model, route, valid });
+  } catch (error) {
+    console.warn("[llm] Failed to record the validation outcome", error);
+  }
+}
+
+/**
+ * A completion validated against `output`, asking for it as a structured
+ * output where the provider supports one. An invalid answer is retried up to
+ * `maxRepairs` times with the validation errors fed back; every answer counts
+ * towards its model's failure rate. Throws `AiOutputValidationError` when no
+ * valid answer comes back.
+ */
+export async function generateStructured<T>({
+  output,
+  maxRepairs = DEFAULT_MAX_REPAIRS,
+  ...options
+}: GenerateStructuredOptions<T>): Promise<LLMResponse & { data: T }> {
+  const responseSchema = { name: output.name, schema: output.jsonSchema };
+  let messages = options.messages;
+  let issues: string[] = [];
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await generateText({ ...options, messages, responseSchema });
+    const parsed = parseStructuredOutput(response.text, output);
+    await recordValidation(response, options.route, parsed.success);
+    if (parsed.success) {
+      return { ...response, data: parsed.data };
+    }
+
+    issues = parsed.issues;
+    console.warn(`[llm] ${response.provider}/${response.model} answer failed validation for ${options.route}`, issues);
+    messages = [...options.messages, { role: "assistant", content: response.text }, repairPrompt(issues)];
+  }
+  throw new AiOutputValidationError(issues);
+}
@@ -0,0 +1,283 @@
+import { enforceAiQuota } from "@/app/services/ai-usage";
+import {
+  deleteEvent,
+  getEvent,
+  getPendingEvent,
+  holdEventForReview,
+  listPendingEvents,
+  publishPendingEvent,
+  setPendingModeration,
+  submitEvent,
+  type PendingEvent,
+  type SubmitEventPayload,
+} from "@/app/services/events";
+import { generateText } from "@/app/services/llm";
+import {
+  countOpenReports,
+  listReportedEvents,
+  recordReport,
+  resolveReports,
+  type EventReport,
+  type ReportedEvent,
+} from "@/lib/event-report-store";
+import { isEventOwner } from "@/lib/event-permissions";
+import {
+  createKeywordScreener,
+  createLinkScreener,
+  DEFAULT_BLOCKED_KEYWORDS,
+  parseListSetting,
+  screenContent,
+  type ContentScreener,
+  type EventModeration,
+  type ModerationStatus,
+  type ReportReason,
+  type ScreeningFlag,
+  type ScreeningInput,
+  type ScreeningResult,
+} from "@/lib/moderation";
+import { parseOccurrenceId } from "@/lib/recurrence";
+import type { Event } from "@/lib/types";
+
+export const DEFAULT_REPORT_THRESHOLD = 3;
+
+export class ModerationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "ModerationError";
+    this.status = status;
+  }
+}
+
+export interface ModerationQueue {
+  pending: PendingEvent[];
+  reported: (ReportedEvent & { event: Event | null })[];
+}
+
+/**
+ * Open reports that take a live hangout out of the feeds until reviewed, from
+ * `MODERATION_REPORT_THRESHOLD`.
+ */
+export function getReportThreshold(): number {
+  const threshold = Number(process.env.MODERATION_REPORT_THRESHOLD);
+  return Number.isInteger(threshold) && threshold > 0 ? threshold : DEFAULT_REPORT_THRESHOLD;
+}
+
+/**
+ * Asks the model to classify a submission. Only runs when
+ * `MODERATION_LLM_SCREENING=true`; errors are skipped by `screenContent`.
+ */
+function createLlmScreener(tenantId: string): ContentScreener {
+  return {
+    name: "llm",
+    screen: async ({ title, description, tags = [] }: ScreeningInput): Promise<ScreeningFlag[]> => {
+      await enforceAiQuota(tenantId);
+      const completion = await generateText({
+        tenantId,
+        route: "moderation",
+        messages: [
+          {
+            role: "system",
+            content:
+              "You review community hangout listings. Flag spam, scams, hate, sexual content, violence or anything unsafe for a public event feed. " +
+              'Respond with JSON: {"flagged": boolean, "categories": string[], "reason": string}.',
+          },
+          { role: "user", content: JSON.stringify({ title, description, tags }) },
+        ],
+        json: true,
+        temperature: 0,
+        maxTokens: 150,
+        stubResponse: JSON.stringify({ flagged: false }),
+      });
+
+      const verdict = JSON.parse(completion.text || "{}") as {
+        flagged?: unknown;
+        categories?: unknown;
+        reason?: unknown;
+      };
+      if (verdict.flagged !== true) return [];
+      const categories = Array.isArray(verdict.categories) ? verdict.categories.filter((c) => typeof c === "string") : [];
+      const reason = typeof verdict.reason === "string" && verdict.reason.trim() ? verdict.reason.trim() : "Flagged by classifier";
+      return [{ screener: "llm", reason: categories.length ? `${reason} (${categories.join(", ")})` : reason }];
+    },
+  };
+}
+
+function getScreeners(tenantId: string): ContentScreener[] {
+  const screeners = [
+    createKeywordScreener([...DEFAULT_BLOCKED_KEYWORDS, ...parseListSetting(process.env.MODERATION_BLOCKED_KEYWORDS)]),
+    createLinkScreener({ allowedDomains: parseListSetting(process.env.MODERATION_ALLOWED_LINK_DOMAINS) }),
+  ];
+  if (process.env.MODERATION_LLM_SCREENING === "true") {
+    screeners.push(createLlmScreener(tenantId));
+  }
+  return screeners;
+}
+
+export function screenSubmission(event: ScreeningInput, tenantId: string): Promise<ScreeningResult> {
+  return screenContent(event, getScreeners(tenantId));
+}
+
+/** The moderation record of a submission screening flagged; undefined when it passed. */
+export function screeningModeration(screening: ScreeningResult, now: Date = new Date()): EventModeration | undefined {
+  return screening.flagged
+    ? { status: "pending", source: "screening", flags: screening.flags, flaggedAt: now.toISOString() }
+    : undefined;
+}
+
+/**
+ * Screens a new hangout and creates it, live or, when a screener flags it,
+ * held for review in `hangOutsPending`.
+ */
+export async function submitScreenedEvent(
+  event: SubmitEventPayload,
+  tenantId: string,
+  now: Date = new Date()
+): Promise<NonNullable<Awaited<ReturnType<typeof submitEvent>>> & { moderationStatus: "published" | "pending" }> {
+  const screening = await screenSubmission(event, tenantId);
+  const moderation = screeningModeration(screening, now);
+  if (moderation) {
+    console.log("[moderation] Holding submission for review:", { tenantId, title: event.title, flags: screening.flags });
+  }
+  const created = await submitEvent(event, tenantId, { moderation });
+  if (!created) {
+    throw new Error("Failed to create event");
+  }
+  return { ...created, moderationStatus: moderation ? "pending" : "published" };
+}
+
+/**
+ * Held hangouts (oldest first) and live ones with open reports (most
+ * reported first), for tenant moderators.
+ */
+export async function listModerationQueue(
+  tenantId: string,
+  { status = "pending", limit = 50 }: { status?: ModerationStatus; limit?: number } = {}
+): Promise<ModerationQueue> {
+  const [pending, reports] = await Promise.all([
+    listPendingEvents(tenantId, { status, limit }),
+    listReportedEvents(tenantId, limit),
+  ]);
+  const pendingIds = new Set(pending.map((event) => event.id));
+  const reported = await Promise.all(
+    reports
+      .filter((entry) => !pendingIds.has(entry.eventId))
+      .map(async (entry) => ({ ...entry, event: await getEvent(entry.eventId, tenantId) }))
+  );
+  return { pending, reported };
+}
+
+/**
+ * Publishes a held hangout, or keeps a reported live one. Open reports are
+ * dismissed either way. `published` is true when the event just went live, and
+ * `source` then says whether screening or reports had held it.
+ */
+export async function approveEvent({
+  eventId,
+  tenantId,
+  moderatorId,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  moderatorId: string;
+  now?: Date;
+}): Promise<{ eventId: string; published: boolean; source?: EventModeration["source"]; dismissedReports: number }> {
+  const pending = await getPendingEvent(eventId, tenantId);
+  const published = pending ? await publishPendingEvent(eventId, tenantId) : false;
+  if (!published && !(await getEvent(eventId, tenantId))) {
+    throw new ModerationError("Event not found", 404);
+  }
+  const dismissedReports = await resolveReports({ eventId, tenantId, status: "dismissed", resolvedBy: moderatorId, now });
+  return { eventId, published, ...(published && pending && { source: pending.moderation.source }), dismissedReports };
+}
+
+/**
+ * Keeps a held hangout out of the feeds as rejected, or soft-deletes a live
+ * one. Open reports are upheld.
+ */
+export async function rejectEvent({
+  eventId,
+  tenantId,
+  moderatorId,
+  reason,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  moderatorId: string;
+  reason?: string;
+  now?: Date;
+}): Promise<{ eventId: string; status: "rejected" | "deleted"; upheldReports: number }> {
+  const pending = await getPendingEvent(eventId, tenantId);
+  let status: "rejected" | "deleted";
+  if (pending) {
+    await setPendingModeration(eventId, {
+      ...pending.moderation,
+      status: "rejected",
+      reviewedBy: moderatorId,
+      reviewedAt: now.toISOString(),
+      ...(reason && { rejectionReason: reason }),
+    });
+    status = "rejected";
+  } else if (await getEvent(eventId, tenantId)) {
+    await deleteEvent(eventId, tenantId, { userId: moderatorId, isModerator: true }, now);
+    status = "deleted";
+  } else {
+    throw new ModerationError("Event not found", 404);
+  }
+  const upheldReports = await resolveReports({ eventId, tenantId, status: "upheld", resolvedBy: moderatorId, now });
+  return { eventId, status, upheldReports };
+}
+
+/**
+ * Files a user's report against a live hangout (occurrences count against
+ * their series). Once open reports reach the threshold, the event is held
+ * for review.
+ */
+export async function reportEvent({
+  eventId,
+  tenantId,
+  reporterId,
+  reason,
+  details,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string;
+  now?: Date;
+}): Promise<{ report: EventReport; heldForReview: boolean }> {
+  const targetId = parseOccurrenceId(eventId)?.seriesId ?? eventId;
+  const event = await getEvent(targetId, tenantId);
+  if (!event) {
+    throw new ModerationError("Event not found", 404);
+  }
+  if (isEventOwner(event, reporterId)) {
+    throw new ModerationError("You cannot report your own event", 403);
+  }
+
+  const report = await recordReport({
+    eventId: targetId,
+    tenantId,
+    reporterId,
+    reason,
+    details: details?.trim() || null,
+    now,
+  });
+
+  const openReports = await countOpenReports(targetId);
+  let heldForReview = false;
+  if (openReports >= getReportThreshold()) {
+    heldForReview = await holdEventForReview(targetId, tenantId, {
+      status: "pending",
+      source: "reports",
+      flags: [{ screener: "reports", reason: `${openReports} open reports` }],
+      flaggedAt: now.toISOString(),
+    });
+  }
+  return { report, heldForReview };
+}
@@ -1,170 +1,194 @@
 /**
  * Rate Limiting Service
- * Tracks API usage per tenant/API key to prevent abuse
+ * Tracks API usage per tenant with sliding windows on a pluggable counter store
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number; // Timestamp when limit resets
-  lastRequest: number;
+import { getQueryExecutor } from "@/lib/db";
+import {
+  InMemoryRateLimitStore,
+  PostgresRateLimitStore,
+  type RateLimitDecision,
+  type RateLimitStore,
+  type RateLimitWindow,
+} from "@/lib/rate-limit-store";
+import { getTenantRateLimits, type RateLimitType, type RateLimitRule } from "@/lib/tenant-store";
+
+export type { RateLimitType } from "@/lib/tenant-store";
+export type RateLimitResult = RateLimitDecision;
+
+export class RateLimitExceededError extends Error {
+  status: number;
+  decision: RateLimitResult;
+
+  constructor(decision: RateLimitResult) {
+    super(`Rate limit exceeded. Limit: ${decision.limit}. Reset at: ${new Date(decision.resetAt).toISOString()}`);
+    this.name = "RateLimitExceededError";
+    this.status = 429;
+    this.decision = decision;
+  }
 }
 
-// In-memory rate limit store (for production, use Redis or Firestore)
-const rateLimitStore: Map<string, RateLimitEntry> = new Map();
+// Default rate limits for tenants without stored overrides
+const DEFAULT_RATE_LIMITS: Record<RateLimitType, RateLimitRule> = {
+  aiEvents: { limit: 50, windowSeconds: 60 },
+  aiEventsPerClient: { limit: 10, windowSeconds: 60 },
+  requests: { limit: 100, windowSeconds: 60 },
+  requestsHour: { limit: 1000, windowSeconds: 60 * 60 },
+};
+
+// Limit types that apply to a tenant as a whole; per-client types are keyed per caller.
+type TenantLimitType = Exclude<RateLimitType, "aiEventsPerClient">;
+const TENANT_LIMIT_TYPES: TenantLimitType[] = ["aiEvents", "requests", "requestsHour"];
+const CONFIG_CACHE_TTL_MS = 60 * 1000;
+
+const memoryStore = new InMemoryRateLimitStore();
+let postgresStore: PostgresRateLimitStore | null = null;
+let testStore: RateLimitStore | null = null;
 
-// Rate limit configurations per tenant (can be stored in Firestore)
-interface RateLimitConfig {
-  aiEventsPerMinute: number;
-  requestsPerMinute: number;
-  requestsPerHour: number;
+const configCache: Map<string, { limits: Record<RateLimitType, RateLimitRule>; expiresAt: number }> = new Map();
+
+/**
+ * Shared Postgres counters when a database is configured, otherwise the
+ * process-local store (limits then only hold per instance).
+ */
+function getRateLimitStore(): RateLimitStore {
+  if (testStore) return testStore;
+  if (postgresStore) return postgresStore;
+  try {
+    postgresStore = new PostgresRateLimitStore(getQueryExecutor());
+    return postgresStore;
+  } catch {
+    return memoryStore;
+  }
 }
 
-// Default rate limits
-const DEFAULT_RATE_LIMITS: RateLimitConfig = {
-  aiEventsPerMinute: 50,
-  requestsPerMinute: 100,
-  requestsPerHour: 1000,
-};
+async function withStore(task: (store: RateLimitStore) => Promise<RateLimitDecision>): Promise<RateLimitDecision> {
+  const store = getRateLimitStore();
+  try {
+    return await task(store);
+  } catch (error) {
+    if (store === memoryStore) throw error;
+    console.warn("[rate-limit] Counter store unavailable, using in-memory counters", error);
+    return task(memoryStore);
+  }
+}
 
-// Tenant-specific rate limits (can be loaded from Firestore)
-const TENANT_RATE_LIMITS: Record<string, RateLimitConfig> = {
-  "tenant-1": {
-    aiEventsPerMinute: 50,
-    requestsPerMinute: 100,
-    requestsPerHour: 1000,
-  },
-  "tenant-2": {
-    aiEventsPerMinute: 100,
-    requestsPerMinute: 200,
-    requestsPerHour: 2000,
-  },
-  "test-tenant": {
-    aiEventsPerMinute: 10,
-    requestsPerMinute: 20,
-    requestsPerHour: 100,
-  },
-};
+async function loadTenantLimits(tenantId: string): Promise<Record<RateLimitType, RateLimitRule>> {
+  const cached = configCache.get(tenantId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.limits;
+  }
+
+  let overrides = {};
+  try {
+    overrides = await getTenantRateLimits(tenantId);
+  } catch (error) {
+    console.warn("[rate-limit] Failed to load tenant limits, using defaults", error);
+  }
+
+  const limits = { ...DEFAULT_RATE_LIMITS, ...overrides };
+  configCache.set(tenantId, { limits, expiresAt: Date.now() + CONFIG_CACHE_TTL_MS });
+  return limits;
+}
+
+async function resolveWindow(tenantId: string, limitType: RateLimitType): Promise<RateLimitWindow> {
+  const rule = (await loadTenantLimits(tenantId))[limitType];
+  return { limit: rule.limit, windowMs: rule.windowSeconds * 1000 };
+}
 
 /**
- * Check rate limit for a tenant
+ * Check rate limit for a tenant and consume one unit when allowed
  * @param tenantId - Tenant ID
  * @param limitType - Type of limit to check ('aiEvents', 'requests', 'requestsHour')
  * @returns Object with allowed status and remaining requests
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   tenantId: string,
-  limitType: "aiEvents" | "requests" | "requestsHour" = "requests"
-): {
-  allowed: boolean;
-  remaining: number;
-  resetAt: number;
-  limit: number;
-} {
-  const config = TENANT_RATE_LIMITS[tenantId] || DEFAULT_RATE_LIMITS;
-  const now = Date.now();
-  const key = `${tenantId}:${limitType}`;
-
-  // Determine limit and window based on type
-  let limit: number;
-  let windowMs: number;
-
-  if (limitType === "aiEvents") {
-    limit = config.aiEventsPerMinute;
-    windowMs = 60 * 1000; // 1 minute
-  } else if (limitType === "requestsHour") {
-    limit = config.requestsPerHour;
-    windowMs = 60 * 60 * 1000; // 1 hour
-  } else {
-    limit = config.requestsPerMinute;
-    windowMs = 60 * 1000; // 1 minute
-  }
+  limitType: TenantLimitType = "requests"
+): Promise<RateLimitResult> {
+  const window = await resolveWindow(tenantId, limitType);
+  return withStore((store) => store.hit(`${tenantId}:${limitType}`, window));
+}
 
-  const entry = rateLimitStore.get(key);
-
-  if (!entry || now > entry.resetAt) {
-    // Reset or create new entry
-    const resetAt = now + windowMs;
-    rateLimitStore.set(key, {
-      count: 1,
-      resetAt,
-      lastRequest: now,
-    });
-    return {
-      allowed: true,
-      remaining: limit - 1,
-      resetAt,
-      limit,
-    };
+/**
+ * AI generation budget shared fairly within a tenant. Each end user (or client
+ * address) gets its own `aiEventsPerClient` window. It is checked before the
+ * tenant-wide `aiEvents` window but only charged once that one allows the
+ * request, so a denied caller never spends tenant quota and a full tenant
+ * window never spends the caller's.
+ * @param clientId - `user:<id>` or `ip:<address>`
+ * @returns The decision that denied the request, or the tighter of the two
+ */
+export async function checkAiRateLimit(tenantId: string, clientId: string): Promise<RateLimitResult> {
+  const clientWindow = await resolveWindow(tenantId, "aiEventsPerClient");
+  const clientKey = `${tenantId}:aiEventsPerClient:${clientId}`;
+  const clientStatus = await withStore((store) => store.peek(clientKey, clientWindow));
+  if (!clientStatus.allowed) {
+    return clientStatus;
   }
 
-  // Check if limit exceeded
-  if (entry.count >= limit) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetAt: entry.resetAt,
-      limit,
-    };
+  const tenantCheck = await checkRateLimit(tenantId, "aiEvents");
+  if (!tenantCheck.allowed) {
+    return tenantCheck;
   }
+  const clientCheck = await withStore((store) => store.hit(clientKey, clientWindow));
+  if (clientCheck.allowed && tenantCheck.remaining < clientCheck.remaining) {
+    return tenantCheck;
+  }
+  return clientCheck;
+}
 
-  // Increment count
-  entry.count++;
-  entry.lastRequest = now;
-  rateLimitStore.set(key, entry);
-
-  return {
-    allowed: true,
-    remaining: limit - entry.count,
-    resetAt: entry.resetAt,
-    limit,
-  };
+/**
+ * Rate limit for callers without a tenant (first-party UI endpoints), keyed by
+ * client address and always using the default limits
+ */
+export async function checkClientRateLimit(
+  clientId: string,
+  limitType: RateLimitType = "requests"
+): Promise<RateLimitResult> {
+  const rule = DEFAULT_RATE_LIMITS[limitType];
+  const window = { limit: rule.limit, windowMs: rule.windowSeconds * 1000 };
+  return withStore((store) => store.hit(`client:${clientId}:${limitType}`, window));
 }
 
 /**
- * Get rate limit status for a tenant
+ * Get rate limit status for a tenant without consuming quota
  */
-export function getRateLimitStatus(tenantId: string): {
-  aiEvents: { remaining: number; limit: number; resetAt: number };
-  requests: { remaining: number; limit: number; resetAt: number };
-  requestsHour: { remaining: number; limit: number; resetAt: number };
-} {
-  const aiEvents = checkRateLimit(tenantId, "aiEvents");
-  const requests = checkRateLimit(tenantId, "requests");
-  const requestsHour = checkRateLimit(tenantId, "requestsHour");
-
-  return {
-    aiEvents: {
-      remaining: aiEvents.remaining,
-      limit: aiEvents.limit,
-      resetAt: aiEvents.resetAt,
-    },
-    requests: {
-      remaining: requests.remaining,
-      limit: requests.limit,
-      resetAt: requests.resetAt,
-    },
-    requestsHour: {
-      remaining: requestsHour.remaining,
-      limit: requestsHour.limit,
-      resetAt: requestsHour.resetAt,
-    },
-  };
+export async function getRateLimitStatus(
+  tenantId: string
+): Promise<Record<TenantLimitType, { remaining: number; limit: number; resetAt: number }>> {
+  const entries = await Promise.all(
+    TENANT_LIMIT_TYPES.map(async (limitType) => {
+      const window = await resolveWindow(tenantId, limitType);
+      const { remaining, limit, resetAt } = await withStore((store) => store.peek(`${tenantId}:${limitType}`, window));
+      return [limitType, { remaining, limit, resetAt }] as const;
+    })
+  );
+  return Object.fromEntries(entries) as Record<TenantLimitType, { remaining: number; limit: number; resetAt: number }>;
 }
 
 /**
- * Clean up expired rate limit entries
+ * Clean up expired rate limit counters
  */
-export function cleanupRateLimits() {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetAt) {
-      rateLimitStore.delete(key);
+export async function cleanupRateLimits(): Promise<void> {
+  await memoryStore.cleanup();
+  const store = getRateLimitStore();
+  if (store !== memoryStore) {
+    try {
+      await store.cleanup();
+    } catch (error) {
+      console.warn("[rate-limit] Failed to clean up counters", error);
     }
   }
 }
 
+export function setRateLimitStoreForTests(store: RateLimitStore | null) {
+  testStore = store;
+  postgresStore = null;
+  configCache.clear();
+}
+
 // Periodic cleanup (every 5 minutes)
 if (typeof setInterval !== "undefined") {
-  setInterval(cleanupRateLimits, 5 * 60 * 1000);
+  setInterval(() => void cleanupRateLimits(), 5 * 60 * 1000).unref?.();
 }
-
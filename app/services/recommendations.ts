@@ -0,0 +1,131 @@
+import { generateLocalAISuggestions } from "@/app/services/ai";
+import { fetchUserEvents } from "@/app/services/events";
+import { getTagTaxonomy } from "@/app/services/tags";
+import { createDefaultPreferences } from "@/lib/default-preferences";
+import { fetchSpontaneousData, type SpontaneousCard } from "@/lib/fetchSpontaneousData";
+import {
+  fromAiSuggestion,
+  fromHangout,
+  fromSpontaneousCard,
+  recommend,
+  resolveGeofence,
+  type Geofence,
+  type Recommendation,
+  type RecommendationCandidate,
+  type RecommenderPreferences,
+} from "@/lib/recommender";
+import { getSettings } from "@/lib/settings-store";
+import type { Event } from "@/lib/types";
+import type { RecommendationRequest } from "@/lib/validation/recommender-schema";
+
+const KM_PER_MILE = 1.609344;
+const MAX_HANGOUT_CANDIDATES = 100;
+
+export interface RecommendationResult {
+  recommendations: Recommendation[];
+  geofence: Pick<Geofence, "basis" | "radiusKm">;
+}
+
+/**
+ * Saved settings (or the defaults) overridden by whatever the request sent.
+ */
+async function resolvePreferences(
+  userId: string,
+  overrides: RecommendationRequest["preferences"]
+): Promise<RecommenderPreferences> {
+  let saved = null;
+  try {
+    saved = await getSettings(userId);
+  } catch (error) {
+    console.warn(`[recommendations] Failed to load settings for ${userId}:`, error);
+  }
+  const base = saved ?? createDefaultPreferences(userId);
+  return {
+    interests: base.interests,
+    spontaneity: base.spontaneity,
+    matchStrictness: base.matchStrictness,
+    autoJoin: base.autoJoin,
+    locationSharing: base.locationSharing,
+    radiusKm: base.radiusKm,
+    transportPreference: base.transportPreference,
+    safetyMode: base.safetyMode,
+    aiPersona: base.aiPersona,
+    showReasoning: base.showReasoning,
+    timeAvailability: base.timeAvailability,
+    ...overrides,
+  };
+}
+
+async function loadCards(geofence: Geofence, interests: string[], tenantId?: string): Promise<SpontaneousCard[]> {
+  try {
+    return await fetchSpontaneousData({
+      location: geofence.center,
+      radius: geofence.radiusKm / KM_PER_MILE,
+      preferences: interests,
+      requestedAt: new Date().toISOString(),
+      taxonomy: await getTagTaxonomy(tenantId),
+    });
+  } catch (error) {
+    console.warn("[recommendations] Failed to load spontaneous cards:", error);
+    return [];
+  }
+}
+
+async function loadAiSuggestions(
+  tenantId: string,
+  geofence: Geofence,
+  preferences: RecommenderPreferences,
+  cards: SpontaneousCard[]
+): Promise<Event[]> {
+  const { lat, lng } = geofence.center;
+  try {
+    return await generateLocalAISuggestions({
+      location: `${lat.toFixed(3)},${lng.toFixed(3)}`,
+      tenantId,
+      coordinates: geofence.center,
+      travelerType: `${preferences.aiPersona} explorer`,
+      aggregatedCards: cards,
+      preferences: preferences.interests,
+      historyKey: tenantId,
+      allowStaticFallback: false,
+    });
+  } catch (error) {
+    // Quota exhaustion or a provider outage only costs the AI suggestions
+    console.warn(`[recommendations] Skipping AI suggestions for ${tenantId}:`, error);
+    return [];
+  }
+}
+
+export async function getRecommendations(
+  request: RecommendationRequest,
+  now: Date = new Date()
+): Promise<RecommendationResult> {
+  const preferences = await resolvePreferences(request.userId, request.preferences);
+  const geofence = resolveGeofence(preferences, request);
+  const { tenantId } = request;
+
+  const [hangouts, cards] = await Promise.all([
+    tenantId
+      ? fetchUserEvents({
+          tenantId,
+          near: geofence.center,
+          radiusKm: geofence.radiusKm,
+          limit: MAX_HANGOUT_CANDIDATES,
+        })
+      : Promise.resolve([]),
+    loadCards(geofence, preferences.interests, tenantId),
+  ]);
+  const aiSuggestions =
+    tenantId && request.includeAi ? await loadAiSuggestions(tenantId, geofence, preferences, cards) : [];
+
+  const candidates: RecommendationCandidate[] = [
+    ...hangouts.flatMap((event) => fromHangout(event) ?? []),
+    ...cards.flatMap((card) => fromSpontaneousCard(card) ?? []),
+    ...aiSuggestions.flatMap((event) => fromAiSuggestion(event) ?? []),
+  ];
+
+  return {
+    recommendations: recommend({ preferences, candidates, geofence, now, limit: request.limit }),
+    geofence: { basis: geofence.basis, radiusKm: geofence.radiusKm },
+  };
+}
@@ -0,0 +1,229 @@
+import { createHash } from "crypto";
+import { getEvent, setEventAttendance } from "@/app/services/events";
+import { hasEnded } from "@/lib/event-schedule";
+import { getSettings } from "@/lib/settings-store";
+import {
+  countRsvps,
+  deleteRsvp,
+  listRsvps,
+  promoteWaitlist,
+  upsertRsvp,
+  type RsvpCounts,
+  type RsvpRecord,
+  type RsvpResponse,
+  type RsvpStatus,
+} from "@/lib/rsvp-store";
+import type { Event } from "@/lib/types";
+import type { UserPreferences } from "@/types/settings";
+
+export class RsvpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "RsvpError";
+    this.status = status;
+  }
+}
+
+export interface Attendee {
+  /** Only present for attendees whose profile is public, and for the viewer. */
+  userId?: string;
+  name: string;
+  photoUrl?: string;
+  status: RsvpStatus;
+  isViewer: boolean;
+}
+
+export interface Attendance {
+  eventId: string;
+  capacity: number | null;
+  counts: RsvpCounts;
+  attendees: Attendee[];
+  /** Attendees with `profileVisibility: "anonymous"`, counted but not listed. */
+  hiddenCount: number;
+  viewer: { status: RsvpStatus; waitlistPosition: number | null } | null;
+}
+
+export interface RsvpResult {
+  rsvp: RsvpRecord | null;
+  counts: RsvpCounts;
+  waitlistPosition: number | null;
+  promoted: string[];
+}
+
+async function requireOpenEvent(eventId: string, tenantId: string): Promise<Event> {
+  const event = await getEvent(eventId, tenantId);
+  if (!event) {
+    throw new RsvpError("Event not found", 404);
+  }
+  if (hasEnded(event)) {
+    throw new RsvpError("This hangout has already ended", 409);
+  }
+  return event;
+}
+
+async function syncAttendance(eventId: string): Promise<RsvpCounts> {
+  const counts = await countRsvps(eventId);
+  try {
+    await setEventAttendance(eventId, counts);
+  } catch (error) {
+    // The RSVP table is the source of truth; the event copy catches up on the next change
+    console.warn(`[RSVP] Failed to update attendee counts on ${eventId}:`, error);
+  }
+  return counts;
+}
+
+async function waitlistPositionFor(eventId: string, userId: string): Promise<number | null> {
+  const waitlist = (await listRsvps(eventId)).filter((rsvp) => rsvp.status === "waitlisted");
+  const index = waitlist.findIndex((rsvp) => rsvp.userId === userId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Join ("going") or tentatively join ("maybe"). A full event puts "going"
+ * responses on the waitlist.
+ */
+export async function respondToEvent({
+  eventId,
+  tenantId,
+  userId,
+  response,
+}: {
+  eventId: string;
+  tenantId: string;
+  userId: string;
+  response: RsvpResponse;
+}): Promise<RsvpResult> {
+  const event = await requireOpenEvent(eventId, tenantId);
+  const capacity = event.capacity ?? null;
+  const rsvp = await upsertRsvp({ eventId, tenantId, userId, response, capacity });
+  // Switching from "going" to "maybe" can free a seat
+  const promoted = await promoteWaitlist(eventId, capacity);
+  const counts = await syncAttendance(eventId);
+  return {
+    rsvp,
+    counts,
+    waitlistPosition: rsvp.status === "waitlisted" ? await waitlistPositionFor(eventId, userId) : null,
+    promoted: promoted.map((record) => record.userId),
+  };
+}
+
+/**
+ * Removes the user's RSVP and fills any freed seat from the waitlist.
+ */
+export async function leaveEvent({
+  eventId,
+  tenantId,
+  userId,
+}: {
+  eventId: string;
+  tenantId: string;
+  userId: string;
+}): Promise<RsvpResult> {
+  const event = await getEvent(eventId, tenantId);
+  if (!event) {
+    throw new RsvpError("Event not found", 404);
+  }
+  const removed = await deleteRsvp(eventId, userId);
+  if (!removed) {
+    throw new RsvpError("No RSVP to remove", 404);
+  }
+  const promoted = await promoteWaitlist(eventId, event.capacity ?? null);
+  const counts = await syncAttendance(eventId);
+  return { rsvp: null, counts, waitlistPosition: null, promoted: promoted.map((record) => record.userId) };
+}
+
+/**
+ * Fills seats after an event's capacity was raised or removed.
+ */
+export async function refreshWaitlist(eventId: string, tenantId: string): Promise<string[]> {
+  const event = await getEvent(eventId, tenantId);
+  if (!event) {
+    throw new RsvpError("Event not found", 404);
+  }
+  const promoted = await promoteWaitlist(eventId, event.capacity ?? null);
+  await syncAttendance(eventId);
+  return promoted.map((record) => record.userId);
+}
+
+function pseudonymFor(eventId: string, userId: string): string {
+  // Per event, so the same person cannot be followed from one hangout to the next
+  const digest = createHash("sha256").update(`${eventId}:${userId}`).digest("hex");
+  return `Traveler ${digest.slice(0, 6)}`;
+}
+
+async function loadPreferences(userId: string): Promise<UserPreferences | null> {
+  try {
+    return await getSettings(userId);
+  } catch (error) {
+    console.warn(`[RSVP] Failed to load preferences for attendee ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Attendee list as seen by `viewerId`. Each attendee's `profileVisibility`
+ * decides what is shown: "full" shows their name and photo, "pseudonym" (the
+ * default) a stable per-event alias, and "anonymous" hides them from the list.
+ */
+export async function getAttendance({
+  eventId,
+  tenantId,
+  viewerId,
+}: {
+  eventId: string;
+  tenantId: string;
+  viewerId?: string;
+}): Promise<Attendance> {
+  const event = await getEvent(eventId, tenantId);
+  if (!event) {
+    throw new RsvpError("Event not found", 404);
+  }
+
+  const rsvps = await listRsvps(eventId);
+  const preferences = await Promise.all(rsvps.map((rsvp) => loadPreferences(rsvp.userId)));
+
+  const attendees: Attendee[] = [];
+  let hiddenCount = 0;
+  rsvps.forEach((rsvp, index) => {
+    const prefs = preferences[index];
+    const isViewer = rsvp.userId === viewerId;
+    const visibility = prefs?.profileVisibility ?? "pseudonym";
+    if (visibility === "anonymous" && !isViewer) {
+      hiddenCount += 1;
+      return;
+    }
+    const showProfile = visibility === "full" || isViewer;
+    attendees.push({
+      ...(showProfile ? { userId: rsvp.userId } : {}),
+      name: showProfile ? prefs?.displayName || "Traveler" : pseudonymFor(eventId, rsvp.userId),
+      ...(showProfile && prefs?.photoUrl ? { photoUrl: prefs.photoUrl } : {}),
+      status: rsvp.status,
+      isViewer,
+    });
+  });
+
+  const counts: RsvpCounts = { going: 0, maybe: 0, waitlisted: 0 };
+  rsvps.forEach((rsvp) => {
+    counts[rsvp.status] += 1;
+  });
+
+  const viewerRsvp = viewerId ? rsvps.find((rsvp) => rsvp.userId === viewerId) : undefined;
+  const waitlist = rsvps.filter((rsvp) => rsvp.status === "waitlisted");
+
+  return {
+    eventId,
+    capacity: event.capacity ?? null,
+    counts,
+    attendees,
+    hiddenCount,
+    viewer: viewerRsvp
+      ? {
+          status: viewerRsvp.status,
+          waitlistPosition:
+            viewerRsvp.status === "waitlisted" ? waitlist.findIndex((rsvp) => rsvp.userId === viewerId) + 1 : null,
+        }
+      : null,
+  };
+}
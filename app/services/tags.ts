@@ -0,0 +1,46 @@
+/**
+ * Tag Taxonomy Service
+ * The built-in tag vocabulary extended with each tenant's own tags and synonyms
+ */
+
+import { createTagTaxonomy, defaultTagTaxonomy, type TagTaxonomy } from "@/lib/tag-taxonomy";
+import { getTenantTagVocabulary } from "@/lib/tag-vocabulary-store";
+
+const TAXONOMY_CACHE_TTL_MS = 60 * 1000;
+
+const taxonomyCache: Map<string, { taxonomy: TagTaxonomy; expiresAt: number }> = new Map();
+
+/**
+ * The tenant's taxonomy, or the built-in one without a tenant. Instances pick
+ * up vocabulary changes within a minute.
+ */
+export async function getTagTaxonomy(tenantId?: string | null): Promise<TagTaxonomy> {
+  if (!tenantId) {
+    return defaultTagTaxonomy;
+  }
+  const cached = taxonomyCache.get(tenantId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.taxonomy;
+  }
+
+  let taxonomy = defaultTagTaxonomy;
+  try {
+    const vocabulary = await getTenantTagVocabulary(tenantId);
+    if (vocabulary.length > 0) {
+      taxonomy = createTagTaxonomy(vocabulary);
+    }
+  } catch (error) {
+    console.warn("[tags] Failed to load the tenant vocabulary, using the built-in tags", error);
+  }
+  taxonomyCache.set(tenantId, { taxonomy, expiresAt: Date.now() + TAXONOMY_CACHE_TTL_MS });
+  return taxonomy;
+}
+
+/** Drops cached taxonomies, so this instance sees a vocabulary change at once. */
+export function clearTagTaxonomyCache(tenantId?: string) {
+  if (tenantId) {
+    taxonomyCache.delete(tenantId);
+  } else {
+    taxonomyCache.clear();
+  }
+}
@@ -3,64 +3,130 @@
  * Handles API key validation and tenant ID resolution
  */
 
-// In-memory tenant registry (for testing)
-// In production, this would be stored in Firestore or environment variables
-const TENANT_REGISTRY: Map<string, { tenantId: string; name: string; enabled: boolean }> = new Map([
-  // Demo tenants for testing
-  ["demo-key-1", { tenantId: "tenant-1", name: "Demo Tenant 1", enabled: true }],
-  ["demo-key-2", { tenantId: "tenant-2", name: "Demo Tenant 2", enabled: true }],
-  ["test-key", { tenantId: "test-tenant", name: "Test Tenant", enabled: true }],
-]);
+import { getUserFromReq, UnauthorizedError } from "@/lib/server-auth";
+import {
+  getTenant,
+  listTenants as listStoredTenants,
+  redactApiKey,
+  resolveApiKey,
+  type TenantRecord,
+} from "@/lib/tenant-store";
+
+const API_KEY_ERRORS = {
+  unknown: "Invalid API key",
+  revoked: "API key has been revoked",
+  expired: "API key has expired",
+  tenant_disabled: "Tenant is disabled",
+} as const;
 
 /**
  * Validate API key and return tenant information
  */
-export function validateApiKey(apiKey: string | null | undefined): {
+export async function validateApiKey(apiKey: string | null | undefined): Promise<{
   valid: boolean;
   tenantId?: string;
   name?: string;
+  keyId?: string;
   error?: string;
-} {
+}> {
   if (!apiKey) {
     return { valid: false, error: "API key is required" };
   }
 
-  const tenant = TENANT_REGISTRY.get(apiKey);
-  if (!tenant) {
-    return { valid: false, error: "Invalid API key" };
-  }
-
-  if (!tenant.enabled) {
-    return { valid: false, error: "Tenant is disabled" };
+  const resolution = await resolveApiKey(apiKey);
+  if (resolution.status !== "active") {
+    return { valid: false, error: API_KEY_ERRORS[resolution.status] };
   }
 
   return {
     valid: true,
-    tenantId: tenant.tenantId,
-    name: tenant.name,
+    tenantId: resolution.tenant.tenantId,
+    name: resolution.tenant.name,
+    keyId: resolution.key.id,
   };
 }
 
+export type TenantResolution =
+  | {
+      status: "resolved";
+      tenantId: string;
+      via: "api_key" | "session";
+      keyId?: string;
+      userId?: string;
+    }
+  | { status: "missing" }
+  | {
+      status: "rejected";
+      reason: "invalid_api_key" | "tenant_mismatch" | "unauthenticated_tenant_id";
+      message: string;
+      httpStatus: 401 | 403;
+    };
+
 /**
- * Get tenant ID from API key or direct tenantId
+ * Tenant resolution policy. An API key always decides the tenant; a direct
+ * tenantId is only honoured when it matches that key's tenant or when the
+ * caller has an authenticated first-party session.
  */
-export function getTenantId(apiKey?: string | null, tenantId?: string | null): string | null {
-  // If tenantId is provided directly, use it
-  if (tenantId) {
-    return tenantId;
+export async function resolveTenantAccess({
+  apiKey,
+  tenantId,
+  sessionUserId,
+}: {
+  apiKey?: string | null;
+  tenantId?: string | null;
+  sessionUserId?: string | null;
+}): Promise<TenantResolution> {
+  if (apiKey) {
+    const validation = await validateApiKey(apiKey);
+    if (!validation.valid || !validation.tenantId) {
+      return {
+        status: "rejected",
+        reason: "invalid_api_key",
+        message: validation.error ?? API_KEY_ERRORS.unknown,
+        httpStatus: 401,
+      };
+    }
+
+    if (tenantId && tenantId !== validation.tenantId) {
+      return {
+        status: "rejected",
+        reason: "tenant_mismatch",
+        message: "tenantId does not match the tenant of the supplied API key",
+        httpStatus: 403,
+      };
+    }
+
+    return { status: "resolved", tenantId: validation.tenantId, via: "api_key", keyId: validation.keyId };
   }
 
-  // Otherwise, validate API key and extract tenantId
-  if (apiKey) {
-    const validation = validateApiKey(apiKey);
-    if (validation.valid && validation.tenantId) {
-      return validation.tenantId;
+  if (tenantId) {
+    if (sessionUserId) {
+      return { status: "resolved", tenantId, via: "session", userId: sessionUserId };
     }
+    return {
+      status: "rejected",
+      reason: "unauthenticated_tenant_id",
+      message: "A tenantId must be paired with an API key for that tenant or a signed-in session",
+      httpStatus: 401,
+    };
   }
 
-  return null;
+  return { status: "missing" };
 }
 
+/**
+ * Get tenant ID from an API key. A direct tenantId is only accepted when it
+ * matches the key's tenant.
+ */
+export async function getTenantId(apiKey?: string | null, tenantId?: string | null): Promise<string | null> {
+  const resolution = await resolveTenantAccess({ apiKey, tenantId });
+  return resolution.status === "resolved" ? resolution.tenantId : null;
+}
+
+/**
+ * Where tenant hints were found on a request. API keys are redacted (see
+ * `redactApiKey`) so the object is safe to log or echo back.
+ */
 export interface TenantExtractionSources {
   bodyTenantId: string | null;
   queryTenantId: string | null;
@@ -69,14 +135,15 @@ export interface TenantExtractionSources {
   bodyApiKey: string | null;
   queryApiKey: string | null;
   headerApiKey: string | null;
+  cookieApiKey: string | null;
+  hasSessionToken: boolean;
   resolvedTenantId: string | null;
-  apiKey?: string | null;
-  tenantIdCandidate?: string | null;
 }
 
 export interface TenantExtractionResult {
   tenantId?: string;
   parsedBody?: unknown;
+  resolution: TenantResolution;
   sources: TenantExtractionSources;
 }
 
@@ -92,6 +159,37 @@ function parseCookieValue(cookieHeader: string | null, key: string): string | nu
   return null;
 }
 
+/**
+ * Split the Authorization header into an API key (raw value or non-JWT
+ * bearer) or a first-party session token (JWT bearer).
+ */
+function parseAuthorizationHeader(value: string | null): { apiKey: string | null; sessionToken: string | null } {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return { apiKey: null, sessionToken: null };
+  }
+  if (!trimmed.startsWith("Bearer ")) {
+    return { apiKey: trimmed, sessionToken: null };
+  }
+  const token = trimmed.slice("Bearer ".length).trim();
+  if (token.split(".").length === 3) {
+    return { apiKey: null, sessionToken: token };
+  }
+  return { apiKey: token || null, sessionToken: null };
+}
+
+async function resolveSessionUserId(req: Request): Promise<string | null> {
+  try {
+    const user = await getUserFromReq(req);
+    return user.id;
+  } catch (error) {
+    if (!(error instanceof UnauthorizedError)) {
+      console.warn("⚠️ Failed to verify session while extracting tenantId:", error);
+    }
+    return null;
+  }
+}
+
 export async function extractTenantIdFromRequest(req: Request): Promise<TenantExtractionResult> {
   let parsedBody: unknown;
   let bodyTenantId: string | null = null;
@@ -130,8 +228,9 @@ export async function extractTenantIdFromRequest(req: Request): Promise<TenantEx
     console.warn("⚠️ Failed to parse request URL while extracting tenantId:", urlError);
   }
 
+  const authorization = parseAuthorizationHeader(req.headers.get("authorization"));
   const headerTenantId = req.headers.get("x-tenant-id");
-  const headerApiKey = req.headers.get("x-api-key") || req.headers.get("authorization");
+  const headerApiKey = req.headers.get("x-api-key") || authorization.apiKey;
   const cookieHeader = req.headers.get("cookie");
   const cookieTenantId = parseCookieValue(cookieHeader, "tenantId");
   const cookieApiKey = parseCookieValue(cookieHeader, "apiKey");
@@ -150,102 +249,83 @@ export async function extractTenantIdFromRequest(req: Request): Promise<TenantEx
     cookieApiKey?.trim() ||
     undefined;
 
-  const resolvedTenantId = getTenantId(apiKeyCandidate || undefined, directTenant || undefined) || undefined;
+  // Only pay for token verification when a bare tenantId needs a session.
+  const sessionUserId =
+    directTenant && !apiKeyCandidate && authorization.sessionToken ? await resolveSessionUserId(req) : null;
 
-  let path = "unknown";
-  try {
-    path = new URL(req.url).pathname;
-  } catch {
-    // ignore path parsing errors
-  }
-
-  console.log("[TRACE tenantId]", {
-    path,
-    directTenant: directTenant ?? null,
-    apiKeyCandidate: apiKeyCandidate ?? null,
-    resolvedTenantId: resolvedTenantId ?? null,
-    bodyTenantId,
-    queryTenantId,
-    headerTenantId,
-    cookieTenantId,
-    bodyApiKey,
-    queryApiKey,
-    headerApiKey,
-    cookieApiKey,
+  const resolution = await resolveTenantAccess({
+    apiKey: apiKeyCandidate,
+    tenantId: directTenant,
+    sessionUserId,
   });
+  const resolvedTenantId = resolution.status === "resolved" ? resolution.tenantId : undefined;
 
   const sources: TenantExtractionSources = {
     bodyTenantId: bodyTenantId ?? null,
     queryTenantId: queryTenantId ?? null,
     headerTenantId: headerTenantId ?? null,
     cookieTenantId: cookieTenantId ?? null,
-    bodyApiKey: bodyApiKey ?? null,
-    queryApiKey: queryApiKey ?? null,
-    headerApiKey: headerApiKey ?? null,
+    bodyApiKey: redactApiKey(bodyApiKey),
+    queryApiKey: redactApiKey(queryApiKey),
+    headerApiKey: redactApiKey(headerApiKey),
+    cookieApiKey: redactApiKey(cookieApiKey),
+    hasSessionToken: Boolean(authorization.sessionToken),
     resolvedTenantId: resolvedTenantId ?? null,
   };
 
   return {
     tenantId: resolvedTenantId,
     parsedBody,
+    resolution,
     sources,
   };
 }
 
-/**
- * Get tenant-specific AI prompt template
- */
-export function getTenantPromptTemplate(tenantId: string | null): string {
-  // Default prompt template
-  const defaultTemplate = `Generate one spontaneous local travel event near {location}.`;
-
-  // Tenant-specific templates (can be stored in database)
-  const tenantTemplates: Record<string, string> = {
-    "tenant-1": `Generate a fun, family-friendly local travel event near {location}. Focus on activities suitable for all ages.`,
-    "tenant-2": `Generate an adventurous, outdoor-focused local travel event near {location}. Emphasize active experiences and nature.`,
-    "test-tenant": `Generate a unique, local experience near {location} that showcases the authentic culture of the area.`,
-  };
+const DEFAULT_PROMPT_TEMPLATE = `Generate one spontaneous local travel event near {location}.`;
 
-  if (tenantId && tenantTemplates[tenantId]) {
-    return tenantTemplates[tenantId];
+async function loadTenant(tenantId: string | null): Promise<TenantRecord | null> {
+  if (!tenantId) return null;
+  try {
+    return await getTenant(tenantId);
+  } catch (error) {
+    console.warn("⚠️ Failed to load tenant configuration:", error);
+    return null;
   }
+}
 
-  return defaultTemplate;
+/**
+ * Get tenant-specific AI prompt template
+ */
+export async function getTenantPromptTemplate(tenantId: string | null): Promise<string> {
+  const tenant = await loadTenant(tenantId);
+  return tenant?.aiPromptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
 }
 
 /**
  * Get tenant-specific branding/configuration
  */
-export function getTenantConfig(tenantId: string | null): {
+export async function getTenantConfig(tenantId: string | null): Promise<{
   mapboxStyle?: string;
   primaryColor?: string;
   aiPromptTemplate?: string;
-} {
-  const configs: Record<
-    string,
-    {
-      mapboxStyle?: string;
-      primaryColor?: string;
-      aiPromptTemplate?: string;
-    }
-  > = {
-    "tenant-1": {
-      primaryColor: "#3b82f6", // Blue
-      aiPromptTemplate: "Generate a family-friendly event...",
-    },
-    "tenant-2": {
-      primaryColor: "#10b981", // Green
-      aiPromptTemplate: "Generate an adventurous outdoor event...",
-    },
-  };
+}> {
+  const tenant = await loadTenant(tenantId);
+  if (!tenant) {
+    return {};
+  }
 
-  return configs[tenantId || ""] || {};
+  const { mapboxStyle, primaryColor, aiPromptTemplate } = tenant;
+  return {
+    ...(mapboxStyle && { mapboxStyle }),
+    ...(primaryColor && { primaryColor }),
+    ...(aiPromptTemplate && { aiPromptTemplate }),
+  };
 }
 
 /**
  * List all tenants (for testing/admin)
  */
-export function listTenants(): Array<{ tenantId: string; name: string; enabled: boolean }> {
-  return Array.from(TENANT_REGISTRY.values());
+export async function listTenants(): Promise<Array<{ tenantId: string; name: string; enabled: boolean }>> {
+  const tenants = await listStoredTenants();
+  return tenants.map(({ tenantId, name, enabled }) => ({ tenantId, name, enabled }));
 }
-
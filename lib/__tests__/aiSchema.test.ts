@@ -0,0 +1,91 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { setLLMProvidersForTests, type LLMProvider, type LLMRequest } from "../llm-provider";
+import { getAiValidationStats, resetAiValidationStoreForTests } from "../ai-validation-store";
+import { currentMonth } from "../ai-usage-store";
+import { setQueryExecutorForTests } from "../db";
+import { aiCardsOutput, aiSuggestionsOutput, parseStructuredOutput } from "../validation/ai-schema";
+import { AiOutputValidationError, clearProviderOrderCache, generateStructured } from "@/app/services/llm";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setLLMProvidersForTests(null);
+  clearProviderOrderCache();
+  resetAiValidationStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+/** An OpenAI stand-in that gives the answers in turn, keeping the requests it got. */
+function scriptedProvider(answers: string[]) {
+  const requests: LLMRequest[] = [];
+  const provider: LLMProvider = {
+    name: "openai",
+    model: "scripted-model",
+    configured: true,
+    complete: async (request) => {
+      requests.push(request);
+      return { provider: "openai", model: "scripted-model", text: answers[requests.length - 1] ?? "{}" };
+    },
+  };
+  return { provider, requests };
+}
+
+const card = { title: "Night market", description: "Street food by the river.", vibeTags: ["foodie"], navigationLink: null };
+const messages = [{ role: "user" as const, content: "Ideas?" }];
+
+test("parseStructuredOutput reads fenced JSON and bare arrays and reports issues by path", () => {
+  const fenced = parseStructuredOutput("```json\n" + JSON.stringify({ cards: [card] }) + "\n```", aiCardsOutput);
+  assert.ok(fenced.success);
+  assert.equal(fenced.data.cards[0].title, "Night market");
+
+  const bare = parseStructuredOutput(`Here you go: [${JSON.stringify({ name: "Jazz", description: "Live set" })}]`, aiSuggestionsOutput);
+  assert.ok(bare.success);
+  assert.equal(bare.data.suggestions[0].name, "Jazz");
+
+  assert.deepEqual(parseStructuredOutput(JSON.stringify({ cards: [{ ...card, title: "" }, { description: 3 }] }), aiCardsOutput), {
+    success: false,
+    issues: ["cards.0.title: title is required", "cards.1.title: title is required", "cards.1.description: description must be a string"],
+  });
+  assert.equal(parseStructuredOutput("no json here", aiCardsOutput).success, false);
+});
+
+test("generateStructured asks for the schema, repairs invalid answers and records failure rates", async () => {
+  const { provider, requests } = scriptedProvider([JSON.stringify({ cards: [{ title: "Night market" }] }), JSON.stringify({ cards: [card] })]);
+  setLLMProvidersForTests([provider]);
+
+  const completion = await generateStructured({ tenantId: null, route: "cards", messages, output: aiCardsOutput });
+  assert.deepEqual(completion.data.cards, [card]);
+  assert.equal(requests.length, 2);
+  assert.equal(requests[0].responseSchema?.name, "suggestion_cards");
+  // The retry replays the invalid answer and feeds the issues back
+  assert.equal(requests[1].messages[1].role, "assistant");
+  assert.match(requests[1].messages[2].content, /cards\.0\.description: description is required/);
+
+  const exhausted = scriptedProvider(["[]", "not json", "{}"]);
+  setLLMProvidersForTests([exhausted.provider]);
+  await assert.rejects(
+    generateStructured({ tenantId: null, route: "cards", messages, output: aiCardsOutput, maxRepairs: 2 }),
+    (error: AiOutputValidationError) => {
+      assert.equal(error.status, 502);
+      assert.deepEqual(error.issues, ["cards: Required"]);
+      return true;
+    }
+  );
+  assert.equal(exhausted.requests.length, 3);
+
+  assert.deepEqual(await getAiValidationStats(currentMonth()), [
+    { provider: "openai", model: "scripted-model", checks: 5, failures: 4, failureRate: 0.8 },
+  ]);
+});
@@ -0,0 +1,146 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import {
+  estimateCostUsd,
+  getMonthlyUsage,
+  monthBounds,
+  recordAiUsage,
+  resetAiUsageStoreForTests,
+  setTenantAiQuota,
+} from "../ai-usage-store";
+import { setQueryExecutorForTests } from "../db";
+import {
+  AiQuotaExceededError,
+  enforceAiQuota,
+  getAiUsageSummary,
+  meterAiCall,
+  resetAiUsageWarningsForTests,
+} from "@/app/services/ai-usage";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+beforeEach(() => {
+  resetAiUsageWarningsForTests();
+});
+
+after(async () => {
+  resetAiUsageStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("estimateCostUsd prices prompt and completion tokens per model", () => {
+  assert.equal(estimateCostUsd("gpt-4o-mini", 1_000_000, 1_000_000), 0.75);
+  assert.equal(estimateCostUsd("gemini-1.5-flash", 2_000, 1_000), 0.00045);
+  assert.equal(estimateCostUsd("unknown-model", 5_000, 5_000), 0);
+});
+
+test("monthBounds covers one UTC calendar month", () => {
+  const { start, end } = monthBounds("2026-12");
+  assert.equal(start.toISOString(), "2026-12-01T00:00:00.000Z");
+  assert.equal(end.toISOString(), "2027-01-01T00:00:00.000Z");
+  assert.throws(() => monthBounds("2026-1"));
+});
+
+test("monthly usage is aggregated per tenant, month and model", async () => {
+  const october = new Date("2026-10-05T12:00:00Z");
+  await recordAiUsage(
+    { tenantId: "usage-a", provider: "openai", model: "gpt-4o-mini", route: "test", promptTokens: 1000, completionTokens: 200 },
+    october
+  );
+  await recordAiUsage(
+    { tenantId: "usage-a", provider: "openai", model: "gpt-4o-mini", route: "test", promptTokens: 500, completionTokens: 100 },
+    october
+  );
+  await recordAiUsage(
+    { tenantId: "usage-a", provider: "gemini", model: "gemini-1.5-flash", route: "test", promptTokens: 300, completionTokens: 50 },
+    october
+  );
+  await recordAiUsage(
+    { tenantId: "usage-a", provider: "openai", model: "gpt-4o-mini", route: "test", promptTokens: 9999, completionTokens: 9999 },
+    new Date("2026-09-30T23:59:59Z")
+  );
+  await recordAiUsage(
+    { tenantId: "usage-b", provider: "openai", model: "gpt-4o-mini", route: "test", promptTokens: 9999, completionTokens: 9999 },
+    october
+  );
+
+  const { totals, byModel } = await getMonthlyUsage("usage-a", "2026-10");
+  assert.equal(totals.calls, 3);
+  assert.equal(totals.promptTokens, 1800);
+  assert.equal(totals.completionTokens, 350);
+  assert.equal(totals.totalTokens, 2150);
+  assert.deepEqual(
+    byModel.map((row) => [row.provider, row.model, row.calls, row.totalTokens]),
+    [
+      ["gemini", "gemini-1.5-flash", 1, 350],
+      ["openai", "gpt-4o-mini", 2, 1800],
+    ]
+  );
+  assert.equal(totals.costUsd, estimateCostUsd("gpt-4o-mini", 1500, 300) + estimateCostUsd("gemini-1.5-flash", 300, 50));
+});
+
+test("quota status moves from ok to warning to a hard stop", async () => {
+  await setTenantAiQuota("usage-quota", { monthlyTokenLimit: 1000, softLimitRatio: 0.5 });
+
+  await meterAiCall({ tenantId: "usage-quota", provider: "openai", model: "gpt-4o-mini", route: "test", promptTokens: 300 });
+  assert.equal((await enforceAiQuota("usage-quota"))?.status, "ok");
+
+  await meterAiCall({
+    tenantId: "usage-quota",
+    provider: "openai",
+    model: "gpt-4o-mini",
+    route: "test",
+    promptTokens: 200,
+    completionTokens: 100,
+  });
+  const warning = await enforceAiQuota("usage-quota");
+  assert.equal(warning?.status, "warning");
+  assert.equal(warning?.utilization, 0.6);
+
+  await meterAiCall({ tenantId: "usage-quota", provider: "openai", model: "gpt-4o-mini", route: "test", completionTokens: 400 });
+  await assert.rejects(enforceAiQuota("usage-quota"), (error: unknown) => {
+    assert.ok(error instanceof AiQuotaExceededError);
+    assert.equal(error.status, 429);
+    assert.equal(error.summary.totals.totalTokens, 1000);
+    return true;
+  });
+});
+
+test("cost limits apply alongside token limits and null means unlimited", async () => {
+  await setTenantAiQuota("usage-cost", { monthlyTokenLimit: null, monthlyCostLimitUsd: 0.01 });
+  await meterAiCall({
+    tenantId: "usage-cost",
+    provider: "openai",
+    model: "gpt-4o-mini",
+    route: "test",
+    promptTokens: 10_000,
+    completionTokens: 15_000,
+  });
+
+  const summary = await getAiUsageSummary("usage-cost");
+  assert.equal(summary.quota.monthlyTokenLimit, null);
+  assert.equal(summary.status, "exceeded");
+
+  await setTenantAiQuota("usage-cost", { monthlyCostLimitUsd: null });
+  const unlimited = await getAiUsageSummary("usage-cost");
+  assert.equal(unlimited.utilization, null);
+  assert.equal(unlimited.status, "ok");
+});
+
+test("tenants without a stored quota use the default", async () => {
+  const summary = await getAiUsageSummary("usage-default", "2026-10");
+  assert.equal(summary.quota.monthlyTokenLimit, 2_000_000);
+  assert.equal(summary.status, "ok");
+  assert.equal(summary.totals.calls, 0);
+});
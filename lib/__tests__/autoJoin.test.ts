@@ -0,0 +1,177 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { evaluateAutoJoin, isInDndWindow } from "../auto-join";
+import { setQueryExecutorForTests } from "../db";
+import { createTagTaxonomy } from "../tag-taxonomy";
+import { listAutoJoinCandidates, resetUserLocationStoreForTests, saveUserLocation } from "../user-location-store";
+import type { Event } from "../types";
+import type { UserPreferences } from "@/types/settings";
+
+let pool: Pool;
+
+// Wednesday 2026-10-21, 18:00 UTC
+const now = new Date("2026-10-21T18:00:00Z");
+const here = { lat: 40.7128, lng: -74.006 };
+
+const preferences: UserPreferences = {
+  userId: "joiner",
+  interests: ["coffee", "Music"],
+  spontaneity: "high",
+  matchStrictness: "flexible",
+  autoJoin: true,
+  locationSharing: "nearby",
+  radiusKm: 5,
+  transportPreference: "walking",
+  whoCanInvite: "anyone",
+  profileVisibility: "pseudonym",
+  safetyMode: "standard",
+  accessibilityNeeds: [],
+  budget: "$",
+  timeAvailability: "now",
+  aiPersona: "friendly",
+  showReasoning: false,
+  analyticsOptIn: false,
+  dndSchedule: [],
+  updatedAt: now.toISOString(),
+};
+
+const event: Event = {
+  id: "hangout-1",
+  title: "Jazz in the park",
+  description: "Live music",
+  tags: ["music"],
+  location: { lat: 40.735, lng: -73.99 },
+  createdBy: "host",
+  createdAt: now,
+  startTime: "2026-10-21T18:30:00.000Z",
+  endTime: "2026-10-21T20:30:00.000Z",
+  priceCents: 1500,
+};
+
+const decide = (prefs: Partial<UserPreferences> = {}, overrides: Partial<Event> = {}) =>
+  evaluateAutoJoin({ preferences: { ...preferences, ...prefs }, event: { ...event, ...overrides }, userLocation: here, now });
+
+before(async () => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  await pool.query(`
+    CREATE TABLE user_preferences (
+      user_id VARCHAR PRIMARY KEY,
+      data JSONB NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+});
+
+after(async () => {
+  resetUserLocationStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("evaluateAutoJoin joins matching hangouts nearby", () => {
+  const decision = decide();
+  assert.equal(decision.action, "join");
+  assert.deepEqual(decision.action === "join" && decision.matchedInterests, ["Music"]);
+});
+
+test("evaluateAutoJoin matches interests through the tag taxonomy", () => {
+  const matched = (decision: ReturnType<typeof decide>) => decision.action === "join" && decision.matchedInterests;
+  assert.deepEqual(matched(decide({}, { tags: ["Live Music"] })), ["Music"]);
+  assert.deepEqual(matched(decide({}, { tags: ["espresso-bar"] })), ["coffee"]);
+  assert.deepEqual(matched(decide({ interests: ["concerts"] }, { tags: ["gig"] })), ["concerts"]);
+
+  const taxonomy = createTagTaxonomy([{ tag: "salsa", category: "dance", synonyms: ["bachata"] }]);
+  const tenantDecision = evaluateAutoJoin({
+    preferences: { ...preferences, interests: ["dance"] },
+    event: { ...event, tags: ["bachata"] },
+    userLocation: here,
+    now,
+    taxonomy,
+  });
+  assert.deepEqual(matched(tenantDecision), ["dance"]);
+  assert.deepEqual(decide({ interests: ["dance"] }, { tags: ["bachata"] }), { action: "skip", reason: "no_matching_interests" });
+});
+
+test("evaluateAutoJoin skips on preferences that do not match", () => {
+  assert.deepEqual(decide({ autoJoin: false }), { action: "skip", reason: "auto_join_disabled" });
+  assert.deepEqual(decide({}, { createdBy: "joiner" }), { action: "skip", reason: "own_event" });
+  assert.deepEqual(decide({ safetyMode: "high" }), { action: "skip", reason: "safety_mode" });
+  assert.deepEqual(decide({ locationSharing: "off" }), { action: "skip", reason: "location_unavailable" });
+  assert.deepEqual(decide({ radiusKm: 1 }), { action: "skip", reason: "out_of_radius" });
+  assert.deepEqual(decide({ budget: "free" }), { action: "skip", reason: "over_budget" });
+  assert.deepEqual(decide({}, { tags: ["hiking"] }), { action: "skip", reason: "no_matching_interests" });
+  assert.deepEqual(decide({}, { endTime: "2026-10-21T17:00:00.000Z", startTime: "2026-10-21T16:00:00.000Z" }), {
+    action: "skip",
+    reason: "event_ended",
+  });
+  assert.deepEqual(decide({}, { startTime: "2026-10-22T18:30:00.000Z", endTime: undefined }), {
+    action: "skip",
+    reason: "outside_availability",
+  });
+});
+
+test("evaluateAutoJoin applies strictness to unknown prices and untagged events", () => {
+  assert.equal(decide({}, { tags: [], priceCents: undefined }).action, "join");
+  assert.deepEqual(decide({ matchStrictness: "strict" }, { priceCents: undefined }), {
+    action: "skip",
+    reason: "over_budget",
+  });
+  assert.equal(decide({ matchStrictness: "strict", budget: "$$$" }, { priceCents: undefined }).action, "join");
+  assert.deepEqual(decide({ matchStrictness: "strict", interests: [] }), {
+    action: "skip",
+    reason: "no_matching_interests",
+  });
+  assert.equal(decide({ budget: { maxCents: 1500 } }).action, "join");
+});
+
+test("availability windows and DND schedules use the stored offsets", () => {
+  // 18:30 UTC is 14:30 in New York (-04:00)
+  assert.equal(decide({ timeAvailability: { from: "14:00-04:00", to: "16:00-04:00" } }).action, "join");
+  assert.deepEqual(decide({ timeAvailability: { from: "09:00-04:00", to: "12:00-04:00" } }), {
+    action: "skip",
+    reason: "outside_availability",
+  });
+  assert.deepEqual(decide({ dndSchedule: [{ day: 3, from: "18:00", to: "19:00" }] }), {
+    action: "skip",
+    reason: "do_not_disturb",
+  });
+
+  // Overnight window from Friday 22:00 into Saturday 07:00
+  const overnight = [{ day: 5, from: "22:00", to: "07:00" }];
+  assert.equal(isInDndWindow(new Date("2026-10-24T06:30:00Z"), overnight), true);
+  assert.equal(isInDndWindow(new Date("2026-10-24T07:30:00Z"), overnight), false);
+  assert.equal(isInDndWindow(new Date("2026-10-23T21:30:00Z"), overnight), false);
+});
+
+test("listAutoJoinCandidates returns opted-in users with a recent location in the tenant", async () => {
+  const store = async (prefs: UserPreferences) =>
+    pool.query(`INSERT INTO user_preferences (user_id, data) VALUES ($1, $2::jsonb)`, [
+      prefs.userId,
+      JSON.stringify(prefs),
+    ]);
+  await store(preferences);
+  await store({ ...preferences, userId: "opted-out", autoJoin: false });
+  await store({ ...preferences, userId: "stale" });
+  await store({ ...preferences, userId: "elsewhere" });
+
+  await saveUserLocation("joiner", "tenant-a", here, now);
+  await saveUserLocation("opted-out", "tenant-a", here, now);
+  await saveUserLocation("stale", "tenant-a", here, new Date("2026-10-01T00:00:00Z"));
+  await saveUserLocation("elsewhere", "tenant-b", here, now);
+
+  const candidates = await listAutoJoinCandidates("tenant-a", {
+    since: new Date("2026-10-20T18:00:00Z"),
+    limit: 10,
+  });
+  assert.deepEqual(
+    candidates.map((candidate) => candidate.preferences.userId),
+    ["joiner"],
+  );
+  assert.deepEqual(candidates[0].location, here);
+});
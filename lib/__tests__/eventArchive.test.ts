@@ -0,0 +1,62 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { setQueryExecutorForTests } from "../db";
+import { InMemoryEventRepository } from "../event-repository";
+import { resetEventSearchStoreForTests } from "../event-search-store";
+import { archiveEndedEvents } from "@/app/services/event-archive";
+import { setEventRepositoryForTests } from "@/app/services/events";
+
+let pool: Pool;
+const now = new Date("2026-10-19T12:00:00Z");
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 3_600_000).toISOString();
+// The in-memory store stamps createdAt with the clock, so each event waits for a later millisecond
+const nextMillisecond = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  resetEventSearchStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("the archive job scans past running events to reach those without an endTime", async () => {
+  const repository = new InMemoryEventRepository();
+  setEventRepositoryForTests(repository);
+  const base = { description: "", tags: [], location: { lat: 52.52, lng: 13.405 }, tenantId: "tenant-a" };
+  // Created first, so a newest-first scan reaches it last
+  const legacy = await repository.create("live", { ...base, title: "Legacy meetup", startTime: hoursAgo(30) });
+  for (const title of ["Festival day 1", "Festival day 2", "Festival day 3"]) {
+    await nextMillisecond();
+    await repository.create("live", { ...base, title, startTime: hoursAgo(5), endTime: hoursAgo(-48) });
+  }
+  await nextMillisecond();
+  const ended = await repository.create("live", { ...base, title: "Quiz", startTime: hoursAgo(4), endTime: hoursAgo(1) });
+
+  const first = await archiveEndedEvents({ now, batchSize: 2 });
+  assert.deepEqual(first.archivedIds, [ended]);
+  assert.equal(first.hasMore, true);
+  assert.ok(first.next);
+
+  const archivedIds = [...first.archivedIds];
+  let result = first;
+  let runs = 1;
+  while (result.hasMore && runs < 5) {
+    result = await archiveEndedEvents({ now, batchSize: 2, after: result.next ?? undefined });
+    archivedIds.push(...result.archivedIds);
+    runs += 1;
+  }
+  assert.ok(runs <= 3);
+  assert.deepEqual(archivedIds, [ended, legacy]);
+  assert.equal((await repository.find("live")).length, 3);
+  assert.equal((await repository.get("archive", legacy))?.data.archivedAt, now.toISOString());
+});
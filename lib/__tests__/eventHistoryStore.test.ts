@@ -0,0 +1,94 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { setQueryExecutorForTests } from "../db";
+import {
+  diffFields,
+  getRevision,
+  listRevisions,
+  recordRevision,
+  resetEventHistoryStoreForTests,
+  revertedFields,
+} from "../event-history-store";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  resetEventHistoryStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("diffFields keeps only changed fields as plain JSON", () => {
+  const current = {
+    title: "Jazz",
+    tags: ["music"],
+    location: { lat: 1, lng: 2 },
+    startTime: { toDate: () => new Date("2026-10-21T18:00:00Z") },
+  };
+  const changes = diffFields(current, {
+    title: "Jazz",
+    tags: ["music", "outdoors"],
+    location: { lat: 1, lng: 2 },
+    startTime: "2026-10-21T19:00:00.000Z",
+    capacity: 10,
+  });
+
+  assert.deepEqual(changes, [
+    { field: "tags", before: ["music"], after: ["music", "outdoors"] },
+    { field: "startTime", before: "2026-10-21T18:00:00.000Z", after: "2026-10-21T19:00:00.000Z" },
+    { field: "capacity", before: null, after: 10 },
+  ]);
+});
+
+test("reverting an edit that added a start time removes it again", () => {
+  const changes = diffFields(
+    { title: "Picnic" },
+    { title: "Park picnic", startTime: "2026-10-21T18:00:00.000Z", endTime: "2026-10-21T20:00:00.000Z" }
+  );
+
+  assert.deepEqual(revertedFields(changes), { previous: { title: "Picnic" }, unset: ["startTime", "endTime"] });
+});
+
+test("revisions are listed newest first per event or tenant", async () => {
+  const first = await recordRevision({
+    eventId: "e1",
+    tenantId: "t1",
+    actorId: "host",
+    action: "update",
+    changes: [{ field: "title", before: "Old", after: "New" }],
+  });
+  await recordRevision({ eventId: "e2", tenantId: "t1", actorId: "host", action: "delete", changes: [] });
+  const revert = await recordRevision({
+    eventId: "e1",
+    tenantId: "t1",
+    actorId: "mod",
+    action: "revert",
+    changes: [{ field: "title", before: "New", after: "Old" }],
+    revertOf: first.id,
+  });
+  await recordRevision({ eventId: "e3", tenantId: "t2", actorId: "other", action: "update", changes: [] });
+
+  const forEvent = await listRevisions({ tenantId: "t1", eventId: "e1" });
+  assert.deepEqual(forEvent.map((revision) => revision.action), ["revert", "update"]);
+  assert.equal(forEvent[0].revertOf, first.id);
+
+  const forTenant = await listRevisions({ tenantId: "t1" });
+  assert.deepEqual(forTenant.map((revision) => revision.eventId), ["e1", "e2", "e1"]);
+
+  const olderPage = await listRevisions({ tenantId: "t1", before: revert.id, limit: 1 });
+  assert.deepEqual(olderPage.map((revision) => revision.eventId), ["e2"]);
+
+  const stored = await getRevision(first.id);
+  assert.deepEqual(stored?.changes, [{ field: "title", before: "Old", after: "New" }]);
+  assert.equal(await getRevision(9999), null);
+});
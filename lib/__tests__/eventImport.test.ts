@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { detectImportFormat, ImportError, MAX_IMPORT_ROWS, parseImportFile } from "../event-import";
+import { buildCalendar } from "../ical";
+import type { Event } from "../types";
+
+test("CSV rows map header aliases, quoted cells and coordinates", () => {
+  const csv = [
+    "Name,Description,Tags,Latitude,Longitude,Start Time,duration,price_cents,Ignored",
+    '"Picnic, with games","Bring ""snacks""\nand a blanket",outdoors;food,40.78,-73.96,2026-10-24T15:00:00Z,90,500,x',
+    ",,,,,,,,",
+    "Quiz night,Teams of four,,,,2026-10-25T19:00:00Z,,free,",
+  ].join("\r\n");
+
+  assert.deepEqual(parseImportFile(`\uFEFF${csv}`, "csv"), [
+    {
+      row: 2,
+      fields: {
+        title: "Picnic, with games",
+        description: 'Bring "snacks"\nand a blanket',
+        tags: ["outdoors", "food"],
+        location: "40.78,-73.96",
+        startTime: "2026-10-24T15:00:00Z",
+        durationMinutes: "90",
+        priceCents: 500,
+      },
+    },
+    {
+      row: 4,
+      fields: { title: "Quiz night", description: "Teams of four", startTime: "2026-10-25T19:00:00Z", priceCents: "free" },
+    },
+  ]);
+  assert.throws(() => parseImportFile("when,where\n1,2", "csv"), /title column/);
+});
+
+test("JSON imports keep known fields and flag rows that are not objects", () => {
+  const rows = parseImportFile(
+    JSON.stringify({ events: [{ title: "Jam", address: "Alexanderplatz, Berlin", tenantId: "other" }, "oops"] }),
+    "json"
+  );
+  assert.deepEqual(rows, [
+    { row: 1, fields: { title: "Jam", address: "Alexanderplatz, Berlin" } },
+    { row: 2, fields: {}, error: "Each event must be a JSON object" },
+  ]);
+
+  assert.throws(() => parseImportFile("{", "json"), ImportError);
+  assert.throws(
+    () => parseImportFile(JSON.stringify(Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => ({}))), "json"),
+    (error: unknown) => error instanceof ImportError && error.status === 413
+  );
+});
+
+test("iCal files read local times, addresses and folded lines", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:1@venue",
+    "SUMMARY:Open mic\\, acoustic",
+    "DESCRIPTION:Sign up at t",
+    " he\\nbar",
+    "LOCATION:Kastanienallee 7\\, Berlin",
+    "CATEGORIES:music,open-mic",
+    "DTSTART;TZID=Europe/Berlin:20261020T190000",
+    "DURATION:PT1H30M",
+    "BEGIN:VALARM",
+    "DESCRIPTION:Reminder",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:2@venue",
+    "SUMMARY:Brunch",
+    "GEO:52.53;13.41",
+    "DTSTART;TZID=Mars/Olympus:20261020T190000",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  const [openMic, brunch] = parseImportFile(ics, "ics");
+  assert.deepEqual(openMic, {
+    row: 1,
+    fields: {
+      title: "Open mic, acoustic",
+      description: "Sign up at the\nbar",
+      address: "Kastanienallee 7, Berlin",
+      tags: ["music", "open-mic"],
+      startTime: "2026-10-20T17:00:00.000Z",
+      durationMinutes: 90,
+    },
+  });
+  assert.deepEqual(brunch, { row: 2, fields: {}, error: "Unknown timezone: Mars/Olympus" });
+  assert.throws(() => parseImportFile("title,description", "ics"), /not an iCalendar file/);
+});
+
+test("recurring events exported by buildCalendar import with their exceptions and overrides", () => {
+  const series: Event = {
+    id: "jam",
+    title: "Jam session",
+    description: "Bring an instrument",
+    tags: ["music"],
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    createdBy: "host",
+    location: { lat: 52.5, lng: 13.4 },
+    startTime: "2026-10-20T17:00:00.000Z",
+    endTime: "2026-10-20T19:00:00.000Z",
+    recurrence: {
+      rrule: "FREQ=WEEKLY;COUNT=4",
+      dtstart: "2026-10-20T17:00:00.000Z",
+      exdates: ["2026-11-03T18:00:00.000Z"],
+      overrides: { "2026-11-10T18:00:00.000Z": { title: "Finale" } },
+      timezone: "Europe/Berlin",
+    },
+  };
+
+  const rows = parseImportFile(buildCalendar([series]), "ics");
+  assert.equal(rows.length, 1);
+  assert.deepEqual(rows[0].fields.recurrence, {
+    rrule: "FREQ=WEEKLY;COUNT=4",
+    timezone: "Europe/Berlin",
+    exdates: ["2026-11-03T18:00:00.000Z"],
+    overrides: {
+      "2026-11-10T18:00:00.000Z": {
+        title: "Finale",
+        description: "Bring an instrument",
+        tags: ["music"],
+        startTime: "2026-11-10T18:00:00.000Z",
+        endTime: "2026-11-10T20:00:00.000Z",
+      },
+    },
+  });
+  assert.equal(rows[0].fields.location, "52.5,13.4");
+});
+
+test("detectImportFormat reads the content type, then the file extension", () => {
+  assert.equal(detectImportFormat("text/csv; charset=utf-8"), "csv");
+  assert.equal(detectImportFormat("text/calendar"), "ics");
+  assert.equal(detectImportFormat("application/octet-stream", "Schedule.JSON"), "json");
+  assert.equal(detectImportFormat(null, "schedule.xlsx"), null);
+});
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { assertCanModifyEvent, EventAccessError, pickEventUpdates } from "../event-permissions";
+import { isTenantModerator, type AuthenticatedUser } from "../server-auth";
+
+const event = { createdBy: "host", creator: { uid: "host-uid" } };
+
+test("only the creator or a moderator may modify an event", () => {
+  assert.doesNotThrow(() => assertCanModifyEvent(event, { userId: "host", isModerator: false }));
+  assert.doesNotThrow(() => assertCanModifyEvent(event, { userId: "host-uid", isModerator: false }));
+  assert.doesNotThrow(() => assertCanModifyEvent(event, { userId: "mod", isModerator: true }));
+  assert.throws(
+    () => assertCanModifyEvent(event, { userId: "stranger", isModerator: false }),
+    (error: unknown) => error instanceof EventAccessError && error.status === 403
+  );
+});
+
+test("moderator scopes are global or per tenant", () => {
+  const user = (scopes: string[]): AuthenticatedUser => ({ id: "u", scopes });
+  assert.equal(isTenantModerator(user(["events:moderate"]), "acme"), true);
+  assert.equal(isTenantModerator(user(["events:moderate:acme"]), "acme"), true);
+  assert.equal(isTenantModerator(user(["events:moderate:other"]), "acme"), false);
+  assert.equal(isTenantModerator(user(["read"]), "acme"), false);
+});
+
+test("pickEventUpdates rejects fields outside the whitelist", () => {
+  assert.deepEqual(pickEventUpdates({ title: "New", capacity: 5 }), { title: "New", capacity: 5 });
+  assert.throws(
+    () => pickEventUpdates({ title: "New", tenantId: "other", createdBy: "me" }),
+    (error: unknown) =>
+      error instanceof EventAccessError && error.status === 400 && /tenantId, createdBy/.test(error.message)
+  );
+});
@@ -0,0 +1,88 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { setQueryExecutorForTests } from "../db";
+import {
+  countOpenReports,
+  listReportedEvents,
+  recordReport,
+  resetEventReportStoreForTests,
+  resolveReports,
+} from "../event-report-store";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  resetEventReportStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("reports are grouped per event, most reported first, and one per user", async () => {
+  const base = { tenantId: "tenant-a" };
+  await recordReport({ ...base, eventId: "quiet", reporterId: "u1", reason: "other", now: new Date("2026-10-19T10:00:00Z") });
+  await recordReport({ ...base, eventId: "loud", reporterId: "u1", reason: "spam", now: new Date("2026-10-19T11:00:00Z") });
+  await recordReport({
+    ...base,
+    eventId: "loud",
+    reporterId: "u2",
+    reason: "spam",
+    details: "  selling stuff ",
+    now: new Date("2026-10-19T12:00:00Z"),
+  });
+  // Reporting again replaces the earlier report
+  await recordReport({ ...base, eventId: "loud", reporterId: "u1", reason: "unsafe", now: new Date("2026-10-19T13:00:00Z") });
+  await recordReport({ tenantId: "tenant-b", eventId: "elsewhere", reporterId: "u1", reason: "spam" });
+
+  assert.equal(await countOpenReports("loud"), 2);
+  const reported = await listReportedEvents("tenant-a");
+  assert.deepEqual(
+    reported.map(({ eventId, openReports, reasons, lastReportedAt }) => ({ eventId, openReports, reasons, lastReportedAt })),
+    [
+      { eventId: "loud", openReports: 2, reasons: { unsafe: 1, spam: 1 }, lastReportedAt: "2026-10-19T13:00:00.000Z" },
+      { eventId: "quiet", openReports: 1, reasons: { other: 1 }, lastReportedAt: "2026-10-19T10:00:00.000Z" },
+    ]
+  );
+  assert.deepEqual(
+    reported[0].reports.map((report) => [report.reporterId, report.reason, report.status]),
+    [
+      ["u1", "unsafe", "open"],
+      ["u2", "spam", "open"],
+    ]
+  );
+  assert.equal(reported[0].reports[1].details, "  selling stuff ");
+  assert.deepEqual(
+    (await listReportedEvents("tenant-a", 1)).map((entry) => entry.eventId),
+    ["loud"]
+  );
+});
+
+test("resolving closes only the tenant's open reports and a new report reopens them", async () => {
+  assert.equal(
+    await resolveReports({ eventId: "loud", tenantId: "tenant-b", status: "upheld", resolvedBy: "mod" }),
+    0
+  );
+  assert.equal(
+    await resolveReports({ eventId: "loud", tenantId: "tenant-a", status: "dismissed", resolvedBy: "mod" }),
+    2
+  );
+  assert.equal(await countOpenReports("loud"), 0);
+  assert.deepEqual(
+    (await listReportedEvents("tenant-a")).map((entry) => entry.eventId),
+    ["quiet"]
+  );
+
+  const reopened = await recordReport({ eventId: "loud", tenantId: "tenant-a", reporterId: "u2", reason: "misleading" });
+  assert.equal(reopened.status, "open");
+  assert.equal(reopened.resolvedBy, null);
+  assert.equal(await countOpenReports("loud"), 1);
+});
@@ -0,0 +1,211 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import {
+  InMemoryEventRepository,
+  PostgresEventRepository,
+  resetEventRepositoryForTests,
+  type EventRepository,
+} from "../event-repository";
+import { setQueryExecutorForTests } from "../db";
+import { resetEventHistoryStoreForTests } from "../event-history-store";
+import { encodeGeohash } from "../geohash";
+import {
+  deleteEvent,
+  fetchUserEvents,
+  fetchUserEventsPaginated,
+  getDeletedEvent,
+  getEvent,
+  restoreDeletedEvent,
+  setEventRepositoryForTests,
+  submitEvent,
+  updateEvent,
+} from "@/app/services/events";
+import { revertRevision } from "@/app/services/event-history";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  resetEventRepositoryForTests();
+  resetEventHistoryStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+const BERLIN = { lat: 52.52, lng: 13.405 };
+const PARIS = { lat: 48.8566, lng: 2.3522 };
+
+async function assertEventRepository(repository: EventRepository) {
+  const jam = await repository.create("live", {
+    title: "Jam",
+    tenantId: "t1",
+    createdBy: "u1",
+    tags: ["music", "outdoors"],
+    geohash: encodeGeohash(BERLIN),
+    startTime: "2026-10-20T18:00:00.000Z",
+    endTime: "2026-10-20T20:00:00.000Z",
+  });
+  const quiz = await repository.create("live", {
+    title: "Quiz",
+    tenantId: "t1",
+    createdBy: "u2",
+    tags: ["games"],
+    geohash: encodeGeohash(PARIS),
+    recurrence: { rrule: "FREQ=WEEKLY", dtstart: "2026-10-21T19:00:00.000Z" },
+    recurring: true,
+  });
+  await repository.create("live", { title: "Elsewhere", tenantId: "t2", tags: ["music"] });
+
+  const stored = await repository.get("live", jam);
+  assert.equal(stored?.data.title, "Jam");
+  assert.ok(stored?.data.createdAt instanceof Date);
+  assert.equal(await repository.get("pending", jam), null);
+  assert.deepEqual(
+    (await repository.getMany("live", [quiz, "missing", jam, quiz])).map(({ id, data }) => `${id}:${data.title}`).sort(),
+    [`${jam}:Jam`, `${quiz}:Quiz`].sort()
+  );
+  assert.deepEqual(await repository.getMany("live", []), []);
+
+  const ids = async (query: Parameters<EventRepository["find"]>[1]) =>
+    (await repository.find("live", query)).map(({ id }) => id).sort();
+  assert.deepEqual(await ids({ tenantId: "t1", tags: ["music", "games"] }), [jam, quiz].sort());
+  assert.deepEqual(await ids({ tenantId: "t1", createdBy: "u2" }), [quiz]);
+  assert.deepEqual(await ids({ startsAfter: new Date("2026-10-20T00:00:00Z") }), [jam]);
+  assert.deepEqual(await ids({ ongoingAt: new Date("2026-10-20T19:00:00Z") }), [jam]);
+  assert.deepEqual(await ids({ ongoingAt: new Date("2026-10-20T21:00:00Z") }), []);
+  assert.deepEqual(await ids({ endsBefore: new Date("2026-10-21T00:00:00Z") }), [jam]);
+  assert.deepEqual(await ids({ tenantId: "t1", recurring: true }), [quiz]);
+  const prefix = encodeGeohash(BERLIN, 4);
+  assert.deepEqual(await ids({ geohashRange: [prefix, `${prefix}~`] }), [jam]);
+
+  // Paging newest first visits every event once
+  const seen: string[] = [];
+  let page = await repository.find("live", { newestFirst: true, limit: 2 });
+  while (page.length > 0) {
+    seen.push(...page.map(({ id }) => id));
+    const last = page[page.length - 1];
+    page = await repository.find("live", {
+      newestFirst: true,
+      limit: 2,
+      after: { createdAt: (last.data.createdAt as Date).getTime(), id: last.id },
+    });
+  }
+  assert.equal(seen.length, 3);
+  assert.equal(new Set(seen).size, 3);
+
+  assert.equal(await repository.update("live", jam, { title: "Jam session", recurrence: null }), true);
+  assert.equal(await repository.update("trash", jam, { title: "Nope" }), false);
+  assert.equal((await repository.get("live", jam))?.data.title, "Jam session");
+  assert.equal(await repository.update("live", quiz, { title: "Pub quiz" }, ["recurrence", "recurring"]), true);
+  const ended = await repository.get("live", quiz);
+  assert.equal(ended?.data.title, "Pub quiz");
+  assert.equal(ended?.data.recurrence, undefined);
+  assert.deepEqual(await ids({ tenantId: "t1", recurring: true }), []);
+
+  const deletedAt = "2026-10-19T10:00:00.000Z";
+  assert.equal(await repository.move(jam, "live", "trash", { set: { deletedAt, deletedBy: "u1" } }), true);
+  assert.equal(await repository.move(jam, "live", "trash"), false);
+  assert.equal(await repository.get("live", jam), null);
+  assert.deepEqual(
+    (await repository.find("trash", { deletedBefore: new Date("2026-10-19T12:00:00Z") })).map(({ id }) => id),
+    [jam]
+  );
+  assert.deepEqual(await repository.find("trash", { deletedBefore: new Date("2026-10-19T09:00:00Z") }), []);
+
+  assert.equal(await repository.move(jam, "trash", "live", { remove: ["deletedAt", "deletedBy"] }), true);
+  const restored = await repository.get("live", jam);
+  assert.equal(restored?.data.deletedAt, undefined);
+  assert.equal(restored?.data.title, "Jam session");
+  assert.deepEqual(restored?.data.tags, ["music", "outdoors"]);
+
+  await repository.delete("live", quiz);
+  assert.equal(await repository.get("live", quiz), null);
+}
+
+test("in-memory repository stores, queries and moves hangouts", async () => {
+  await assertEventRepository(new InMemoryEventRepository());
+});
+
+test("postgres repository stores, queries and moves hangouts", async () => {
+  await assertEventRepository(new PostgresEventRepository(pool));
+});
+
+test("event services run against any repository", async () => {
+  setEventRepositoryForTests(new PostgresEventRepository(pool));
+  const host = { userId: "host", isModerator: false };
+
+  const created = await submitEvent(
+    {
+      title: "  Picnic ",
+      description: "Bring snacks",
+      tags: ["#Outdoors", "food"],
+      location: BERLIN,
+      createdBy: "host",
+      creatorName: "Ada",
+      startTime: "2026-10-24T12:00:00Z",
+    },
+    "tenant-a"
+  );
+  await submitEvent(
+    { title: "Hidden", description: "Other tenant", tags: [], location: BERLIN, startTime: "2026-10-24T12:00:00Z" },
+    "tenant-b"
+  );
+
+  const event = await getEvent(created.id, "tenant-a");
+  assert.equal(event?.title, "Picnic");
+  assert.deepEqual(event?.tags, ["outdoors", "food"]);
+  assert.equal(event?.creator?.name, "Ada");
+  assert.equal(event?.endTime, "2026-10-24T14:00:00.000Z");
+  assert.equal(await getEvent(created.id, "tenant-b"), null);
+
+  const nearby = await fetchUserEvents({ tenantId: "tenant-a", near: { lat: 52.5, lng: 13.4 }, radiusKm: 5 });
+  assert.deepEqual(nearby.map(({ id }) => id), [created.id]);
+  const page = await fetchUserEventsPaginated({ tenantId: "tenant-a", tags: ["food"], limit: 1 });
+  assert.deepEqual(page.events.map(({ id }) => id), [created.id]);
+  assert.equal(page.hasMore, false);
+
+  const revision = await updateEvent(created.id, { title: "Park picnic" }, "tenant-a", host);
+  assert.deepEqual(revision?.changes, [{ field: "title", before: "Picnic", after: "Park picnic" }]);
+  await assert.rejects(
+    updateEvent(created.id, { title: "Mine now" }, "tenant-a", { userId: "guest", isModerator: false }),
+    /Only the creator/
+  );
+
+  const now = new Date("2026-10-19T12:00:00Z");
+  await deleteEvent(created.id, "tenant-a", host, now);
+  assert.equal(await getEvent(created.id, "tenant-a"), null);
+  assert.equal((await getDeletedEvent(created.id, "tenant-a"))?.deletedAt, now.toISOString());
+
+  await restoreDeletedEvent(created.id, "tenant-a", "host", now);
+  assert.equal((await getEvent(created.id, "tenant-a"))?.title, "Park picnic");
+  assert.equal(await getDeletedEvent(created.id, "tenant-a"), null);
+  // A restore that lost the race reports the event as gone
+  await assert.rejects(restoreDeletedEvent(created.id, "tenant-a", "host", now), { name: "EventAccessError", status: 404 });
+});
+
+test("reverting an edit that added a start time removes it from the stored event", async () => {
+  setEventRepositoryForTests(new InMemoryEventRepository());
+  const host = { userId: "host", isModerator: false };
+  const created = await submitEvent(
+    { title: "Open call", description: "Any time", tags: [], location: BERLIN, createdBy: "host" },
+    "tenant-a"
+  );
+
+  const revision = await updateEvent(created.id, { startTime: "2026-10-24T12:00:00Z" }, "tenant-a", host);
+  assert.equal((await getEvent(created.id, "tenant-a"))?.endTime, "2026-10-24T14:00:00.000Z");
+
+  await revertRevision({ revisionId: revision!.id, tenantId: "tenant-a", actorId: "host" });
+  const reverted = await getEvent(created.id, "tenant-a");
+  assert.equal(reverted?.startTime, undefined);
+  assert.equal(reverted?.endTime, undefined);
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  EventScheduleError,
+  getEffectiveEndTime,
+  hasEnded,
+  matchesTimeWindow,
+  parseTimeBoundary,
+  resolveEventSchedule,
+} from "../event-schedule";
+
+test("parseTimeBoundary accepts ISO dates and epoch milliseconds", () => {
+  assert.equal(parseTimeBoundary("2024-06-01T18:00:00Z")?.toISOString(), "2024-06-01T18:00:00.000Z");
+  assert.equal(parseTimeBoundary("1717264800000")?.toISOString(), "2024-06-01T18:00:00.000Z");
+  assert.equal(parseTimeBoundary(1717264800000)?.toISOString(), "2024-06-01T18:00:00.000Z");
+  assert.equal(parseTimeBoundary("tomorrow-ish"), null);
+  assert.equal(parseTimeBoundary(""), null);
+});
+
+test("resolveEventSchedule derives the end from endTime, duration or the default", () => {
+  assert.deepEqual(resolveEventSchedule({ startTime: "2024-06-01T18:00:00Z" }), {
+    startTime: "2024-06-01T18:00:00.000Z",
+    endTime: "2024-06-01T20:00:00.000Z",
+  });
+  assert.equal(
+    resolveEventSchedule({ startTime: "2024-06-01T18:00:00Z", durationMinutes: 45 }).endTime,
+    "2024-06-01T18:45:00.000Z",
+  );
+  assert.equal(
+    resolveEventSchedule({ startTime: "2024-06-01T18:00:00Z", endTime: "2024-06-02T01:00:00+02:00" }).endTime,
+    "2024-06-01T23:00:00.000Z",
+  );
+  assert.deepEqual(resolveEventSchedule({}), {});
+});
+
+test("resolveEventSchedule rejects inconsistent schedules", () => {
+  const start = "2024-06-01T18:00:00Z";
+  assert.throws(() => resolveEventSchedule({ startTime: "not a date" }), EventScheduleError);
+  assert.throws(() => resolveEventSchedule({ endTime: start }), EventScheduleError);
+  assert.throws(() => resolveEventSchedule({ startTime: start, endTime: start }), EventScheduleError);
+  assert.throws(() => resolveEventSchedule({ startTime: start, durationMinutes: -5 }), EventScheduleError);
+  assert.throws(
+    () => resolveEventSchedule({ startTime: start, durationMinutes: 15 * 24 * 60 }),
+    /at most 14 days/,
+  );
+});
+
+test("hasEnded falls back to the default duration for events without an end", () => {
+  const now = new Date("2024-06-01T21:00:00Z");
+  assert.equal(getEffectiveEndTime({ startTime: "2024-06-01T18:00:00Z" })?.toISOString(), "2024-06-01T20:00:00.000Z");
+  assert.equal(hasEnded({ startTime: "2024-06-01T18:00:00Z" }, now), true);
+  assert.equal(hasEnded({ startTime: "2024-06-01T18:00:00Z", endTime: "2024-06-01T22:00:00Z" }, now), false);
+  assert.equal(hasEnded({}, now), false);
+});
+
+test("matchesTimeWindow applies start bounds and happeningNow", () => {
+  const now = new Date("2024-06-01T19:00:00Z");
+  const event = { startTime: "2024-06-01T18:00:00Z", endTime: "2024-06-01T20:00:00Z" };
+
+  assert.equal(matchesTimeWindow(event, {}, now), true);
+  assert.equal(matchesTimeWindow({}, {}, now), true);
+  assert.equal(matchesTimeWindow({}, { happeningNow: true }, now), false);
+  assert.equal(matchesTimeWindow(event, { happeningNow: true }, now), true);
+  assert.equal(matchesTimeWindow(event, { happeningNow: true }, new Date("2024-06-01T20:30:00Z")), false);
+  assert.equal(matchesTimeWindow(event, { startsAfter: new Date("2024-06-01T18:00:00Z") }, now), true);
+  assert.equal(matchesTimeWindow(event, { startsAfter: new Date("2024-06-01T18:30:00Z") }, now), false);
+  assert.equal(matchesTimeWindow(event, { startsBefore: new Date("2024-06-01T17:00:00Z") }, now), false);
+});
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  createEventSchema,
+  EventValidationError,
+  parseEventPayload,
+  updateEventSchema,
+} from "../validation/event-schema";
+
+const base = {
+  title: "  Sunset picnic ",
+  description: "Bring a blanket",
+  location: { lat: 40.78, lng: -73.96 },
+};
+
+test("createEventSchema trims text, normalizes tags and resolves the schedule", () => {
+  const event = parseEventPayload(createEventSchema, {
+    ...base,
+    location: "40.78, -73.96",
+    tags: ["#Outdoors", "outdoors", "  live   Music ", ""],
+    startTime: "2026-10-24T15:00:00Z",
+    durationMinutes: "90",
+    capacity: "12",
+    priceCents: 0,
+  });
+
+  assert.deepEqual(event, {
+    title: "Sunset picnic",
+    description: "Bring a blanket",
+    tags: ["outdoors", "live music"],
+    location: { lat: 40.78, lng: -73.96 },
+    startTime: "2026-10-24T15:00:00.000Z",
+    endTime: "2026-10-24T16:30:00.000Z",
+    capacity: 12,
+    priceCents: 0,
+    recurrence: undefined,
+  });
+  assert.deepEqual(parseEventPayload(createEventSchema, { ...base, startTime: null, capacity: "" }).tags, []);
+});
+
+test("every invalid field is reported under its path", () => {
+  assert.throws(
+    () =>
+      parseEventPayload(createEventSchema, {
+        title: " ",
+        description: "x".repeat(1001),
+        location: { lat: 91, lng: "2" },
+        tags: "music",
+        startTime: "next friday",
+        priceCents: 4.5,
+      }),
+    (error: unknown) => {
+      assert.ok(error instanceof EventValidationError);
+      assert.equal(error.status, 400);
+      assert.deepEqual(error.fields, {
+        title: ["title is required"],
+        description: ["description must be at most 1000 characters"],
+        tags: ["tags must be an array of strings"],
+        "location.lat": ["lat must be between -90 and 90"],
+        "location.lng": ["lng must be a number"],
+        startTime: ["startTime must be an ISO date or epoch milliseconds"],
+        priceCents: ["priceCents must be a whole number of cents, 0 or more"],
+      });
+      return true;
+    }
+  );
+});
+
+test("schedule and recurrence rules fail on the field they concern", () => {
+  const fieldsOf = (payload: Record<string, unknown>) => {
+    const result = createEventSchema.safeParse({ ...base, ...payload });
+    assert.equal(result.success, false);
+    return result.success ? {} : result.error.flatten().fieldErrors;
+  };
+
+  assert.deepEqual(fieldsOf({ startTime: "2026-10-24T15:00:00Z", endTime: "2026-10-24T14:00:00Z" }), {
+    endTime: ["endTime must be after startTime"],
+  });
+  assert.deepEqual(fieldsOf({ durationMinutes: 60 }), {
+    startTime: ["endTime and durationMinutes require a startTime"],
+  });
+  assert.ok(fieldsOf({ startTime: "2026-10-24T15:00:00Z", recurrence: { rrule: "FREQ=HOURLY" } }).recurrence);
+  assert.deepEqual(fieldsOf({ tags: Array.from({ length: 11 }, (_, index) => `tag${index}`) }), {
+    tags: ["at most 10 tags are allowed"],
+  });
+});
+
+test("updateEventSchema checks only the given fields and rejects the rest", () => {
+  assert.deepEqual(parseEventPayload(updateEventSchema, { tags: ["Jazz"], capacity: null, priceCents: null }), {
+    tags: ["jazz"],
+    capacity: null,
+    priceCents: null,
+  });
+  assert.throws(
+    () => parseEventPayload(updateEventSchema, { createdBy: "someone-else", capacity: 0 }),
+    (error: unknown) =>
+      error instanceof EventValidationError &&
+      error.fields.createdBy?.[0] === "createdBy cannot be edited" &&
+      error.fields.capacity?.[0] === "capacity must be a whole number between 1 and 10000"
+  );
+});
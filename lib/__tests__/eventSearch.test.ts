@@ -0,0 +1,130 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { editDistance, rankSearchDocuments, scoreSearchDocument, tokenize, type SearchDocument } from "../event-search";
+import { indexSearchDocument, removeSearchDocument, resetEventSearchStoreForTests, searchEventIndex } from "../event-search-store";
+import { setQueryExecutorForTests } from "../db";
+import { InMemoryEventRepository } from "../event-repository";
+import { resetEventHistoryStoreForTests } from "../event-history-store";
+import { reindexEventSearch } from "@/app/services/event-backfill";
+import { deleteEvent, fetchUserEvents, restoreDeletedEvent, setEventRepositoryForTests, submitEvent, updateEvent } from "@/app/services/events";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  resetEventSearchStoreForTests();
+  resetEventHistoryStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+const doc = (eventId: string, fields: Partial<SearchDocument>): SearchDocument => ({
+  eventId,
+  tenantId: "t1",
+  title: "",
+  description: "",
+  tags: [],
+  creatorName: null,
+  ...fields,
+});
+
+test("tokenize folds case and accents and drops stop words", () => {
+  assert.deepEqual(tokenize("The Café at 5 — Jazz & Wine!"), ["cafe", "5", "jazz", "wine"]);
+  assert.equal(editDistance("yoga", "yoga"), 0);
+  assert.equal(editDistance("picnic", "picnci"), 1);
+  assert.equal(editDistance("kitten", "sitting", 1), 2);
+});
+
+test("search ranks title matches first and forgives typos", () => {
+  const documents = [
+    doc("a", { title: "Board games night", description: "Bring snacks" }),
+    doc("b", { title: "Picnic", description: "Board games in the park" }),
+    doc("c", { title: "Hike", tags: ["games"] }),
+    doc("d", { title: "Quiz", creatorName: "Gamesmaster" }),
+  ];
+
+  assert.deepEqual(rankSearchDocuments("board games", documents).map(({ eventId }) => eventId), ["a", "b"]);
+  assert.deepEqual(rankSearchDocuments("games", documents).map(({ eventId }) => eventId), ["a", "c", "d", "b"]);
+  // One typo is tolerated from five letters on, none below
+  assert.ok(scoreSearchDocument("picnik", documents[1]) > 0);
+  assert.equal(scoreSearchDocument("hkie", documents[2]), 0);
+  // Prefixes match from three letters
+  assert.ok(scoreSearchDocument("pic", documents[1]) > 0);
+  assert.equal(scoreSearchDocument("the", documents[0]), 0);
+  assert.ok(scoreSearchDocument("board games", documents[0]) > scoreSearchDocument("games board", documents[0]));
+});
+
+test("search index upserts, removes and stays within the tenant", async () => {
+  await indexSearchDocument(doc("e1", { title: "Salsa lessons" }));
+  await indexSearchDocument(doc("e2", { title: "Salsa social", tenantId: "t2" }));
+  await indexSearchDocument(doc("e1", { title: "Tango lessons" }));
+
+  assert.deepEqual(await searchEventIndex("t1", "salsa"), []);
+  assert.deepEqual((await searchEventIndex("t1", "tango")).map(({ eventId }) => eventId), ["e1"]);
+  assert.deepEqual((await searchEventIndex("t2", "salsa")).map(({ eventId }) => eventId), ["e2"]);
+
+  await removeSearchDocument("e1");
+  assert.deepEqual(await searchEventIndex("t1", "tango"), []);
+});
+
+test("event services keep the search index in step", async () => {
+  setEventRepositoryForTests(new InMemoryEventRepository());
+  const host = { userId: "host", isModerator: false };
+  const base = { description: "Come along", tags: [], location: { lat: 52.52, lng: 13.405 }, createdBy: "host" };
+
+  const jam = await submitEvent({ ...base, title: "Jazz jam", tags: ["music"] }, "tenant-s");
+  await submitEvent({ ...base, title: "Jazz brunch", startTime: "2026-10-24T11:00:00Z" }, "tenant-s");
+  const search = async (q: string, options = {}) =>
+    (await fetchUserEvents({ tenantId: "tenant-s", q, ...options })).map(({ title }) => title);
+
+  assert.deepEqual((await search("jazz")).sort(), ["Jazz brunch", "Jazz jam"]);
+  assert.deepEqual(await search("jaz jam"), ["Jazz jam"]);
+  assert.deepEqual(await search("jazz", { tags: ["music"] }), ["Jazz jam"]);
+  assert.deepEqual(await search("jazz", { startsAfter: new Date("2026-10-20T00:00:00Z") }), ["Jazz brunch"]);
+  assert.ok((await fetchUserEvents({ tenantId: "tenant-s", q: "jam" }))[0].relevance! > 0);
+
+  await updateEvent(jam.id, { title: "Blues jam" }, "tenant-s", host);
+  assert.deepEqual(await search("blues"), ["Blues jam"]);
+  assert.deepEqual(await search("jazz"), ["Jazz brunch"]);
+
+  await deleteEvent(jam.id, "tenant-s", host);
+  assert.deepEqual(await search("blues"), []);
+  await restoreDeletedEvent(jam.id, "tenant-s", "host");
+  assert.deepEqual(await search("blues"), ["Blues jam"]);
+});
+
+test("the reindex job adds hangouts stored before the index existed", async () => {
+  const repository = new InMemoryEventRepository();
+  setEventRepositoryForTests(repository);
+  const base = { description: "Come along", tags: [], location: { lat: 52.52, lng: 13.405 }, tenantId: "tenant-r" };
+  for (const title of ["Salsa night", "Salsa brunch", "Tango class"]) {
+    await repository.create("live", { ...base, title });
+  }
+  await repository.create("live", { ...base, title: "Salsa elsewhere", tenantId: undefined });
+  assert.deepEqual(await fetchUserEvents({ tenantId: "tenant-r", q: "salsa" }), []);
+
+  const totals = { runs: 0, scanned: 0, updated: 0 };
+  let after: Awaited<ReturnType<typeof reindexEventSearch>>["next"] = null;
+  do {
+    const result = await reindexEventSearch({ after: after ?? undefined, batchSize: 3 });
+    totals.runs += 1;
+    totals.scanned += result.scanned;
+    totals.updated += result.updated;
+    after = result.next;
+  } while (after);
+  assert.deepEqual(totals, { runs: 2, scanned: 4, updated: 3 });
+  assert.deepEqual(
+    (await fetchUserEvents({ tenantId: "tenant-r", q: "salsa" })).map(({ title }) => title).sort(),
+    ["Salsa brunch", "Salsa night"]
+  );
+});
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { encodeGeohash, geohashQueryBounds, haversineDistanceKm } from "../geohash";
+
+test("encodeGeohash matches reference hashes", () => {
+  assert.equal(encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11), "u4pruydqqvj");
+  assert.equal(encodeGeohash({ lat: 40.7128, lng: -74.006 }), "dr5regw3p");
+  assert.equal(encodeGeohash({ lat: -33.8688, lng: 151.2093 }, 5), "r3gx2");
+});
+
+test("haversineDistanceKm measures great-circle distance", () => {
+  const newYork = { lat: 40.7128, lng: -74.006 };
+  const washington = { lat: 38.9072, lng: -77.0369 };
+  assert.ok(Math.abs(haversineDistanceKm(newYork, washington) - 328) < 2);
+  assert.equal(haversineDistanceKm(newYork, newYork), 0);
+});
+
+function coveredBy(bounds: Array<[string, string]>, hash: string): boolean {
+  return bounds.some(([start, end]) => hash >= start && hash <= end);
+}
+
+test("geohashQueryBounds covers every point inside the radius", () => {
+  const centers = [
+    { lat: 40.7128, lng: -74.006 },
+    { lat: 0.0001, lng: 179.999 },
+    { lat: -45.5, lng: 0.0001 },
+  ];
+  for (const center of centers) {
+    for (const radiusKm of [0.5, 5, 25, 250]) {
+      const bounds = geohashQueryBounds(center, radiusKm);
+      assert.ok(bounds.length >= 1 && bounds.length <= 4);
+      for (let step = 0; step < 32; step += 1) {
+        const bearing = (step / 32) * 2 * Math.PI;
+        const distance = radiusKm * 0.99;
+        const point = {
+          lat: center.lat + (distance / 111.32) * Math.cos(bearing),
+          lng: center.lng + (distance / (111.32 * Math.cos((center.lat * Math.PI) / 180))) * Math.sin(bearing),
+        };
+        const wrapped = { lat: point.lat, lng: ((((point.lng + 180) % 360) + 360) % 360) - 180 };
+        if (haversineDistanceKm(center, wrapped) > radiusKm) continue;
+        assert.ok(coveredBy(bounds, encodeGeohash(wrapped)), `point ${JSON.stringify(wrapped)} outside bounds`);
+      }
+    }
+  }
+});
+
+test("geohashQueryBounds narrows to fine prefixes for small radii", () => {
+  const bounds = geohashQueryBounds({ lat: 40.7128, lng: -74.006 }, 0.5);
+  assert.ok(bounds.every(([start]) => start.length >= 5));
+  assert.deepEqual(geohashQueryBounds({ lat: 10, lng: 10 }, 20_000), [["", "~"]]);
+});
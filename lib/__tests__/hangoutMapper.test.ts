@@ -56,3 +56,23 @@ test("mapHangoutDocument handles native Date values", () => {
   assert.equal((result.createdAt as Date).toISOString(), nativeDate.toISOString());
 });
 
+
+test("mapHangoutDocument trims text and reads legacy creator fields", () => {
+  const result = mapHangoutDocument(
+    {
+      title: "  Sunset swim ",
+      tags: ["beach", "", 42],
+      creator: null,
+      createdByName: "Grace",
+      startTime: "2026-10-20T17:00:00Z",
+      endTime: { seconds: 1_792_522_800 },
+    },
+    "hangout-3"
+  );
+
+  assert.equal(result.title, "Sunset swim");
+  assert.deepEqual(result.tags, ["beach"]);
+  assert.deepEqual(result.creator, { uid: "unknown", name: "Grace", profileImageUrl: "/default-profile.png" });
+  assert.equal(result.startTime, "2026-10-20T17:00:00Z");
+  assert.equal(result.endTime, new Date(1_792_522_800_000).toISOString());
+});
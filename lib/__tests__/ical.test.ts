@@ -0,0 +1,128 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { buildCalendar, escapeText } from "../ical";
+import type { Event } from "../types";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const baseEvent: Event = {
+  id: "evt-1",
+  title: "Picnic, games; snacks",
+  description: "Bring a blanket\nand a frisbee",
+  tags: ["outdoors", "food"],
+  createdAt: new Date("2026-10-01T00:00:00Z"),
+  createdBy: "host",
+  creator: { uid: "host", name: "Sam" },
+  location: { lat: 40.7829, lng: -73.9654 },
+  startTime: "2026-10-24T15:00:00.000Z",
+};
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, "").split("\r\n");
+
+test("escapeText escapes RFC 5545 special characters", () => {
+  assert.equal(escapeText("a\\b;c,d\ne"), "a\\\\b\\;c\\,d\\ne");
+});
+
+test("buildCalendar writes one VEVENT per timed hangout with CRLF lines", () => {
+  const calendar = buildCalendar([baseEvent, { ...baseEvent, id: "evt-2", startTime: undefined }], {
+    name: "Hangouts",
+    now,
+  });
+  assert.ok(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"));
+  assert.ok(calendar.endsWith("END:VCALENDAR\r\n"));
+
+  const lines = unfold(calendar);
+  assert.equal(lines.filter((line) => line === "BEGIN:VEVENT").length, 1);
+  for (const expected of [
+    "X-WR-CALNAME:Hangouts",
+    "UID:evt-1@hangouts.travel-ai",
+    "DTSTAMP:20261019T120000Z",
+    "DTSTART:20261024T150000Z",
+    "DTEND:20261024T170000Z",
+    "SUMMARY:Picnic\\, games\\; snacks",
+    "DESCRIPTION:Bring a blanket\\nand a frisbee\\n\\nHosted by Sam",
+    "GEO:40.7829;-73.9654",
+    "CATEGORIES:outdoors,food",
+  ]) {
+    assert.ok(lines.includes(expected), `missing ${expected}`);
+  }
+});
+
+test("long lines are folded at 75 octets without splitting characters", () => {
+  const calendar = buildCalendar([{ ...baseEvent, description: "ü".repeat(100) }], { now });
+  const physical = calendar.split("\r\n");
+  assert.ok(physical.every((line) => Buffer.byteLength(line) <= 75));
+  assert.ok(unfold(calendar).includes(`DESCRIPTION:${"ü".repeat(100)}\\n\\nHosted by Sam`));
+});
+
+test("recurring hangouts keep their rule, exceptions and overrides", () => {
+  const lines = unfold(
+    buildCalendar(
+      [
+        {
+          ...baseEvent,
+          startTime: "2026-10-27T18:00:00.000Z",
+          endTime: "2026-10-27T20:00:00.000Z",
+          recurrence: {
+            rrule: "FREQ=WEEKLY;COUNT=4",
+            dtstart: "2026-10-20T17:00:00.000Z",
+            exdates: ["2026-11-03T18:00:00.000Z"],
+            overrides: { "2026-11-10T18:00:00.000Z": { title: "Finale" } },
+            timezone: "Europe/Berlin",
+          },
+        },
+      ],
+      { now }
+    )
+  );
+
+  assert.equal(lines.filter((line) => line === "BEGIN:VEVENT").length, 2);
+  for (const expected of [
+    "DTSTART;TZID=Europe/Berlin:20261020T190000",
+    "DTEND;TZID=Europe/Berlin:20261020T210000",
+    "RRULE:FREQ=WEEKLY;COUNT=4",
+    "EXDATE;TZID=Europe/Berlin:20261103T190000",
+    "RECURRENCE-ID;TZID=Europe/Berlin:20261110T190000",
+    "SUMMARY:Finale",
+  ]) {
+    assert.ok(lines.includes(expected), `missing ${expected}`);
+  }
+});
+
+test("each TZID used is defined by a VTIMEZONE", () => {
+  const weekly = (id: string, timezone: string): Event => ({
+    ...baseEvent,
+    id,
+    recurrence: { rrule: "FREQ=WEEKLY", dtstart: "2026-10-20T17:00:00.000Z", timezone },
+  });
+  const lines = unfold(
+    buildCalendar([weekly("evt-1", "Europe/Berlin"), weekly("evt-2", "Europe/Berlin"), weekly("evt-3", "Asia/Tokyo")], {
+      now,
+    })
+  );
+
+  assert.equal(lines.filter((line) => line === "BEGIN:VTIMEZONE").length, 2);
+  assert.ok(lines.indexOf("TZID:Europe/Berlin") < lines.indexOf("BEGIN:VEVENT"));
+  const berlin = lines.slice(lines.indexOf("TZID:Europe/Berlin"), lines.indexOf("END:VTIMEZONE"));
+  assert.deepEqual(berlin.slice(1), [
+    "BEGIN:DAYLIGHT",
+    "DTSTART:20250330T020000",
+    "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+    "TZOFFSETFROM:+0100",
+    "TZOFFSETTO:+0200",
+    "END:DAYLIGHT",
+    "BEGIN:STANDARD",
+    "DTSTART:20251026T030000",
+    "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+    "TZOFFSETFROM:+0200",
+    "TZOFFSETTO:+0100",
+    "END:STANDARD",
+  ]);
+  for (const expected of ["TZID:Asia/Tokyo", "TZOFFSETTO:+0900"]) {
+    assert.ok(lines.includes(expected), `missing ${expected}`);
+  }
+
+  const utcOnly = unfold(buildCalendar([baseEvent], { now }));
+  assert.ok(!utcOnly.includes("BEGIN:VTIMEZONE"));
+});
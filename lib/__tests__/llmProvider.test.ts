@@ -0,0 +1,136 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { CircuitBreaker } from "../circuit-breaker";
+import {
+  completeWithFailover,
+  createStubProvider,
+  getLLMProviderHealth,
+  LLMProviderError,
+  LLMUnavailableError,
+  setLLMProvidersForTests,
+  type LLMProvider,
+  type LLMProviderName,
+} from "../llm-provider";
+import { resetAiProviderStoreForTests, setTenantAiProviderOrder } from "../ai-provider-store";
+import { currentMonth, getMonthlyUsage } from "../ai-usage-store";
+import { setQueryExecutorForTests } from "../db";
+import { clearProviderOrderCache, generateText } from "@/app/services/llm";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setLLMProvidersForTests(null);
+  clearProviderOrderCache();
+  resetAiProviderStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+beforeEach(() => {
+  setLLMProvidersForTests(null);
+});
+
+/** A provider answering with its own name, or failing with `failWith`, counting calls. */
+function fakeProvider(name: LLMProviderName, failWith?: number) {
+  const provider = {
+    name,
+    model: `${name}-model`,
+    configured: true,
+    calls: 0,
+    complete: async () => {
+      provider.calls += 1;
+      if (failWith) throw new LLMProviderError(`${name} failed`, name, failWith);
+      return { provider: name, model: `${name}-model`, text: name, promptTokens: 10, completionTokens: 5 };
+    },
+  };
+  return provider;
+}
+
+const request = { messages: [{ role: "user" as const, content: "Ideas?" }] };
+
+test("circuit breaker opens after repeated failures and probes once when half-open", () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+  assert.equal(breaker.tryAcquire(0), true);
+  breaker.recordFailure(0);
+  assert.equal(breaker.state(0), "closed");
+  breaker.recordFailure(0);
+  assert.equal(breaker.state(10), "open");
+  assert.equal(breaker.tryAcquire(999), false);
+
+  // One probe after the cooldown; its failure reopens the circuit
+  assert.equal(breaker.state(1000), "half-open");
+  assert.equal(breaker.tryAcquire(1000), true);
+  assert.equal(breaker.tryAcquire(1000), false);
+  breaker.recordFailure(1000);
+  assert.deepEqual(breaker.snapshot(1500), { state: "open", consecutiveFailures: 3, retryAt: 2000 });
+
+  assert.equal(breaker.tryAcquire(2000), true);
+  breaker.recordSuccess();
+  assert.equal(breaker.state(2000), "closed");
+  assert.equal(breaker.tryAcquire(2000), true);
+});
+
+test("failover skips unconfigured providers and stops calling a failing one", async () => {
+  const openai = fakeProvider("openai", 500);
+  const gemini = fakeProvider("gemini");
+  setLLMProvidersForTests([openai, gemini, { ...createStubProvider(), configured: false }]);
+
+  for (let i = 0; i < 4; i++) {
+    const response = await completeWithFailover(["stub", "openai", "gemini"], request);
+    assert.equal(response.text, "gemini");
+  }
+  // The circuit opened after the third failure
+  assert.equal(openai.calls, 3);
+  assert.equal(getLLMProviderHealth().find(({ provider }) => provider === "openai")?.state, "open");
+});
+
+test("rate limits, timeouts and the stub", async () => {
+  setLLMProvidersForTests([fakeProvider("openai", 429), fakeProvider("gemini", 429)]);
+  const limited = await completeWithFailover(["openai", "gemini"], request).catch((error) => error);
+  assert.ok(limited instanceof LLMUnavailableError);
+  assert.equal(limited.status, 429);
+  // A 429 opens the circuit at once and later calls are still reported as rate limited
+  assert.deepEqual(
+    ((await completeWithFailover(["openai"], request).catch((error) => error)) as LLMUnavailableError).failures,
+    [{ provider: "openai", status: 429, message: "circuit open" }]
+  );
+
+  const hanging: LLMProvider = { ...fakeProvider("openai"), complete: () => new Promise(() => {}) };
+  setLLMProvidersForTests([hanging, createStubProvider()]);
+  const response = await completeWithFailover(["openai", "stub"], { ...request, stubResponse: "[1]" }, { timeoutMs: 20 });
+  assert.deepEqual([response.provider, response.text], ["stub", "[1]"]);
+  await assert.rejects(completeWithFailover(["openai"], request, { timeoutMs: 20 }), (error: LLMUnavailableError) => {
+    assert.equal(error.status, 503);
+    assert.equal(error.failures[0].status, 504);
+    return true;
+  });
+});
+
+test("generateText follows the tenant's order and meters real providers", async () => {
+  setLLMProvidersForTests([fakeProvider("openai"), fakeProvider("gemini"), createStubProvider()]);
+  await setTenantAiProviderOrder("tenant-llm", ["gemini", "openai"]);
+
+  const answered = await generateText({ tenantId: "tenant-llm", route: "test", ...request });
+  assert.equal(answered.provider, "gemini");
+  assert.equal((await generateText({ tenantId: "other-tenant", route: "test", ...request })).provider, "openai");
+
+  await setTenantAiProviderOrder("tenant-llm", ["stub"]);
+  clearProviderOrderCache("tenant-llm");
+  assert.equal((await generateText({ tenantId: "tenant-llm", route: "test", ...request, json: true })).text, "{}");
+
+  const { byModel } = await getMonthlyUsage("tenant-llm", currentMonth());
+  assert.deepEqual(
+    byModel.map(({ provider, calls, totalTokens }) => ({ provider, calls, totalTokens })),
+    [{ provider: "gemini", calls: 1, totalTokens: 15 }]
+  );
+});
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { createKeywordScreener, createLinkScreener, parseListSetting, screenContent } from "../moderation";
+
+test("keyword screener matches whole phrases regardless of case and accents", async () => {
+  const screener = createKeywordScreener(["crypto giveaway", "  ", "Cash"]);
+
+  assert.deepEqual(await screener.screen({ title: "Huge CRYPTO   givéaway tonight", description: "" }), [
+    { screener: "keywords", reason: 'Contains "crypto giveaway"' },
+  ]);
+  assert.deepEqual(await screener.screen({ title: "Book swap", description: "No cashback offers", tags: ["cash"] }), [
+    { screener: "keywords", reason: 'Contains "cash"' },
+  ]);
+  assert.deepEqual(await screener.screen({ title: "Cashew tasting", description: "Cryptography meetup" }), []);
+});
+
+test("link screener flags unknown hosts and too many links", async () => {
+  const screener = createLinkScreener({ allowedDomains: ["meetup.com"], maxLinks: 2 });
+
+  assert.deepEqual(
+    await screener.screen({ title: "Run club", description: "RSVP at https://www.meetup.com/run and events.meetup.com/x" }),
+    []
+  );
+  assert.deepEqual(
+    await screener.screen({
+      title: "Free tickets",
+      description: "Claim at http://win-big.example/claim, www.meetup.com/a and https://meetup.com/b",
+    }),
+    [
+      { screener: "links", reason: "Links to win-big.example" },
+      { screener: "links", reason: "Contains 3 links" },
+    ]
+  );
+});
+
+test("screenContent combines flags and skips screeners that fail", async () => {
+  const result = await screenContent({ title: "Send money for a wire transfer", description: "" }, [
+    createKeywordScreener(["wire transfer"]),
+    {
+      name: "llm",
+      screen: async () => {
+        throw new Error("model unavailable");
+      },
+    },
+  ]);
+  assert.deepEqual(result, { flagged: true, flags: [{ screener: "keywords", reason: 'Contains "wire transfer"' }] });
+
+  assert.deepEqual(await screenContent({ title: "Picnic", description: "" }, [createLinkScreener()]), {
+    flagged: false,
+    flags: [],
+  });
+});
+
+test("parseListSetting splits on commas and newlines", () => {
+  assert.deepEqual(parseListSetting(" meetup.com,\nlu.ma ,, "), ["meetup.com", "lu.ma"]);
+  assert.deepEqual(parseListSetting(undefined), []);
+});
@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  compareFeedPositions,
+  decodeEventCursor,
+  encodeEventCursor,
+  filtersMatch,
+  InvalidCursorError,
+  isAfterCursor,
+} from "../pagination-cursor";
+
+const cursor = {
+  tenantId: "tenant-1",
+  createdAt: Date.UTC(2026, 9, 19, 12),
+  id: "doc-42",
+  filters: { tags: ["music", "food"], createdBy: null, includeAI: true, since: null, location: "New York" },
+};
+
+test("cursors round-trip and stay opaque", () => {
+  const token = encodeEventCursor(cursor);
+  assert.ok(!token.includes("doc-42"));
+  assert.deepEqual(decodeEventCursor(token), cursor);
+});
+
+test("tampered or malformed cursors are rejected", () => {
+  const token = encodeEventCursor(cursor);
+  const [payload, signature] = token.split(".");
+  const forged = Buffer.from(JSON.stringify({ v: 1, t: "tenant-2", c: 0, i: "x", f: {} })).toString("base64url");
+
+  assert.throws(() => decodeEventCursor(`${forged}.${signature}`), InvalidCursorError);
+  assert.throws(() => decodeEventCursor(`${payload}.${signature.slice(1)}`), InvalidCursorError);
+  assert.throws(() => decodeEventCursor(payload), InvalidCursorError);
+  assert.throws(() => decodeEventCursor("not-a-cursor"), (error: unknown) => {
+    assert.ok(error instanceof InvalidCursorError);
+    assert.equal(error.status, 400);
+    return true;
+  });
+});
+
+test("filters match by value regardless of tag order", () => {
+  assert.ok(filtersMatch(cursor.filters, { ...cursor.filters, tags: ["food", "music"] }));
+  assert.ok(!filtersMatch(cursor.filters, { ...cursor.filters, tags: ["food"] }));
+  assert.ok(!filtersMatch(cursor.filters, { ...cursor.filters, includeAI: false }));
+});
+
+test("feed order is newest first with id as a stable tie-breaker", () => {
+  const events = [
+    { createdAt: 1000, id: "a" },
+    { createdAt: 2000, id: "b" },
+    { createdAt: 1000, id: "c" },
+    { createdAt: 3000, id: "AI-x" },
+  ];
+  const ordered = [...events].sort(compareFeedPositions).map((event) => event.id);
+  assert.deepEqual(ordered, ["AI-x", "b", "c", "a"]);
+
+  const position = { createdAt: 1000, id: "c" };
+  assert.ok(isAfterCursor({ createdAt: 1000, id: "a" }, position));
+  assert.ok(isAfterCursor({ createdAt: 999, id: "z" }, position));
+  assert.ok(!isAfterCursor({ createdAt: 1000, id: "c" }, position));
+  assert.ok(!isAfterCursor({ createdAt: 2000, id: "b" }, position));
+});
+
+test("nearest order ranks by distance and cursors carry it", () => {
+  const events = [
+    { createdAt: 3000, id: "b", distanceKm: 2.5 },
+    { createdAt: 1000, id: "a", distanceKm: 0.4 },
+    { createdAt: 2000, id: "c", distanceKm: 2.5 },
+  ];
+  const ordered = [...events].sort((a, b) => compareFeedPositions(a, b, "nearest")).map((event) => event.id);
+  assert.deepEqual(ordered, ["a", "b", "c"]);
+  assert.ok(isAfterCursor(events[2], events[0], "nearest"));
+  assert.ok(!isAfterCursor(events[1], events[0], "nearest"));
+
+  const token = encodeEventCursor({ ...cursor, distanceKm: 2.5 });
+  assert.equal(decodeEventCursor(token).distanceKm, 2.5);
+  assert.equal(decodeEventCursor(encodeEventCursor(cursor)).distanceKm, undefined);
+});
+
+test("relevance order ranks the best match first and cursors carry it", () => {
+  const events = [
+    { createdAt: 3000, id: "b", relevance: 4 },
+    { createdAt: 1000, id: "a", relevance: 1.5 },
+    { createdAt: 2000, id: "c", relevance: 4 },
+  ];
+  const ordered = [...events].sort((a, b) => compareFeedPositions(a, b, "relevance")).map((event) => event.id);
+  assert.deepEqual(ordered, ["b", "c", "a"]);
+  assert.ok(isAfterCursor(events[1], events[2], "relevance"));
+  assert.ok(!isAfterCursor(events[0], events[2], "relevance"));
+
+  const token = encodeEventCursor({ ...cursor, relevance: 4 });
+  assert.equal(decodeEventCursor(token).relevance, 4);
+});
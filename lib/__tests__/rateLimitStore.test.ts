@@ -0,0 +1,150 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import {
+  InMemoryRateLimitStore,
+  PostgresRateLimitStore,
+  resetRateLimitStoreForTests,
+  type RateLimitStore,
+} from "../rate-limit-store";
+import { setQueryExecutorForTests } from "../db";
+import { createTenant, resetTenantStoreCacheForTests, setTenantRateLimits } from "../tenant-store";
+import {
+  checkAiRateLimit,
+  checkRateLimit,
+  getRateLimitStatus,
+  setRateLimitStoreForTests,
+} from "@/app/services/rate-limit";
+
+const WINDOW = { limit: 3, windowMs: 1000 };
+const T0 = 10_000;
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setRateLimitStoreForTests(null);
+  resetRateLimitStoreForTests();
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+async function assertSlidingWindow(store: RateLimitStore) {
+  for (let i = 0; i < 3; i++) {
+    assert.equal((await store.hit("k", WINDOW, T0 + i)).allowed, true);
+  }
+  const denied = await store.hit("k", WINDOW, T0 + 10);
+  assert.equal(denied.allowed, false);
+  assert.equal(denied.remaining, 0);
+  assert.ok(denied.resetAt > T0 + 10);
+
+  // Halfway into the next window the previous window still counts for 1.5.
+  assert.equal((await store.hit("k", WINDOW, T0 + 1500)).allowed, true);
+  assert.equal((await store.hit("k", WINDOW, T0 + 1500)).allowed, false);
+
+  // Once the previous window has fully aged out only the current count remains.
+  const later = await store.peek("k", WINDOW, T0 + 2000);
+  assert.equal(later.remaining, 2);
+}
+
+test("in-memory store enforces a sliding window", async () => {
+  await assertSlidingWindow(new InMemoryRateLimitStore());
+});
+
+test("postgres store enforces a sliding window and hands back denied hits", async () => {
+  const store = new PostgresRateLimitStore(pool);
+  await assertSlidingWindow(store);
+
+  const rows = await pool.query(`SELECT window_start, count FROM rate_limit_counters WHERE key = 'k' ORDER BY window_start`);
+  assert.deepEqual(
+    rows.rows.map((row) => Number(row.count)),
+    [3, 1]
+  );
+});
+
+test("peek does not consume quota", async () => {
+  const store = new InMemoryRateLimitStore();
+  await store.hit("p", WINDOW, T0);
+  for (let i = 0; i < 5; i++) {
+    const status = await store.peek("p", WINDOW, T0 + 1);
+    assert.equal(status.remaining, 2);
+    assert.equal(status.allowed, true);
+  }
+});
+
+test("cleanup drops windows that can no longer affect a decision", async () => {
+  const store = new PostgresRateLimitStore(pool);
+  await store.hit("old", WINDOW, T0);
+  await store.cleanup(T0 + 5000);
+  const rows = await pool.query(`SELECT count FROM rate_limit_counters WHERE key = 'old'`);
+  assert.equal(rows.rows.length, 0);
+});
+
+test("checkRateLimit applies per-tenant limits loaded from storage", async () => {
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  await createTenant({ tenantId: "tiny", name: "Tiny Tours" });
+  await setTenantRateLimits("tiny", { requests: { limit: 2, windowSeconds: 60 } });
+
+  assert.equal((await checkRateLimit("tiny", "requests")).allowed, true);
+  assert.equal((await checkRateLimit("tiny", "requests")).allowed, true);
+  const denied = await checkRateLimit("tiny", "requests");
+  assert.equal(denied.allowed, false);
+  assert.equal(denied.limit, 2);
+
+  const other = await checkRateLimit("tiny", "aiEvents");
+  assert.equal(other.limit, 50);
+});
+
+test("getRateLimitStatus is read-only", async () => {
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  await checkRateLimit("tiny", "requests");
+
+  const first = await getRateLimitStatus("tiny");
+  const second = await getRateLimitStatus("tiny");
+  assert.equal(first.requests.remaining, 1);
+  assert.equal(second.requests.remaining, 1);
+  assert.equal(second.aiEvents.remaining, 50);
+});
+
+test("checkAiRateLimit gives each client its own share of the tenant budget", async () => {
+  const store = new InMemoryRateLimitStore();
+  setRateLimitStoreForTests(store);
+  await createTenant({ tenantId: "shared", name: "Shared Trips" });
+  await setTenantRateLimits("shared", {
+    aiEvents: { limit: 5, windowSeconds: 60 },
+    aiEventsPerClient: { limit: 3, windowSeconds: 60 },
+  });
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal((await checkAiRateLimit("shared", "ip:203.0.113.7")).allowed, true);
+  }
+  const noisy = await checkAiRateLimit("shared", "ip:203.0.113.7");
+  assert.equal(noisy.allowed, false);
+  assert.equal(noisy.limit, 3);
+
+  // The noisy client's denied calls did not spend tenant quota.
+  assert.equal((await getRateLimitStatus("shared")).aiEvents.remaining, 2);
+
+  assert.equal((await checkAiRateLimit("shared", "user:alice")).allowed, true);
+  const tighter = await checkAiRateLimit("shared", "user:alice");
+  assert.equal(tighter.allowed, true);
+  assert.equal(tighter.limit, 5);
+  assert.equal(tighter.remaining, 0);
+
+  const exhausted = await checkAiRateLimit("shared", "user:bob");
+  assert.equal(exhausted.allowed, false);
+  assert.equal(exhausted.limit, 5);
+
+  // Requests the tenant window turned away did not spend bob's share either.
+  const bobShare = await store.peek("shared:aiEventsPerClient:user:bob", { limit: 3, windowMs: 60_000 });
+  assert.equal(bobShare.remaining, 3);
+});
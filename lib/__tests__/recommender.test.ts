@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  fromHangout,
+  fromSpontaneousCard,
+  recommend,
+  resolveGeofence,
+  scoreCandidate,
+  type RecommenderPreferences,
+} from "../recommender";
+import type { SpontaneousCard } from "../fetchSpontaneousData";
+import type { Event } from "../types";
+
+const now = new Date("2026-10-21T18:00:00Z");
+const here = { lat: 40.7128, lng: -74.006 };
+const home = { lat: 40.7812, lng: -73.9665 };
+
+const preferences: RecommenderPreferences = {
+  interests: ["coffee", "music"],
+  spontaneity: "medium",
+  matchStrictness: "flexible",
+  autoJoin: false,
+  locationSharing: "nearby",
+  radiusKm: 5,
+  transportPreference: "walking",
+  safetyMode: "standard",
+  aiPersona: "friendly",
+  showReasoning: false,
+  timeAvailability: "now",
+};
+
+const hangout = (overrides: Partial<Event> = {}): Event => ({
+  id: "jazz",
+  title: "Jazz in the park",
+  description: "Live music",
+  tags: ["music"],
+  location: { lat: 40.72, lng: -74.0 },
+  createdBy: "host",
+  createdAt: now,
+  startTime: "2026-10-21T18:30:00.000Z",
+  attendeeCount: 12,
+  ...overrides,
+});
+
+const card: SpontaneousCard = {
+  id: "card-1",
+  title: "Quiet coffee bar",
+  category: "venue",
+  description: "Pour-overs and vinyl",
+  location: { lat: 40.715, lng: -74.01 },
+  source: "MockFoursquare",
+};
+
+const run = (prefs: Partial<RecommenderPreferences> = {}, events: Event[] = [hangout()], location = here) => {
+  const merged = { ...preferences, ...prefs };
+  return recommend({
+    preferences: merged,
+    candidates: [...events.map((event) => fromHangout(event)!), fromSpontaneousCard(card)!],
+    geofence: resolveGeofence(merged, { location, homeLocation: home }),
+    now,
+  });
+};
+
+test("strict match mode excludes candidates without a matching interest", () => {
+  const events = [hangout(), hangout({ id: "pottery", title: "Pottery", tags: ["crafts"] })];
+
+  assert.deepEqual(
+    run({}, events).map((item) => item.id).sort(),
+    ["card-1", "jazz", "pottery"]
+  );
+  const strict = run({ matchStrictness: "strict" }, events);
+  assert.deepEqual(strict.map((item) => item.id).sort(), ["card-1", "jazz"]);
+  assert.deepEqual(strict.find((item) => item.id === "card-1")?.matchedInterests, ["coffee"]);
+});
+
+test("high spontaneity reduces the popularity contribution", () => {
+  const candidate = fromHangout(hangout())!;
+  const context = { interests: preferences.interests, radiusKm: 5, distanceKm: 1 };
+  const medium = scoreCandidate(candidate, { ...context, spontaneity: "medium" }).contributions;
+  const high = scoreCandidate(candidate, { ...context, spontaneity: "high" }).contributions;
+
+  assert.ok(high.popularity < medium.popularity);
+  assert.equal(Math.round((high.popularity / medium.popularity) * 100) / 100, 0.6);
+  assert.ok(high.exploration > medium.exploration);
+});
+
+test("geofence drops candidates beyond the radius or outside the sharing context", () => {
+  const far = hangout({ id: "far", location: { lat: 40.9, lng: -74.0 } });
+  assert.deepEqual(
+    run({}, [hangout(), far]).map((item) => item.id).sort(),
+    ["card-1", "jazz"]
+  );
+  assert.deepEqual(
+    run({ radiusKm: 25 }, [hangout(), far]).map((item) => item.id).sort(),
+    ["card-1", "far", "jazz"]
+  );
+
+  // With sharing off only the coarse home area counts, not the live position
+  const nearHome = hangout({ id: "uptown", location: { lat: 40.785, lng: -73.97 } });
+  const offline = run({ locationSharing: "off" }, [hangout(), nearHome]);
+  assert.deepEqual(offline.map((item) => item.id), ["uptown"]);
+  assert.throws(
+    () => resolveGeofence({ locationSharing: "off", radiusKm: 5 }, { location: here }),
+    /homeLocation is required/
+  );
+});
+
+test("auto-join marks hangouts as autoJoinCandidate and reasoning follows showReasoning", () => {
+  const plain = run();
+  assert.ok(plain.every((item) => item.autoJoinCandidate === undefined && item.reasoning === undefined));
+
+  const opted = run({ autoJoin: true, showReasoning: true });
+  const jazz = opted.find((item) => item.id === "jazz");
+  assert.equal(jazz?.autoJoinCandidate, true);
+  assert.ok(jazz?.reasoning?.includes("Matches your interests: music"));
+  assert.equal(opted.find((item) => item.id === "card-1")?.autoJoinCandidate, undefined);
+});
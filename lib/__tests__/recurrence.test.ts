@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  currentOccurrence,
+  expandOccurrences,
+  listOccurrenceStarts,
+  normalizeRecurrence,
+  parseOccurrenceId,
+  parseRRule,
+  RecurrenceError,
+  splitRecurrence,
+} from "../recurrence";
+import type { Event, EventRecurrence } from "../types";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+test("parseRRule accepts the supported subset and rejects the rest", () => {
+  assert.deepEqual(parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=3"), {
+    freq: "MONTHLY",
+    interval: 2,
+    byDay: [{ weekday: "FR", ordinal: -1 }],
+    count: 3,
+  });
+  assert.throws(() => parseRRule("FREQ=YEARLY"), RecurrenceError);
+  assert.throws(() => parseRRule("FREQ=WEEKLY;BYSETPOS=1"), /Unsupported RRULE part: BYSETPOS/);
+  assert.throws(() => parseRRule("FREQ=WEEKLY;BYDAY=1TU"), /Invalid BYDAY/);
+  assert.throws(() => parseRRule("FREQ=DAILY;COUNT=2;UNTIL=20261231"), /COUNT and UNTIL/);
+});
+
+test("weekly and monthly rules expand within the window, minus exceptions", () => {
+  const weekly = normalizeRecurrence(
+    { rrule: "FREQ=WEEKLY;BYDAY=TU,TH", until: "2026-11-05T23:59:59Z", exdates: ["2026-10-29T18:00:00Z"] },
+    "2026-10-20T18:00:00.000Z"
+  );
+  assert.equal(weekly.rrule, "FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20261105T235959Z");
+  assert.deepEqual(
+    iso(listOccurrenceStarts(weekly, { from: new Date("2026-10-21T00:00:00Z"), to: new Date("2026-12-31T00:00:00Z") })),
+    ["2026-10-22T18:00:00.000Z", "2026-10-27T18:00:00.000Z", "2026-11-03T18:00:00.000Z", "2026-11-05T18:00:00.000Z"]
+  );
+
+  // dtstart moves to the first Friday the rule generates
+  const lastFriday = normalizeRecurrence("FREQ=MONTHLY;BYDAY=-1FR;COUNT=3", "2026-10-01T17:00:00.000Z");
+  assert.equal(lastFriday.dtstart, "2026-10-30T17:00:00.000Z");
+  assert.deepEqual(
+    iso(listOccurrenceStarts(lastFriday, { from: new Date(0), to: new Date("2030-01-01T00:00:00Z") })),
+    ["2026-10-30T17:00:00.000Z", "2026-11-27T17:00:00.000Z", "2026-12-25T17:00:00.000Z"]
+  );
+});
+
+test("occurrences keep their wall-clock time across daylight saving changes", () => {
+  const recurrence: EventRecurrence = {
+    rrule: "FREQ=WEEKLY",
+    dtstart: "2026-10-20T17:00:00.000Z", // 19:00 in Berlin (CEST)
+    timezone: "Europe/Berlin",
+  };
+  assert.deepEqual(
+    iso(listOccurrenceStarts(recurrence, { from: new Date(0), to: new Date("2026-11-01T00:00:00Z") })),
+    ["2026-10-20T17:00:00.000Z", "2026-10-27T18:00:00.000Z"]
+  );
+  assert.deepEqual(currentOccurrence(recurrence, 60 * 60_000, new Date("2026-10-21T00:00:00Z")), {
+    startTime: "2026-10-27T18:00:00.000Z",
+    endTime: "2026-10-27T19:00:00.000Z",
+  });
+});
+
+test("expanded occurrences carry overrides and ids that lead back to the series", () => {
+  const series: Event = {
+    id: "jam",
+    title: "Jam session",
+    description: "Bring an instrument",
+    tags: ["music"],
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    createdBy: "host",
+    location: { lat: 52.5, lng: 13.4 },
+    startTime: "2026-10-20T18:00:00.000Z",
+    endTime: "2026-10-20T20:00:00.000Z",
+    recurrence: {
+      rrule: "FREQ=DAILY;COUNT=3",
+      dtstart: "2026-10-20T18:00:00.000Z",
+      overrides: { "2026-10-21T18:00:00.000Z": { title: "Jam session (unplugged)", startTime: "2026-10-21T19:00:00.000Z" } },
+    },
+  };
+
+  const occurrences = expandOccurrences(series, {
+    from: new Date("2026-10-21T00:00:00Z"),
+    to: new Date("2026-10-30T00:00:00Z"),
+  });
+  assert.deepEqual(
+    occurrences.map(({ id, title, startTime, endTime }) => ({ id, title, startTime, endTime })),
+    [
+      {
+        id: "jam__20261021T180000Z",
+        title: "Jam session (unplugged)",
+        startTime: "2026-10-21T19:00:00.000Z",
+        endTime: "2026-10-21T21:00:00.000Z",
+      },
+      {
+        id: "jam__20261022T180000Z",
+        title: "Jam session",
+        startTime: "2026-10-22T18:00:00.000Z",
+        endTime: "2026-10-22T20:00:00.000Z",
+      },
+    ]
+  );
+  assert.equal(occurrences[0].recurrence, undefined);
+  assert.deepEqual(parseOccurrenceId(occurrences[0].id ?? ""), {
+    seriesId: "jam",
+    occurrenceStart: "2026-10-21T18:00:00.000Z",
+  });
+  assert.equal(parseOccurrenceId("jam"), null);
+});
+
+test("splitRecurrence shares COUNT and moves later overrides to the new series", () => {
+  const { previous, following } = splitRecurrence(
+    {
+      rrule: "FREQ=WEEKLY;COUNT=5",
+      dtstart: "2026-10-20T18:00:00.000Z",
+      exdates: ["2026-10-27T18:00:00.000Z"],
+      overrides: { "2026-11-10T18:00:00.000Z": { title: "Finale" } },
+    },
+    new Date("2026-11-03T18:00:00.000Z")
+  );
+  assert.deepEqual(previous, {
+    rrule: "FREQ=WEEKLY;COUNT=2",
+    dtstart: "2026-10-20T18:00:00.000Z",
+    exdates: ["2026-10-27T18:00:00.000Z"],
+  });
+  assert.deepEqual(following, {
+    rrule: "FREQ=WEEKLY;COUNT=3",
+    dtstart: "2026-11-03T18:00:00.000Z",
+    overrides: { "2026-11-10T18:00:00.000Z": { title: "Finale" } },
+  });
+
+  const untilSplit = splitRecurrence(
+    { rrule: "FREQ=DAILY", dtstart: "2026-10-20T18:00:00.000Z" },
+    new Date("2026-10-22T18:00:00.000Z")
+  );
+  assert.equal(untilSplit.previous?.rrule, "FREQ=DAILY;UNTIL=20261022T175959Z");
+  assert.equal(untilSplit.following.rrule, "FREQ=DAILY");
+});
@@ -0,0 +1,104 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import {
+  countRsvps,
+  deleteRsvp,
+  listRsvps,
+  promoteWaitlist,
+  resetRsvpStoreForTests,
+  upsertRsvp,
+} from "../rsvp-store";
+import { setQueryExecutorForTests } from "../db";
+import { formatAttendance } from "../helpers";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  resetRsvpStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+const at = (minute: number) => new Date(Date.UTC(2026, 9, 19, 18, minute));
+
+test("going RSVPs beyond capacity join the waitlist in order", async () => {
+  const base = { eventId: "hangout-full", tenantId: "tenant-a", response: "going" as const, capacity: 2 };
+  assert.equal((await upsertRsvp({ ...base, userId: "u1", now: at(1) })).status, "going");
+  assert.equal((await upsertRsvp({ ...base, userId: "u2", now: at(2) })).status, "going");
+  assert.equal((await upsertRsvp({ ...base, userId: "u3", now: at(3) })).status, "waitlisted");
+  assert.equal((await upsertRsvp({ ...base, userId: "u4", now: at(4) })).status, "waitlisted");
+
+  // Repeating a going RSVP keeps the waitlist position
+  const again = await upsertRsvp({ ...base, userId: "u3", now: at(5) });
+  assert.equal(again.status, "waitlisted");
+  assert.equal(again.updatedAt, at(3).toISOString());
+
+  assert.deepEqual(await countRsvps("hangout-full"), { going: 2, maybe: 0, waitlisted: 2 });
+  assert.deepEqual(
+    (await listRsvps("hangout-full")).map((rsvp) => `${rsvp.userId}:${rsvp.status}`),
+    ["u1:going", "u2:going", "u3:waitlisted", "u4:waitlisted"],
+  );
+});
+
+test("leaving frees a seat for the longest-waiting user", async () => {
+  const removed = await deleteRsvp("hangout-full", "u1");
+  assert.equal(removed?.status, "going");
+  assert.equal(await deleteRsvp("hangout-full", "u1"), null);
+
+  const promoted = await promoteWaitlist("hangout-full", 2, at(10));
+  assert.deepEqual(promoted.map((rsvp) => rsvp.userId), ["u3"]);
+  assert.deepEqual(await countRsvps("hangout-full"), { going: 2, maybe: 0, waitlisted: 1 });
+
+  // Removing the capacity admits everyone left on the waitlist
+  const rest = await promoteWaitlist("hangout-full", null, at(11));
+  assert.deepEqual(rest.map((rsvp) => rsvp.userId), ["u4"]);
+});
+
+test("maybe responses do not take a seat", async () => {
+  const base = { eventId: "hangout-maybe", tenantId: "tenant-a", capacity: 1 };
+  await upsertRsvp({ ...base, userId: "m1", response: "maybe", now: at(1) });
+  assert.equal((await upsertRsvp({ ...base, userId: "g1", response: "going", now: at(2) })).status, "going");
+  assert.equal((await upsertRsvp({ ...base, userId: "m1", response: "going", now: at(3) })).status, "waitlisted");
+
+  // Stepping back to maybe opens the seat again
+  await upsertRsvp({ ...base, userId: "g1", response: "maybe", now: at(4) });
+  const promoted = await promoteWaitlist("hangout-maybe", 1, at(5));
+  assert.deepEqual(promoted.map((rsvp) => rsvp.userId), ["m1"]);
+  assert.deepEqual(await countRsvps("hangout-maybe"), { going: 1, maybe: 1, waitlisted: 0 });
+});
+
+test("concurrent RSVPs for the last seat and concurrent promotions do not overbook", async () => {
+  const base = { eventId: "hangout-race", tenantId: "tenant-a", response: "going" as const, capacity: 1 };
+  const racers = await Promise.all([
+    upsertRsvp({ ...base, userId: "r1", now: at(1) }),
+    upsertRsvp({ ...base, userId: "r2", now: at(1) }),
+  ]);
+  assert.deepEqual(racers.map((rsvp) => rsvp.status).sort(), ["going", "waitlisted"]);
+
+  await upsertRsvp({ ...base, userId: "r3", now: at(2) });
+  const seated = racers.find((rsvp) => rsvp.status === "going")!;
+  await deleteRsvp("hangout-race", seated.userId);
+  const promotions = await Promise.all([promoteWaitlist("hangout-race", 1, at(3)), promoteWaitlist("hangout-race", 1, at(3))]);
+  assert.equal(promotions.flat().length, 1);
+  assert.deepEqual(await countRsvps("hangout-race"), { going: 1, maybe: 0, waitlisted: 1 });
+});
+
+test("formatAttendance summarises counts and remaining seats", () => {
+  assert.equal(formatAttendance({}), null);
+  assert.equal(formatAttendance({ attendeeCount: 3, capacity: 10 }), "3 going · 7 spots left");
+  assert.equal(
+    formatAttendance({ attendeeCount: 2, capacity: 2, maybeCount: 1, waitlistCount: 4 }),
+    "2 going · Full · 1 maybe · 4 on waitlist",
+  );
+  assert.equal(formatAttendance({ attendeeCount: 0, capacity: 1 }), "0 going · 1 spot left");
+});
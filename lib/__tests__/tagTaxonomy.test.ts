@@ -0,0 +1,134 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { createTagTaxonomy, defaultTagTaxonomy } from "../tag-taxonomy";
+import { setTenantTagVocabulary, resetTagVocabularyStoreForTests } from "../tag-vocabulary-store";
+import { setQueryExecutorForTests } from "../db";
+import { InMemoryEventRepository } from "../event-repository";
+import { resetEventSearchStoreForTests } from "../event-search-store";
+import { fetchSpontaneousData } from "../fetchSpontaneousData";
+import { fetchUserEvents, getEvent, setEventRepositoryForTests, submitEvent, updateEvent } from "@/app/services/events";
+import { clearTagTaxonomyCache } from "@/app/services/tags";
+import { canonicalizeStoredTags } from "@/app/services/event-backfill";
+
+let pool: Pool;
+
+before(() => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  clearTagTaxonomyCache();
+  resetTagVocabularyStoreForTests();
+  resetEventSearchStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("synonyms resolve to canonical tags and categories", () => {
+  const taxonomy = defaultTagTaxonomy;
+  assert.deepEqual(taxonomy.canonicalTags(["Concert", "#gig", "live-music", "Concerts", "Café", "knitting"]), [
+    "live music",
+    "cafe",
+    "knitting",
+  ]);
+  assert.equal(taxonomy.categoryOf("cocktails"), "nightlife");
+  assert.equal(taxonomy.categoryOf("knitting"), null);
+  assert.deepEqual(taxonomy.tagsInText("Book club night at the wine bar, then a concert"), [
+    "book club",
+    "wine",
+    "live music",
+  ]);
+});
+
+test("preferences match by canonical tag or by category", () => {
+  const taxonomy = defaultTagTaxonomy;
+  assert.ok(taxonomy.matchesPreferences(["live music"], ["gig"]));
+  assert.ok(taxonomy.matchesPreferences(["cocktails"], ["nightlife"]));
+  assert.ok(taxonomy.matchesPreferences(["jazz"], ["music"]));
+  assert.ok(!taxonomy.matchesPreferences(["music"], ["jazz"]));
+  assert.ok(!taxonomy.matchesPreferences(["hiking"], ["food"]));
+});
+
+test("tenant tags extend the built-in vocabulary", () => {
+  const taxonomy = createTagTaxonomy([
+    { tag: "board games", category: "social", synonyms: ["tabletop"] },
+    { tag: "live music", category: "music", synonyms: ["open stage"] },
+    { tag: "jobs", category: "networking", synonyms: ["gig"] },
+  ]);
+  // The tenant's meaning of "board games" wins over the built-in synonym of "games"
+  assert.deepEqual(taxonomy.canonicalTags(["Tabletop", "board-games", "open stage", "concert"]), [
+    "board games",
+    "live music",
+  ]);
+  assert.equal(taxonomy.canonicalTag("gig"), "jobs");
+  assert.ok(taxonomy.matchesPreferences(["gig"], ["networking"]));
+  assert.equal(defaultTagTaxonomy.canonicalTag("gig"), "live music");
+});
+
+test("fetchSpontaneousData matches preferences through synonyms", async () => {
+  const cards = await fetchSpontaneousData({
+    location: { lat: 38.9072, lng: -77.0369 },
+    radius: 50,
+    preferences: ["concert"],
+  });
+  assert.ok(cards.some((card) => card.source === "MockEventbrite"));
+});
+
+test("events are saved and filtered with the tenant's canonical tags", async () => {
+  setEventRepositoryForTests(new InMemoryEventRepository());
+  await setTenantTagVocabulary("tenant-t", [{ tag: "harbor cruise", category: "outdoors", synonyms: ["sailing"] }]);
+  clearTagTaxonomyCache("tenant-t");
+
+  const created = await submitEvent(
+    {
+      title: "Evening sail",
+      description: "Sea shanties on deck",
+      tags: ["Sailing", "gig", "concert"],
+      location: { lat: 52.52, lng: 13.405 },
+      createdBy: "host",
+    },
+    "tenant-t"
+  );
+  assert.deepEqual(created.tags, ["harbor cruise", "live music"]);
+  assert.deepEqual((await getEvent(created.id, "tenant-t"))?.tags, ["harbor cruise", "live music"]);
+
+  const found = await fetchUserEvents({ tenantId: "tenant-t", tags: ["concerts"] });
+  assert.deepEqual(found.map(({ id }) => id), [created.id]);
+
+  await updateEvent(created.id, { tags: ["#Beer Garden"] }, "tenant-t", { userId: "host", isModerator: false });
+  assert.deepEqual((await getEvent(created.id, "tenant-t"))?.tags, ["beer"]);
+});
+
+test("the backfill canonicalizes tags stored before the taxonomy or a vocabulary change", async () => {
+  const repository = new InMemoryEventRepository();
+  setEventRepositoryForTests(repository);
+  const base = { description: "Bring a friend", location: { lat: 52.52, lng: 13.405 }, tenantId: "tenant-b" };
+  const legacy = await repository.create("live", { ...base, title: "Legacy gig", tags: ["gig", "Concert", "knitting"] });
+  const held = await repository.create("pending", { ...base, title: "Held tasting", tags: ["wine tasting"] });
+  const sail = await repository.create("live", { ...base, title: "Harbour trip", tags: ["sailing"] });
+  await setTenantTagVocabulary("tenant-b", [{ tag: "harbor cruise", category: "outdoors", synonyms: ["sailing"] }]);
+  clearTagTaxonomyCache("tenant-b");
+  assert.deepEqual(await fetchUserEvents({ tenantId: "tenant-b", tags: ["live music"] }), []);
+
+  const live = await canonicalizeStoredTags({ batchSize: 10 });
+  assert.deepEqual([live.scanned, live.updated, live.next], [2, 2, null]);
+  assert.deepEqual((await getEvent(legacy, "tenant-b"))?.tags, ["live music", "knitting"]);
+  assert.deepEqual((await getEvent(sail, "tenant-b"))?.tags, ["harbor cruise"]);
+  assert.deepEqual(
+    (await fetchUserEvents({ tenantId: "tenant-b", tags: ["concert"] })).map(({ id }) => id),
+    [legacy]
+  );
+  assert.deepEqual((await fetchUserEvents({ tenantId: "tenant-b", q: "harbour cruise" })).map(({ id }) => id), [sail]);
+
+  const pending = await canonicalizeStoredTags({ collection: "pending" });
+  assert.equal(pending.updated, 1);
+  assert.deepEqual((await repository.get("pending", held))?.data.tags, ["wine"]);
+  assert.equal((await canonicalizeStoredTags()).updated, 0);
+});
@@ -0,0 +1,84 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import {
+  createTenant,
+  createTenantApiKey,
+  listTenantApiKeys,
+  resetTenantStoreCacheForTests,
+  resolveApiKey,
+  revokeTenantApiKey,
+  rotateTenantApiKey,
+} from "../tenant-store";
+import { setQueryExecutorForTests } from "../db";
+import { getTenantConfig, getTenantId, validateApiKey } from "@/app/services/tenant";
+
+let pool: Pool;
+
+before(async () => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  await createTenant({ tenantId: "acme", name: "Acme Travel", primaryColor: "#ff0000" });
+});
+
+after(async () => {
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("api keys are stored hashed and resolve to their tenant", async () => {
+  const { apiKey, key } = await createTenantApiKey("acme", { label: "website" });
+  assert.ok(apiKey.startsWith("spk_"));
+  assert.equal(key.label, "website");
+
+  const rows = await pool.query("SELECT key_hash FROM tenant_api_keys WHERE id = $1", [key.id]);
+  assert.notEqual(rows.rows[0].key_hash, apiKey);
+
+  const validation = await validateApiKey(apiKey);
+  assert.equal(validation.valid, true);
+  assert.equal(validation.tenantId, "acme");
+  assert.equal(await getTenantId(apiKey), "acme");
+
+  const [listed] = await listTenantApiKeys("acme");
+  assert.ok(listed.lastUsedAt);
+});
+
+test("unknown keys are rejected", async () => {
+  const validation = await validateApiKey("spk_not-a-real-key");
+  assert.equal(validation.valid, false);
+  assert.equal(validation.error, "Invalid API key");
+});
+
+test("rotated keys keep working during the grace period", async () => {
+  const { apiKey: oldKey, key } = await createTenantApiKey("acme", { label: "mobile" });
+  const rotated = await rotateTenantApiKey("acme", key.id, { graceSeconds: 60 });
+
+  assert.equal(rotated.previous.replacedBy, rotated.key.id);
+  assert.equal((await resolveApiKey(oldKey)).status, "active");
+  assert.equal((await resolveApiKey(rotated.apiKey)).status, "active");
+
+  const immediate = await createTenantApiKey("acme", { label: "kiosk" });
+  await rotateTenantApiKey("acme", immediate.key.id, { graceSeconds: 0 });
+  const expired = await validateApiKey(immediate.apiKey);
+  assert.equal(expired.valid, false);
+  assert.equal(expired.error, "API key has expired");
+});
+
+test("revoked keys are rejected", async () => {
+  const { apiKey, key } = await createTenantApiKey("acme", { label: "partner" });
+  await revokeTenantApiKey("acme", key.id);
+  const validation = await validateApiKey(apiKey);
+  assert.equal(validation.valid, false);
+  assert.equal(validation.error, "API key has been revoked");
+});
+
+test("tenant config is read from the store", async () => {
+  const config = await getTenantConfig("acme");
+  assert.deepEqual(config, { primaryColor: "#ff0000" });
+  assert.deepEqual(await getTenantConfig("missing-tenant"), {});
+});
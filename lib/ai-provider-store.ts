@@ -0,0 +1,51 @@
+import { getQueryExecutor, type QueryExecutor } from "./db";
+import { isLLMProviderName, type LLMProviderName } from "./llm-provider";
+
+let providerTableInitialized = false;
+
+async function ensureProviderTable(executor: QueryExecutor) {
+  if (providerTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS tenant_ai_providers (
+      tenant_id VARCHAR PRIMARY KEY,
+      provider_order TEXT[] NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  providerTableInitialized = true;
+}
+
+/** The tenant's failover order, or null when it uses the default. */
+export async function getTenantAiProviderOrder(tenantId: string): Promise<LLMProviderName[] | null> {
+  const executor = getQueryExecutor();
+  await ensureProviderTable(executor);
+  const result = await executor.query(`SELECT provider_order FROM tenant_ai_providers WHERE tenant_id = $1`, [tenantId]);
+  const row = result.rows[0] as { provider_order: string[] | null } | undefined;
+  const order = (row?.provider_order ?? []).filter(isLLMProviderName);
+  return order.length > 0 ? order : null;
+}
+
+/** Stores the tenant's failover order; null goes back to the default. */
+export async function setTenantAiProviderOrder(
+  tenantId: string,
+  order: LLMProviderName[] | null
+): Promise<LLMProviderName[] | null> {
+  const executor = getQueryExecutor();
+  await ensureProviderTable(executor);
+  if (order === null) {
+    await executor.query(`DELETE FROM tenant_ai_providers WHERE tenant_id = $1`, [tenantId]);
+  } else {
+    await executor.query(
+      `INSERT INTO tenant_ai_providers (tenant_id, provider_order, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (tenant_id)
+       DO UPDATE SET provider_order = EXCLUDED.provider_order, updated_at = NOW()`,
+      [tenantId, order]
+    );
+  }
+  return getTenantAiProviderOrder(tenantId);
+}
+
+export function resetAiProviderStoreForTests() {
+  providerTableInitialized = false;
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from "crypto";
+import { getQueryExecutor, type QueryExecutor } from "./db";
+
+export type AiProvider = "openai" | "gemini";
+
+export interface AiUsageEntry {
+  tenantId: string | null;
+  provider: AiProvider;
+  model: string;
+  route: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageByModel extends AiUsageTotals {
+  provider: AiProvider;
+  model: string;
+}
+
+export interface TenantAiQuota {
+  /** Tokens per calendar month (UTC); null means unlimited. */
+  monthlyTokenLimit: number | null;
+  /** Estimated spend per calendar month; null means unlimited. */
+  monthlyCostLimitUsd: number | null;
+  /** Share of a limit at which usage is reported as a warning. */
+  softLimitRatio: number;
+}
+
+export const DEFAULT_AI_QUOTA: TenantAiQuota = {
+  monthlyTokenLimit: 2_000_000,
+  monthlyCostLimitUsd: null,
+  softLimitRatio: 0.8,
+};
+
+// USD per million tokens, from the providers' published list prices.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+type QuotaRow = {
+  monthly_token_limit: string | number | null;
+  monthly_cost_limit_usd: string | number | null;
+  soft_limit_ratio: string | number;
+};
+
+type UsageRow = {
+  provider: AiProvider;
+  model: string;
+  calls: string | number;
+  prompt_tokens: string | number | null;
+  completion_tokens: string | number | null;
+  cost_usd: string | number | null;
+};
+
+let usageTablesInitialized = false;
+
+async function ensureUsageTables(executor: QueryExecutor) {
+  if (usageTablesInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS ai_usage_events (
+      id UUID PRIMARY KEY,
+      tenant_id VARCHAR,
+      provider VARCHAR NOT NULL,
+      model VARCHAR NOT NULL,
+      route VARCHAR NOT NULL,
+      prompt_tokens INTEGER NOT NULL,
+      completion_tokens INTEGER NOT NULL,
+      cost_usd NUMERIC(12, 6) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_ai_usage_events_tenant_created ON ai_usage_events (tenant_id, created_at)`
+  );
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS tenant_ai_quotas (
+      tenant_id VARCHAR PRIMARY KEY,
+      monthly_token_limit BIGINT,
+      monthly_cost_limit_usd NUMERIC(12, 2),
+      soft_limit_ratio REAL NOT NULL DEFAULT 0.8,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  usageTablesInitialized = true;
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  const cost = (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a UTC calendar month, e.g. "2026-10".
+ */
+export function monthBounds(month: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match) {
+    throw new Error(`Invalid month ${month}; expected YYYY-MM`);
+  }
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  return { start: new Date(Date.UTC(year, monthIndex, 1)), end: new Date(Date.UTC(year, monthIndex + 1, 1)) };
+}
+
+export function currentMonth(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+export async function recordAiUsage(entry: AiUsageEntry, createdAt: Date = new Date()): Promise<void> {
+  const executor = getQueryExecutor();
+  await ensureUsageTables(executor);
+  await executor.query(
+    `INSERT INTO ai_usage_events
+       (id, tenant_id, provider, model, route, prompt_tokens, completion_tokens, cost_usd, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      randomUUID(),
+      entry.tenantId,
+      entry.provider,
+      entry.model,
+      entry.route,
+      entry.promptTokens,
+      entry.completionTokens,
+      estimateCostUsd(entry.model, entry.promptTokens, entry.completionTokens),
+      createdAt,
+    ]
+  );
+}
+
+export async function getMonthlyUsage(
+  tenantId: string,
+  month: string
+): Promise<{ totals: AiUsageTotals; byModel: AiUsageByModel[] }> {
+  const { start, end } = monthBounds(month);
+  const executor = getQueryExecutor();
+  await ensureUsageTables(executor);
+  const result = await executor.query(
+    `SELECT provider, model, COUNT(*) AS calls, SUM(prompt_tokens) AS prompt_tokens,
+            SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+       FROM ai_usage_events
+      WHERE tenant_id = $1 AND created_at >= $2 AND created_at < $3
+      GROUP BY provider, model
+      ORDER BY provider, model`,
+    [tenantId, start, end]
+  );
+
+  const byModel = (result.rows as UsageRow[]).map((row) => {
+    const promptTokens = toNumber(row.prompt_tokens);
+    const completionTokens = toNumber(row.completion_tokens);
+    return {
+      provider: row.provider,
+      model: row.model,
+      calls: toNumber(row.calls),
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: toNumber(row.cost_usd),
+    };
+  });
+
+  const totals = byModel.reduce<AiUsageTotals>(
+    (acc, row) => ({
+      calls: acc.calls + row.calls,
+      promptTokens: acc.promptTokens + row.promptTokens,
+      completionTokens: acc.completionTokens + row.completionTokens,
+      totalTokens: acc.totalTokens + row.totalTokens,
+      costUsd: Math.round((acc.costUsd + row.costUsd) * 1_000_000) / 1_000_000,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 }
+  );
+
+  return { totals, byModel };
+}
+
+export async function getTenantAiQuota(tenantId: string): Promise<TenantAiQuota> {
+  const executor = getQueryExecutor();
+  await ensureUsageTables(executor);
+  const result = await executor.query(
+    `SELECT monthly_token_limit, monthly_cost_limit_usd, soft_limit_ratio FROM tenant_ai_quotas WHERE tenant_id = $1`,
+    [tenantId]
+  );
+  const row = result.rows[0] as QuotaRow | undefined;
+  if (!row) {
+    return { ...DEFAULT_AI_QUOTA };
+  }
+  return {
+    monthlyTokenLimit: row.monthly_token_limit === null ? null : toNumber(row.monthly_token_limit),
+    monthlyCostLimitUsd: row.monthly_cost_limit_usd === null ? null : toNumber(row.monthly_cost_limit_usd),
+    softLimitRatio: toNumber(row.soft_limit_ratio),
+  };
+}
+
+export async function setTenantAiQuota(tenantId: string, quota: Partial<TenantAiQuota>): Promise<TenantAiQuota> {
+  const next = { ...(await getTenantAiQuota(tenantId)), ...quota };
+  const executor = getQueryExecutor();
+  await executor.query(
+    `INSERT INTO tenant_ai_quotas (tenant_id, monthly_token_limit, monthly_cost_limit_usd, soft_limit_ratio, updated_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     ON CONFLICT (tenant_id)
+     DO UPDATE SET monthly_token_limit = EXCLUDED.monthly_token_limit,
+                   monthly_cost_limit_usd = EXCLUDED.monthly_cost_limit_usd,
+                   soft_limit_ratio = EXCLUDED.soft_limit_ratio,
+                   updated_at = NOW()`,
+    [tenantId, next.monthlyTokenLimit, next.monthlyCostLimitUsd, next.softLimitRatio]
+  );
+  return next;
+}
+
+export function resetAiUsageStoreForTests() {
+  usageTablesInitialized = false;
+}
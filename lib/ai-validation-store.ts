@@ -0,0 +1,89 @@
+import { currentMonth } from "./ai-usage-store";
+import { getQueryExecutor, type QueryExecutor } from "./db";
+
+export interface AiValidationEntry {
+  provider: string;
+  model: string;
+  route: string;
+  valid: boolean;
+}
+
+export interface AiValidationStats {
+  provider: string;
+  model: string;
+  checks: number;
+  failures: number;
+  /** Share of answers that failed validation, 0 to 1. */
+  failureRate: number;
+}
+
+type ValidationRow = {
+  provider: string;
+  model: string;
+  checks: string | number;
+  failures: string | number;
+};
+
+let validationTableInitialized = false;
+
+async function ensureValidationTable(executor: QueryExecutor) {
+  if (validationTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS ai_output_validations (
+      month VARCHAR NOT NULL,
+      provider VARCHAR NOT NULL,
+      model VARCHAR NOT NULL,
+      route VARCHAR NOT NULL,
+      checks INTEGER NOT NULL,
+      failures INTEGER NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (month, provider, model, route)
+    )
+  `);
+  validationTableInitialized = true;
+}
+
+/** Counts one validated model answer against its calendar month (UTC). */
+export async function recordAiValidation(entry: AiValidationEntry, now: Date = new Date()): Promise<void> {
+  const executor = getQueryExecutor();
+  await ensureValidationTable(executor);
+  const failures = entry.valid ? 0 : 1;
+  await executor.query(
+    `INSERT INTO ai_output_validations (month, provider, model, route, checks, failures, updated_at)
+     VALUES ($1, $2, $3, $4, 1, $5, $6)
+     ON CONFLICT (month, provider, model, route)
+     DO UPDATE SET checks = ai_output_validations.checks + 1,
+                   failures = ai_output_validations.failures + $5,
+                   updated_at = $6`,
+    [currentMonth(now), entry.provider, entry.model, entry.route, failures, now]
+  );
+}
+
+/** Validation failure rates per model for a month (`YYYY-MM`), across routes. */
+export async function getAiValidationStats(month: string = currentMonth()): Promise<AiValidationStats[]> {
+  const executor = getQueryExecutor();
+  await ensureValidationTable(executor);
+  const result = await executor.query(
+    `SELECT provider, model, SUM(checks) AS checks, SUM(failures) AS failures
+       FROM ai_output_validations
+      WHERE month = $1
+      GROUP BY provider, model
+      ORDER BY provider, model`,
+    [month]
+  );
+  return (result.rows as ValidationRow[]).map((row) => {
+    const checks = Number(row.checks);
+    const failures = Number(row.failures);
+    return {
+      provider: row.provider,
+      model: row.model,
+      checks,
+      failures,
+      failureRate: checks > 0 ? Math.round((failures / checks) * 1000) / 1000 : 0,
+    };
+  });
+}
+
+export function resetAiValidationStoreForTests() {
+  validationTableInitialized = false;
+}
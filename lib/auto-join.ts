@@ -0,0 +1,159 @@
+import type { UserPreferences } from "@/types/settings";
+import type { Event } from "./types";
+import { getEffectiveEndTime, parseTimeBoundary } from "./event-schedule";
+import { haversineDistanceKm, type GeoPoint } from "./geohash";
+import { defaultTagTaxonomy, type TagTaxonomy } from "./tag-taxonomy";
+
+export type AutoJoinSkipReason =
+  | "auto_join_disabled"
+  | "own_event"
+  | "event_ended"
+  | "safety_mode"
+  | "location_unavailable"
+  | "do_not_disturb"
+  | "outside_availability"
+  | "out_of_radius"
+  | "over_budget"
+  | "no_matching_interests";
+
+export type AutoJoinDecision =
+  | { action: "join"; matchedInterests: string[]; distanceKm: number }
+  | { action: "skip"; reason: AutoJoinSkipReason };
+
+/** "now" availability covers hangouts starting within this many minutes. */
+export const NOW_AVAILABILITY_MINUTES = 120;
+
+const BUDGET_TIER_MAX_CENTS: Record<"free" | "$" | "$$" | "$$$", number> = {
+  free: 0,
+  $: 2_000,
+  $$: 5_000,
+  $$$: Number.POSITIVE_INFINITY,
+};
+
+const TIME_PATTERN = /^(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes after midnight plus the UTC offset in minutes, from the ISO times
+ * stored in preferences. Times without an offset are read as UTC.
+ */
+function parseClockTime(value: string): { minutes: number; offset: number } | null {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  const zone = match[3];
+  if (!zone || zone === "Z") return { minutes, offset: 0 };
+  const sign = zone.startsWith("-") ? -1 : 1;
+  const [hours, mins] = zone.slice(1).split(":").map(Number);
+  return { minutes, offset: sign * (hours * 60 + mins) };
+}
+
+function localClock(instant: Date, offset: number): { day: number; minutes: number } {
+  const shifted = new Date(instant.getTime() + offset * 60_000);
+  return { day: shifted.getUTCDay(), minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes() };
+}
+
+function withinClockRange(minutes: number, from: number, to: number): boolean {
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/**
+ * True when `instant` falls in one of the do-not-disturb windows. A window
+ * whose `to` is before its `from` runs past midnight into the next day.
+ */
+export function isInDndWindow(
+  instant: Date,
+  schedule: UserPreferences["dndSchedule"] = []
+): boolean {
+  return schedule.some((entry) => {
+    const from = parseClockTime(entry.from);
+    const to = parseClockTime(entry.to);
+    if (!from || !to) return false;
+    const { day, minutes } = localClock(instant, from.offset);
+    if (from.minutes <= to.minutes) {
+      return day === entry.day && minutes >= from.minutes && minutes < to.minutes;
+    }
+    return (
+      (day === entry.day && minutes >= from.minutes) || (day === (entry.day + 1) % 7 && minutes < to.minutes)
+    );
+  });
+}
+
+export function isWithinAvailability(
+  event: Pick<Event, "startTime" | "endTime">,
+  availability: UserPreferences["timeAvailability"],
+  now: Date
+): boolean {
+  const start = parseTimeBoundary(event.startTime);
+  if (availability === "now") {
+    if (!start) return true;
+    const end = getEffectiveEndTime(event);
+    const startsSoon = start.getTime() - now.getTime() <= NOW_AVAILABILITY_MINUTES * 60_000;
+    return startsSoon && (!end || end.getTime() >= now.getTime());
+  }
+
+  const from = availability.from ? parseClockTime(availability.from) : null;
+  const to = availability.to ? parseClockTime(availability.to) : null;
+  const offset = from?.offset ?? to?.offset ?? 0;
+  const { minutes } = localClock(start ?? now, offset);
+  return withinClockRange(minutes, from?.minutes ?? 0, to?.minutes ?? MINUTES_PER_DAY);
+}
+
+export function budgetLimitCents(budget: UserPreferences["budget"]): number {
+  return typeof budget === "object" ? budget.maxCents : BUDGET_TIER_MAX_CENTS[budget];
+}
+
+/**
+ * Decides whether an opted-in user should be RSVP'd to a new hangout.
+ *
+ * - `safetyMode: "high"` never auto-joins; other modes defer to the checks below.
+ * - `matchStrictness: "strict"` needs at least one interest in the event's tags
+ *   and, unless the budget is "$$$", a known price within it. "flexible" also
+ *   accepts untagged events (or users without interests) and unpriced events.
+ * - Interests match through `taxonomy`, so "concert" matches a "live music"
+ *   tag and "music" matches anything in the music category.
+ */
+export function evaluateAutoJoin({
+  preferences,
+  event,
+  userLocation,
+  now = new Date(),
+  taxonomy = defaultTagTaxonomy,
+}: {
+  preferences: UserPreferences;
+  event: Event;
+  userLocation: GeoPoint | null;
+  now?: Date;
+  taxonomy?: TagTaxonomy;
+}): AutoJoinDecision {
+  const skip = (reason: AutoJoinSkipReason): AutoJoinDecision => ({ action: "skip", reason });
+  const strict = preferences.matchStrictness === "strict";
+
+  if (!preferences.autoJoin) return skip("auto_join_disabled");
+  if (event.createdBy === preferences.userId || event.creator?.uid === preferences.userId) return skip("own_event");
+
+  const end = getEffectiveEndTime(event);
+  if (end && end.getTime() < now.getTime()) return skip("event_ended");
+  if (preferences.safetyMode === "high") return skip("safety_mode");
+
+  const start = parseTimeBoundary(event.startTime) ?? now;
+  if (isInDndWindow(start, preferences.dndSchedule)) return skip("do_not_disturb");
+  if (!isWithinAvailability(event, preferences.timeAvailability, now)) return skip("outside_availability");
+
+  if (preferences.locationSharing === "off" || !userLocation) return skip("location_unavailable");
+  const distanceKm = haversineDistanceKm(userLocation, event.location);
+  if (distanceKm > preferences.radiusKm) return skip("out_of_radius");
+
+  const budgetLimit = budgetLimitCents(preferences.budget);
+  if (event.priceCents === undefined ? strict && Number.isFinite(budgetLimit) : event.priceCents > budgetLimit) {
+    return skip("over_budget");
+  }
+
+  const matchedInterests = preferences.interests.filter((interest) =>
+    taxonomy.matchesPreferences(event.tags, [interest])
+  );
+  const interestsRequired = strict || (preferences.interests.length > 0 && event.tags.length > 0);
+  if (interestsRequired && matchedInterests.length === 0) return skip("no_matching_interests");
+
+  return { action: "join", matchedInterests, distanceKm: Math.round(distanceKm * 1000) / 1000 };
+}
@@ -0,0 +1,71 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit refuses calls before letting one probe through. */
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Epoch ms when an open circuit lets the next probe through; null otherwise. */
+  retryAt: number | null;
+}
+
+/**
+ * Stops calling a failing dependency for a while. Closed, calls pass; after
+ * `failureThreshold` failures in a row it opens and refuses calls until the
+ * cooldown ends. Then it is half-open: one probe call passes, and its outcome
+ * closes the circuit again or reopens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openUntil: number | null = null;
+  private probeInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  state(now: number = Date.now()): CircuitState {
+    if (this.openUntil === null) return "closed";
+    return now < this.openUntil ? "open" : "half-open";
+  }
+
+  /** Whether a call may go ahead; a half-open circuit admits one probe at a time. */
+  tryAcquire(now: number = Date.now()): boolean {
+    const state = this.state(now);
+    if (state === "closed") return true;
+    if (state === "open" || this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openUntil = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()) {
+    this.consecutiveFailures += 1;
+    if (this.probeInFlight || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.trip(this.options.cooldownMs, now);
+    }
+  }
+
+  /** Opens the circuit right away, e.g. when the dependency asks callers to back off. */
+  trip(cooldownMs: number = this.options.cooldownMs, now: number = Date.now()) {
+    this.openUntil = now + cooldownMs;
+    this.probeInFlight = false;
+  }
+
+  snapshot(now: number = Date.now()): CircuitSnapshot {
+    const state = this.state(now);
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: state === "open" ? this.openUntil : null,
+    };
+  }
+}
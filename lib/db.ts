@@ -33,6 +33,32 @@ export function setQueryExecutorForTests(executor: QueryExecutor | null) {
   }
 }
 
+type TransactionClient = QueryExecutor & { release: () => void };
+
+/**
+ * Runs `work` on one connection inside a transaction, rolling back if it
+ * throws. Executors without connections run it statement by statement.
+ */
+export async function withTransaction<T>(work: (executor: QueryExecutor) => Promise<T>): Promise<T> {
+  const executor = getQueryExecutor() as QueryExecutor & { connect?: () => Promise<TransactionClient> };
+  if (typeof executor.connect !== "function") {
+    return work(executor);
+  }
+
+  const client = await executor.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await work(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 export async function closePool(): Promise<void> {
   if (sharedPool) {
     await sharedPool.end();
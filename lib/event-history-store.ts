@@ -0,0 +1,199 @@
+import { getQueryExecutor, type QueryExecutor } from "./db";
+
+export type EventRevisionAction = "update" | "delete" | "restore" | "revert";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface EventRevision {
+  id: number;
+  eventId: string;
+  tenantId: string;
+  actorId: string;
+  action: EventRevisionAction;
+  changes: FieldChange[];
+  /** For "revert", the revision that was undone. */
+  revertOf: number | null;
+  createdAt: string;
+}
+
+type RevisionRow = {
+  id: number | string;
+  event_id: string;
+  tenant_id: string;
+  actor_id: string;
+  action: EventRevisionAction;
+  changes: unknown;
+  revert_of: number | string | null;
+  created_at: Date | string;
+};
+
+export const MAX_REVISION_PAGE_SIZE = 200;
+
+let revisionTableInitialized = false;
+
+async function ensureRevisionTable(executor: QueryExecutor) {
+  if (revisionTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS event_revisions (
+      id SERIAL PRIMARY KEY,
+      event_id VARCHAR NOT NULL,
+      tenant_id VARCHAR NOT NULL,
+      actor_id VARCHAR NOT NULL,
+      action VARCHAR NOT NULL,
+      changes JSONB NOT NULL,
+      revert_of INTEGER,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_event_revisions_event ON event_revisions (event_id, created_at)`
+  );
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_event_revisions_tenant ON event_revisions (tenant_id, created_at)`
+  );
+  revisionTableInitialized = true;
+}
+
+function toRecord(row: RevisionRow): EventRevision {
+  const changes = typeof row.changes === "string" ? JSON.parse(row.changes) : row.changes;
+  return {
+    id: Number(row.id),
+    eventId: row.event_id,
+    tenantId: row.tenant_id,
+    actorId: row.actor_id,
+    action: row.action,
+    changes: Array.isArray(changes) ? (changes as FieldChange[]) : [],
+    revertOf: row.revert_of === null ? null : Number(row.revert_of),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Firestore timestamps become ISO strings and missing values null, so
+ * revisions hold plain JSON that compares by value.
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === "object" && typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * The fields of `updates` whose value differs from `current`.
+ */
+export function diffFields(current: Record<string, unknown>, updates: Record<string, unknown>): FieldChange[] {
+  return Object.keys(updates).reduce<FieldChange[]>((acc, field) => {
+    const before = toJsonValue(current[field]);
+    const after = toJsonValue(updates[field]);
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      acc.push({ field, before, after });
+    }
+    return acc;
+  }, []);
+}
+
+/**
+ * What undoing `changes` writes: the previous values, and the fields that did
+ * not exist before (`diffFields` records those as null) to remove.
+ */
+export function revertedFields(changes: FieldChange[]): { previous: Record<string, unknown>; unset: string[] } {
+  const previous: Record<string, unknown> = {};
+  const unset: string[] = [];
+  changes.forEach(({ field, before }) => {
+    if (before === null) {
+      unset.push(field);
+    } else {
+      previous[field] = before;
+    }
+  });
+  return { previous, unset };
+}
+
+export async function recordRevision({
+  eventId,
+  tenantId,
+  actorId,
+  action,
+  changes,
+  revertOf = null,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  actorId: string;
+  action: EventRevisionAction;
+  changes: FieldChange[];
+  revertOf?: number | null;
+  now?: Date;
+}): Promise<EventRevision> {
+  const executor = getQueryExecutor();
+  await ensureRevisionTable(executor);
+  const result = await executor.query(
+    `INSERT INTO event_revisions (event_id, tenant_id, actor_id, action, changes, revert_of, created_at)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+     RETURNING id, event_id, tenant_id, actor_id, action, changes, revert_of, created_at`,
+    [eventId, tenantId, actorId, action, JSON.stringify(changes), revertOf, now]
+  );
+  return toRecord(result.rows[0] as RevisionRow);
+}
+
+export async function getRevision(id: number): Promise<EventRevision | null> {
+  const executor = getQueryExecutor();
+  await ensureRevisionTable(executor);
+  const result = await executor.query(
+    `SELECT id, event_id, tenant_id, actor_id, action, changes, revert_of, created_at
+       FROM event_revisions WHERE id = $1`,
+    [id]
+  );
+  const row = result.rows[0] as RevisionRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Newest first, for one event or, without `eventId`, the whole tenant.
+ * `before` pages back from a revision id.
+ */
+export async function listRevisions({
+  tenantId,
+  eventId,
+  before,
+  limit = 50,
+}: {
+  tenantId: string;
+  eventId?: string;
+  before?: number;
+  limit?: number;
+}): Promise<EventRevision[]> {
+  const executor = getQueryExecutor();
+  await ensureRevisionTable(executor);
+  const conditions = ["tenant_id = $1"];
+  const params: unknown[] = [tenantId];
+  if (eventId) {
+    params.push(eventId);
+    conditions.push(`event_id = $${params.length}`);
+  }
+  if (before !== undefined) {
+    params.push(before);
+    conditions.push(`id < $${params.length}`);
+  }
+  params.push(Math.min(Math.max(Math.floor(limit), 1), MAX_REVISION_PAGE_SIZE));
+  const result = await executor.query(
+    `SELECT id, event_id, tenant_id, actor_id, action, changes, revert_of, created_at
+       FROM event_revisions WHERE ${conditions.join(" AND ")}
+      ORDER BY id DESC
+      LIMIT $${params.length}`,
+    params
+  );
+  return (result.rows as RevisionRow[]).map(toRecord);
+}
+
+export function resetEventHistoryStoreForTests() {
+  revisionTableInitialized = false;
+}
@@ -0,0 +1,440 @@
+import { isValidTimeZone, parseRfcDateTime } from "./recurrence";
+import type { OccurrenceOverride } from "./types";
+
+export const IMPORT_FORMATS = ["csv", "json", "ics"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Row fields handed on to the submit rules; anything else in a file is dropped
+export const IMPORT_FIELDS = [
+  "title",
+  "description",
+  "tags",
+  "location",
+  "address",
+  "startTime",
+  "endTime",
+  "durationMinutes",
+  "capacity",
+  "priceCents",
+  "recurrence",
+] as const;
+
+export class ImportError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "ImportError";
+    this.status = status;
+  }
+}
+
+/**
+ * One event read from an import file. `row` is the spreadsheet row for CSV
+ * (the header is row 1) and the 1-based position for JSON and iCal. Rows that
+ * could not be read at all carry `error` instead of usable fields.
+ */
+export interface ImportRow {
+  row: number;
+  fields: Record<string, unknown>;
+  error?: string;
+}
+
+export function detectImportFormat(contentType?: string | null, filename?: string | null): ImportFormat | null {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type === "text/csv" || type === "application/csv") return "csv";
+  if (type === "application/json") return "json";
+  if (type === "text/calendar") return "ics";
+
+  const extension = filename?.toLowerCase().match(/\.(\w+)$/)?.[1];
+  if (extension === "csv" || extension === "json" || extension === "ics") return extension;
+  if (extension === "ical" || extension === "ifb") return "ics";
+  return null;
+}
+
+function checkRowCount(rows: ImportRow[]): ImportRow[] {
+  if (rows.length === 0) {
+    throw new ImportError("The file contains no events");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Imports are limited to ${MAX_IMPORT_ROWS} events per file`, 413);
+  }
+  return rows;
+}
+
+export function parseImportFile(content: string, format: ImportFormat): ImportRow[] {
+  // Spreadsheet exports often start with a byte order mark
+  const text = content.replace(/^\uFEFF/, "");
+  switch (format) {
+    case "csv":
+      return parseCsvRows(text);
+    case "json": {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        throw new ImportError("The file is not valid JSON");
+      }
+      return parseJsonRows(value);
+    }
+    case "ics":
+      return parseIcsRows(text);
+  }
+}
+
+function pickImportFields(record: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const field of IMPORT_FIELDS) {
+    if (record[field] !== undefined && record[field] !== null && record[field] !== "") {
+      fields[field] = record[field];
+    }
+  }
+  return fields;
+}
+
+/** A JSON array of events, or an object with an `events` array. */
+export function parseJsonRows(value: unknown): ImportRow[] {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && Array.isArray((value as { events?: unknown }).events)
+    ? ((value as { events: unknown[] }).events)
+    : null;
+  if (!list) {
+    throw new ImportError("JSON imports must be an array of events or an object with an events array");
+  }
+  return checkRowCount(
+    list.map((item, index) =>
+      item && typeof item === "object" && !Array.isArray(item)
+        ? { row: index + 1, fields: pickImportFields(item as Record<string, unknown>) }
+        : { row: index + 1, fields: {}, error: "Each event must be a JSON object" }
+    )
+  );
+}
+
+/** RFC 4180 records: quoted fields may hold commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ImportError("The CSV file has an unterminated quoted field");
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+// Header names are matched without case, spaces, dashes or underscores
+const CSV_COLUMNS: Record<string, string> = {
+  title: "title",
+  name: "title",
+  description: "description",
+  tags: "tags",
+  location: "location",
+  address: "address",
+  lat: "lat",
+  latitude: "lat",
+  lng: "lng",
+  lon: "lng",
+  longitude: "lng",
+  starttime: "startTime",
+  start: "startTime",
+  endtime: "endTime",
+  end: "endTime",
+  durationminutes: "durationMinutes",
+  duration: "durationMinutes",
+  capacity: "capacity",
+  pricecents: "priceCents",
+  recurrence: "recurrence",
+  rrule: "recurrence",
+  timezone: "timezone",
+};
+
+function parseCsvRows(text: string): ImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  const columns = (header ?? []).map((name) => CSV_COLUMNS[name.toLowerCase().replace(/[\s_-]/g, "")]);
+  if (!columns.includes("title")) {
+    throw new ImportError("The CSV header must include a title column");
+  }
+
+  const rows: ImportRow[] = [];
+  records.forEach((record, index) => {
+    if (record.every((value) => value.trim() === "")) return;
+    const cells: Record<string, string> = {};
+    columns.forEach((column, position) => {
+      const value = record[position]?.trim();
+      if (column && value) cells[column] = value;
+    });
+
+    const { lat, lng, tags, priceCents, recurrence, timezone, ...rest } = cells;
+    const fields: Record<string, unknown> = { ...rest };
+    if (lat && lng) {
+      fields.location = `${lat},${lng}`;
+    }
+    if (tags) {
+      fields.tags = tags.split(/[;|,]/).map((tag) => tag.trim()).filter(Boolean);
+    }
+    if (priceCents) {
+      // Left as text when it is not a number, so the submit rules report it
+      fields.priceCents = Number.isFinite(Number(priceCents)) ? Number(priceCents) : priceCents;
+    }
+    if (recurrence) {
+      fields.recurrence = timezone ? { rrule: recurrence, timezone } : recurrence;
+    }
+    rows.push({ row: index + 2, fields: pickImportFields(fields) });
+  });
+  return checkRowCount(rows);
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseIcsLine(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...value] = part.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function splitTextList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+}
+
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+  return weeks * 10_080 + days * 1_440 + hours * 60 + minutes + seconds / 60;
+}
+
+interface IcsEvent {
+  row: number;
+  properties: IcsProperty[];
+}
+
+/** Every VEVENT's properties; nested components such as VALARM are skipped. */
+function readIcsEvents(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nested = 0;
+
+  for (const line of lines) {
+    const property = parseIcsLine(line);
+    if (!property) continue;
+    const component = property.value.toUpperCase();
+    if (property.name === "BEGIN") {
+      if (component === "VEVENT" && !current) current = [];
+      else if (current) nested++;
+    } else if (property.name === "END") {
+      if (current && nested > 0) nested--;
+      else if (current && component === "VEVENT") {
+        events.push({ row: events.length + 1, properties: current });
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(property);
+    }
+  }
+  if (events.length === 0 && !/^BEGIN:VCALENDAR/im.test(text)) {
+    throw new ImportError("The file is not an iCalendar file");
+  }
+  return events;
+}
+
+function icsDateTime(property: IcsProperty): Date {
+  const timezone = property.params.TZID;
+  if (timezone && !isValidTimeZone(timezone)) {
+    throw new ImportError(`Unknown timezone: ${timezone}`);
+  }
+  const date = parseRfcDateTime(property.value, timezone);
+  if (!date) {
+    throw new ImportError(`Invalid ${property.name} value: ${property.value}`);
+  }
+  return date;
+}
+
+/**
+ * Fields of one VEVENT. GEO wins over LOCATION; a LOCATION that is not a
+ * "lat, lng" pair is kept as an address for geocoding.
+ */
+function icsEventFields(properties: IcsProperty[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const exdates: string[] = [];
+  const tags: string[] = [];
+  let address: string | undefined;
+  let rrule: string | undefined;
+  let timezone: string | undefined;
+
+  for (const property of properties) {
+    switch (property.name) {
+      case "SUMMARY":
+        fields.title = unescapeText(property.value);
+        break;
+      case "DESCRIPTION":
+        fields.description = unescapeText(property.value);
+        break;
+      case "CATEGORIES":
+        tags.push(...splitTextList(property.value));
+        break;
+      case "GEO": {
+        const [lat, lng] = property.value.split(";");
+        fields.location = `${lat},${lng}`;
+        break;
+      }
+      case "LOCATION":
+        address = unescapeText(property.value).trim();
+        break;
+      case "DTSTART":
+        fields.startTime = icsDateTime(property).toISOString();
+        timezone = property.params.TZID;
+        break;
+      case "DTEND":
+        fields.endTime = icsDateTime(property).toISOString();
+        break;
+      case "DURATION": {
+        const minutes = parseIcsDuration(property.value);
+        if (minutes === null) throw new ImportError(`Invalid DURATION value: ${property.value}`);
+        fields.durationMinutes = minutes;
+        break;
+      }
+      case "RRULE":
+        rrule = property.value;
+        break;
+      case "EXDATE":
+        for (const value of property.value.split(",")) {
+          exdates.push(icsDateTime({ ...property, value }).toISOString());
+        }
+        break;
+    }
+  }
+
+  if (tags.length > 0) fields.tags = tags;
+  if (!fields.location && address) {
+    fields[/^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/.test(address) ? "location" : "address"] = address;
+  }
+  if (rrule) {
+    fields.recurrence = {
+      rrule,
+      ...(timezone && { timezone }),
+      ...(exdates.length > 0 && { exdates }),
+    };
+  }
+  return fields;
+}
+
+function icsProperty(properties: IcsProperty[], name: string): IcsProperty | undefined {
+  return properties.find((property) => property.name === name);
+}
+
+/**
+ * One row per VEVENT. Edited occurrences (RECURRENCE-ID) are folded into their
+ * series as overrides, and cancelled ones become exceptions.
+ */
+function parseIcsRows(text: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  const series = new Map<string, ImportRow>();
+  const occurrences: IcsEvent[] = [];
+
+  for (const event of readIcsEvents(text)) {
+    if (icsProperty(event.properties, "RECURRENCE-ID")) {
+      occurrences.push(event);
+      continue;
+    }
+    const row: ImportRow = { row: event.row, fields: {} };
+    try {
+      row.fields = icsEventFields(event.properties);
+    } catch (error) {
+      if (!(error instanceof ImportError)) throw error;
+      row.error = error.message;
+    }
+    const uid = icsProperty(event.properties, "UID")?.value;
+    if (uid && row.fields.recurrence) series.set(uid, row);
+    rows.push(row);
+  }
+
+  for (const event of occurrences) {
+    const uid = icsProperty(event.properties, "UID")?.value;
+    const parent = uid ? series.get(uid) : undefined;
+    if (!parent) {
+      rows.push({ row: event.row, fields: {}, error: "Edited occurrence without its recurring event" });
+      continue;
+    }
+    try {
+      const recurrence = parent.fields.recurrence as { exdates?: string[]; overrides?: Record<string, OccurrenceOverride> };
+      const start = icsDateTime(icsProperty(event.properties, "RECURRENCE-ID")!).toISOString();
+      if (icsProperty(event.properties, "STATUS")?.value.toUpperCase() === "CANCELLED") {
+        recurrence.exdates = [...(recurrence.exdates ?? []), start];
+        continue;
+      }
+      const { title, description, tags, startTime, endTime } = icsEventFields(event.properties);
+      const override = { title, description, tags, startTime, endTime } as OccurrenceOverride;
+      for (const field of Object.keys(override) as (keyof OccurrenceOverride)[]) {
+        if (override[field] === undefined) delete override[field];
+      }
+      recurrence.overrides = { ...recurrence.overrides, [start]: override };
+    } catch (error) {
+      if (!(error instanceof ImportError)) throw error;
+      rows.push({ row: event.row, fields: {}, error: error.message });
+    }
+  }
+
+  return checkRowCount(rows.sort((a, b) => a.row - b.row));
+}
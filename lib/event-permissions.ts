@@ -0,0 +1,69 @@
+import type { Event } from "./types";
+
+/** Fields a creator or moderator may change after a hangout is posted. */
+export const EDITABLE_EVENT_FIELDS = [
+  "title",
+  "description",
+  "tags",
+  "location",
+  "startTime",
+  "endTime",
+  "capacity",
+  "priceCents",
+  "recurrence",
+] as const;
+
+export type EditableEventField = (typeof EDITABLE_EVENT_FIELDS)[number];
+
+export type EventUpdates = Partial<Pick<Event, EditableEventField>>;
+
+/**
+ * Who is changing an event. `isModerator` comes from the tenant moderator
+ * scopes of the signed-in user (see `isTenantModerator`).
+ */
+export interface EventActor {
+  userId: string;
+  isModerator: boolean;
+}
+
+export class EventAccessError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 403) {
+    super(message);
+    this.name = "EventAccessError";
+    this.status = status;
+  }
+}
+
+export function isEventOwner(
+  event: { createdBy?: unknown; creator?: { uid?: unknown } | null },
+  userId: string
+): boolean {
+  return event.createdBy === userId || event.creator?.uid === userId;
+}
+
+/**
+ * Only the creator or a tenant moderator may edit or delete a hangout.
+ */
+export function assertCanModifyEvent(
+  event: { createdBy?: unknown; creator?: { uid?: unknown } | null },
+  actor: EventActor
+): void {
+  if (!actor.isModerator && !isEventOwner(event, actor.userId)) {
+    throw new EventAccessError("Only the creator or a tenant moderator can change this event");
+  }
+}
+
+/**
+ * The editable subset of `updates`. Any other field is rejected rather than
+ * dropped, so callers find out their change did not apply.
+ */
+export function pickEventUpdates(updates: Record<string, unknown>): EventUpdates {
+  const editable = new Set<string>(EDITABLE_EVENT_FIELDS);
+  const rejected = Object.keys(updates).filter((field) => !editable.has(field));
+  if (rejected.length > 0) {
+    throw new EventAccessError(`These fields cannot be edited: ${rejected.join(", ")}`, 400);
+  }
+  return updates as EventUpdates;
+}
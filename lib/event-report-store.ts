@@ -0,0 +1,194 @@
+import { getQueryExecutor, type QueryExecutor } from "./db";
+import type { ReportReason } from "./moderation";
+
+export type ReportStatus = "open" | "dismissed" | "upheld";
+
+export interface EventReport {
+  id: number;
+  eventId: string;
+  tenantId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+/** Open reports of one event, for the moderation queue. */
+export interface ReportedEvent {
+  eventId: string;
+  openReports: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  lastReportedAt: string;
+  reports: EventReport[];
+}
+
+type ReportRow = {
+  id: number | string;
+  event_id: string;
+  tenant_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: Date | string;
+  resolved_at: Date | string | null;
+  resolved_by: string | null;
+};
+
+const REPORT_COLUMNS = `id, event_id, tenant_id, reporter_id, reason, details, status, created_at, resolved_at, resolved_by`;
+const MAX_OPEN_REPORTS_LISTED = 1000;
+
+let reportTableInitialized = false;
+
+async function ensureReportTable(executor: QueryExecutor) {
+  if (reportTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS event_reports (
+      id SERIAL PRIMARY KEY,
+      event_id VARCHAR NOT NULL,
+      tenant_id VARCHAR NOT NULL,
+      reporter_id VARCHAR NOT NULL,
+      reason VARCHAR NOT NULL,
+      details TEXT,
+      status VARCHAR NOT NULL DEFAULT 'open',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ,
+      resolved_by VARCHAR,
+      UNIQUE (event_id, reporter_id)
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_event_reports_tenant_status ON event_reports (tenant_id, status, created_at)`
+  );
+  reportTableInitialized = true;
+}
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toRecord(row: ReportRow): EventReport {
+  return {
+    id: Number(row.id),
+    eventId: row.event_id,
+    tenantId: row.tenant_id,
+    reporterId: row.reporter_id,
+    reason: row.reason,
+    details: row.details,
+    status: row.status,
+    createdAt: toIso(row.created_at),
+    resolvedAt: row.resolved_at === null ? null : toIso(row.resolved_at),
+    resolvedBy: row.resolved_by,
+  };
+}
+
+/**
+ * One report per user and event: reporting again replaces the reason and
+ * reopens a report a moderator already resolved.
+ */
+export async function recordReport({
+  eventId,
+  tenantId,
+  reporterId,
+  reason,
+  details = null,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string | null;
+  now?: Date;
+}): Promise<EventReport> {
+  const executor = getQueryExecutor();
+  await ensureReportTable(executor);
+  const result = await executor.query(
+    `INSERT INTO event_reports (event_id, tenant_id, reporter_id, reason, details, status, created_at)
+     VALUES ($1, $2, $3, $4, $5, 'open', $6)
+     ON CONFLICT (event_id, reporter_id)
+     DO UPDATE SET reason = EXCLUDED.reason, details = EXCLUDED.details, status = 'open',
+                   created_at = EXCLUDED.created_at, resolved_at = NULL, resolved_by = NULL
+     RETURNING ${REPORT_COLUMNS}`,
+    [eventId, tenantId, reporterId, reason, details, now]
+  );
+  return toRecord(result.rows[0] as ReportRow);
+}
+
+export async function countOpenReports(eventId: string): Promise<number> {
+  const executor = getQueryExecutor();
+  await ensureReportTable(executor);
+  const result = await executor.query(
+    `SELECT COUNT(*) AS total FROM event_reports WHERE event_id = $1 AND status = 'open'`,
+    [eventId]
+  );
+  return Number((result.rows[0] as { total: string | number } | undefined)?.total ?? 0);
+}
+
+/**
+ * Events of the tenant with open reports, most reported first.
+ */
+export async function listReportedEvents(tenantId: string, limit: number = 50): Promise<ReportedEvent[]> {
+  const executor = getQueryExecutor();
+  await ensureReportTable(executor);
+  const result = await executor.query(
+    `SELECT ${REPORT_COLUMNS} FROM event_reports
+      WHERE tenant_id = $1 AND status = 'open'
+      ORDER BY created_at DESC, id DESC
+      LIMIT $2`,
+    [tenantId, MAX_OPEN_REPORTS_LISTED]
+  );
+
+  const byEvent = new Map<string, ReportedEvent>();
+  for (const report of (result.rows as ReportRow[]).map(toRecord)) {
+    const entry = byEvent.get(report.eventId) ?? {
+      eventId: report.eventId,
+      openReports: 0,
+      reasons: {},
+      lastReportedAt: report.createdAt,
+      reports: [],
+    };
+    entry.openReports += 1;
+    entry.reasons[report.reason] = (entry.reasons[report.reason] ?? 0) + 1;
+    entry.reports.push(report);
+    byEvent.set(report.eventId, entry);
+  }
+  return [...byEvent.values()]
+    .sort((a, b) => b.openReports - a.openReports || b.lastReportedAt.localeCompare(a.lastReportedAt))
+    .slice(0, limit);
+}
+
+/**
+ * Closes every open report of an event: "upheld" when the event was taken
+ * down, "dismissed" when it stays. Returns how many were closed.
+ */
+export async function resolveReports({
+  eventId,
+  tenantId,
+  status,
+  resolvedBy,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  status: Exclude<ReportStatus, "open">;
+  resolvedBy: string;
+  now?: Date;
+}): Promise<number> {
+  const executor = getQueryExecutor();
+  await ensureReportTable(executor);
+  const result = await executor.query(
+    `UPDATE event_reports SET status = $3, resolved_at = $4, resolved_by = $5
+      WHERE event_id = $1 AND tenant_id = $2 AND status = 'open'
+     RETURNING id`,
+    [eventId, tenantId, status, now, resolvedBy]
+  );
+  return result.rows.length;
+}
+
+export function resetEventReportStoreForTests() {
+  reportTableInitialized = false;
+}
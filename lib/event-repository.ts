@@ -0,0 +1,369 @@
+import { randomUUID } from "crypto";
+import type { QueryExecutor } from "./db";
+import type { EventCursorPosition } from "./pagination-cursor";
+
+/**
+ * Where a hangout sits: live in the feeds, held for review, soft-deleted or
+ * archived after it ended. Firestore keeps each in its own collection.
+ */
+export const EVENT_COLLECTIONS = {
+  live: "hangOuts",
+  pending: "hangOutsPending",
+  trash: "hangOutsTrash",
+  archive: "hangOutsArchive",
+} as const;
+
+export type EventCollection = keyof typeof EVENT_COLLECTIONS;
+
+/** A hangout as stored; `mapHangoutDocument` turns it into an `Event`. */
+export type EventDocument = Record<string, unknown>;
+
+export interface StoredEvent {
+  id: string;
+  data: EventDocument;
+}
+
+/**
+ * Filters on the stored fields. Times compare the stored ISO strings, so
+ * events without `startTime`/`endTime` never match a time filter.
+ */
+export interface EventQuery {
+  tenantId?: string;
+  createdBy?: string;
+  tags?: string[]; // Any of these; only the first 10 are used
+  startsAfter?: Date; // startTime at or after
+  startsBefore?: Date; // startTime at or before
+  endsBefore?: Date; // endTime strictly before
+  ongoingAt?: Date; // Started at or before and not yet ended
+  recurring?: boolean;
+  createdAfter?: Date;
+  deletedBefore?: Date; // Trashed hangouts only
+  geohashRange?: [string, string]; // Inclusive; results are then in geohash order
+  newestFirst?: boolean; // By createdAt, then id, both descending
+  after?: EventCursorPosition; // With newestFirst, resume after this position
+  limit?: number;
+}
+
+/** How the stored fields of a hangout change when it moves collections. */
+export interface EventMove {
+  set?: EventDocument;
+  remove?: string[];
+}
+
+/**
+ * Storage for hangouts. Documents keep their id across collections, and
+ * `create` stamps `createdAt` with the store's clock.
+ */
+export interface EventRepository {
+  get(collection: EventCollection, id: string): Promise<StoredEvent | null>;
+  /** The documents found among `ids`, in no particular order, in one round trip. */
+  getMany(collection: EventCollection, ids: string[]): Promise<StoredEvent[]>;
+  create(collection: EventCollection, data: EventDocument): Promise<string>;
+  /** Sets the given fields and removes those in `remove`; false when there is no such document. */
+  update(collection: EventCollection, id: string, changes: EventDocument, remove?: string[]): Promise<boolean>;
+  /** Atomically moves a document; false when it is not in `from`. */
+  move(id: string, from: EventCollection, to: EventCollection, change?: EventMove): Promise<boolean>;
+  delete(collection: EventCollection, id: string): Promise<void>;
+  find(collection: EventCollection, query?: EventQuery): Promise<StoredEvent[]>;
+}
+
+// Firestore's array-contains-any takes at most 10 values
+export const MAX_TAG_FILTERS = 10;
+
+function moved(data: EventDocument, { set, remove = [] }: EventMove = {}): EventDocument {
+  const next = { ...data, ...set };
+  remove.forEach((field) => delete next[field]);
+  return next;
+}
+
+function createdAtMillis(value: unknown): number {
+  return value instanceof Date ? value.getTime() : 0;
+}
+
+function isoAt(data: EventDocument, field: string): string | undefined {
+  const value = data[field];
+  return typeof value === "string" ? value : undefined;
+}
+
+function matchesQuery(data: EventDocument, query: EventQuery): boolean {
+  const { tenantId, createdBy, tags, startsAfter, startsBefore, endsBefore, ongoingAt } = query;
+  const startTime = isoAt(data, "startTime");
+  const endTime = isoAt(data, "endTime");
+  if (tenantId !== undefined && data.tenantId !== tenantId) return false;
+  if (createdBy !== undefined && data.createdBy !== createdBy) return false;
+  if (tags?.length) {
+    const wanted = new Set(tags.slice(0, MAX_TAG_FILTERS));
+    if (!Array.isArray(data.tags) || !data.tags.some((tag) => wanted.has(tag))) return false;
+  }
+  if (startsAfter && !(startTime !== undefined && startTime >= startsAfter.toISOString())) return false;
+  if (startsBefore && !(startTime !== undefined && startTime <= startsBefore.toISOString())) return false;
+  if (endsBefore && !(endTime !== undefined && endTime < endsBefore.toISOString())) return false;
+  if (ongoingAt) {
+    const at = ongoingAt.toISOString();
+    if (startTime === undefined || endTime === undefined || startTime > at || endTime < at) return false;
+  }
+  if (query.recurring !== undefined && (data.recurring === true) !== query.recurring) return false;
+  if (query.createdAfter && createdAtMillis(data.createdAt) <= query.createdAfter.getTime()) return false;
+  if (query.deletedBefore) {
+    const deletedAt = isoAt(data, "deletedAt");
+    if (deletedAt === undefined || deletedAt >= query.deletedBefore.toISOString()) return false;
+  }
+  if (query.geohashRange) {
+    const geohash = isoAt(data, "geohash");
+    const [start, end] = query.geohashRange;
+    if (geohash === undefined || geohash < start || geohash > end) return false;
+  }
+  return true;
+}
+
+/**
+ * Process-local store for tests and local development without Firebase.
+ * Reads and writes copy the documents, as a remote store would.
+ */
+export class InMemoryEventRepository implements EventRepository {
+  private readonly collections = new Map<EventCollection, Map<string, EventDocument>>();
+
+  private documents(collection: EventCollection): Map<string, EventDocument> {
+    let documents = this.collections.get(collection);
+    if (!documents) {
+      documents = new Map();
+      this.collections.set(collection, documents);
+    }
+    return documents;
+  }
+
+  async get(collection: EventCollection, id: string): Promise<StoredEvent | null> {
+    const data = this.documents(collection).get(id);
+    return data ? { id, data: structuredClone(data) } : null;
+  }
+
+  async getMany(collection: EventCollection, ids: string[]): Promise<StoredEvent[]> {
+    const documents = this.documents(collection);
+    return [...new Set(ids)].flatMap((id) => {
+      const data = documents.get(id);
+      return data ? [{ id, data: structuredClone(data) }] : [];
+    });
+  }
+
+  async create(collection: EventCollection, data: EventDocument): Promise<string> {
+    const id = randomUUID();
+    this.documents(collection).set(id, structuredClone({ ...data, createdAt: new Date() }));
+    return id;
+  }
+
+  async update(collection: EventCollection, id: string, changes: EventDocument, remove?: string[]): Promise<boolean> {
+    const documents = this.documents(collection);
+    const data = documents.get(id);
+    if (!data) return false;
+    documents.set(id, structuredClone(moved(data, { set: changes, remove })));
+    return true;
+  }
+
+  async move(id: string, from: EventCollection, to: EventCollection, change?: EventMove): Promise<boolean> {
+    const data = this.documents(from).get(id);
+    if (!data) return false;
+    this.documents(to).set(id, structuredClone(moved(data, change)));
+    this.documents(from).delete(id);
+    return true;
+  }
+
+  async delete(collection: EventCollection, id: string): Promise<void> {
+    this.documents(collection).delete(id);
+  }
+
+  async find(collection: EventCollection, query: EventQuery = {}): Promise<StoredEvent[]> {
+    let matches = [...this.documents(collection).entries()]
+      .filter(([, data]) => matchesQuery(data, query))
+      .map(([id, data]) => ({ id, data: structuredClone(data) }));
+
+    if (query.geohashRange) {
+      matches.sort((a, b) => String(a.data.geohash).localeCompare(String(b.data.geohash)) || a.id.localeCompare(b.id));
+    } else if (query.newestFirst) {
+      const position = (event: StoredEvent) => ({ createdAt: createdAtMillis(event.data.createdAt), id: event.id });
+      matches.sort((a, b) => position(b).createdAt - position(a).createdAt || position(b).id.localeCompare(position(a).id));
+      const { after } = query;
+      if (after) {
+        matches = matches.filter(({ data, id }) => {
+          const createdAt = createdAtMillis(data.createdAt);
+          return createdAt < after.createdAt || (createdAt === after.createdAt && id < after.id);
+        });
+      }
+    }
+    return query.limit === undefined ? matches : matches.slice(0, query.limit);
+  }
+}
+
+type HangoutRow = {
+  id: string;
+  data: EventDocument | string;
+  created_at: Date | string;
+};
+
+let hangoutTableInitialized = false;
+
+async function ensureHangoutTable(executor: QueryExecutor) {
+  if (hangoutTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS hangouts (
+      id VARCHAR PRIMARY KEY,
+      collection VARCHAR NOT NULL,
+      tenant_id VARCHAR,
+      created_by VARCHAR,
+      tags TEXT[] NOT NULL DEFAULT '{}',
+      geohash VARCHAR,
+      start_time VARCHAR,
+      end_time VARCHAR,
+      recurring BOOLEAN NOT NULL DEFAULT FALSE,
+      deleted_at VARCHAR,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      data JSONB NOT NULL
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_hangouts_tenant_created ON hangouts (collection, tenant_id, created_at)`
+  );
+  await executor.query(`CREATE INDEX IF NOT EXISTS idx_hangouts_geohash ON hangouts (collection, geohash)`);
+  await executor.query(`CREATE INDEX IF NOT EXISTS idx_hangouts_start ON hangouts (collection, start_time)`);
+  hangoutTableInitialized = true;
+}
+
+/** The queried fields get columns of their own; the whole document stays in `data`. */
+function indexedColumns(data: EventDocument): unknown[] {
+  return [
+    typeof data.tenantId === "string" ? data.tenantId : null,
+    typeof data.createdBy === "string" ? data.createdBy : null,
+    Array.isArray(data.tags) ? data.tags.filter((tag) => typeof tag === "string") : [],
+    isoAt(data, "geohash") ?? null,
+    isoAt(data, "startTime") ?? null,
+    isoAt(data, "endTime") ?? null,
+    data.recurring === true,
+    isoAt(data, "deletedAt") ?? null,
+  ];
+}
+
+function serializeData(data: EventDocument): string {
+  const stored = { ...data };
+  delete stored.createdAt;
+  return JSON.stringify(stored);
+}
+
+function toStoredEvent(row: HangoutRow): StoredEvent {
+  const data = typeof row.data === "string" ? (JSON.parse(row.data) as EventDocument) : { ...row.data };
+  return { id: row.id, data: { ...data, createdAt: new Date(row.created_at) } };
+}
+
+/**
+ * Hangouts in one Postgres table, with a `collection` column in place of
+ * Firestore's collections.
+ */
+export class PostgresEventRepository implements EventRepository {
+  constructor(private readonly executor: QueryExecutor) {}
+
+  private async write(id: string, from: EventCollection, to: EventCollection, data: EventDocument): Promise<boolean> {
+    const result = await this.executor.query(
+      `UPDATE hangouts
+          SET collection = $3, tenant_id = $4, created_by = $5, tags = $6, geohash = $7,
+              start_time = $8, end_time = $9, recurring = $10, deleted_at = $11, data = $12
+        WHERE id = $1 AND collection = $2
+        RETURNING id`,
+      [id, from, to, ...indexedColumns(data), serializeData(data)]
+    );
+    return result.rows.length > 0;
+  }
+
+  async get(collection: EventCollection, id: string): Promise<StoredEvent | null> {
+    await ensureHangoutTable(this.executor);
+    const result = await this.executor.query(
+      `SELECT id, data, created_at FROM hangouts WHERE id = $1 AND collection = $2`,
+      [id, collection]
+    );
+    const row = result.rows[0] as HangoutRow | undefined;
+    return row ? toStoredEvent(row) : null;
+  }
+
+  async getMany(collection: EventCollection, ids: string[]): Promise<StoredEvent[]> {
+    if (ids.length === 0) return [];
+    await ensureHangoutTable(this.executor);
+    const unique = [...new Set(ids)];
+    const placeholders = unique.map((_, index) => `$${index + 2}`).join(", ");
+    const result = await this.executor.query(
+      `SELECT id, data, created_at FROM hangouts WHERE collection = $1 AND id IN (${placeholders})`,
+      [collection, ...unique]
+    );
+    return (result.rows as HangoutRow[]).map(toStoredEvent);
+  }
+
+  async create(collection: EventCollection, data: EventDocument): Promise<string> {
+    await ensureHangoutTable(this.executor);
+    const id = randomUUID();
+    await this.executor.query(
+      `INSERT INTO hangouts (id, collection, tenant_id, created_by, tags, geohash, start_time, end_time, recurring, deleted_at, data, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [id, collection, ...indexedColumns(data), serializeData(data), new Date()]
+    );
+    return id;
+  }
+
+  async update(collection: EventCollection, id: string, changes: EventDocument, remove?: string[]): Promise<boolean> {
+    const stored = await this.get(collection, id);
+    return stored ? this.write(id, collection, collection, moved(stored.data, { set: changes, remove })) : false;
+  }
+
+  async move(id: string, from: EventCollection, to: EventCollection, change?: EventMove): Promise<boolean> {
+    const stored = await this.get(from, id);
+    return stored ? this.write(id, from, to, moved(stored.data, change)) : false;
+  }
+
+  async delete(collection: EventCollection, id: string): Promise<void> {
+    await ensureHangoutTable(this.executor);
+    await this.executor.query(`DELETE FROM hangouts WHERE id = $1 AND collection = $2`, [id, collection]);
+  }
+
+  async find(collection: EventCollection, query: EventQuery = {}): Promise<StoredEvent[]> {
+    await ensureHangoutTable(this.executor);
+    const params: unknown[] = [collection];
+    const conditions = ["collection = $1"];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (query.tenantId !== undefined) conditions.push(`tenant_id = ${param(query.tenantId)}`);
+    if (query.createdBy !== undefined) conditions.push(`created_by = ${param(query.createdBy)}`);
+    if (query.tags?.length) conditions.push(`tags && ${param(query.tags.slice(0, MAX_TAG_FILTERS))}::text[]`);
+    if (query.startsAfter) conditions.push(`start_time >= ${param(query.startsAfter.toISOString())}`);
+    if (query.startsBefore) conditions.push(`start_time <= ${param(query.startsBefore.toISOString())}`);
+    if (query.endsBefore) conditions.push(`end_time < ${param(query.endsBefore.toISOString())}`);
+    if (query.ongoingAt) {
+      const at = param(query.ongoingAt.toISOString());
+      conditions.push(`start_time <= ${at} AND end_time >= ${at}`);
+    }
+    if (query.recurring !== undefined) conditions.push(`recurring = ${param(query.recurring)}`);
+    if (query.createdAfter) conditions.push(`created_at > ${param(query.createdAfter)}`);
+    if (query.deletedBefore) conditions.push(`deleted_at < ${param(query.deletedBefore.toISOString())}`);
+
+    let order = "";
+    if (query.geohashRange) {
+      const [start, end] = query.geohashRange;
+      conditions.push(`geohash >= ${param(start)} AND geohash <= ${param(end)}`);
+      order = "ORDER BY geohash ASC, id ASC";
+    } else if (query.newestFirst) {
+      if (query.after) {
+        const createdAt = param(new Date(query.after.createdAt));
+        conditions.push(`(created_at < ${createdAt} OR (created_at = ${createdAt} AND id < ${param(query.after.id)}))`);
+      }
+      order = "ORDER BY created_at DESC, id DESC";
+    }
+    const limit = query.limit === undefined ? "" : `LIMIT ${param(query.limit)}`;
+
+    const result = await this.executor.query(
+      `SELECT id, data, created_at FROM hangouts WHERE ${conditions.join(" AND ")} ${order} ${limit}`,
+      params
+    );
+    return (result.rows as HangoutRow[]).map(toStoredEvent);
+  }
+}
+
+export function resetEventRepositoryForTests() {
+  hangoutTableInitialized = false;
+}
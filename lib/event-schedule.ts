@@ -0,0 +1,134 @@
+/** Assumed length of a hangout that only has a start time. */
+export const DEFAULT_EVENT_DURATION_MINUTES = 120;
+const MAX_EVENT_DURATION_MINUTES = 14 * 24 * 60;
+
+export class EventScheduleError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "EventScheduleError";
+    this.status = 400;
+  }
+}
+
+export interface EventSchedule {
+  startTime?: string;
+  endTime?: string;
+}
+
+/**
+ * ISO string or epoch milliseconds; null when missing or unparseable.
+ */
+export function parseTimeBoundary(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return null;
+  }
+  const trimmed = value.trim();
+  const date = /^\d+$/.test(trimmed) ? new Date(Number(trimmed)) : new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Normalized start/end (UTC ISO strings, which also sort correctly in
+ * Firestore). The end comes from `endTime`, else `durationMinutes`, else the
+ * default duration; events without a start have no end either.
+ */
+export function resolveEventSchedule({
+  startTime,
+  endTime,
+  durationMinutes,
+}: {
+  startTime?: unknown;
+  endTime?: unknown;
+  durationMinutes?: unknown;
+}): EventSchedule {
+  const hasValue = (value: unknown) => value !== undefined && value !== null && value !== "";
+  const start = parseTimeBoundary(startTime);
+  if (hasValue(startTime) && !start) {
+    throw new EventScheduleError("startTime must be an ISO date or epoch milliseconds");
+  }
+
+  if (!start) {
+    if (hasValue(endTime) || hasValue(durationMinutes)) {
+      throw new EventScheduleError("endTime and durationMinutes require a startTime");
+    }
+    return {};
+  }
+
+  let end: Date;
+  if (hasValue(endTime)) {
+    const parsedEnd = parseTimeBoundary(endTime);
+    if (!parsedEnd) {
+      throw new EventScheduleError("endTime must be an ISO date or epoch milliseconds");
+    }
+    end = parsedEnd;
+  } else if (hasValue(durationMinutes)) {
+    const minutes = Number(durationMinutes);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      throw new EventScheduleError("durationMinutes must be a positive number");
+    }
+    end = new Date(start.getTime() + minutes * 60_000);
+  } else {
+    end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60_000);
+  }
+
+  if (end.getTime() <= start.getTime()) {
+    throw new EventScheduleError("endTime must be after startTime");
+  }
+  if (end.getTime() - start.getTime() > MAX_EVENT_DURATION_MINUTES * 60_000) {
+    throw new EventScheduleError("Events can last at most 14 days");
+  }
+
+  return { startTime: start.toISOString(), endTime: end.toISOString() };
+}
+
+export interface TimeWindow {
+  startsAfter?: Date;
+  startsBefore?: Date;
+  happeningNow?: boolean;
+}
+
+/**
+ * Stored `endTime`, else `startTime` plus the default duration. Events without
+ * a start never end.
+ */
+export function getEffectiveEndTime(event: EventSchedule): Date | null {
+  const end = parseTimeBoundary(event.endTime);
+  if (end) return end;
+  const start = parseTimeBoundary(event.startTime);
+  return start ? new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60_000) : null;
+}
+
+export function hasEnded(event: EventSchedule, now: Date = new Date()): boolean {
+  const end = getEffectiveEndTime(event);
+  return end !== null && end.getTime() < now.getTime();
+}
+
+/**
+ * In-memory equivalent of the Firestore time-window filters: an active window
+ * excludes events without a start time.
+ */
+export function matchesTimeWindow(
+  event: EventSchedule,
+  { startsAfter, startsBefore, happeningNow }: TimeWindow,
+  now: Date = new Date()
+): boolean {
+  if (!startsAfter && !startsBefore && !happeningNow) return true;
+  const start = parseTimeBoundary(event.startTime);
+  if (!start) return false;
+  if (startsAfter && start.getTime() < startsAfter.getTime()) return false;
+  if (startsBefore && start.getTime() > startsBefore.getTime()) return false;
+  if (happeningNow) {
+    const end = getEffectiveEndTime(event);
+    if (start.getTime() > now.getTime() || !end || end.getTime() < now.getTime()) return false;
+  }
+  return true;
+}
@@ -0,0 +1,87 @@
+import { getQueryExecutor, type QueryExecutor } from "./db";
+import { rankSearchDocuments, type SearchDocument, type SearchHit } from "./event-search";
+
+type SearchDocumentRow = {
+  event_id: string;
+  tenant_id: string;
+  title: string;
+  description: string;
+  tags: string[] | null;
+  creator_name: string | null;
+};
+
+// Documents scored per search; a tenant's most recently indexed hangouts win beyond this
+const MAX_SEARCH_CANDIDATES = 5000;
+
+let searchTableInitialized = false;
+
+async function ensureSearchTable(executor: QueryExecutor) {
+  if (searchTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS event_search_documents (
+      event_id VARCHAR PRIMARY KEY,
+      tenant_id VARCHAR NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      tags TEXT[] NOT NULL DEFAULT '{}',
+      creator_name VARCHAR,
+      indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_event_search_documents_tenant ON event_search_documents (tenant_id, indexed_at)`
+  );
+  searchTableInitialized = true;
+}
+
+function toDocument(row: SearchDocumentRow): SearchDocument {
+  return {
+    eventId: row.event_id,
+    tenantId: row.tenant_id,
+    title: row.title,
+    description: row.description,
+    tags: row.tags ?? [],
+    creatorName: row.creator_name,
+  };
+}
+
+/** Adds a live hangout to the index, or replaces its entry. */
+export async function indexSearchDocument(document: SearchDocument, now: Date = new Date()): Promise<void> {
+  const executor = getQueryExecutor();
+  await ensureSearchTable(executor);
+  await executor.query(
+    `INSERT INTO event_search_documents (event_id, tenant_id, title, description, tags, creator_name, indexed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (event_id)
+     DO UPDATE SET tenant_id = EXCLUDED.tenant_id, title = EXCLUDED.title, description = EXCLUDED.description,
+                   tags = EXCLUDED.tags, creator_name = EXCLUDED.creator_name, indexed_at = EXCLUDED.indexed_at`,
+    [document.eventId, document.tenantId, document.title, document.description, document.tags, document.creatorName, now]
+  );
+}
+
+export async function removeSearchDocument(eventId: string): Promise<void> {
+  const executor = getQueryExecutor();
+  await ensureSearchTable(executor);
+  await executor.query(`DELETE FROM event_search_documents WHERE event_id = $1`, [eventId]);
+}
+
+/**
+ * The tenant's hangouts matching `query`, best first. Candidates are scored
+ * in process, so typos are forgiven without a database extension.
+ */
+export async function searchEventIndex(tenantId: string, query: string, limit: number = 100): Promise<SearchHit[]> {
+  const executor = getQueryExecutor();
+  await ensureSearchTable(executor);
+  const result = await executor.query(
+    `SELECT event_id, tenant_id, title, description, tags, creator_name FROM event_search_documents
+      WHERE tenant_id = $1
+      ORDER BY indexed_at DESC
+      LIMIT $2`,
+    [tenantId, MAX_SEARCH_CANDIDATES]
+  );
+  return rankSearchDocuments(query, (result.rows as SearchDocumentRow[]).map(toDocument)).slice(0, limit);
+}
+
+export function resetEventSearchStoreForTests() {
+  searchTableInitialized = false;
+}
@@ -0,0 +1,134 @@
+import type { Event } from "./types";
+
+/** The searchable text of a hangout, as kept in the search index. */
+export interface SearchDocument {
+  eventId: string;
+  tenantId: string;
+  title: string;
+  description: string;
+  tags: string[];
+  creatorName: string | null;
+}
+
+export interface SearchHit {
+  eventId: string;
+  score: number;
+}
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Title matches count most, then tags, the host's name and the description
+const FIELD_WEIGHTS = { title: 3, tags: 2, creatorName: 1.5, description: 1 } as const;
+const PREFIX_MATCH = 0.8;
+const TYPO_PENALTY = 0.25;
+const PHRASE_BONUS = 2;
+const STOP_WORDS = new Set(["a", "an", "and", "at", "by", "for", "in", "of", "on", "or", "the", "to", "with"]);
+
+/** Lower case without accents, so "Café" and "cafe" are one word. */
+function foldText(value: string): string {
+  return value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/** Words of at least two letters or any number, without stop words. */
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => (token.length > 1 || /^\p{N}$/u.test(token)) && !STOP_WORDS.has(token));
+}
+
+/** Typos tolerated in a query word: none for short words, one up to 8 letters, two beyond. */
+export function maxTypos(token: string): number {
+  return token.length <= 4 ? 0 : token.length <= 8 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (an adjacent swap is one edit), or
+ * `max + 1` as soon as the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number = Number.POSITIVE_INFINITY): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+/** 1 for the same word, less for a prefix or a near miss, 0 for no match. */
+function matchQuality(queryToken: string, token: string): number {
+  if (token === queryToken) return 1;
+  if (queryToken.length >= 3 && token.startsWith(queryToken)) return PREFIX_MATCH;
+  const typos = maxTypos(queryToken);
+  if (typos === 0) return 0;
+  const distance = editDistance(queryToken, token, typos);
+  return distance <= typos ? 1 - TYPO_PENALTY * distance : 0;
+}
+
+/**
+ * Relevance of a hangout to a search: every query word has to match a word of
+ * some field, exactly, as a prefix or with a few typos. Scores add up the best
+ * weighted match of each query word, plus a bonus when the title contains the
+ * whole query. 0 means no match.
+ */
+export function scoreSearchDocument(query: string, document: SearchDocument): number {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return 0;
+
+  const fields = (Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]).map((field) => {
+    const value = document[field];
+    return {
+      weight: FIELD_WEIGHTS[field],
+      tokens: tokenize(Array.isArray(value) ? value.join(" ") : (value ?? "")),
+    };
+  });
+
+  let score = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    for (const { weight, tokens } of fields) {
+      for (const token of tokens) {
+        best = Math.max(best, weight * matchQuality(queryToken, token));
+      }
+    }
+    if (best === 0) return 0;
+    score += best;
+  }
+
+  if (queryTokens.length > 1 && tokenize(document.title).join(" ").includes(queryTokens.join(" "))) {
+    score += PHRASE_BONUS;
+  }
+  return Math.round(score * 1000) / 1000;
+}
+
+/** Matching documents, best first (ties by event id). */
+export function rankSearchDocuments(query: string, documents: SearchDocument[]): SearchHit[] {
+  return documents
+    .map((document) => ({ eventId: document.eventId, score: scoreSearchDocument(query, document) }))
+    .filter((hit) => hit.score > 0)
+    .sort((a, b) => b.score - a.score || a.eventId.localeCompare(b.eventId));
+}
+
+export function toSearchDocument(event: Event & { id: string; tenantId: string }): SearchDocument {
+  return {
+    eventId: event.id,
+    tenantId: event.tenantId,
+    title: event.title,
+    description: event.description,
+    tags: event.tags,
+    creatorName: event.creator?.name ?? null,
+  };
+}
@@ -2,6 +2,7 @@ import { mockEventbrite, MockEventbriteEvent } from "@/lib/mockData/mockEventbri
 import { mockFoursquare, MockFoursquareVenue } from "@/lib/mockData/mockFoursquare";
 import { mockGooglePlaces, MockGooglePlace } from "@/lib/mockData/mockGooglePlaces";
 import { mockOpenWeather, MockOpenWeatherReport } from "@/lib/mockData/mockOpenWeather";
+import { defaultTagTaxonomy, type TagTaxonomy } from "@/lib/tag-taxonomy";
 
 export interface SpontaneousLocation {
   lat: number;
@@ -14,6 +15,7 @@ export interface SpontaneousQuery {
   radius?: number;
   preferences?: string[];
   requestedAt?: string;
+  taxonomy?: TagTaxonomy; // Resolves synonyms in preferences and tags; the built-in vocabulary by default
 }
 
 export type SpontaneousCategory = "event" | "venue" | "place" | "weather";
@@ -69,15 +71,16 @@ function matchesMood(candidateMoods: string[] | undefined, targetMood?: string)
   return candidateMoods.some((mood) => normalizePreference(mood) === normalizedMood);
 }
 
-function matchesPreferences(candidateTags: string[] | undefined, preferences?: string[]) {
+// "concert" finds a "live music" listing, and "nightlife" anything tagged "cocktails"
+function matchesPreferences(candidateTags: string[] | undefined, query: SpontaneousQuery) {
+  const { preferences, taxonomy = defaultTagTaxonomy } = query;
   if (!preferences || preferences.length === 0) {
     return true;
   }
   if (!candidateTags || candidateTags.length === 0) {
     return false;
   }
-  const normalizedTags = new Set(candidateTags.map(normalizePreference));
-  return preferences.some((preference) => normalizedTags.has(normalizePreference(preference)));
+  return taxonomy.matchesPreferences(candidateTags, preferences);
 }
 
 function withinRadius(candidateLocation: SpontaneousLocation | undefined, query: SpontaneousQuery) {
@@ -173,7 +176,7 @@ async function fetchMockEventbrite(query: SpontaneousQuery) {
   const filtered = mockEventbrite.filter(
     (event) =>
       matchesMood(event.moods, query.mood) &&
-      matchesPreferences(event.tags, query.preferences) &&
+      matchesPreferences(event.tags, query) &&
       withinRadius(event.location, query),
   );
   const candidates = filtered.length > 0 ? filtered : mockEventbrite;
@@ -185,7 +188,7 @@ async function fetchMockFoursquare(query: SpontaneousQuery) {
   const filtered = mockFoursquare.filter(
     (venue) =>
       matchesMood(venue.moods, query.mood) &&
-      matchesPreferences(venue.tags, query.preferences) &&
+      matchesPreferences(venue.tags, query) &&
       withinRadius(venue.location, query),
   );
   const candidates = filtered.length > 0 ? filtered : mockFoursquare;
@@ -197,7 +200,7 @@ async function fetchMockGooglePlaces(query: SpontaneousQuery) {
   const filtered = mockGooglePlaces.filter(
     (place) =>
       matchesMood(place.moods, query.mood) &&
-      matchesPreferences(place.tags, query.preferences) &&
+      matchesPreferences(place.tags, query) &&
       withinRadius(place.location, query),
   );
   const candidates = filtered.length > 0 ? filtered : mockGooglePlaces;
@@ -209,7 +212,7 @@ async function fetchMockOpenWeather(query: SpontaneousQuery) {
   const filtered = mockOpenWeather.filter(
     (report) =>
       matchesMood(report.moods, query.mood) &&
-      matchesPreferences(report.tags, query.preferences) &&
+      matchesPreferences(report.tags, query) &&
       withinRadius(report.location, query),
   );
   const candidates = filtered.length > 0 ? filtered : mockOpenWeather;
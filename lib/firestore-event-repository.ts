@@ -0,0 +1,109 @@
+import { FieldPath, FieldValue, Timestamp } from "firebase-admin/firestore";
+import {
+  EVENT_COLLECTIONS,
+  MAX_TAG_FILTERS,
+  type EventCollection,
+  type EventDocument,
+  type EventMove,
+  type EventQuery,
+  type EventRepository,
+  type StoredEvent,
+} from "./event-repository";
+
+// gRPC status Firestore reports when updating a missing document
+const NOT_FOUND = 5;
+
+/**
+ * Hangouts in Firestore through the Admin SDK, one collection per
+ * `EventCollection`. Queries combining range filters on several fields need
+ * the composite indexes in the Firebase console.
+ */
+export class FirestoreEventRepository implements EventRepository {
+  constructor(private readonly db: FirebaseFirestore.Firestore) {}
+
+  private collection(collection: EventCollection) {
+    return this.db.collection(EVENT_COLLECTIONS[collection]);
+  }
+
+  async get(collection: EventCollection, id: string): Promise<StoredEvent | null> {
+    const snapshot = await this.collection(collection).doc(id).get();
+    const data = snapshot.data();
+    return data ? { id: snapshot.id, data } : null;
+  }
+
+  async getMany(collection: EventCollection, ids: string[]): Promise<StoredEvent[]> {
+    if (ids.length === 0) return [];
+    const snapshots = await this.db.getAll(...[...new Set(ids)].map((id) => this.collection(collection).doc(id)));
+    return snapshots.flatMap((snapshot) => {
+      const data = snapshot.data();
+      return data ? [{ id: snapshot.id, data }] : [];
+    });
+  }
+
+  async create(collection: EventCollection, data: EventDocument): Promise<string> {
+    const ref = await this.collection(collection).add({ ...data, createdAt: FieldValue.serverTimestamp() });
+    return ref.id;
+  }
+
+  async update(collection: EventCollection, id: string, changes: EventDocument, remove: string[] = []): Promise<boolean> {
+    try {
+      await this.collection(collection)
+        .doc(id)
+        .update({ ...changes, ...Object.fromEntries(remove.map((field) => [field, FieldValue.delete()])) });
+      return true;
+    } catch (error) {
+      if ((error as { code?: unknown }).code === NOT_FOUND) return false;
+      throw error;
+    }
+  }
+
+  async move(id: string, from: EventCollection, to: EventCollection, { set, remove = [] }: EventMove = {}) {
+    const source = this.collection(from).doc(id);
+    return this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(source);
+      const data = snapshot.data();
+      if (!data) return false;
+      const next: EventDocument = { ...data, ...set };
+      remove.forEach((field) => delete next[field]);
+      transaction.set(this.collection(to).doc(id), next);
+      transaction.delete(source);
+      return true;
+    });
+  }
+
+  async delete(collection: EventCollection, id: string): Promise<void> {
+    await this.collection(collection).doc(id).delete();
+  }
+
+  async find(collection: EventCollection, query: EventQuery = {}): Promise<StoredEvent[]> {
+    let q: FirebaseFirestore.Query = this.collection(collection);
+
+    if (query.tenantId !== undefined) q = q.where("tenantId", "==", query.tenantId);
+    if (query.createdBy !== undefined) q = q.where("createdBy", "==", query.createdBy);
+    if (query.tags?.length) q = q.where("tags", "array-contains-any", query.tags.slice(0, MAX_TAG_FILTERS));
+    if (query.startsAfter) q = q.where("startTime", ">=", query.startsAfter.toISOString());
+    if (query.startsBefore) q = q.where("startTime", "<=", query.startsBefore.toISOString());
+    if (query.endsBefore) q = q.where("endTime", "<", query.endsBefore.toISOString());
+    if (query.ongoingAt) {
+      const at = query.ongoingAt.toISOString();
+      q = q.where("startTime", "<=", at).where("endTime", ">=", at);
+    }
+    if (query.recurring !== undefined) q = q.where("recurring", "==", query.recurring);
+    if (query.createdAfter) q = q.where("createdAt", ">", Timestamp.fromDate(query.createdAfter));
+    if (query.deletedBefore) q = q.where("deletedAt", "<", query.deletedBefore.toISOString());
+
+    if (query.geohashRange) {
+      const [start, end] = query.geohashRange;
+      q = q.orderBy("geohash").startAt(start).endAt(end);
+    } else if (query.newestFirst) {
+      q = q.orderBy("createdAt", "desc").orderBy(FieldPath.documentId(), "desc");
+      if (query.after) {
+        q = q.startAfter(Timestamp.fromMillis(query.after.createdAt), query.after.id);
+      }
+    }
+    if (query.limit !== undefined) q = q.limit(query.limit);
+
+    const snapshot = await q.get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() }));
+  }
+}
@@ -0,0 +1,104 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+/** Precision stored on events: ~4.8m x 4.8m cells. */
+export const GEOHASH_PRECISION = 9;
+
+/**
+ * Standard base32 geohash, interleaving longitude and latitude bits.
+ */
+export function encodeGeohash({ lat, lng }: GeoPoint, precision: number = GEOHASH_PRECISION): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const coordinate = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (coordinate >= mid) {
+      value = value * 2 + 1;
+      range[0] = mid;
+    } else {
+      value *= 2;
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function haversineDistanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function cellSizeDegrees(precision: number): { lat: number; lng: number } {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return { lat: 180 / 2 ** latBits, lng: 360 / 2 ** lngBits };
+}
+
+function normalizeLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Geohash prefix ranges (`[start, end]`, inclusive) that together cover the
+ * bounding box of a circle. Uses the finest precision whose cells are at least
+ * as large as the box, so the box touches at most 2x2 cells and its corners
+ * identify all of them. Results still need an exact distance check.
+ */
+export function geohashQueryBounds(center: GeoPoint, radiusKm: number): Array<[string, string]> {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const cosLat = Math.cos((center.lat * Math.PI) / 180);
+  const lngDelta = cosLat > 0.000001 ? Math.min(180, radiusKm / (KM_PER_DEGREE_LAT * cosLat)) : 180;
+
+  let precision = 0;
+  while (precision < GEOHASH_PRECISION) {
+    const cell = cellSizeDegrees(precision + 1);
+    if (cell.lat < latDelta * 2 || cell.lng < lngDelta * 2) break;
+    precision += 1;
+  }
+
+  if (precision === 0) {
+    return [["", "~"]];
+  }
+
+  const minLat = Math.max(-90, center.lat - latDelta);
+  const maxLat = Math.min(90, center.lat + latDelta);
+  const corners: GeoPoint[] = [
+    { lat: minLat, lng: center.lng - lngDelta },
+    { lat: minLat, lng: center.lng + lngDelta },
+    { lat: maxLat, lng: center.lng - lngDelta },
+    { lat: maxLat, lng: center.lng + lngDelta },
+  ];
+
+  const prefixes = new Set(
+    corners.map((corner) =>
+      encodeGeohash({ lat: Math.min(corner.lat, 89.999999), lng: normalizeLongitude(corner.lng) }, precision)
+    )
+  );
+  return [...prefixes].sort().map((prefix) => [prefix, `${prefix}~`]);
+}
@@ -1,8 +1,9 @@
-import type { Timestamp } from "firebase/firestore";
-import type { Event } from "./types";
+import type { Event, EventCreator } from "./types";
+import { readRecurrence } from "./recurrence";
 
-type SupportedTimestamp = Timestamp | Date | string | null | undefined | {
-  toDate: () => Date;
+type TimestampLike = {
+  toDate?: () => Date;
+  seconds?: number;
 };
 
 interface HangoutDocData {
@@ -11,8 +12,15 @@ interface HangoutDocData {
   tags?: unknown;
   location?: unknown;
   createdBy?: unknown;
-  createdAt?: SupportedTimestamp;
-  startTime?: SupportedTimestamp;
+  createdAt?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
+  capacity?: unknown;
+  attendeeCount?: unknown;
+  maybeCount?: unknown;
+  waitlistCount?: unknown;
+  priceCents?: unknown;
+  recurrence?: unknown;
   source?: unknown;
   tenantId?: unknown;
   consentGiven?: unknown;
@@ -30,36 +38,58 @@ interface HangoutDocData {
   name?: unknown;
 }
 
+export const DEFAULT_AVATAR = "/default-profile.png";
 const DEFAULT_LOCATION = { lat: 0, lng: 0 };
 
-function resolveCreatedAt(createdAt: SupportedTimestamp): Date {
-  if (!createdAt) {
-    return new Date();
+export function sanitizeString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
   }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
 
-  if (typeof createdAt === "string") {
-    const parsed = new Date(createdAt);
-    if (!Number.isNaN(parsed.valueOf())) {
-      return parsed;
-    }
+/** A Firestore timestamp (either SDK), Date or date string; null when unreadable. */
+function readTimestamp(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.valueOf()) ? null : value;
   }
 
-  if (createdAt instanceof Date) {
-    return createdAt;
+  if (typeof value === "string") {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.valueOf()) ? null : parsed;
   }
 
-  if (typeof createdAt === "object" && "toDate" in createdAt && typeof createdAt.toDate === "function") {
-    try {
-      const date = createdAt.toDate();
-      if (date instanceof Date && !Number.isNaN(date.valueOf())) {
-        return date;
+  if (value && typeof value === "object") {
+    const timestamp = value as TimestampLike;
+    if (typeof timestamp.toDate === "function") {
+      try {
+        const date = timestamp.toDate();
+        if (date instanceof Date && !Number.isNaN(date.valueOf())) {
+          return date;
+        }
+      } catch (error) {
+        console.warn("Failed to convert Firestore timestamp via toDate:", error);
       }
-    } catch (error) {
-      console.warn("Failed to convert Firestore timestamp via toDate:", error);
     }
+    if (typeof timestamp.seconds === "number") {
+      return new Date(timestamp.seconds * 1000);
+    }
+  }
+
+  return null;
+}
+
+/** Stored ISO strings are kept as written; timestamps become ISO strings. */
+function readIsoTime(value: unknown): string | undefined {
+  if (typeof value === "string") {
+    return value.trim().length > 0 ? value : undefined;
   }
+  return value ? readTimestamp(value)?.toISOString() : undefined;
+}
 
-  return new Date();
+function normalizeCount(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : undefined;
 }
 
 function normalizeLocation(location: unknown) {
@@ -76,56 +106,51 @@ function normalizeLocation(location: unknown) {
   return DEFAULT_LOCATION;
 }
 
+/**
+ * The one mapping from a stored hangout (any event store, or a Firestore
+ * snapshot on the client) to an `Event`. Missing or malformed fields fall back
+ * to safe defaults rather than failing the whole feed.
+ */
 export function mapHangoutDocument(docData: HangoutDocData = {}, docId: string): Event {
-  const sanitizeString = (value: unknown): string | undefined => {
-    if (typeof value !== "string") {
-      return undefined;
-    }
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : undefined;
+  const createdBy = sanitizeString(docData.createdBy) || sanitizeString(docData.creator?.uid) || "unknown";
+  const creator: EventCreator = {
+    uid: sanitizeString(docData.creator?.uid) || createdBy,
+    name:
+      sanitizeString(docData.creator?.name) ||
+      sanitizeString(docData.creatorName) ||
+      sanitizeString(docData.createdByName) ||
+      sanitizeString(docData.displayName) ||
+      sanitizeString(docData.name) ||
+      "Anonymous",
+    profileImageUrl:
+      sanitizeString(docData.creator?.profileImageUrl) ||
+      sanitizeString(docData.creatorProfileImageUrl) ||
+      sanitizeString(docData.profileImageUrl) ||
+      DEFAULT_AVATAR,
   };
 
-  const DEFAULT_AVATAR = "/default-profile.png";
-  const creatorUid =
-    sanitizeString(docData.creator?.uid) ||
-    sanitizeString(docData.createdBy) ||
-    "unknown";
-  const creatorName =
-    sanitizeString(docData.creator?.name) ||
-    sanitizeString(docData.creatorName) ||
-    sanitizeString(docData.createdByName) ||
-    sanitizeString(docData.displayName) ||
-    sanitizeString(docData.name) ||
-    (creatorUid !== "unknown" && !creatorUid.startsWith("AI-") ? creatorUid : undefined) ||
-    "Anonymous";
-  const creatorProfileImageUrl =
-    sanitizeString(docData.creator?.profileImageUrl) ||
-    sanitizeString(docData.creatorProfileImageUrl) ||
-    sanitizeString(docData.profileImageUrl) ||
-    DEFAULT_AVATAR;
-
-  const resolvedStartTime = docData.startTime
-    ? resolveCreatedAt(docData.startTime).toISOString()
-    : undefined;
-
   return {
     id: docId,
-    title: typeof docData.title === "string" ? docData.title : "",
-    description: typeof docData.description === "string" ? docData.description : "",
-    tags: Array.isArray(docData.tags) ? (docData.tags as string[]) : [],
+    title: sanitizeString(docData.title) || "",
+    description: sanitizeString(docData.description) || "",
+    tags: Array.isArray(docData.tags)
+      ? docData.tags.filter((tag): tag is string => typeof tag === "string" && tag.trim().length > 0)
+      : [],
     location: normalizeLocation(docData.location),
-    createdBy: typeof docData.createdBy === "string" ? docData.createdBy : creatorUid,
-    createdAt: resolveCreatedAt(docData.createdAt),
+    createdBy,
+    createdAt: readTimestamp(docData.createdAt) ?? new Date(),
     source: docData.source === "AI" ? "AI" : "User",
-    tenantId: typeof docData.tenantId === "string" ? docData.tenantId : undefined,
+    tenantId: sanitizeString(docData.tenantId),
     consentGiven: typeof docData.consentGiven === "boolean" ? docData.consentGiven : true,
-    anonymizedUserId: typeof docData.anonymizedUserId === "string" ? docData.anonymizedUserId : undefined,
-    creator: {
-      uid: creatorUid,
-      name: creatorName,
-      profileImageUrl: creatorProfileImageUrl,
-    },
-    startTime: resolvedStartTime,
+    anonymizedUserId: sanitizeString(docData.anonymizedUserId),
+    creator,
+    startTime: readIsoTime(docData.startTime),
+    endTime: readIsoTime(docData.endTime),
+    capacity: normalizeCount(docData.capacity),
+    attendeeCount: normalizeCount(docData.attendeeCount),
+    maybeCount: normalizeCount(docData.maybeCount),
+    waitlistCount: normalizeCount(docData.waitlistCount),
+    priceCents: normalizeCount(docData.priceCents),
+    recurrence: readRecurrence(docData.recurrence),
   };
 }
-
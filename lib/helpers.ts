@@ -24,56 +24,30 @@ export const formatDateTime = (ts: number | Timestamp | Date) => {
   return date.toLocaleString();
 };
 
-// Validation helpers
-export const validateEventData = (data: any): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-
-  if (!data.title || typeof data.title !== "string" || data.title.trim().length === 0) {
-    errors.push("Title is required");
-  } else if (data.title.length > 100) {
-    errors.push("Title must be less than 100 characters");
-  }
-
-  if (!data.description || typeof data.description !== "string" || data.description.trim().length === 0) {
-    errors.push("Description is required");
-  } else if (data.description.length > 1000) {
-    errors.push("Description must be less than 1000 characters");
+/**
+ * Short attendance line such as "3 going · 7 spots left", or null when nobody
+ * has responded to an event without a capacity.
+ */
+export const formatAttendance = ({
+  attendeeCount = 0,
+  maybeCount = 0,
+  waitlistCount = 0,
+  capacity,
+}: {
+  attendeeCount?: number;
+  maybeCount?: number;
+  waitlistCount?: number;
+  capacity?: number;
+}): string | null => {
+  if (!capacity && attendeeCount + maybeCount + waitlistCount === 0) {
+    return null;
   }
-
-  // Tags are optional, but if provided must be valid
-  if (data.tags !== undefined) {
-    if (!Array.isArray(data.tags)) {
-      errors.push("Tags must be an array");
-    } else if (data.tags.length > 10) {
-      errors.push("Maximum 10 tags allowed");
-    }
-  }
-
-  if (!data.location || typeof data.location !== "object") {
-    errors.push("Location is required");
-  } else {
-    if (typeof data.location.lat !== "number" || typeof data.location.lng !== "number") {
-      errors.push("Location must have valid lat and lng numbers");
-    } else if (data.location.lat < -90 || data.location.lat > 90) {
-      errors.push("Latitude must be between -90 and 90");
-    } else if (data.location.lng < -180 || data.location.lng > 180) {
-      errors.push("Longitude must be between -180 and 180");
-    }
+  const parts = [`${attendeeCount} going`];
+  if (capacity) {
+    const spotsLeft = Math.max(capacity - attendeeCount, 0);
+    parts.push(spotsLeft > 0 ? `${spotsLeft} ${spotsLeft === 1 ? "spot" : "spots"} left` : "Full");
   }
-
-  if (!data.startTime || typeof data.startTime !== "string") {
-    errors.push("Start time is required");
-  } else {
-    const parsed = new Date(data.startTime);
-    if (Number.isNaN(parsed.valueOf())) {
-      errors.push("Start time must be a valid date/time value");
-    }
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+  if (maybeCount > 0) parts.push(`${maybeCount} maybe`);
+  if (waitlistCount > 0) parts.push(`${waitlistCount} on waitlist`);
+  return parts.join(" · ");
 };
-
-
@@ -13,11 +13,16 @@ import {
 import { db } from "@/lib/firebase";
 import type { Event } from "@/lib/types";
 import { mapHangoutDocument } from "@/lib/hangouts";
+import { hasEnded, matchesTimeWindow } from "@/lib/event-schedule";
 
 export interface HangoutFeedFilters {
   tenantId?: string;
   tags?: string[];
   limit?: number;
+  startsAfter?: Date;
+  startsBefore?: Date;
+  happeningNow?: boolean;
+  includeEnded?: boolean; // Ended hangouts are hidden unless set
 }
 
 export interface UseHangoutsFeedResult {
@@ -30,7 +35,9 @@ const FIRESTORE_INIT_ERROR_MESSAGE =
   "Firestore is not initialized. Verify firebase.ts exports a configured db instance.";
 
 export function useHangoutsFeed(filters: HangoutFeedFilters = {}): UseHangoutsFeedResult {
-  const { tenantId, tags, limit } = filters;
+  const { tenantId, tags, limit, startsAfter, startsBefore, happeningNow, includeEnded = false } = filters;
+  const startsAfterMs = startsAfter?.getTime();
+  const startsBeforeMs = startsBefore?.getTime();
   const [hangouts, setHangouts] = useState<Event[]>([]);
   const [loading, setLoading] = useState<boolean>(() => Boolean(db));
   const [error, setError] = useState<Error | null>(() => (db ? null : new Error(FIRESTORE_INIT_ERROR_MESSAGE)));
@@ -91,7 +98,16 @@ export function useHangoutsFeed(filters: HangoutFeedFilters = {}): UseHangoutsFe
     const unsubscribe = onSnapshot(
       hangoutsQuery,
       (snapshot) => {
-        const mapped = snapshot.docs.map((doc) => mapHangoutDocument(doc.data(), doc.id));
+        // Time windows are applied here rather than in the query so the feed keeps its createdAt index
+        const now = new Date();
+        const timeWindow = {
+          startsAfter: startsAfterMs !== undefined ? new Date(startsAfterMs) : undefined,
+          startsBefore: startsBeforeMs !== undefined ? new Date(startsBeforeMs) : undefined,
+          happeningNow,
+        };
+        const mapped = snapshot.docs
+          .map((doc) => mapHangoutDocument(doc.data(), doc.id))
+          .filter((hangout) => (includeEnded || !hasEnded(hangout, now)) && matchesTimeWindow(hangout, timeWindow, now));
 
         if (mapped.length === 0) {
           console.log("⚠️ No hangOuts found for current filters.");
@@ -120,7 +136,7 @@ export function useHangoutsFeed(filters: HangoutFeedFilters = {}): UseHangoutsFe
       console.log("🔌 Unsubscribing from hangOuts feed listener");
       unsubscribe();
     };
-  }, [tenantId, tags, limit, queryConstraints]);
+  }, [tenantId, tags, limit, queryConstraints, startsAfterMs, startsBeforeMs, happeningNow, includeEnded]);
 
   return { hangouts, loading, error };
 }
@@ -0,0 +1,212 @@
+import type { Event, EventRecurrence } from "./types";
+import { getEffectiveEndTime, parseTimeBoundary } from "./event-schedule";
+import { formatRfcDateTime, seriesDurationMs, WEEKDAYS, zoneOffsetMinutes, zoneTransitions } from "./recurrence";
+
+const PRODUCT_ID = "-//TravelAI//Hangouts//EN";
+const UID_DOMAIN = "hangouts.travel-ai";
+// RFC 5545 lines are folded after 75 octets
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarOptions {
+  name?: string; // X-WR-CALNAME, shown by most calendar apps
+  now?: Date; // DTSTAMP of every event
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+function dateTimeProperty(name: string, instant: Date, timezone?: string): string {
+  return timezone
+    ? `${name};TZID=${timezone}:${formatRfcDateTime(instant, timezone)}`
+    : `${name}:${formatRfcDateTime(instant)}`;
+}
+
+function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, "0")}${String(absolute % 60).padStart(2, "0")}`;
+}
+
+/**
+ * VTIMEZONE for a TZID (RFC 5545 §3.6.5). Each offset change of `year` becomes
+ * a yearly observance on the same weekday of the month (e.g. the last Sunday of
+ * March); zones without one get a single fixed STANDARD observance.
+ */
+export function buildTimezoneComponent(timezone: string, year: number): string[] {
+  const transitions = zoneTransitions(timezone, year);
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(zoneOffsetMinutes(Date.UTC(year, 0, 1), timezone));
+    return [
+      "BEGIN:VTIMEZONE",
+      `TZID:${timezone}`,
+      "BEGIN:STANDARD",
+      `DTSTART:${year}0101T000000`,
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    ];
+  }
+
+  const observances = transitions.flatMap(({ at, offsetFrom, offsetTo }) => {
+    // The onset is written in the local time in force before the change
+    const onset = new Date(at.getTime() + offsetFrom * 60_000);
+    const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = onset.getUTCDate() + 7 > daysInMonth ? -1 : Math.ceil(onset.getUTCDate() / 7);
+    const kind = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatRfcDateTime(onset).slice(0, -1)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[onset.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  });
+  return ["BEGIN:VTIMEZONE", `TZID:${timezone}`, ...observances, "END:VTIMEZONE"];
+}
+
+/**
+ * The year before the earliest series start in each TZID used, so every local
+ * time in the calendar falls after an observance onset.
+ */
+function timezoneYears(events: Event[]): Map<string, number> {
+  const years = new Map<string, number>();
+  events.forEach(({ recurrence }) => {
+    const dtstart = parseTimeBoundary(recurrence?.dtstart);
+    if (!recurrence?.timezone || !dtstart) return;
+    const year = dtstart.getUTCFullYear() - 1;
+    years.set(recurrence.timezone, Math.min(year, years.get(recurrence.timezone) ?? year));
+  });
+  return years;
+}
+
+/** Description plus who hosts it, since ORGANIZER needs an address we do not have. */
+function describe(event: Pick<Event, "description" | "creator">): string {
+  const host = event.creator?.name?.trim();
+  const description = event.description?.trim() ?? "";
+  return host ? [description, `Hosted by ${host}`].filter(Boolean).join("\n\n") : description;
+}
+
+function eventDetails(event: Pick<Event, "title" | "description" | "creator" | "tags" | "location">): string[] {
+  const lines = [`SUMMARY:${escapeText(event.title || "Hang out")}`];
+  const description = describe(event);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  const { lat, lng } = event.location ?? {};
+  if (typeof lat === "number" && typeof lng === "number" && (lat !== 0 || lng !== 0)) {
+    lines.push(`GEO:${lat};${lng}`, `LOCATION:${escapeText(`${lat}, ${lng}`)}`);
+  }
+  if (event.tags?.length) lines.push(`CATEGORIES:${event.tags.map(escapeText).join(",")}`);
+  return lines;
+}
+
+/**
+ * Overrides become VEVENTs of their own, tied to the series by UID and
+ * RECURRENCE-ID.
+ */
+function overrideComponents(event: Event, recurrence: EventRecurrence, uid: string, stamp: string): string[][] {
+  const durationMs = seriesDurationMs(event);
+  return Object.entries(recurrence.overrides ?? {}).map(([ruleStart, override]) => {
+    const start = parseTimeBoundary(override.startTime ?? ruleStart) ?? new Date(ruleStart);
+    const end = parseTimeBoundary(override.endTime) ?? new Date(start.getTime() + durationMs);
+    return [
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      dateTimeProperty("RECURRENCE-ID", new Date(ruleStart), recurrence.timezone),
+      dateTimeProperty("DTSTART", start, recurrence.timezone),
+      dateTimeProperty("DTEND", end, recurrence.timezone),
+      ...eventDetails({ ...event, ...override }),
+      "END:VEVENT",
+    ];
+  });
+}
+
+/**
+ * VEVENT lines for one hangout; none when it has no start time. Recurring
+ * series keep their RRULE, exceptions and overrides rather than being expanded.
+ */
+export function buildEventComponents(event: Event, now: Date = new Date()): string[][] {
+  const start = parseTimeBoundary(event.startTime);
+  if (!start || !event.id) return [];
+  const uid = `${event.id}@${UID_DOMAIN}`;
+  const stamp = formatRfcDateTime(now);
+  const { recurrence } = event;
+
+  if (!recurrence) {
+    const end = getEffectiveEndTime(event) ?? start;
+    return [
+      [
+        "BEGIN:VEVENT",
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        dateTimeProperty("DTSTART", start),
+        dateTimeProperty("DTEND", end),
+        ...eventDetails(event),
+        "END:VEVENT",
+      ],
+    ];
+  }
+
+  // The rule counts from dtstart, not from the current occurrence stored on the series
+  const seriesStart = new Date(recurrence.dtstart);
+  const series = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    dateTimeProperty("DTSTART", seriesStart, recurrence.timezone),
+    dateTimeProperty("DTEND", new Date(seriesStart.getTime() + seriesDurationMs(event)), recurrence.timezone),
+    `RRULE:${recurrence.rrule}`,
+    ...(recurrence.exdates ?? []).map((exdate) => dateTimeProperty("EXDATE", new Date(exdate), recurrence.timezone)),
+    ...eventDetails(event),
+    "END:VEVENT",
+  ];
+  return [series, ...overrideComponents(event, recurrence, uid, stamp)];
+}
+
+/**
+ * A VCALENDAR with every hangout that has a start time, and a VTIMEZONE for
+ * every TZID its recurring series use.
+ */
+export function buildCalendar(events: Event[], { name, now = new Date() }: CalendarOptions = {}): string {
+  const components = events.map((event) => buildEventComponents(event, now));
+  const included = events.filter((_, index) => components[index].length > 0);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...[...timezoneYears(included)].flatMap(([timezone, year]) => buildTimezoneComponent(timezone, year)),
+    ...components.flat(2),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,333 @@
+import OpenAI from "openai";
+import { CircuitBreaker, type CircuitSnapshot } from "./circuit-breaker";
+
+export const LLM_PROVIDER_NAMES = ["openai", "gemini", "stub"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** Ask for a JSON object, where the provider has a JSON mode. */
+  json?: boolean;
+  /**
+   * JSON Schema of the answer. OpenAI enforces it as a structured output;
+   * Gemini answers in JSON mode. Callers still validate what comes back.
+   */
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  /** What the local stub answers; an empty JSON array (or object with `json`) by default. */
+  stubResponse?: string;
+}
+
+export interface LLMResponse {
+  provider: LLMProviderName;
+  model: string;
+  text: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * One model backend. `complete` should stop work when `signal` aborts; the
+ * failover gives up on it after the call timeout either way.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  /** False without credentials; failover then skips the provider. */
+  configured: boolean;
+  complete: (request: LLMRequest, signal: AbortSignal) => Promise<LLMResponse>;
+}
+
+export class LLMProviderError extends Error {
+  status: number;
+  provider: LLMProviderName;
+
+  constructor(message: string, provider: LLMProviderName, status: number = 502) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.status = status;
+    this.provider = provider;
+  }
+}
+
+export interface LLMFailure {
+  provider: LLMProviderName;
+  status: number;
+  message: string;
+}
+
+/**
+ * Every provider in the order failed or was skipped. The status is 429 when
+ * all of them are rate limited, so callers can back off instead of erroring.
+ */
+export class LLMUnavailableError extends Error {
+  status: number;
+  failures: LLMFailure[];
+
+  constructor(failures: LLMFailure[]) {
+    super(
+      failures.length > 0
+        ? `No AI provider could answer (${failures.map(({ provider, message }) => `${provider}: ${message}`).join("; ")})`
+        : "No AI provider configured"
+    );
+    this.name = "LLMUnavailableError";
+    this.status = failures.length > 0 && failures.every(({ status }) => status === 429) ? 429 : 503;
+    this.failures = failures;
+  }
+}
+
+export const DEFAULT_PROVIDER_ORDER: LLMProviderName[] = ["openai", "gemini"];
+export const DEFAULT_CALL_TIMEOUT_MS = 15_000;
+const OPENAI_MODEL = "gpt-4o-mini";
+const GEMINI_MODEL = "gemini-1.5-flash";
+const GEMINI_ENDPOINT = "https://generativelanguage.googleapis.com/v1beta/models";
+
+// Three failures in a row pause a provider for 30s; a 429 pauses it for 10 minutes
+const FAILURE_THRESHOLD = 3;
+const FAILURE_COOLDOWN_MS = 30 * 1000;
+const RATE_LIMIT_COOLDOWN_MS = 10 * 60 * 1000;
+
+export function createOpenAIProvider(apiKey: string | undefined, model: string = OPENAI_MODEL): LLMProvider {
+  // Failover replaces the SDK's own retries
+  const client = apiKey ? new OpenAI({ apiKey, maxRetries: 0 }) : null;
+  return {
+    name: "openai",
+    model,
+    configured: client !== null,
+    async complete(request, signal) {
+      if (!client) throw new LLMProviderError("OpenAI API key not configured", "openai", 503);
+      const completion = await client.chat.completions.create(
+        {
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          top_p: request.topP,
+          max_tokens: request.maxTokens,
+          ...(request.responseSchema
+            ? {
+                response_format: {
+                  type: "json_schema" as const,
+                  json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: true },
+                },
+              }
+            : request.json
+              ? { response_format: { type: "json_object" as const } }
+              : {}),
+        },
+        { signal }
+      );
+      return {
+        provider: "openai",
+        model: completion.model || model,
+        text: completion.choices[0]?.message?.content ?? "",
+        promptTokens: completion.usage?.prompt_tokens,
+        completionTokens: completion.usage?.completion_tokens,
+      };
+    },
+  };
+}
+
+export function createGeminiProvider(apiKey: string | undefined, model: string = GEMINI_MODEL): LLMProvider {
+  return {
+    name: "gemini",
+    model,
+    configured: Boolean(apiKey),
+    async complete(request, signal) {
+      if (!apiKey) throw new LLMProviderError("Gemini API key not configured", "gemini", 503);
+      const system = request.messages.filter(({ role }) => role === "system").map(({ content }) => content);
+      const response = await fetch(`${GEMINI_ENDPOINT}/${model}:generateContent?key=${apiKey}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(system.length > 0 ? { systemInstruction: { parts: [{ text: system.join("\n\n") }] } } : {}),
+          contents: request.messages
+            .filter(({ role }) => role !== "system")
+            .map(({ role, content }) => ({ role: role === "assistant" ? "model" : "user", parts: [{ text: content }] })),
+          generationConfig: {
+            temperature: request.temperature,
+            topP: request.topP,
+            maxOutputTokens: request.maxTokens,
+            ...(request.json || request.responseSchema ? { responseMimeType: "application/json" } : {}),
+          },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => response.statusText);
+        throw new LLMProviderError(`Gemini request failed: ${detail.slice(0, 200)}`, "gemini", response.status);
+      }
+
+      const data = (await response.json()) as {
+        candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+        usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+      };
+      return {
+        provider: "gemini",
+        model,
+        text: data.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("").trim() ?? "",
+        promptTokens: data.usageMetadata?.promptTokenCount,
+        completionTokens: data.usageMetadata?.candidatesTokenCount,
+      };
+    },
+  };
+}
+
+/**
+ * Answers locally with the request's `stubResponse`, for development without
+ * credentials and as a last resort that never fails.
+ */
+export function createStubProvider(): LLMProvider {
+  return {
+    name: "stub",
+    model: "stub",
+    configured: true,
+    complete: async (request) => ({
+      provider: "stub",
+      model: "stub",
+      text: request.stubResponse ?? (request.json ? "{}" : "[]"),
+    }),
+  };
+}
+
+type ProviderCircuit = { breaker: CircuitBreaker; lastStatus: number };
+
+let providers: Map<LLMProviderName, LLMProvider> | null = null;
+const circuits = new Map<LLMProviderName, ProviderCircuit>();
+
+function getProviders(): Map<LLMProviderName, LLMProvider> {
+  if (!providers) {
+    providers = new Map<LLMProviderName, LLMProvider>([
+      ["openai", createOpenAIProvider(process.env.OPENAI_KEY || process.env.OPENAI_API_KEY)],
+      ["gemini", createGeminiProvider(process.env.GEMINI_API_KEY || process.env.GOOGLE_GEMINI_API_KEY)],
+      ["stub", createStubProvider()],
+    ]);
+  }
+  return providers;
+}
+
+// Circuits live per process and are shared by every tenant and route
+function circuitFor(name: LLMProviderName): ProviderCircuit {
+  let circuit = circuits.get(name);
+  if (!circuit) {
+    circuit = {
+      breaker: new CircuitBreaker({ failureThreshold: FAILURE_THRESHOLD, cooldownMs: FAILURE_COOLDOWN_MS }),
+      lastStatus: 503,
+    };
+    circuits.set(name, circuit);
+  }
+  return circuit;
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === "string" && (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/** The provider order without a tenant override, from `AI_PROVIDER_ORDER` (e.g. "gemini,openai"). */
+export function defaultProviderOrder(): LLMProviderName[] {
+  const configured = (process.env.AI_PROVIDER_ORDER ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(isLLMProviderName);
+  return configured.length > 0 ? [...new Set(configured)] : [...DEFAULT_PROVIDER_ORDER];
+}
+
+/** Per-call timeout from `AI_PROVIDER_TIMEOUT_MS`. */
+export function callTimeoutMs(): number {
+  const timeout = Number(process.env.AI_PROVIDER_TIMEOUT_MS);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_CALL_TIMEOUT_MS;
+}
+
+function failureOf(provider: LLMProviderName, error: unknown): LLMFailure {
+  const status = (error as { status?: unknown })?.status;
+  return {
+    provider,
+    status: typeof status === "number" ? status : 502,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+async function completeWithin(provider: LLMProvider, request: LLMRequest, timeoutMs: number): Promise<LLMResponse> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMProviderError(`${provider.name} timed out after ${timeoutMs}ms`, provider.name, 504));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.complete(request, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Tries the providers in order and returns the first answer. Providers
+ * without credentials are skipped, as are providers whose circuit is open;
+ * each failure counts against the provider's circuit before moving on.
+ */
+export async function completeWithFailover(
+  order: LLMProviderName[],
+  request: LLMRequest,
+  { timeoutMs = callTimeoutMs() }: { timeoutMs?: number } = {}
+): Promise<LLMResponse> {
+  const failures: LLMFailure[] = [];
+  for (const name of order) {
+    const provider = getProviders().get(name);
+    if (!provider?.configured) continue;
+
+    const circuit = circuitFor(name);
+    if (!circuit.breaker.tryAcquire()) {
+      failures.push({ provider: name, status: circuit.lastStatus, message: "circuit open" });
+      continue;
+    }
+
+    try {
+      const response = await completeWithin(provider, request, timeoutMs);
+      circuit.breaker.recordSuccess();
+      return response;
+    } catch (error) {
+      const failure = failureOf(name, error);
+      circuit.lastStatus = failure.status;
+      if (failure.status === 429) {
+        circuit.breaker.trip(RATE_LIMIT_COOLDOWN_MS);
+      } else {
+        circuit.breaker.recordFailure();
+      }
+      console.warn(`[llm] ${name} failed (${failure.status}): ${failure.message}`);
+      failures.push(failure);
+    }
+  }
+  throw new LLMUnavailableError(failures);
+}
+
+export interface LLMProviderHealth extends CircuitSnapshot {
+  provider: LLMProviderName;
+  model: string;
+  configured: boolean;
+}
+
+/** Credentials and circuit state of every provider on this instance. */
+export function getLLMProviderHealth(): LLMProviderHealth[] {
+  return [...getProviders().values()].map((provider) => ({
+    provider: provider.name,
+    model: provider.model,
+    configured: provider.configured,
+    ...(circuits.get(provider.name)?.breaker.snapshot() ?? { state: "closed", consecutiveFailures: 0, retryAt: null }),
+  }));
+}
+
+/** Replaces the providers (null restores the configured ones) and closes every circuit. */
+export function setLLMProvidersForTests(overrides: LLMProvider[] | null) {
+  providers = overrides ? new Map(overrides.map((provider) => [provider.name, provider])) : null;
+  circuits.clear();
+}
@@ -0,0 +1,150 @@
+export type ModerationStatus = "pending" | "rejected";
+
+export interface ScreeningInput {
+  title: string;
+  description: string;
+  tags?: string[];
+}
+
+export interface ScreeningFlag {
+  screener: string;
+  reason: string;
+}
+
+/**
+ * One screening step. Screeners only flag; whether a flag holds an event back
+ * is up to the caller.
+ */
+export interface ContentScreener {
+  name: string;
+  screen: (input: ScreeningInput) => ScreeningFlag[] | Promise<ScreeningFlag[]>;
+}
+
+export interface ScreeningResult {
+  flagged: boolean;
+  flags: ScreeningFlag[];
+}
+
+/** Why an event sits in the moderation queue, stored on the held event. */
+export interface EventModeration {
+  status: ModerationStatus;
+  source: "screening" | "reports";
+  flags: ScreeningFlag[];
+  flaggedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+}
+
+export const REPORT_REASONS = ["spam", "inappropriate", "misleading", "unsafe", "other"] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+// Scam and spam phrases held back even without a configured list
+export const DEFAULT_BLOCKED_KEYWORDS = [
+  "crypto giveaway",
+  "guaranteed returns",
+  "wire transfer",
+  "send money",
+  "investment opportunity",
+];
+
+function screenedText({ title, description, tags = [] }: ScreeningInput): string {
+  return [title, description, ...tags].join("\n");
+}
+
+/** Lower case without accents, so "Crÿpto" still matches "crypto". */
+function foldText(value: string): string {
+  return value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Flags whole-word (or whole-phrase) matches of any keyword, ignoring case
+ * and accents.
+ */
+export function createKeywordScreener(keywords: string[]): ContentScreener {
+  const patterns = [...new Set(keywords.map((keyword) => foldText(keyword.trim())).filter(Boolean))].map(
+    (keyword) => ({
+      keyword,
+      pattern: new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword).replace(/\s+/g, "\\s+")}(?=$|[^\\p{L}\\p{N}])`, "u"),
+    })
+  );
+  return {
+    name: "keywords",
+    screen: (input) => {
+      const text = foldText(screenedText(input));
+      return patterns
+        .filter(({ pattern }) => pattern.test(text))
+        .map(({ keyword }) => ({ screener: "keywords", reason: `Contains "${keyword}"` }));
+    },
+  };
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"')\]]+/gi;
+
+function hostOf(link: string): string | null {
+  try {
+    return new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Flags links to hosts outside `allowedDomains` (subdomains included), and
+ * more than `maxLinks` links in total.
+ */
+export function createLinkScreener({
+  allowedDomains = [],
+  maxLinks = 3,
+}: { allowedDomains?: string[]; maxLinks?: number } = {}): ContentScreener {
+  const allowed = allowedDomains.map((domain) => domain.trim().toLowerCase().replace(/^www\./, "")).filter(Boolean);
+  const isAllowed = (host: string) =>
+    allowed.some((domain) => host === domain || host.endsWith(`.${domain}`) || host === `www.${domain}`);
+
+  return {
+    name: "links",
+    screen: (input) => {
+      const links = screenedText(input).match(URL_PATTERN) ?? [];
+      const flags: ScreeningFlag[] = [];
+      const hosts = new Set(links.map(hostOf).filter((host): host is string => Boolean(host)));
+      for (const host of hosts) {
+        if (!isAllowed(host)) flags.push({ screener: "links", reason: `Links to ${host}` });
+      }
+      if (links.length > maxLinks) {
+        flags.push({ screener: "links", reason: `Contains ${links.length} links` });
+      }
+      return flags;
+    },
+  };
+}
+
+/**
+ * Runs every screener. A screener that fails is logged and skipped, so an
+ * outage (of the LLM classifier, say) never blocks submissions.
+ */
+export async function screenContent(input: ScreeningInput, screeners: ContentScreener[]): Promise<ScreeningResult> {
+  const results = await Promise.all(
+    screeners.map(async (screener) => {
+      try {
+        return await screener.screen(input);
+      } catch (error) {
+        console.warn(`[moderation] Screener ${screener.name} failed, skipping it`, error);
+        return [];
+      }
+    })
+  );
+  const flags = results.flat();
+  return { flagged: flags.length > 0, flags };
+}
+
+/** Comma- or newline-separated list from an environment variable. */
+export function parseListSetting(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
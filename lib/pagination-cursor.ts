@@ -0,0 +1,165 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const CURSOR_VERSION = 1;
+const DEV_CURSOR_SECRET = "dev-pagination-cursor-secret";
+
+export class InvalidCursorError extends Error {
+  status: number;
+
+  constructor(message: string = "Invalid pagination cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+    this.status = 400;
+  }
+}
+
+export type FeedOrder = "newest" | "nearest" | "relevance";
+
+/**
+ * Position in a feed ordered by `createdAt` desc (newest), by `distanceKm`
+ * asc (nearest) or by search `relevance` desc, with the id as tie-breaker.
+ */
+export interface EventCursorPosition {
+  createdAt: number;
+  id: string;
+  distanceKm?: number;
+  relevance?: number;
+}
+
+export type CursorFilters = Record<string, string | number | boolean | string[] | null>;
+
+export interface EventCursor extends EventCursorPosition {
+  tenantId: string;
+  filters: CursorFilters;
+}
+
+interface CursorPayload {
+  v: number;
+  t: string;
+  c: number;
+  i: string;
+  d?: number;
+  r?: number;
+  f: CursorFilters;
+}
+
+function getCursorSecret(): string {
+  const secret = process.env.PAGINATION_CURSOR_SECRET || process.env.JWT_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("PAGINATION_CURSOR_SECRET is not set – cannot sign pagination cursors");
+  }
+  return DEV_CURSOR_SECRET;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getCursorSecret()).update(encodedPayload).digest("base64url");
+}
+
+/**
+ * Newest: newer first, ties broken by id desc. Nearest: closer first, ties by
+ * id asc. Relevance: better match first, ties by id asc. Every order is total,
+ * so pages never overlap.
+ */
+export function compareFeedPositions(
+  a: EventCursorPosition,
+  b: EventCursorPosition,
+  order: FeedOrder = "newest"
+): number {
+  const byId = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  if (order === "nearest") {
+    const distanceA = a.distanceKm ?? Number.POSITIVE_INFINITY;
+    const distanceB = b.distanceKm ?? Number.POSITIVE_INFINITY;
+    return distanceA !== distanceB ? distanceA - distanceB : byId;
+  }
+  if (order === "relevance") {
+    const relevanceA = a.relevance ?? 0;
+    const relevanceB = b.relevance ?? 0;
+    return relevanceA !== relevanceB ? relevanceB - relevanceA : byId;
+  }
+  return a.createdAt !== b.createdAt ? b.createdAt - a.createdAt : -byId;
+}
+
+export function isAfterCursor(
+  position: EventCursorPosition,
+  cursor: EventCursorPosition,
+  order: FeedOrder = "newest"
+): boolean {
+  return compareFeedPositions(position, cursor, order) > 0;
+}
+
+/**
+ * Opaque `<payload>.<signature>` token. The tenant and active filters are bound
+ * in so a cursor cannot be replayed against another tenant or query.
+ */
+export function encodeEventCursor(cursor: EventCursor): string {
+  const payload: CursorPayload = {
+    v: CURSOR_VERSION,
+    t: cursor.tenantId,
+    c: cursor.createdAt,
+    i: cursor.id,
+    ...(cursor.distanceKm !== undefined ? { d: cursor.distanceKm } : {}),
+    ...(cursor.relevance !== undefined ? { r: cursor.relevance } : {}),
+    f: cursor.filters,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+export function decodeEventCursor(token: string): EventCursor {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new InvalidCursorError();
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new InvalidCursorError();
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as CursorPayload;
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    payload.v !== CURSOR_VERSION ||
+    typeof payload.t !== "string" ||
+    typeof payload.c !== "number" ||
+    typeof payload.i !== "string" ||
+    (payload.d !== undefined && typeof payload.d !== "number") ||
+    (payload.r !== undefined && typeof payload.r !== "number") ||
+    !payload.f ||
+    typeof payload.f !== "object"
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  return {
+    tenantId: payload.t,
+    createdAt: payload.c,
+    id: payload.i,
+    ...(payload.d !== undefined ? { distanceKm: payload.d } : {}),
+    ...(payload.r !== undefined ? { relevance: payload.r } : {}),
+    filters: payload.f,
+  };
+}
+
+/**
+ * Filters are compared by value; array order does not matter.
+ */
+export function filtersMatch(a: CursorFilters, b: CursorFilters): boolean {
+  const normalize = (filters: CursorFilters) =>
+    JSON.stringify(
+      Object.keys(filters)
+        .sort()
+        .map((key) => {
+          const value = filters[key];
+          return [key, Array.isArray(value) ? [...value].sort() : value ?? null];
+        })
+    );
+  return normalize(a) === normalize(b);
+}
@@ -0,0 +1,211 @@
+import type { QueryExecutor } from "./db";
+
+export interface RateLimitWindow {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the current window ends, or when the next request fits again once denied. */
+  resetAt: number;
+}
+
+/**
+ * Counter backend for the rate limiter. `hit` consumes one unit when allowed;
+ * `peek` reports the same numbers without touching any counter.
+ */
+export interface RateLimitStore {
+  hit(key: string, window: RateLimitWindow, now?: number): Promise<RateLimitDecision>;
+  peek(key: string, window: RateLimitWindow, now?: number): Promise<RateLimitDecision>;
+  cleanup(now?: number): Promise<void>;
+}
+
+type WindowCounts = { previous: number; current: number };
+
+function windowStartFor(now: number, windowMs: number): number {
+  return Math.floor(now / windowMs) * windowMs;
+}
+
+function weightedCount({ previous, current }: WindowCounts, elapsed: number, windowMs: number): number {
+  return previous * ((windowMs - elapsed) / windowMs) + current;
+}
+
+/**
+ * Earliest time at which one more request fits under the limit, assuming no
+ * further traffic. Walks the decay of the previous window first, then the
+ * current one after it rolls over.
+ */
+function nextAllowedAt(counts: WindowCounts, window: RateLimitWindow, windowStart: number, now: number): number {
+  const { limit, windowMs } = window;
+  const elapsed = now - windowStart;
+  if (weightedCount(counts, elapsed, windowMs) + 1 <= limit) {
+    return now;
+  }
+
+  if (counts.current + 1 <= limit && counts.previous > 0) {
+    const needed = windowMs * (1 - (limit - counts.current - 1) / counts.previous);
+    if (needed < windowMs) {
+      return windowStart + Math.ceil(needed);
+    }
+  }
+
+  const nextStart = windowStart + windowMs;
+  if (counts.current === 0) {
+    return nextStart;
+  }
+  const decay = Math.max(0, windowMs * (1 - (limit - 1) / counts.current));
+  return nextStart + Math.ceil(decay);
+}
+
+/**
+ * Sliding-window counter: the previous fixed window's count is weighted by how
+ * much of it still overlaps the trailing window, then added to the current one.
+ * When consuming, `counts.current` already includes the request being
+ * evaluated; otherwise `allowed` says whether one more request would fit.
+ */
+export function evaluateSlidingWindow(
+  counts: WindowCounts,
+  window: RateLimitWindow,
+  now: number,
+  consuming: boolean
+): RateLimitDecision {
+  const windowStart = windowStartFor(now, window.windowMs);
+  const estimate = weightedCount(counts, now - windowStart, window.windowMs);
+  const allowed = consuming ? estimate <= window.limit : estimate + 1 <= window.limit;
+  const settled = consuming && !allowed ? { ...counts, current: counts.current - 1 } : counts;
+  const remaining = Math.max(0, Math.floor(window.limit - weightedCount(settled, now - windowStart, window.windowMs)));
+
+  return {
+    allowed,
+    limit: window.limit,
+    remaining,
+    resetAt: allowed ? windowStart + window.windowMs : nextAllowedAt(settled, window, windowStart, now),
+  };
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { windowStart: number; windowMs: number; count: number }>();
+
+  private read(key: string, windowMs: number, windowStart: number): WindowCounts {
+    const current = this.counters.get(`${key}:${windowStart}`);
+    const previous = this.counters.get(`${key}:${windowStart - windowMs}`);
+    return { previous: previous?.count ?? 0, current: current?.count ?? 0 };
+  }
+
+  async hit(key: string, window: RateLimitWindow, now = Date.now()): Promise<RateLimitDecision> {
+    const windowStart = windowStartFor(now, window.windowMs);
+    const counts = this.read(key, window.windowMs, windowStart);
+    const decision = evaluateSlidingWindow({ ...counts, current: counts.current + 1 }, window, now, true);
+    if (decision.allowed) {
+      this.counters.set(`${key}:${windowStart}`, {
+        windowStart,
+        windowMs: window.windowMs,
+        count: counts.current + 1,
+      });
+    }
+    return decision;
+  }
+
+  async peek(key: string, window: RateLimitWindow, now = Date.now()): Promise<RateLimitDecision> {
+    const windowStart = windowStartFor(now, window.windowMs);
+    return evaluateSlidingWindow(this.read(key, window.windowMs, windowStart), window, now, false);
+  }
+
+  async cleanup(now = Date.now()): Promise<void> {
+    for (const [bucket, entry] of this.counters.entries()) {
+      if (entry.windowStart + 2 * entry.windowMs <= now) {
+        this.counters.delete(bucket);
+      }
+    }
+  }
+}
+
+let counterTableInitialized = false;
+
+async function ensureRateLimitTable(executor: QueryExecutor) {
+  if (counterTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS rate_limit_counters (
+      key TEXT NOT NULL,
+      window_start BIGINT NOT NULL,
+      window_ms INTEGER NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      expires_at TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (key, window_start)
+    )
+  `);
+  await executor.query(`CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires ON rate_limit_counters (expires_at)`);
+  counterTableInitialized = true;
+}
+
+/**
+ * Shared counters in Postgres. A hit increments first so concurrent instances
+ * each see a distinct count, and hands the unit back when it lands over the limit.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly executor: QueryExecutor) {}
+
+  private async readPrevious(key: string, windowStart: number, windowMs: number): Promise<number> {
+    const result = await this.executor.query(
+      `SELECT count FROM rate_limit_counters WHERE key = $1 AND window_start = $2`,
+      [key, windowStart - windowMs]
+    );
+    return Number(result.rows[0]?.count ?? 0);
+  }
+
+  async hit(key: string, window: RateLimitWindow, now = Date.now()): Promise<RateLimitDecision> {
+    await ensureRateLimitTable(this.executor);
+    const windowStart = windowStartFor(now, window.windowMs);
+    const expiresAt = new Date(windowStart + 2 * window.windowMs);
+
+    const incremented = await this.executor.query(
+      `INSERT INTO rate_limit_counters (key, window_start, window_ms, count, expires_at)
+       VALUES ($1, $2, $3, 1, $4)
+       ON CONFLICT (key, window_start) DO UPDATE SET count = rate_limit_counters.count + 1
+       RETURNING count`,
+      [key, windowStart, window.windowMs, expiresAt]
+    );
+    const current = Number(incremented.rows[0]?.count ?? 1);
+    const previous = await this.readPrevious(key, windowStart, window.windowMs);
+
+    const decision = evaluateSlidingWindow({ previous, current }, window, now, true);
+    if (!decision.allowed) {
+      await this.executor.query(
+        `UPDATE rate_limit_counters SET count = count - 1 WHERE key = $1 AND window_start = $2 AND count > 0`,
+        [key, windowStart]
+      );
+    }
+    return decision;
+  }
+
+  async peek(key: string, window: RateLimitWindow, now = Date.now()): Promise<RateLimitDecision> {
+    await ensureRateLimitTable(this.executor);
+    const windowStart = windowStartFor(now, window.windowMs);
+    const result = await this.executor.query(
+      `SELECT window_start, count FROM rate_limit_counters WHERE key = $1 AND window_start IN ($2, $3)`,
+      [key, windowStart, windowStart - window.windowMs]
+    );
+
+    const counts: WindowCounts = { previous: 0, current: 0 };
+    for (const row of result.rows) {
+      if (Number(row.window_start) === windowStart) {
+        counts.current = Number(row.count);
+      } else {
+        counts.previous = Number(row.count);
+      }
+    }
+    return evaluateSlidingWindow(counts, window, now, false);
+  }
+
+  async cleanup(now = Date.now()): Promise<void> {
+    await ensureRateLimitTable(this.executor);
+    await this.executor.query(`DELETE FROM rate_limit_counters WHERE expires_at <= $1`, [new Date(now)]);
+  }
+}
+
+export function resetRateLimitStoreForTests() {
+  counterTableInitialized = false;
+}
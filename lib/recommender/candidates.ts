@@ -0,0 +1,79 @@
+import type { SpontaneousCard } from "../fetchSpontaneousData";
+import type { Event } from "../types";
+import type { RecommendationCandidate } from "./types";
+
+/** Attendee count at which a hangout counts as fully popular. */
+export const POPULARITY_SATURATION = 25;
+
+// Neither source reports engagement, so both start from a neutral prior
+const CARD_POPULARITY = 0.4;
+const AI_POPULARITY = 0.3;
+
+function normalizeKeywords(values: Array<string | undefined>): string[] {
+  const keywords = new Set<string>();
+  values.forEach((value) => {
+    const keyword = value?.trim().toLowerCase();
+    if (keyword) keywords.add(keyword);
+  });
+  return [...keywords];
+}
+
+function tokenize(text: string | undefined): string[] {
+  return text ? text.toLowerCase().split(/[^\p{L}\p{N}]+/u) : [];
+}
+
+function hangoutPopularity(event: Event): number {
+  // Maybes count half; the log keeps a few RSVPs meaningful next to a crowd
+  const interest = (event.attendeeCount ?? 0) + (event.maybeCount ?? 0) / 2;
+  return Math.min(1, Math.log1p(interest) / Math.log1p(POPULARITY_SATURATION));
+}
+
+/** Events without an id cannot be referenced back, so they are skipped. */
+export function fromHangout(event: Event): RecommendationCandidate | null {
+  if (!event.id) return null;
+  return {
+    kind: "hangout",
+    id: event.id,
+    title: event.title,
+    location: event.location,
+    keywords: normalizeKeywords(event.tags),
+    popularity: hangoutPopularity(event),
+    startTime: event.startTime,
+    endTime: event.endTime,
+    attendeeCount: event.attendeeCount,
+    item: event,
+  };
+}
+
+export function fromAiSuggestion(event: Event): RecommendationCandidate | null {
+  if (!event.id) return null;
+  return {
+    kind: "ai",
+    id: event.id,
+    title: event.title,
+    location: event.location,
+    keywords: normalizeKeywords(event.tags),
+    popularity: AI_POPULARITY,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    item: event,
+  };
+}
+
+/**
+ * Weather cards describe conditions rather than somewhere to go, so they are
+ * not recommended.
+ */
+export function fromSpontaneousCard(card: SpontaneousCard): RecommendationCandidate | null {
+  if (card.category === "weather") return null;
+  return {
+    kind: "card",
+    id: card.id,
+    title: card.title,
+    location: { lat: card.location.lat, lng: card.location.lng },
+    keywords: normalizeKeywords([card.category, ...tokenize(card.title), ...tokenize(card.description)]),
+    popularity: CARD_POPULARITY,
+    startTime: card.startTime,
+    item: card,
+  };
+}
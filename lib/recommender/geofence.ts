@@ -0,0 +1,52 @@
+import { haversineDistanceKm, type GeoPoint } from "../geohash";
+import type { Geofence, RecommenderPreferences } from "./types";
+
+/** Home locations are rounded to two decimals (about 1 km) before use. */
+export const COARSE_LOCATION_DECIMALS = 2;
+
+export class RecommenderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "RecommenderError";
+    this.status = status;
+  }
+}
+
+export function coarsenLocation({ lat, lng }: GeoPoint): GeoPoint {
+  const factor = 10 ** COARSE_LOCATION_DECIMALS;
+  return { lat: Math.round(lat * factor) / factor, lng: Math.round(lng * factor) / factor };
+}
+
+/**
+ * The area recommendations must fall in. With location sharing off only the
+ * coarse home area is used, even when a live position is known; "nearby" and
+ * "live" use the live position and fall back to home without one.
+ */
+export function resolveGeofence(
+  preferences: Pick<RecommenderPreferences, "locationSharing" | "radiusKm">,
+  { location, homeLocation }: { location?: GeoPoint | null; homeLocation?: GeoPoint | null }
+): Geofence {
+  const { locationSharing, radiusKm } = preferences;
+  if (locationSharing !== "off" && location) {
+    return { center: location, radiusKm, basis: "live" };
+  }
+  if (homeLocation) {
+    return { center: coarsenLocation(homeLocation), radiusKm, basis: "home" };
+  }
+  throw new RecommenderError(
+    locationSharing === "off"
+      ? "homeLocation is required while location sharing is off"
+      : "location or homeLocation is required"
+  );
+}
+
+/**
+ * Distance from the geofence center, or null when the point lies outside it.
+ */
+export function distanceInsideGeofence(geofence: Geofence, point: GeoPoint): number | null {
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) return null;
+  const distanceKm = haversineDistanceKm(geofence.center, point);
+  return distanceKm <= geofence.radiusKm ? distanceKm : null;
+}
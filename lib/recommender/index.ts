@@ -0,0 +1,138 @@
+import { isWithinAvailability } from "../auto-join";
+import { getEffectiveEndTime, hasEnded, parseTimeBoundary } from "../event-schedule";
+import { distanceInsideGeofence } from "./geofence";
+import { scoreCandidate } from "./scoring";
+import type {
+  Geofence,
+  Recommendation,
+  RecommendationCandidate,
+  RecommenderAvailability,
+  RecommenderPreferences,
+} from "./types";
+
+export type {
+  Geofence,
+  Recommendation,
+  RecommendationCandidate,
+  RecommendationKind,
+  RecommenderAvailability,
+  RecommenderPreferences,
+  ScoreContributions,
+} from "./types";
+export { fromAiSuggestion, fromHangout, fromSpontaneousCard } from "./candidates";
+export { coarsenLocation, resolveGeofence, RecommenderError } from "./geofence";
+export { scoreCandidate, scoringWeights } from "./scoring";
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 20;
+
+/**
+ * Whether a candidate fits the user's time availability. Undated candidates
+ * (venues, places) always fit. Windows made of clock times repeat daily;
+ * "now" and ISO date-time bounds describe a single stretch of time.
+ */
+export function fitsAvailability(
+  candidate: Pick<RecommendationCandidate, "startTime" | "endTime">,
+  availability: RecommenderAvailability,
+  now: Date = new Date()
+): boolean {
+  if (!parseTimeBoundary(candidate.startTime)) return true;
+  if (availability === "now") return isWithinAvailability(candidate, "now", now);
+
+  const bounds = [availability.from, availability.to].map((value) =>
+    value === undefined ? undefined : value === "now" ? now : parseTimeBoundary(value)
+  );
+  if (bounds.some((bound) => bound === null)) {
+    return isWithinAvailability(candidate, availability, now);
+  }
+
+  const [from, to] = bounds as Array<Date | undefined>;
+  const start = parseTimeBoundary(candidate.startTime) as Date;
+  const end = getEffectiveEndTime(candidate) ?? start;
+  return (!to || start.getTime() <= to.getTime()) && (!from || end.getTime() >= from.getTime());
+}
+
+function describeReasons(
+  candidate: RecommendationCandidate,
+  { matchedInterests, distanceKm }: { matchedInterests: string[]; distanceKm: number },
+  preferences: RecommenderPreferences,
+  geofence: Geofence
+): string[] {
+  const reasons: string[] = [];
+  if (matchedInterests.length > 0) {
+    reasons.push(`Matches your interests: ${matchedInterests.join(", ")}`);
+  }
+  const where = geofence.basis === "home" ? "your home area" : "you";
+  reasons.push(`${distanceKm.toFixed(1)} km from ${where}, within your ${geofence.radiusKm} km radius`);
+  if (candidate.attendeeCount) {
+    reasons.push(`${candidate.attendeeCount} going`);
+  }
+  if (preferences.spontaneity === "high" && candidate.popularity < 0.5) {
+    reasons.push("Off the beaten path, picked for your high spontaneity");
+  }
+  if (candidate.kind === "ai") {
+    reasons.push("Suggested by AI for this area");
+  }
+  return reasons;
+}
+
+/**
+ * Ranks hangouts, spontaneous cards and AI suggestions against one user's
+ * preferences, following docs/recommender-contract.md:
+ *
+ * - candidates outside the geofence, already over or outside the user's
+ *   availability are dropped;
+ * - `matchStrictness: "strict"` drops candidates matching none of the user's
+ *   interests (users without interests are not filtered);
+ * - `autoJoin` marks hangouts, the only kind that can be RSVP'd, as
+ *   `autoJoinCandidate`.
+ */
+export function recommend({
+  preferences,
+  candidates,
+  geofence,
+  now = new Date(),
+  limit = DEFAULT_RECOMMENDATION_LIMIT,
+}: {
+  preferences: RecommenderPreferences;
+  candidates: RecommendationCandidate[];
+  geofence: Geofence;
+  now?: Date;
+  limit?: number;
+}): Recommendation[] {
+  const strict = preferences.matchStrictness === "strict" && preferences.interests.length > 0;
+  const seen = new Set<string>();
+
+  const ranked = candidates.flatMap((candidate) => {
+    const key = `${candidate.kind}:${candidate.id}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+
+    const distanceKm = distanceInsideGeofence(geofence, candidate.location);
+    if (distanceKm === null) return [];
+    if (hasEnded(candidate, now) || !fitsAvailability(candidate, preferences.timeAvailability, now)) return [];
+
+    const { score, matchedInterests } = scoreCandidate(candidate, {
+      interests: preferences.interests,
+      spontaneity: preferences.spontaneity,
+      radiusKm: geofence.radiusKm,
+      distanceKm,
+    });
+    if (strict && matchedInterests.length === 0) return [];
+
+    const recommendation: Recommendation = {
+      id: candidate.id,
+      kind: candidate.kind,
+      score: Math.round(score * 1000) / 1000,
+      distanceKm: Math.round(distanceKm * 1000) / 1000,
+      matchedInterests,
+      ...(preferences.autoJoin && candidate.kind === "hangout" ? { autoJoinCandidate: true as const } : {}),
+      ...(preferences.showReasoning
+        ? { reasoning: describeReasons(candidate, { matchedInterests, distanceKm }, preferences, geofence) }
+        : {}),
+      item: candidate.item,
+    };
+    return [recommendation];
+  });
+
+  return ranked.sort((a, b) => b.score - a.score || a.distanceKm - b.distanceKm).slice(0, limit);
+}
@@ -0,0 +1,63 @@
+import type { Spontaneity } from "@/types/settings";
+import type { RecommendationCandidate, ScoreContributions } from "./types";
+
+export const BASE_WEIGHTS: ScoreContributions = {
+  interest: 0.45,
+  popularity: 0.25,
+  proximity: 0.2,
+  exploration: 0.1,
+};
+
+/** Applied to the popularity weight for `spontaneity: "high"`. */
+export const HIGH_SPONTANEITY_POPULARITY_MULTIPLIER = 0.6;
+
+const EXPLORATION_MULTIPLIER: Record<Spontaneity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * High spontaneity trades popularity for exploration, which favours the less
+ * busy options; low spontaneity switches exploration off.
+ */
+export function scoringWeights(spontaneity: Spontaneity): ScoreContributions {
+  return {
+    ...BASE_WEIGHTS,
+    popularity:
+      spontaneity === "high" ? BASE_WEIGHTS.popularity * HIGH_SPONTANEITY_POPULARITY_MULTIPLIER : BASE_WEIGHTS.popularity,
+    exploration: BASE_WEIGHTS.exploration * EXPLORATION_MULTIPLIER[spontaneity],
+  };
+}
+
+export function matchInterests(interests: string[], keywords: string[]): string[] {
+  const available = new Set(keywords);
+  return interests.filter((interest) => available.has(interest.trim().toLowerCase()));
+}
+
+export function scoreCandidate(
+  candidate: RecommendationCandidate,
+  {
+    interests,
+    spontaneity,
+    radiusKm,
+    distanceKm,
+  }: { interests: string[]; spontaneity: Spontaneity; radiusKm: number; distanceKm: number }
+): { score: number; contributions: ScoreContributions; matchedInterests: string[] } {
+  const weights = scoringWeights(spontaneity);
+  const matchedInterests = matchInterests(interests, candidate.keywords);
+  const signals: ScoreContributions = {
+    interest: interests.length > 0 ? matchedInterests.length / interests.length : 0,
+    popularity: candidate.popularity,
+    proximity: radiusKm > 0 ? Math.max(0, 1 - distanceKm / radiusKm) : 1,
+    exploration: 1 - candidate.popularity,
+  };
+  const contributions: ScoreContributions = {
+    interest: weights.interest * signals.interest,
+    popularity: weights.popularity * signals.popularity,
+    proximity: weights.proximity * signals.proximity,
+    exploration: weights.exploration * signals.exploration,
+  };
+  const score = contributions.interest + contributions.popularity + contributions.proximity + contributions.exploration;
+  return { score, contributions, matchedInterests };
+}
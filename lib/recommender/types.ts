@@ -0,0 +1,71 @@
+import type { SpontaneousCard } from "../fetchSpontaneousData";
+import type { GeoPoint } from "../geohash";
+import type { Event } from "../types";
+import type { UserPreferences } from "@/types/settings";
+
+export type RecommendationKind = "hangout" | "card" | "ai";
+
+/**
+ * `"now"`, or a window whose bounds are `"now"`, ISO date-times or (both)
+ * clock times like the ones stored in settings.
+ */
+export type RecommenderAvailability = "now" | { from?: string; to?: string };
+
+/**
+ * The subset of settings the recommender reads; see docs/recommender-contract.md.
+ */
+export type RecommenderPreferences = Pick<
+  UserPreferences,
+  | "interests"
+  | "spontaneity"
+  | "matchStrictness"
+  | "autoJoin"
+  | "locationSharing"
+  | "radiusKm"
+  | "transportPreference"
+  | "safetyMode"
+  | "aiPersona"
+  | "showReasoning"
+> & { timeAvailability: RecommenderAvailability };
+
+export interface RecommendationCandidate {
+  kind: RecommendationKind;
+  id: string;
+  title: string;
+  location: GeoPoint;
+  /** Lower-cased tags, plus title words for cards, which carry no tags. */
+  keywords: string[];
+  /** 0..1, how much other people are into it. */
+  popularity: number;
+  startTime?: string;
+  endTime?: string;
+  attendeeCount?: number;
+  item: Event | SpontaneousCard;
+}
+
+export interface Geofence {
+  center: GeoPoint;
+  radiusKm: number;
+  /** "home" when location sharing is off and the center is a coarsened home location. */
+  basis: "home" | "live";
+}
+
+export interface ScoreContributions {
+  interest: number;
+  popularity: number;
+  proximity: number;
+  exploration: number;
+}
+
+export interface Recommendation {
+  id: string;
+  kind: RecommendationKind;
+  score: number;
+  distanceKm: number;
+  matchedInterests: string[];
+  /** Only on hangouts, and only for users with auto-join on. */
+  autoJoinCandidate?: true;
+  /** Only when `showReasoning` is on. */
+  reasoning?: string[];
+  item: Event | SpontaneousCard;
+}
@@ -0,0 +1,594 @@
+import type { Event, EventRecurrence, OccurrenceOverride } from "./types";
+import { DEFAULT_EVENT_DURATION_MINUTES } from "./event-schedule";
+
+/** Fields a single occurrence can change; capacity and RSVPs belong to the series. */
+export const OCCURRENCE_OVERRIDE_FIELDS = [
+  "title",
+  "description",
+  "tags",
+  "location",
+  "startTime",
+  "endTime",
+  "priceCents",
+] as const;
+
+// getUTCDay() order
+export const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface WeekdayRule {
+  weekday: Weekday;
+  ordinal?: number; // MONTHLY only: 1 is the first, -1 the last of the month
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+const MAX_INTERVAL = 999;
+const MAX_COUNT = 1000;
+// Bounds the work of expanding one series, however far a window is from its start
+const MAX_EXPANSION_PERIODS = 10_000;
+const OCCURRENCE_ID_SEPARATOR = "__";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RecurrenceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "RecurrenceError";
+    this.status = status;
+  }
+}
+
+function parseRuleDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  // A date-only UNTIL includes that whole day
+  const date = hour
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function parseIntegerList(value: string, part: string, isValid: (n: number) => boolean): number[] {
+  return value.split(",").map((item) => {
+    const parsed = Number(item);
+    if (!/^[+-]?\d+$/.test(item) || !isValid(parsed)) {
+      throw new RecurrenceError(`Invalid ${part} value: ${item}`);
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Parses the supported RRULE subset: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL,
+ * BYDAY, BYMONTHDAY, COUNT and UNTIL. Anything else is rejected rather than
+ * ignored, so a rule never silently means something different.
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const part of source.split(";").filter(Boolean)) {
+    const [key, partValue, ...rest] = part.split("=");
+    const name = key.trim().toUpperCase();
+    if (!partValue || rest.length > 0 || parts.has(name)) {
+      throw new RecurrenceError(`Invalid RRULE part: ${part}`);
+    }
+    parts.set(name, partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new RecurrenceError("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parseIntegerList(partValue, name, (n) => n >= 1 && n <= MAX_INTERVAL)[0];
+        break;
+      case "COUNT":
+        rule.count = parseIntegerList(partValue, name, (n) => n >= 1 && n <= MAX_COUNT)[0];
+        break;
+      case "UNTIL": {
+        const until = parseRuleDate(partValue);
+        if (!until) throw new RecurrenceError(`Invalid UNTIL value: ${partValue}`);
+        rule.until = until;
+        break;
+      }
+      case "BYMONTHDAY":
+        if (freq === "WEEKLY") throw new RecurrenceError("BYMONTHDAY cannot be used with FREQ=WEEKLY");
+        rule.byMonthDay = parseIntegerList(partValue, name, (n) => n !== 0 && Math.abs(n) <= 31);
+        break;
+      case "BYDAY":
+        rule.byDay = partValue.split(",").map((item) => {
+          const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          const ordinal = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || (ordinal !== undefined && (freq !== "MONTHLY" || ordinal === 0 || Math.abs(ordinal) > 5))) {
+            throw new RecurrenceError(`Invalid BYDAY value: ${item}`);
+          }
+          return ordinal === undefined ? { weekday: match[2] as Weekday } : { weekday: match[2] as Weekday, ordinal };
+        });
+        break;
+      case "WKST":
+        // Weeks start on Monday, the RFC default
+        if (partValue !== "MO") throw new RecurrenceError("Only WKST=MO is supported");
+        break;
+      default:
+        throw new RecurrenceError(`Unsupported RRULE part: ${name}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RecurrenceError("COUNT and UNTIL cannot be combined");
+  }
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ""}${weekday}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatRuleDate(rule.until)}`);
+  return parts.join(";");
+}
+
+interface WallClock {
+  day: number; // Days since 1970-01-01
+  secondOfDay: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    zoneFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The instant as wall-clock milliseconds in `timezone` (UTC when unset). */
+function toWallMs(instant: number, timezone?: string): number {
+  const seconds = Math.floor(instant / 1000) * 1000;
+  if (!timezone) return seconds;
+  const fields: Record<string, number> = {};
+  for (const { type, value } of zoneFormatter(timezone).formatToParts(new Date(seconds))) {
+    fields[type] = Number(value);
+  }
+  return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+}
+
+function fromWallMs(wall: number, timezone?: string): Date {
+  if (!timezone) return new Date(wall);
+  // Guess with the offset at the wall time, then correct once for a DST change in between
+  const guess = wall - (toWallMs(wall, timezone) - wall);
+  return new Date(wall - (toWallMs(guess, timezone) - guess));
+}
+
+/** Minutes `timezone` is ahead of UTC at `instant`. */
+export function zoneOffsetMinutes(instant: number, timezone: string): number {
+  return Math.round((toWallMs(instant, timezone) - Math.floor(instant / 1000) * 1000) / 60_000);
+}
+
+export interface ZoneTransition {
+  at: Date; // First instant with the new offset
+  offsetFrom: number; // Minutes ahead of UTC
+  offsetTo: number;
+}
+
+/**
+ * The UTC offset changes of `timezone` during `year`, to the minute. Days are
+ * scanned for a change, which is then narrowed down by bisection.
+ */
+export function zoneTransitions(timezone: string, year: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let day = Date.UTC(year, 0, 1);
+  let offset = zoneOffsetMinutes(day, timezone);
+  for (; day < end; day += DAY_MS) {
+    const nextOffset = zoneOffsetMinutes(day + DAY_MS, timezone);
+    if (nextOffset === offset) continue;
+    let before = day;
+    let after = day + DAY_MS;
+    while (after - before > 60_000) {
+      const middle = before + Math.floor((after - before) / 120_000) * 60_000;
+      if (zoneOffsetMinutes(middle, timezone) === offset) before = middle;
+      else after = middle;
+    }
+    transitions.push({ at: new Date(after), offsetFrom: offset, offsetTo: nextOffset });
+    offset = nextOffset;
+  }
+  return transitions;
+}
+
+/**
+ * RFC 5545 DATE-TIME of an instant: UTC ("…Z"), or local time in `timezone`
+ * for use with TZID.
+ */
+export function formatRfcDateTime(instant: Date, timezone?: string): string {
+  return timezone ? formatRuleDate(new Date(toWallMs(instant.getTime(), timezone))).slice(0, -1) : formatRuleDate(instant);
+}
+
+/**
+ * Reads an RFC 5545 DATE or DATE-TIME. Local times are read in `timezone`
+ * (the TZID parameter), or as UTC when it is unset.
+ */
+export function parseRfcDateTime(value: string, timezone?: string): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour = "0", minute = "0", second = "0", utc] = match;
+  const wall = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  if (Number.isNaN(wall)) return null;
+  return utc ? new Date(wall) : fromWallMs(wall, timezone);
+}
+
+function toWallClock(instant: Date, timezone?: string): WallClock {
+  const wall = toWallMs(instant.getTime(), timezone);
+  return { day: Math.floor(wall / DAY_MS), secondOfDay: (wall % DAY_MS) / 1000 };
+}
+
+const weekdayOf = (day: number) => (((day + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+const weekdayIndex = (weekday: Weekday) => WEEKDAYS.indexOf(weekday);
+
+function monthDays(year: number, month: number): { first: number; length: number } {
+  const first = Date.UTC(year, month, 1) / DAY_MS;
+  return { first, length: Date.UTC(year, month + 1, 1) / DAY_MS - first };
+}
+
+function resolveMonthDay(monthDay: number, length: number): number | null {
+  const resolved = monthDay > 0 ? monthDay : length + monthDay + 1;
+  return resolved >= 1 && resolved <= length ? resolved : null;
+}
+
+/** Candidate days of the `period`-th interval after the start day, in order. */
+function periodDays(rule: RecurrenceRule, startDay: number, period: number): number[] {
+  if (rule.freq === "DAILY") {
+    const day = startDay + period * rule.interval;
+    const date = new Date(day * DAY_MS);
+    const { length } = monthDays(date.getUTCFullYear(), date.getUTCMonth());
+    const matchesWeekday = !rule.byDay || rule.byDay.some(({ weekday }) => weekdayIndex(weekday) === weekdayOf(day));
+    const matchesMonthDay =
+      !rule.byMonthDay || rule.byMonthDay.some((monthDay) => resolveMonthDay(monthDay, length) === date.getUTCDate());
+    return matchesWeekday && matchesMonthDay ? [day] : [];
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const monday = startDay - ((weekdayOf(startDay) + 6) % 7) + 7 * period * rule.interval;
+    const weekdays = rule.byDay ? rule.byDay.map(({ weekday }) => weekdayIndex(weekday)) : [weekdayOf(startDay)];
+    return [...new Set(weekdays.map((weekday) => monday + ((weekday + 6) % 7)))].sort((a, b) => a - b);
+  }
+
+  const start = new Date(startDay * DAY_MS);
+  const monthIndex = start.getUTCMonth() + period * rule.interval;
+  const { first, length } = monthDays(start.getUTCFullYear() + Math.floor(monthIndex / 12), monthIndex % 12);
+  let days: number[] | undefined;
+  if (rule.byDay) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const firstMatch = 1 + ((weekdayIndex(weekday) - weekdayOf(first) + 7) % 7);
+      const matches: number[] = [];
+      for (let monthDay = firstMatch; monthDay <= length; monthDay += 7) matches.push(monthDay);
+      if (ordinal === undefined) return matches;
+      const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      return picked === undefined ? [] : [picked];
+    });
+  }
+  if (rule.byMonthDay) {
+    const byMonthDay = rule.byMonthDay
+      .map((monthDay) => resolveMonthDay(monthDay, length))
+      .filter((monthDay): monthDay is number => monthDay !== null);
+    // Both parts together keep only the days matching each
+    days = days ? days.filter((monthDay) => byMonthDay.includes(monthDay)) : byMonthDay;
+  }
+  if (!days) {
+    const monthDay = start.getUTCDate();
+    days = monthDay <= length ? [monthDay] : [];
+  }
+  return [...new Set(days)].sort((a, b) => a - b).map((monthDay) => first + monthDay - 1);
+}
+
+/**
+ * Every start the rule generates from `dtstart`, in order. Exceptions still
+ * count towards COUNT, as in RFC 5545.
+ */
+function* ruleStarts(recurrence: Pick<EventRecurrence, "dtstart" | "timezone">, rule: RecurrenceRule) {
+  const dtstart = new Date(recurrence.dtstart);
+  if (Number.isNaN(dtstart.getTime())) return;
+  const { day: startDay, secondOfDay } = toWallClock(dtstart, recurrence.timezone);
+  let generated = 0;
+  for (let period = 0; period < MAX_EXPANSION_PERIODS; period++) {
+    for (const day of periodDays(rule, startDay, period)) {
+      if (day < startDay) continue;
+      const start = fromWallMs(day * DAY_MS + secondOfDay * 1000, recurrence.timezone);
+      if (start.getTime() < dtstart.getTime()) continue;
+      if (rule.until && start.getTime() > rule.until.getTime()) return;
+      yield start;
+      generated += 1;
+      if (rule.count !== undefined && generated >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * Starts of the occurrences in [from, to], cancelled ones excluded.
+ */
+export function listOccurrenceStarts(
+  recurrence: EventRecurrence,
+  { from, to, limit = MAX_COUNT }: { from: Date; to: Date; limit?: number }
+): Date[] {
+  const excluded = new Set(recurrence.exdates ?? []);
+  const starts: Date[] = [];
+  for (const start of ruleStarts(recurrence, parseRRule(recurrence.rrule))) {
+    if (start.getTime() > to.getTime() || starts.length >= limit) break;
+    if (start.getTime() >= from.getTime() && !excluded.has(start.toISOString())) {
+      starts.push(start);
+    }
+  }
+  return starts;
+}
+
+export function isOccurrenceStart(recurrence: EventRecurrence, start: Date): boolean {
+  return listOccurrenceStarts(recurrence, { from: start, to: start, limit: 1 }).length === 1;
+}
+
+/**
+ * The occurrence a series doc should show: the first one that has not ended,
+ * else the last one. Null when the rule has no occurrences left at all.
+ */
+export function currentOccurrence(
+  recurrence: EventRecurrence,
+  durationMs: number,
+  now: Date = new Date()
+): { startTime: string; endTime: string } | null {
+  const excluded = new Set(recurrence.exdates ?? []);
+  let latest: Date | null = null;
+  for (const start of ruleStarts(recurrence, parseRRule(recurrence.rrule))) {
+    if (excluded.has(start.toISOString())) continue;
+    latest = start;
+    if (start.getTime() + durationMs >= now.getTime()) break;
+  }
+  return latest
+    ? { startTime: latest.toISOString(), endTime: new Date(latest.getTime() + durationMs).toISOString() }
+    : null;
+}
+
+export function seriesDurationMs(event: { startTime?: string; endTime?: string }): number {
+  const duration = Date.parse(event.endTime ?? "") - Date.parse(event.startTime ?? "");
+  return Number.isFinite(duration) && duration > 0 ? duration : DEFAULT_EVENT_DURATION_MINUTES * 60_000;
+}
+
+export function occurrenceId(seriesId: string, start: Date): string {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${formatRuleDate(start)}`;
+}
+
+/** Series id and rule start of an occurrence id; null for any other id. */
+export function parseOccurrenceId(id: string): { seriesId: string; occurrenceStart: string } | null {
+  const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (index <= 0) return null;
+  const suffix = id.slice(index + OCCURRENCE_ID_SEPARATOR.length);
+  const start = /^\d{8}T\d{6}Z$/.test(suffix) ? parseRuleDate(suffix) : null;
+  return start ? { seriesId: id.slice(0, index), occurrenceStart: start.toISOString() } : null;
+}
+
+/**
+ * The occurrences of a series that overlap [from, to], each as an event of
+ * its own with any override applied.
+ */
+export function expandOccurrences(
+  event: Event,
+  { from, to, limit }: { from: Date; to: Date; limit?: number }
+): Event[] {
+  const { recurrence } = event;
+  if (!recurrence || !event.id) return [];
+  const seriesId = event.id;
+  const durationMs = seriesDurationMs(event);
+  const series: Event = { ...event };
+  delete series.recurrence;
+
+  return listOccurrenceStarts(recurrence, { from: new Date(from.getTime() - durationMs), to, limit }).map(
+    (start) => {
+      const key = start.toISOString();
+      const override = recurrence.overrides?.[key] ?? {};
+      const startTime = override.startTime ?? key;
+      return {
+        ...series,
+        ...override,
+        id: occurrenceId(seriesId, start),
+        seriesId,
+        occurrenceStart: key,
+        startTime,
+        endTime: override.endTime ?? new Date(Date.parse(startTime) + durationMs).toISOString(),
+      };
+    }
+  );
+}
+
+function normalizeInstant(value: unknown, field: string): string {
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new RecurrenceError(`${field} must contain ISO dates`);
+  }
+  return date.toISOString();
+}
+
+function normalizeOverrides(value: unknown): Record<string, OccurrenceOverride> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new RecurrenceError("overrides must map occurrence starts to changes");
+  }
+  const allowed = new Set<string>(OCCURRENCE_OVERRIDE_FIELDS);
+  const overrides: Record<string, OccurrenceOverride> = {};
+  for (const [start, override] of Object.entries(value)) {
+    if (!override || typeof override !== "object" || Object.keys(override).some((field) => !allowed.has(field))) {
+      throw new RecurrenceError(`Occurrences can only override: ${OCCURRENCE_OVERRIDE_FIELDS.join(", ")}`);
+    }
+    overrides[normalizeInstant(start, "overrides")] = override as OccurrenceOverride;
+  }
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+/**
+ * Validates submitted recurrence (an RRULE string, `RecurrenceInput` or a
+ * stored `EventRecurrence`) and returns it in stored form. `dtstart` defaults
+ * to `startTime` and is moved to the first start the rule generates.
+ */
+export function normalizeRecurrence(input: unknown, startTime: string | undefined): EventRecurrence {
+  const raw = (typeof input === "string" ? { rrule: input } : input) as Record<string, unknown> | null;
+  if (!raw || typeof raw !== "object" || typeof raw.rrule !== "string") {
+    throw new RecurrenceError("recurrence must be an RRULE string or an object with rrule");
+  }
+
+  const rule = parseRRule(raw.rrule);
+  if (raw.until !== undefined && raw.until !== null) {
+    if (rule.count !== undefined) throw new RecurrenceError("COUNT and until cannot be combined");
+    rule.until = new Date(normalizeInstant(raw.until, "until"));
+  }
+
+  const timezone = typeof raw.timezone === "string" && raw.timezone.trim() ? raw.timezone.trim() : undefined;
+  if (timezone && !isValidTimeZone(timezone)) {
+    throw new RecurrenceError(`Unknown timezone: ${timezone}`);
+  }
+
+  const requestedStart = raw.dtstart ?? startTime;
+  if (requestedStart === undefined) {
+    throw new RecurrenceError("Recurring events need a startTime");
+  }
+  const first = ruleStarts({ dtstart: normalizeInstant(requestedStart, "dtstart"), timezone }, rule).next();
+  if (first.done) {
+    throw new RecurrenceError("The recurrence rule has no occurrences");
+  }
+
+  if (raw.exdates !== undefined && !Array.isArray(raw.exdates)) {
+    throw new RecurrenceError("exdates must be a list of ISO dates");
+  }
+  const exdates = [...new Set(((raw.exdates as unknown[] | undefined) ?? []).map((exdate) => normalizeInstant(exdate, "exdates")))];
+  const overrides = normalizeOverrides(raw.overrides);
+
+  // Firestore rejects undefined fields, so optional ones are only set when present
+  const recurrence: EventRecurrence = { rrule: formatRRule(rule), dtstart: first.value.toISOString() };
+  if (exdates.length > 0) recurrence.exdates = exdates.sort();
+  if (overrides) recurrence.overrides = overrides;
+  if (timezone) recurrence.timezone = timezone;
+  return recurrence;
+}
+
+/** Stored recurrence as read from a document; undefined when absent or malformed. */
+export function readRecurrence(value: unknown): EventRecurrence | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.rrule !== "string" || typeof raw.dtstart !== "string") return undefined;
+  const recurrence: EventRecurrence = { rrule: raw.rrule, dtstart: raw.dtstart };
+  if (Array.isArray(raw.exdates)) {
+    recurrence.exdates = raw.exdates.filter((exdate): exdate is string => typeof exdate === "string");
+  }
+  if (raw.overrides && typeof raw.overrides === "object") {
+    recurrence.overrides = raw.overrides as Record<string, OccurrenceOverride>;
+  }
+  if (typeof raw.timezone === "string") recurrence.timezone = raw.timezone;
+  return recurrence;
+}
+
+/**
+ * Moves a whole series by `deltaMs`, keeping exceptions and overrides attached
+ * to the occurrences they belonged to. BYDAY and BYMONTHDAY are not rewritten.
+ */
+export function shiftRecurrence(recurrence: EventRecurrence, deltaMs: number): EventRecurrence {
+  const shift = (iso: string) => new Date(Date.parse(iso) + deltaMs).toISOString();
+  const rule = parseRRule(recurrence.rrule);
+  if (rule.until) rule.until = new Date(rule.until.getTime() + deltaMs);
+
+  const shifted: EventRecurrence = { ...recurrence, rrule: formatRRule(rule), dtstart: shift(recurrence.dtstart) };
+  if (recurrence.exdates) shifted.exdates = recurrence.exdates.map(shift);
+  if (recurrence.overrides) {
+    shifted.overrides = Object.fromEntries(
+      Object.entries(recurrence.overrides).map(([start, override]) => [shift(start), override])
+    );
+  }
+  return shifted;
+}
+
+/**
+ * Splits a series at the occurrence starting at `at`: `previous` keeps the
+ * occurrences before it (null when there are none) and `following` the rest,
+ * with COUNT shared out between the two.
+ */
+export function splitRecurrence(
+  recurrence: EventRecurrence,
+  at: Date
+): { previous: EventRecurrence | null; following: EventRecurrence } {
+  const rule = parseRRule(recurrence.rrule);
+  let before = 0;
+  for (const start of ruleStarts(recurrence, rule)) {
+    if (start.getTime() >= at.getTime()) break;
+    before += 1;
+  }
+
+  const partition = (keep: (start: string) => boolean) => {
+    const part: Pick<EventRecurrence, "exdates" | "overrides"> = {};
+    const exdates = recurrence.exdates?.filter(keep);
+    if (exdates?.length) part.exdates = exdates;
+    const overrides = Object.entries(recurrence.overrides ?? {}).filter(([start]) => keep(start));
+    if (overrides.length > 0) part.overrides = Object.fromEntries(overrides);
+    return part;
+  };
+  const isBefore = (start: string) => Date.parse(start) < at.getTime();
+
+  const withRule = (part: RecurrenceRule, dtstart: string, keep: (start: string) => boolean): EventRecurrence => ({
+    rrule: formatRRule(part),
+    dtstart,
+    ...(recurrence.timezone ? { timezone: recurrence.timezone } : {}),
+    ...partition(keep),
+  });
+
+  const following = withRule(
+    rule.count !== undefined ? { ...rule, count: rule.count - before } : rule,
+    at.toISOString(),
+    (start) => !isBefore(start)
+  );
+  if (before === 0) {
+    return { previous: null, following };
+  }
+  const previousRule: RecurrenceRule =
+    rule.count !== undefined ? { ...rule, count: before } : { ...rule, until: new Date(at.getTime() - 1000) };
+  return { previous: withRule(previousRule, recurrence.dtstart, isBefore), following };
+}
@@ -0,0 +1,252 @@
+import { getQueryExecutor, withTransaction, type QueryExecutor } from "./db";
+
+export type RsvpResponse = "going" | "maybe";
+export type RsvpStatus = RsvpResponse | "waitlisted";
+
+export interface RsvpRecord {
+  eventId: string;
+  tenantId: string;
+  userId: string;
+  status: RsvpStatus;
+  createdAt: string;
+  /** When the current status was taken; orders the waitlist. */
+  updatedAt: string;
+}
+
+export interface RsvpCounts {
+  going: number;
+  maybe: number;
+  waitlisted: number;
+}
+
+type RsvpRow = {
+  event_id: string;
+  tenant_id: string;
+  user_id: string;
+  status: RsvpStatus;
+  created_at: Date | string;
+  updated_at: Date | string;
+};
+
+let rsvpTableInitialized = false;
+
+async function ensureRsvpTable(executor: QueryExecutor) {
+  if (rsvpTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS event_rsvps (
+      event_id VARCHAR NOT NULL,
+      tenant_id VARCHAR NOT NULL,
+      user_id VARCHAR NOT NULL,
+      status VARCHAR NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (event_id, user_id)
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_event_rsvps_event_status ON event_rsvps (event_id, status, updated_at)`
+  );
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS event_rsvp_locks (
+      event_id VARCHAR PRIMARY KEY
+    )
+  `);
+  rsvpTableInitialized = true;
+}
+
+const eventQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs seat-allocating writes for one event one at a time: queued within this
+ * instance, and across instances by a row lock held for the transaction. The
+ * lock is a row of its own because the event may not be stored in Postgres.
+ */
+async function withEventLock<T>(eventId: string, work: (executor: QueryExecutor) => Promise<T>): Promise<T> {
+  await ensureRsvpTable(getQueryExecutor());
+  const previous = eventQueues.get(eventId) ?? Promise.resolve();
+  const run = previous
+    .catch(() => undefined)
+    .then(() =>
+      withTransaction(async (executor) => {
+        await executor.query(`INSERT INTO event_rsvp_locks (event_id) VALUES ($1) ON CONFLICT (event_id) DO NOTHING`, [
+          eventId,
+        ]);
+        await executor.query(`SELECT event_id FROM event_rsvp_locks WHERE event_id = $1 FOR UPDATE`, [eventId]);
+        return work(executor);
+      })
+    );
+  eventQueues.set(eventId, run);
+  try {
+    return await run;
+  } finally {
+    if (eventQueues.get(eventId) === run) {
+      eventQueues.delete(eventId);
+    }
+  }
+}
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toRecord(row: RsvpRow): RsvpRecord {
+  return {
+    eventId: row.event_id,
+    tenantId: row.tenant_id,
+    userId: row.user_id,
+    status: row.status,
+    createdAt: toIso(row.created_at),
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+export async function getRsvp(eventId: string, userId: string): Promise<RsvpRecord | null> {
+  const executor = getQueryExecutor();
+  await ensureRsvpTable(executor);
+  return selectRsvp(executor, eventId, userId);
+}
+
+async function selectRsvp(executor: QueryExecutor, eventId: string, userId: string): Promise<RsvpRecord | null> {
+  const result = await executor.query(
+    `SELECT event_id, tenant_id, user_id, status, created_at, updated_at
+       FROM event_rsvps WHERE event_id = $1 AND user_id = $2`,
+    [eventId, userId]
+  );
+  const row = result.rows[0] as RsvpRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Going, then maybe, then the waitlist in the order it was joined.
+ */
+export async function listRsvps(eventId: string): Promise<RsvpRecord[]> {
+  const executor = getQueryExecutor();
+  await ensureRsvpTable(executor);
+  const result = await executor.query(
+    `SELECT event_id, tenant_id, user_id, status, created_at, updated_at
+       FROM event_rsvps WHERE event_id = $1
+      ORDER BY CASE status WHEN 'going' THEN 0 WHEN 'maybe' THEN 1 ELSE 2 END, updated_at, user_id`,
+    [eventId]
+  );
+  return (result.rows as RsvpRow[]).map(toRecord);
+}
+
+export async function countRsvps(eventId: string): Promise<RsvpCounts> {
+  const executor = getQueryExecutor();
+  await ensureRsvpTable(executor);
+  return selectCounts(executor, eventId);
+}
+
+async function selectCounts(executor: QueryExecutor, eventId: string): Promise<RsvpCounts> {
+  const result = await executor.query(
+    `SELECT status, COUNT(*) AS total FROM event_rsvps WHERE event_id = $1 GROUP BY status`,
+    [eventId]
+  );
+  const counts: RsvpCounts = { going: 0, maybe: 0, waitlisted: 0 };
+  (result.rows as Array<{ status: RsvpStatus; total: string | number }>).forEach((row) => {
+    if (row.status in counts) {
+      counts[row.status] = Number(row.total);
+    }
+  });
+  return counts;
+}
+
+/**
+ * Records a response. "going" lands on the waitlist once `capacity` is taken;
+ * repeating the current response keeps the original timestamp (and so the
+ * waitlist position). `capacity` null means unlimited. Seats are counted and
+ * taken under the event's lock, so concurrent RSVPs cannot overbook.
+ */
+export async function upsertRsvp({
+  eventId,
+  tenantId,
+  userId,
+  response,
+  capacity,
+  now = new Date(),
+}: {
+  eventId: string;
+  tenantId: string;
+  userId: string;
+  response: RsvpResponse;
+  capacity: number | null;
+  now?: Date;
+}): Promise<RsvpRecord> {
+  return withEventLock(eventId, async (executor) => {
+    const existing = await selectRsvp(executor, eventId, userId);
+    if (existing?.status === response || (existing?.status === "waitlisted" && response === "going")) {
+      return existing;
+    }
+
+    let status: RsvpStatus = response;
+    if (response === "going" && capacity !== null) {
+      const { going } = await selectCounts(executor, eventId);
+      if (going >= capacity) {
+        status = "waitlisted";
+      }
+    }
+
+    const result = await executor.query(
+      `INSERT INTO event_rsvps (event_id, tenant_id, user_id, status, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $5)
+       ON CONFLICT (event_id, user_id)
+       DO UPDATE SET status = EXCLUDED.status, updated_at = EXCLUDED.updated_at
+       RETURNING event_id, tenant_id, user_id, status, created_at, updated_at`,
+      [eventId, tenantId, userId, status, now]
+    );
+    return toRecord(result.rows[0] as RsvpRow);
+  });
+}
+
+export async function deleteRsvp(eventId: string, userId: string): Promise<RsvpRecord | null> {
+  const executor = getQueryExecutor();
+  await ensureRsvpTable(executor);
+  const result = await executor.query(
+    `DELETE FROM event_rsvps WHERE event_id = $1 AND user_id = $2
+     RETURNING event_id, tenant_id, user_id, status, created_at, updated_at`,
+    [eventId, userId]
+  );
+  const row = result.rows[0] as RsvpRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Moves the longest-waiting users to "going" until `capacity` is filled,
+ * under the event's lock. Returns the promoted records.
+ */
+export async function promoteWaitlist(
+  eventId: string,
+  capacity: number | null,
+  now: Date = new Date()
+): Promise<RsvpRecord[]> {
+  return withEventLock(eventId, async (executor) => {
+    const { going, waitlisted } = await selectCounts(executor, eventId);
+    const openSeats = capacity === null ? waitlisted : Math.max(capacity - going, 0);
+    if (openSeats === 0 || waitlisted === 0) {
+      return [];
+    }
+
+    const queue = await executor.query(
+      `SELECT user_id FROM event_rsvps WHERE event_id = $1 AND status = 'waitlisted'
+        ORDER BY updated_at, user_id LIMIT $2`,
+      [eventId, openSeats]
+    );
+
+    const promoted: RsvpRecord[] = [];
+    for (const { user_id: userId } of queue.rows as Array<{ user_id: string }>) {
+      const result = await executor.query(
+        `UPDATE event_rsvps SET status = 'going', updated_at = $3
+          WHERE event_id = $1 AND user_id = $2 AND status = 'waitlisted'
+         RETURNING event_id, tenant_id, user_id, status, created_at, updated_at`,
+        [eventId, userId, now]
+      );
+      const row = result.rows[0] as RsvpRow | undefined;
+      if (row) promoted.push(toRecord(row));
+    }
+    return promoted;
+  });
+}
+
+export function resetRsvpStoreForTests() {
+  rsvpTableInitialized = false;
+}
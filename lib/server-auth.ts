@@ -1,5 +1,4 @@
 import { createHmac } from "crypto";
-import type { NextRequest } from "next/server";
 import { getAdminAuth } from "@/lib/firebase-admin";
 
 export class UnauthorizedError extends Error {
@@ -12,6 +11,16 @@ export class UnauthorizedError extends Error {
   }
 }
 
+export class ForbiddenError extends Error {
+  status: number;
+
+  constructor(message: string = "Forbidden") {
+    super(message);
+    this.name = "ForbiddenError";
+    this.status = 403;
+  }
+}
+
 export interface AuthenticatedUser {
   id: string;
   email?: string;
@@ -114,7 +123,7 @@ function normalizeScopes(scope?: string | string[]): string[] {
   return scope.split(/[\s,]+/).filter(Boolean);
 }
 
-export async function getUserFromReq(req: NextRequest): Promise<AuthenticatedUser> {
+export async function getUserFromReq(req: Request): Promise<AuthenticatedUser> {
   const authHeader = req.headers.get("authorization");
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     throw new UnauthorizedError("Missing bearer token");
@@ -134,3 +143,20 @@ export async function getUserFromReq(req: NextRequest): Promise<AuthenticatedUse
     scopes: normalizeScopes(payload.scope),
   };
 }
+
+export function hasScope(user: AuthenticatedUser, scopes: string[]): boolean {
+  return scopes.some((scope) => user.scopes.includes(scope));
+}
+
+export function requireScope(user: AuthenticatedUser, scopes: string[]): void {
+  if (!hasScope(user, scopes)) {
+    throw new ForbiddenError(`Missing required scope: ${scopes.join(" or ")}`);
+  }
+}
+
+/** Moderate every tenant's hangouts; `events:moderate:<tenantId>` covers one tenant. */
+export const EVENT_MODERATOR_SCOPES = ["admin", "events:moderate"];
+
+export function isTenantModerator(user: AuthenticatedUser, tenantId: string): boolean {
+  return hasScope(user, [...EVENT_MODERATOR_SCOPES, `events:moderate:${tenantId}`]);
+}
@@ -0,0 +1,182 @@
+import { normalizeTag } from "./validation/event-schema";
+
+/**
+ * A canonical tag, the category it belongs to and the words that mean the
+ * same. Categories are tags too, so "music" matches "live music".
+ */
+export interface TagDefinition {
+  tag: string;
+  category: string;
+  synonyms: string[];
+}
+
+export const DEFAULT_TAG_VOCABULARY: TagDefinition[] = [
+  { tag: "music", category: "music", synonyms: ["musical", "musician"] },
+  { tag: "live music", category: "music", synonyms: ["concert", "gig", "live band", "live show", "jam session"] },
+  { tag: "jazz", category: "music", synonyms: ["jazz club", "blues"] },
+  { tag: "karaoke", category: "music", synonyms: ["sing along", "singalong"] },
+  { tag: "open mic", category: "music", synonyms: ["open mike", "poetry slam"] },
+
+  { tag: "food", category: "food", synonyms: ["foodie", "eats", "dining", "fine dining", "food tasting"] },
+  { tag: "restaurant", category: "food", synonyms: ["bistro", "eatery", "diner", "trattoria"] },
+  { tag: "cafe", category: "food", synonyms: ["coffee", "coffee shop", "coffeehouse", "espresso bar"] },
+  { tag: "brunch", category: "food", synonyms: ["breakfast"] },
+  { tag: "market", category: "food", synonyms: ["farmers market", "flea market", "night market", "bazaar", "food hall"] },
+  { tag: "wine", category: "food", synonyms: ["wine tasting", "winery", "wine bar"] },
+  { tag: "beer", category: "food", synonyms: ["brewery", "craft beer", "taproom", "beer garden"] },
+
+  { tag: "nightlife", category: "nightlife", synonyms: ["night out", "late night"] },
+  { tag: "bar", category: "nightlife", synonyms: ["pub", "tavern", "cocktail bar", "cocktails", "lounge", "speakeasy"] },
+  { tag: "club", category: "nightlife", synonyms: ["nightclub", "clubbing", "dance club"] },
+  { tag: "party", category: "nightlife", synonyms: ["parties", "house party", "rooftop party"] },
+  { tag: "dj", category: "nightlife", synonyms: ["dj set", "dance party"] },
+
+  { tag: "outdoors", category: "outdoors", synonyms: ["outdoor", "outside", "open air", "nature", "fresh air"] },
+  { tag: "hiking", category: "outdoors", synonyms: ["hike", "trail", "trek", "trekking"] },
+  { tag: "park", category: "outdoors", synonyms: ["garden", "botanical garden", "green space"] },
+  { tag: "picnic", category: "outdoors", synonyms: ["picnicking"] },
+  { tag: "beach", category: "outdoors", synonyms: ["seaside", "waterfront", "shore"] },
+  { tag: "walk", category: "outdoors", synonyms: ["walking", "stroll", "neighborhood walk"] },
+  { tag: "camping", category: "outdoors", synonyms: ["camp", "campfire"] },
+
+  { tag: "art", category: "art", synonyms: ["arts", "culture", "exhibition", "exhibit", "art show"] },
+  { tag: "gallery", category: "art", synonyms: ["art gallery", "gallery hop"] },
+  { tag: "museum", category: "art", synonyms: ["history museum", "science museum"] },
+  { tag: "theater", category: "art", synonyms: ["theatre", "musical theater", "drama", "performance"] },
+  { tag: "comedy", category: "art", synonyms: ["stand up", "standup", "improv", "comedy club"] },
+  { tag: "film", category: "art", synonyms: ["movie", "cinema", "screening", "film screening"] },
+  { tag: "photography", category: "art", synonyms: ["photo walk", "photos"] },
+
+  { tag: "sports", category: "sports", synonyms: ["sport", "pickup game", "pickup"] },
+  { tag: "running", category: "sports", synonyms: ["run", "jog", "jogging", "run club", "5k"] },
+  { tag: "cycling", category: "sports", synonyms: ["bike", "biking", "bike ride", "cycle"] },
+  { tag: "climbing", category: "sports", synonyms: ["bouldering", "rock climbing"] },
+
+  { tag: "wellness", category: "wellness", synonyms: ["self care", "spa", "mindfulness"] },
+  { tag: "yoga", category: "wellness", synonyms: ["vinyasa", "yoga class"] },
+  { tag: "meditation", category: "wellness", synonyms: ["sound bath", "breathwork"] },
+  { tag: "fitness", category: "wellness", synonyms: ["workout", "gym", "bootcamp", "exercise"] },
+
+  { tag: "learning", category: "learning", synonyms: ["education", "educational"] },
+  { tag: "class", category: "learning", synonyms: ["classes", "workshop", "lesson", "course"] },
+  { tag: "talk", category: "learning", synonyms: ["lecture", "panel", "fireside chat"] },
+  { tag: "tour", category: "learning", synonyms: ["guided tour", "walking tour", "city tour"] },
+  { tag: "book club", category: "learning", synonyms: ["reading group", "books"] },
+  { tag: "tech", category: "learning", synonyms: ["technology", "hackathon", "coding", "innovation"] },
+
+  { tag: "social", category: "social", synonyms: ["socialize", "mixer"] },
+  { tag: "meetup", category: "social", synonyms: ["meet up", "gathering", "hangout", "hang out", "get together"] },
+  { tag: "games", category: "social", synonyms: ["game", "board games", "game night", "arcade"] },
+  { tag: "trivia", category: "social", synonyms: ["quiz", "pub quiz", "quiz night"] },
+  { tag: "networking", category: "social", synonyms: ["networking event", "career fair"] },
+  { tag: "festival", category: "social", synonyms: ["fest", "fair", "street fair"] },
+  { tag: "volunteering", category: "social", synonyms: ["volunteer", "cleanup", "community service"] },
+
+  { tag: "family", category: "family", synonyms: ["family friendly", "kids", "kid friendly", "children", "all ages"] },
+
+  { tag: "weather", category: "weather", synonyms: ["forecast", "temperature", "climate"] },
+  { tag: "sunset", category: "weather", synonyms: ["golden hour", "dusk"] },
+  { tag: "sunrise", category: "weather", synonyms: ["dawn"] },
+  { tag: "rain", category: "weather", synonyms: ["rainy", "showers", "drizzle"] },
+];
+
+export interface TagTaxonomy {
+  /** Built-in entries with the tenant's additions applied. */
+  vocabulary: TagDefinition[];
+  /** The canonical form of a tag; tags outside the vocabulary come back normalized. */
+  canonicalTag(tag: string): string;
+  /** Canonical tags without duplicates, in their original order. */
+  canonicalTags(tags: string[]): string[];
+  /** The category of a tag, or null for tags outside the vocabulary. */
+  categoryOf(tag: string): string | null;
+  /** Canonical tags named in free text, preferring the longest phrase ("book club" over "club"). */
+  tagsInText(text: string): string[];
+  /** Whether some tag satisfies some preference, as the same canonical tag or by its category. */
+  matchesPreferences(tags: string[], preferences: string[]): boolean;
+}
+
+/** A tag as a lookup key: normalized, without accents and with "-" and "_" as spaces. */
+function lookupKey(tag: string): string {
+  return normalizeTag(tag)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[-_\s]+/g, " ")
+    .trim();
+}
+
+/**
+ * A taxonomy of the built-in vocabulary plus `extensions`. An extension for a
+ * built-in tag adds its synonyms and moves it to the given category; the
+ * extensions' synonyms win where both claim the same word.
+ */
+export function createTagTaxonomy(extensions: TagDefinition[] = []): TagTaxonomy {
+  const byTag = new Map<string, TagDefinition>();
+  for (const definition of [...DEFAULT_TAG_VOCABULARY, ...extensions]) {
+    const tag = normalizeTag(definition.tag);
+    const existing = byTag.get(tag);
+    byTag.set(tag, {
+      tag,
+      category: normalizeTag(definition.category),
+      synonyms: [...new Set([...(existing?.synonyms ?? []), ...definition.synonyms.map(normalizeTag)])],
+    });
+  }
+  const vocabulary = [...byTag.values()];
+
+  // Built-in words first, so the extensions overwrite them
+  const canonicalByKey = new Map<string, string>();
+  const categoryByTag = new Map<string, string>();
+  for (const definitions of [DEFAULT_TAG_VOCABULARY, extensions]) {
+    for (const { tag: rawTag } of definitions) {
+      const { tag, category, synonyms } = byTag.get(normalizeTag(rawTag))!;
+      for (const word of [...synonyms, tag]) {
+        canonicalByKey.set(lookupKey(word), tag);
+      }
+      categoryByTag.set(tag, category);
+      if (!canonicalByKey.has(lookupKey(category))) {
+        canonicalByKey.set(lookupKey(category), category);
+      }
+    }
+  }
+  const longestPhrase = Math.max(...[...canonicalByKey.keys()].map((key) => key.split(" ").length));
+
+  // Plurals resolve through their singular ("concerts", "parks")
+  const resolve = (key: string): string | undefined =>
+    canonicalByKey.get(key) ?? (key.length > 3 && key.endsWith("s") ? canonicalByKey.get(key.slice(0, -1)) : undefined);
+
+  const canonicalTag = (tag: string) => resolve(lookupKey(tag)) ?? normalizeTag(tag);
+  const categoryOf = (tag: string) => categoryByTag.get(canonicalTag(tag)) ?? null;
+
+  return {
+    vocabulary,
+    canonicalTag,
+    canonicalTags: (tags) => [...new Set(tags.map(canonicalTag).filter(Boolean))],
+    categoryOf,
+    tagsInText(text) {
+      const words = lookupKey(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      const found = new Set<string>();
+      for (let i = 0; i < words.length; i++) {
+        for (let length = Math.min(longestPhrase, words.length - i); length > 0; length--) {
+          const tag = resolve(words.slice(i, i + length).join(" "));
+          if (tag) {
+            found.add(tag);
+            i += length - 1;
+            break;
+          }
+        }
+      }
+      return [...found];
+    },
+    matchesPreferences(tags, preferences) {
+      const satisfied = new Set<string>();
+      for (const tag of tags) {
+        satisfied.add(canonicalTag(tag));
+        const category = categoryOf(tag);
+        if (category) satisfied.add(category);
+      }
+      return preferences.some((preference) => satisfied.has(canonicalTag(preference)));
+    },
+  };
+}
+
+/** The built-in vocabulary, for callers without a tenant. */
+export const defaultTagTaxonomy = createTagTaxonomy();
@@ -0,0 +1,62 @@
+import { getQueryExecutor, type QueryExecutor } from "./db";
+import type { TagDefinition } from "./tag-taxonomy";
+
+type VocabularyRow = {
+  tag: string;
+  category: string;
+  synonyms: string[] | null;
+};
+
+let vocabularyTableInitialized = false;
+
+async function ensureVocabularyTable(executor: QueryExecutor) {
+  if (vocabularyTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS tenant_tag_vocabulary (
+      tenant_id VARCHAR NOT NULL,
+      tag VARCHAR NOT NULL,
+      category VARCHAR NOT NULL,
+      synonyms TEXT[] NOT NULL DEFAULT '{}',
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (tenant_id, tag)
+    )
+  `);
+  vocabularyTableInitialized = true;
+}
+
+/** The tags a tenant added to the built-in vocabulary, by tag. */
+export async function getTenantTagVocabulary(tenantId: string): Promise<TagDefinition[]> {
+  const executor = getQueryExecutor();
+  await ensureVocabularyTable(executor);
+  const result = await executor.query(
+    `SELECT tag, category, synonyms FROM tenant_tag_vocabulary WHERE tenant_id = $1 ORDER BY tag`,
+    [tenantId]
+  );
+  return (result.rows as VocabularyRow[]).map((row) => ({
+    tag: row.tag,
+    category: row.category,
+    synonyms: row.synonyms ?? [],
+  }));
+}
+
+/**
+ * Replaces the tenant's additions. Events keep the tags they were saved with;
+ * new synonyms apply to later writes and to preference matching.
+ */
+export async function setTenantTagVocabulary(tenantId: string, definitions: TagDefinition[]): Promise<TagDefinition[]> {
+  const executor = getQueryExecutor();
+  await ensureVocabularyTable(executor);
+  await executor.query(`DELETE FROM tenant_tag_vocabulary WHERE tenant_id = $1`, [tenantId]);
+  for (const { tag, category, synonyms } of definitions) {
+    await executor.query(
+      `INSERT INTO tenant_tag_vocabulary (tenant_id, tag, category, synonyms, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())`,
+      [tenantId, tag, category, synonyms]
+    );
+  }
+  return getTenantTagVocabulary(tenantId);
+}
+
+export function resetTagVocabularyStoreForTests() {
+  vocabularyTableInitialized = false;
+}
@@ -56,14 +56,17 @@ export async function logAutoJoinTriggered({
   userId,
   eventId,
   outcome,
+  reason,
 }: {
   userId: string;
   eventId: string;
   outcome: "joined" | "skipped" | "failed";
+  reason?: string;
 }): Promise<void> {
   const metadata = {
     event_id: eventId,
     outcome,
+    ...(reason ? { reason } : {}),
     timestamp: new Date().toISOString(),
   };
   await insertEvent("auto_join_triggered", userId, metadata);
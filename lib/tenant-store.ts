@@ -0,0 +1,568 @@
+import { createHash, createHmac, randomBytes, randomUUID } from "crypto";
+import { getQueryExecutor, type QueryExecutor } from "./db";
+
+export interface TenantBranding {
+  mapboxStyle?: string;
+  primaryColor?: string;
+  aiPromptTemplate?: string;
+}
+
+export interface TenantRecord extends TenantBranding {
+  tenantId: string;
+  name: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TenantApiKeyRecord {
+  id: string;
+  tenantId: string;
+  label: string;
+  keyPrefix: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  replacedBy: string | null;
+}
+
+export type RateLimitType = "aiEvents" | "aiEventsPerClient" | "requests" | "requestsHour";
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+export type TenantRateLimits = Partial<Record<RateLimitType, RateLimitRule>>;
+
+export type ApiKeyResolution =
+  | { status: "active"; tenant: TenantRecord; key: TenantApiKeyRecord }
+  | { status: "unknown" | "revoked" | "expired" | "tenant_disabled"; tenant?: TenantRecord; key?: TenantApiKeyRecord };
+
+export class TenantStoreError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "TenantStoreError";
+    this.status = status;
+  }
+}
+
+export const API_KEY_PREFIX = "spk_";
+export const DEFAULT_KEY_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+const KEY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+type TenantRow = {
+  tenant_id: string;
+  name: string;
+  enabled: boolean;
+  mapbox_style: string | null;
+  primary_color: string | null;
+  ai_prompt_template: string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+};
+
+type ApiKeyRow = {
+  id: string;
+  tenant_id: string;
+  label: string;
+  key_hash: string;
+  key_prefix: string;
+  created_at: Date | string;
+  expires_at: Date | string | null;
+  last_used_at: Date | string | null;
+  revoked_at: Date | string | null;
+  replaced_by: string | null;
+};
+
+type RateLimitRow = {
+  limit_type: RateLimitType;
+  max_requests: number;
+  window_seconds: number;
+};
+
+// Demo tenants used when no database is configured outside production. These keys are already
+// public in the demo UI, so keeping them in source exposes nothing new.
+const DEV_TENANT_SEED: Array<{
+  tenant: Omit<TenantRecord, "createdAt" | "updatedAt">;
+  apiKey: string;
+  rateLimits?: TenantRateLimits;
+}> = [
+  {
+    tenant: {
+      tenantId: "tenant-1",
+      name: "Demo Tenant 1",
+      enabled: true,
+      primaryColor: "#3b82f6",
+      aiPromptTemplate:
+        "Generate a fun, family-friendly local travel event near {location}. Focus on activities suitable for all ages.",
+    },
+    apiKey: "demo-key-1",
+  },
+  {
+    tenant: {
+      tenantId: "tenant-2",
+      name: "Demo Tenant 2",
+      enabled: true,
+      primaryColor: "#10b981",
+      aiPromptTemplate:
+        "Generate an adventurous, outdoor-focused local travel event near {location}. Emphasize active experiences and nature.",
+    },
+    apiKey: "demo-key-2",
+    rateLimits: {
+      aiEvents: { limit: 100, windowSeconds: 60 },
+      requests: { limit: 200, windowSeconds: 60 },
+      requestsHour: { limit: 2000, windowSeconds: 3600 },
+    },
+  },
+  {
+    tenant: {
+      tenantId: "test-tenant",
+      name: "Test Tenant",
+      enabled: true,
+      aiPromptTemplate:
+        "Generate a unique, local experience near {location} that showcases the authentic culture of the area.",
+    },
+    apiKey: "test-key",
+    rateLimits: {
+      aiEvents: { limit: 10, windowSeconds: 60 },
+      requests: { limit: 20, windowSeconds: 60 },
+      requestsHour: { limit: 100, windowSeconds: 3600 },
+    },
+  },
+];
+
+let tenantTablesInitialized = false;
+
+function toIso(value: Date | string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.valueOf()) ? null : date.toISOString();
+}
+
+function optionalText(value: string | null | undefined): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function mapTenantRow(row: TenantRow): TenantRecord {
+  return {
+    tenantId: row.tenant_id,
+    name: row.name,
+    enabled: row.enabled,
+    mapboxStyle: optionalText(row.mapbox_style),
+    primaryColor: optionalText(row.primary_color),
+    aiPromptTemplate: optionalText(row.ai_prompt_template),
+    createdAt: toIso(row.created_at) ?? new Date().toISOString(),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString(),
+  };
+}
+
+function mapApiKeyRow(row: ApiKeyRow): TenantApiKeyRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    label: row.label,
+    keyPrefix: row.key_prefix,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString(),
+    expiresAt: toIso(row.expires_at),
+    lastUsedAt: toIso(row.last_used_at),
+    revokedAt: toIso(row.revoked_at),
+    replacedBy: row.replaced_by ?? null,
+  };
+}
+
+function logTenantStoreError(message: string, error: unknown) {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(`[tenant-store] ${message}`, error);
+  }
+}
+
+function resolveExecutor(): QueryExecutor | null {
+  try {
+    return getQueryExecutor();
+  } catch (error) {
+    if (process.env.NODE_ENV === "production") {
+      throw error;
+    }
+    logTenantStoreError("Database unavailable, using demo tenant seed", error);
+    return null;
+  }
+}
+
+async function ensureTenantTables(executor: QueryExecutor) {
+  if (tenantTablesInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS tenants (
+      tenant_id VARCHAR PRIMARY KEY,
+      name VARCHAR NOT NULL,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      mapbox_style TEXT,
+      primary_color VARCHAR,
+      ai_prompt_template TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS tenant_api_keys (
+      id UUID PRIMARY KEY,
+      tenant_id VARCHAR NOT NULL,
+      label VARCHAR NOT NULL,
+      key_hash VARCHAR NOT NULL UNIQUE,
+      key_prefix VARCHAR NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMPTZ,
+      last_used_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      replaced_by UUID
+    )
+  `);
+  await executor.query(`CREATE INDEX IF NOT EXISTS idx_tenant_api_keys_tenant ON tenant_api_keys (tenant_id)`);
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS tenant_rate_limits (
+      tenant_id VARCHAR NOT NULL,
+      limit_type VARCHAR NOT NULL,
+      max_requests INTEGER NOT NULL,
+      window_seconds INTEGER NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (tenant_id, limit_type)
+    )
+  `);
+  tenantTablesInitialized = true;
+}
+
+/**
+ * Hash an API key for storage and lookup. When TENANT_API_KEY_PEPPER is set the hash is an
+ * HMAC so a leaked table cannot be brute-forced without the server secret.
+ */
+export function hashApiKey(apiKey: string): string {
+  const pepper = process.env.TENANT_API_KEY_PEPPER;
+  if (pepper) {
+    return createHmac("sha256", pepper).update(apiKey).digest("hex");
+  }
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Loggable stand-in for an API key: the visible prefix plus the first hex
+ * characters of its stored hash, so audit lines can be matched to a key row.
+ */
+export function redactApiKey(apiKey: string | null | undefined): string | null {
+  if (!apiKey) return null;
+  const visible = apiKey.startsWith(API_KEY_PREFIX) ? apiKey.slice(0, API_KEY_PREFIX.length + 4) : apiKey.slice(0, 2);
+  return `${visible}…#${hashApiKey(apiKey).slice(0, 8)}`;
+}
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+function seedTenants(): TenantRecord[] {
+  const timestamp = new Date(0).toISOString();
+  return DEV_TENANT_SEED.map(({ tenant }) => ({ ...tenant, createdAt: timestamp, updatedAt: timestamp }));
+}
+
+function resolveSeedApiKey(apiKey: string): ApiKeyResolution {
+  const keyHash = hashApiKey(apiKey);
+  const timestamp = new Date(0).toISOString();
+  const match = DEV_TENANT_SEED.find((entry) => hashApiKey(entry.apiKey) === keyHash);
+  if (!match) {
+    return { status: "unknown" };
+  }
+  const tenant: TenantRecord = { ...match.tenant, createdAt: timestamp, updatedAt: timestamp };
+  const key: TenantApiKeyRecord = {
+    id: `seed-${match.tenant.tenantId}`,
+    tenantId: match.tenant.tenantId,
+    label: "demo",
+    keyPrefix: match.apiKey.slice(0, KEY_PREFIX_LENGTH),
+    createdAt: timestamp,
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    replacedBy: null,
+  };
+  return tenant.enabled ? { status: "active", tenant, key } : { status: "tenant_disabled", tenant, key };
+}
+
+export async function getTenant(tenantId: string): Promise<TenantRecord | null> {
+  const executor = resolveExecutor();
+  if (!executor) {
+    return seedTenants().find((tenant) => tenant.tenantId === tenantId) ?? null;
+  }
+
+  await ensureTenantTables(executor);
+  const result = await executor.query(`SELECT * FROM tenants WHERE tenant_id = $1`, [tenantId]);
+  if (result.rows.length === 0) return null;
+  return mapTenantRow(result.rows[0] as TenantRow);
+}
+
+export async function listTenants(): Promise<TenantRecord[]> {
+  const executor = resolveExecutor();
+  if (!executor) {
+    return seedTenants();
+  }
+
+  await ensureTenantTables(executor);
+  const result = await executor.query(`SELECT * FROM tenants ORDER BY created_at ASC, tenant_id ASC`);
+  return (result.rows as TenantRow[]).map(mapTenantRow);
+}
+
+export async function createTenant(input: {
+  tenantId: string;
+  name: string;
+  enabled?: boolean;
+} & TenantBranding): Promise<TenantRecord> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+
+  const existing = await executor.query(`SELECT tenant_id FROM tenants WHERE tenant_id = $1`, [input.tenantId]);
+  if (existing.rows.length > 0) {
+    throw new TenantStoreError(`Tenant ${input.tenantId} already exists`, 409);
+  }
+
+  const result = await executor.query(
+    `INSERT INTO tenants (tenant_id, name, enabled, mapbox_style, primary_color, ai_prompt_template, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+     RETURNING *`,
+    [
+      input.tenantId,
+      input.name,
+      input.enabled ?? true,
+      input.mapboxStyle ?? null,
+      input.primaryColor ?? null,
+      input.aiPromptTemplate ?? null,
+    ]
+  );
+  return mapTenantRow(result.rows[0] as TenantRow);
+}
+
+/**
+ * Apply a partial update. Branding fields set to null are cleared so the tenant falls back to defaults.
+ */
+export async function updateTenant(
+  tenantId: string,
+  patch: {
+    name?: string;
+    enabled?: boolean;
+    mapboxStyle?: string | null;
+    primaryColor?: string | null;
+    aiPromptTemplate?: string | null;
+  }
+): Promise<TenantRecord> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+
+  const columns: Array<[string, unknown]> = [];
+  if (patch.name !== undefined) columns.push(["name", patch.name]);
+  if (patch.enabled !== undefined) columns.push(["enabled", patch.enabled]);
+  if (patch.mapboxStyle !== undefined) columns.push(["mapbox_style", patch.mapboxStyle]);
+  if (patch.primaryColor !== undefined) columns.push(["primary_color", patch.primaryColor]);
+  if (patch.aiPromptTemplate !== undefined) columns.push(["ai_prompt_template", patch.aiPromptTemplate]);
+
+  const assignments = columns.map(([column], index) => `${column} = $${index + 2}`);
+  assignments.push("updated_at = NOW()");
+
+  const result = await executor.query(
+    `UPDATE tenants SET ${assignments.join(", ")} WHERE tenant_id = $1 RETURNING *`,
+    [tenantId, ...columns.map(([, value]) => value)]
+  );
+  if (result.rows.length === 0) {
+    throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+  }
+  return mapTenantRow(result.rows[0] as TenantRow);
+}
+
+export async function createTenantApiKey(
+  tenantId: string,
+  options: { label?: string; expiresAt?: Date | null } = {}
+): Promise<{ apiKey: string; key: TenantApiKeyRecord }> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+
+  const tenant = await executor.query(`SELECT tenant_id FROM tenants WHERE tenant_id = $1`, [tenantId]);
+  if (tenant.rows.length === 0) {
+    throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+  }
+
+  const apiKey = generateApiKey();
+  const result = await executor.query(
+    `INSERT INTO tenant_api_keys (id, tenant_id, label, key_hash, key_prefix, created_at, expires_at)
+     VALUES ($1, $2, $3, $4, $5, NOW(), $6)
+     RETURNING *`,
+    [
+      randomUUID(),
+      tenantId,
+      options.label?.trim() || "default",
+      hashApiKey(apiKey),
+      apiKey.slice(0, KEY_PREFIX_LENGTH),
+      options.expiresAt ? options.expiresAt.toISOString() : null,
+    ]
+  );
+
+  return { apiKey, key: mapApiKeyRow(result.rows[0] as ApiKeyRow) };
+}
+
+export async function listTenantApiKeys(tenantId: string): Promise<TenantApiKeyRecord[]> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+  const result = await executor.query(
+    `SELECT * FROM tenant_api_keys WHERE tenant_id = $1 ORDER BY created_at ASC`,
+    [tenantId]
+  );
+  return (result.rows as ApiKeyRow[]).map(mapApiKeyRow);
+}
+
+async function getTenantApiKeyRow(executor: QueryExecutor, tenantId: string, keyId: string): Promise<ApiKeyRow> {
+  const result = await executor.query(
+    `SELECT * FROM tenant_api_keys WHERE id = $1 AND tenant_id = $2`,
+    [keyId, tenantId]
+  );
+  if (result.rows.length === 0) {
+    throw new TenantStoreError(`API key ${keyId} not found for tenant ${tenantId}`, 404);
+  }
+  return result.rows[0] as ApiKeyRow;
+}
+
+/**
+ * Issue a replacement key and let the old one keep working until the grace period ends.
+ */
+export async function rotateTenantApiKey(
+  tenantId: string,
+  keyId: string,
+  options: { graceSeconds?: number; label?: string } = {}
+): Promise<{ apiKey: string; key: TenantApiKeyRecord; previous: TenantApiKeyRecord }> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+
+  const current = await getTenantApiKeyRow(executor, tenantId, keyId);
+  if (current.revoked_at) {
+    throw new TenantStoreError(`API key ${keyId} has been revoked and cannot be rotated`, 409);
+  }
+
+  const { apiKey, key } = await createTenantApiKey(tenantId, {
+    label: options.label ?? current.label,
+  });
+
+  const graceSeconds = Math.max(0, options.graceSeconds ?? DEFAULT_KEY_ROTATION_GRACE_SECONDS);
+  const graceEnd = new Date(Date.now() + graceSeconds * 1000);
+  const currentExpiry = current.expires_at ? new Date(current.expires_at) : null;
+  const expiresAt = currentExpiry && currentExpiry < graceEnd ? currentExpiry : graceEnd;
+
+  const updated = await executor.query(
+    `UPDATE tenant_api_keys SET expires_at = $3, replaced_by = $4
+     WHERE id = $1 AND tenant_id = $2
+     RETURNING *`,
+    [keyId, tenantId, expiresAt.toISOString(), key.id]
+  );
+
+  return { apiKey, key, previous: mapApiKeyRow(updated.rows[0] as ApiKeyRow) };
+}
+
+export async function revokeTenantApiKey(tenantId: string, keyId: string): Promise<TenantApiKeyRecord> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+
+  const current = await getTenantApiKeyRow(executor, tenantId, keyId);
+  if (current.revoked_at) {
+    return mapApiKeyRow(current);
+  }
+
+  const result = await executor.query(
+    `UPDATE tenant_api_keys SET revoked_at = NOW() WHERE id = $1 AND tenant_id = $2 RETURNING *`,
+    [keyId, tenantId]
+  );
+  return mapApiKeyRow(result.rows[0] as ApiKeyRow);
+}
+
+/**
+ * Look up the tenant owning a plaintext API key. Active keys have their last-used timestamp
+ * refreshed; revoked, expired or disabled-tenant keys are reported with a reason.
+ */
+export async function resolveApiKey(apiKey: string): Promise<ApiKeyResolution> {
+  const executor = resolveExecutor();
+  if (!executor) {
+    return resolveSeedApiKey(apiKey);
+  }
+
+  await ensureTenantTables(executor);
+  const keyResult = await executor.query(`SELECT * FROM tenant_api_keys WHERE key_hash = $1`, [hashApiKey(apiKey)]);
+  if (keyResult.rows.length === 0) {
+    return { status: "unknown" };
+  }
+
+  const keyRow = keyResult.rows[0] as ApiKeyRow;
+  const key = mapApiKeyRow(keyRow);
+  const tenant = await getTenant(keyRow.tenant_id);
+  if (!tenant) {
+    return { status: "unknown", key };
+  }
+
+  if (key.revokedAt) {
+    return { status: "revoked", tenant, key };
+  }
+  if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+    return { status: "expired", tenant, key };
+  }
+  if (!tenant.enabled) {
+    return { status: "tenant_disabled", tenant, key };
+  }
+
+  try {
+    await executor.query(`UPDATE tenant_api_keys SET last_used_at = NOW() WHERE id = $1`, [key.id]);
+  } catch (error) {
+    logTenantStoreError("Failed to record API key usage", error);
+  }
+
+  return { status: "active", tenant, key };
+}
+
+/**
+ * Per-tenant rate limit overrides. Limit types without a stored rule fall back
+ * to the service defaults.
+ */
+export async function getTenantRateLimits(tenantId: string): Promise<TenantRateLimits> {
+  const executor = resolveExecutor();
+  if (!executor) {
+    return DEV_TENANT_SEED.find((entry) => entry.tenant.tenantId === tenantId)?.rateLimits ?? {};
+  }
+
+  await ensureTenantTables(executor);
+  const result = await executor.query(
+    `SELECT limit_type, max_requests, window_seconds FROM tenant_rate_limits WHERE tenant_id = $1`,
+    [tenantId]
+  );
+  const limits: TenantRateLimits = {};
+  for (const row of result.rows as RateLimitRow[]) {
+    limits[row.limit_type] = { limit: Number(row.max_requests), windowSeconds: Number(row.window_seconds) };
+  }
+  return limits;
+}
+
+export async function setTenantRateLimits(tenantId: string, limits: TenantRateLimits): Promise<TenantRateLimits> {
+  const executor = getQueryExecutor();
+  await ensureTenantTables(executor);
+  if (!(await getTenant(tenantId))) {
+    throw new TenantStoreError(`Tenant ${tenantId} not found`, 404);
+  }
+
+  for (const [limitType, rule] of Object.entries(limits) as Array<[RateLimitType, RateLimitRule]>) {
+    await executor.query(
+      `INSERT INTO tenant_rate_limits (tenant_id, limit_type, max_requests, window_seconds, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (tenant_id, limit_type)
+       DO UPDATE SET max_requests = EXCLUDED.max_requests, window_seconds = EXCLUDED.window_seconds, updated_at = NOW()`,
+      [tenantId, limitType, rule.limit, rule.windowSeconds]
+    );
+  }
+  return getTenantRateLimits(tenantId);
+}
+
+export function resetTenantStoreCacheForTests() {
+  tenantTablesInitialized = false;
+}
@@ -24,6 +24,42 @@ export interface Event {
   consentGiven?: boolean; // User consent for data processing
   anonymizedUserId?: string; // Anonymized user ID for external tenants
   startTime?: string;
+  endTime?: string; // Defaults to startTime + 2h when submitted without one
+  capacity?: number; // Maximum "going" RSVPs; unlimited when unset
+  attendeeCount?: number;
+  maybeCount?: number;
+  waitlistCount?: number;
+  priceCents?: number; // Per person; 0 for free hangouts, unset when unknown
+  distanceKm?: number; // Set on radius queries, from the query point
+  relevance?: number; // Set on keyword searches; higher is a better match
+  recurrence?: EventRecurrence; // Set on recurring series; startTime/endTime are then the current occurrence
+  seriesId?: string; // Set on expanded occurrences, with the rule start they came from
+  occurrenceStart?: string;
+}
+
+/**
+ * Changes to one occurrence of a recurring hangout.
+ */
+export type OccurrenceOverride = Partial<
+  Pick<Event, "title" | "description" | "tags" | "location" | "startTime" | "endTime" | "priceCents">
+>;
+
+export interface EventRecurrence {
+  rrule: string; // RFC 5545 subset, e.g. "FREQ=WEEKLY;BYDAY=TU;UNTIL=20261231T235959Z"
+  dtstart: string; // Start of the first occurrence
+  exdates?: string[]; // Rule starts of cancelled occurrences
+  overrides?: Record<string, OccurrenceOverride>; // Keyed by the rule start they replace
+  timezone?: string; // IANA zone whose wall clock occurrences keep; UTC when unset
+}
+
+/**
+ * Recurrence as submitted; `dtstart` defaults to the event's start time.
+ */
+export interface RecurrenceInput {
+  rrule: string;
+  until?: string;
+  exdates?: string[];
+  timezone?: string;
 }
 
 export interface EventFormData {
@@ -35,6 +71,8 @@ export interface EventFormData {
     lng: number;
   };
   startTime?: string;
+  endTime?: string;
+  recurrence?: RecurrenceInput;
 }
 
 export interface ApiError {
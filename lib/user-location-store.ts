@@ -0,0 +1,104 @@
+import type { UserPreferences } from "@/types/settings";
+import { getQueryExecutor, type QueryExecutor } from "./db";
+import type { GeoPoint } from "./geohash";
+import { validateUserPreferences } from "./validation/settings-schema";
+
+export interface AutoJoinCandidate {
+  preferences: UserPreferences;
+  location: GeoPoint;
+  locationUpdatedAt: string;
+}
+
+type CandidateRow = {
+  data: unknown;
+  lat: number | string;
+  lng: number | string;
+  updated_at: Date | string;
+};
+
+let locationTableInitialized = false;
+
+async function ensureLocationTable(executor: QueryExecutor) {
+  if (locationTableInitialized) return;
+  await executor.query(`
+    CREATE TABLE IF NOT EXISTS user_locations (
+      user_id VARCHAR NOT NULL,
+      tenant_id VARCHAR NOT NULL,
+      lat DOUBLE PRECISION NOT NULL,
+      lng DOUBLE PRECISION NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, tenant_id)
+    )
+  `);
+  await executor.query(
+    `CREATE INDEX IF NOT EXISTS idx_user_locations_tenant_updated ON user_locations (tenant_id, updated_at)`
+  );
+  locationTableInitialized = true;
+}
+
+/**
+ * Last known position of a user while browsing a tenant's hangouts.
+ */
+export async function saveUserLocation(
+  userId: string,
+  tenantId: string,
+  location: GeoPoint,
+  updatedAt: Date = new Date()
+): Promise<void> {
+  const executor = getQueryExecutor();
+  await ensureLocationTable(executor);
+  await executor.query(
+    `INSERT INTO user_locations (user_id, tenant_id, lat, lng, updated_at)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (user_id, tenant_id)
+     DO UPDATE SET lat = EXCLUDED.lat, lng = EXCLUDED.lng, updated_at = EXCLUDED.updated_at`,
+    [userId, tenantId, location.lat, location.lng, updatedAt]
+  );
+}
+
+export async function deleteUserLocations(userId: string): Promise<void> {
+  const executor = getQueryExecutor();
+  await ensureLocationTable(executor);
+  await executor.query(`DELETE FROM user_locations WHERE user_id = $1`, [userId]);
+}
+
+/**
+ * Users of a tenant with auto-join on and a location reported since `since`,
+ * most recently seen first. Rows with preferences that no longer validate are
+ * skipped.
+ */
+export async function listAutoJoinCandidates(
+  tenantId: string,
+  { since, limit }: { since: Date; limit: number }
+): Promise<AutoJoinCandidate[]> {
+  const executor = getQueryExecutor();
+  await ensureLocationTable(executor);
+  const result = await executor.query(
+    `SELECT p.data, l.lat, l.lng, l.updated_at
+       FROM user_locations l
+       JOIN user_preferences p ON p.user_id = l.user_id
+      WHERE l.tenant_id = $1 AND l.updated_at >= $2 AND p.data->>'autoJoin' = 'true'
+      ORDER BY l.updated_at DESC
+      LIMIT $3`,
+    [tenantId, since, limit]
+  );
+
+  return (result.rows as CandidateRow[]).flatMap((row) => {
+    try {
+      return [
+        {
+          preferences: validateUserPreferences(row.data),
+          location: { lat: Number(row.lat), lng: Number(row.lng) },
+          locationUpdatedAt: new Date(row.updated_at).toISOString(),
+        },
+      ];
+    } catch (error) {
+      console.warn("[auto-join] Skipping candidate with invalid preferences", error);
+      return [];
+    }
+  });
+}
+
+export function resetUserLocationStoreForTests() {
+  locationTableInitialized = false;
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+/**
+ * A payload shape asked of a model: the zod schema its answer is validated
+ * against, and the same shape as JSON Schema for providers with structured
+ * outputs. The JSON Schema keeps to the strict subset (every key required,
+ * optional values nullable, no extra keys).
+ */
+export interface StructuredOutput<T> {
+  name: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  jsonSchema: Record<string, unknown>;
+}
+
+export type StructuredParseResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+const requiredText = (field: string, max: number) =>
+  z
+    .string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .trim()
+    .min(1, `${field} is required`)
+    .max(max, `${field} must be at most ${max} characters`);
+
+const optionalText = (field: string, max: number) =>
+  z
+    .string({ invalid_type_error: `${field} must be a string` })
+    .trim()
+    .max(max, `${field} must be at most ${max} characters`)
+    .nullish();
+
+const jsonText = { type: "string" };
+const nullableJsonText = { type: ["string", "null"] };
+
+/** A bare array counts as the list, for providers without structured outputs. */
+const wrapArray = (key: string) => (value: unknown) => (Array.isArray(value) ? { [key]: value } : value);
+
+export const aiSuggestionSchema = z.object({
+  name: requiredText("name", 120),
+  type: optionalText("type", 40),
+  description: requiredText("description", 600),
+  distance: optionalText("distance", 120),
+  tip: optionalText("tip", 300),
+});
+
+export type AiSuggestionPayload = z.infer<typeof aiSuggestionSchema>;
+
+/** Activity suggestions from `generateLocalAISuggestions`. */
+export const aiSuggestionsOutput: StructuredOutput<{ suggestions: AiSuggestionPayload[] }> = {
+  name: "activity_suggestions",
+  schema: z.preprocess(
+    wrapArray("suggestions"),
+    z.object({ suggestions: z.array(aiSuggestionSchema).min(1, "suggestions must not be empty") })
+  ),
+  jsonSchema: {
+    type: "object",
+    properties: {
+      suggestions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: jsonText,
+            type: nullableJsonText,
+            description: jsonText,
+            distance: nullableJsonText,
+            tip: nullableJsonText,
+          },
+          required: ["name", "type", "description", "distance", "tip"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["suggestions"],
+    additionalProperties: false,
+  },
+};
+
+export const aiCardSchema = z.object({
+  title: requiredText("title", 120),
+  description: requiredText("description", 1000),
+  vibeTags: z
+    .union([z.array(z.string()), z.string()], { invalid_type_error: "vibeTags must be a list of strings" })
+    .nullish(),
+  navigationLink: optionalText("navigationLink", 2000),
+});
+
+export type AiCardPayload = z.infer<typeof aiCardSchema>;
+
+/** Suggestion cards from `/api/spontaneous-cards`. */
+export const aiCardsOutput: StructuredOutput<{ cards: AiCardPayload[] }> = {
+  name: "suggestion_cards",
+  schema: z.preprocess(wrapArray("cards"), z.object({ cards: z.array(aiCardSchema).min(1, "cards must not be empty") })),
+  jsonSchema: {
+    type: "object",
+    properties: {
+      cards: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: jsonText,
+            description: jsonText,
+            vibeTags: { type: "array", items: jsonText },
+            navigationLink: nullableJsonText,
+          },
+          required: ["title", "description", "vibeTags", "navigationLink"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["cards"],
+    additionalProperties: false,
+  },
+};
+
+/** The JSON in a model answer, without Markdown code fences or prose around it. */
+function extractJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf("]"), trimmed.lastIndexOf("}"));
+    if (start === -1 || end <= start) {
+      throw new Error("The answer contains no JSON");
+    }
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+}
+
+/**
+ * Parses and validates a model answer. Issues read "path: message", so they
+ * can be fed back to the model as they are.
+ */
+export function parseStructuredOutput<T>(text: string, output: StructuredOutput<T>): StructuredParseResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { success: false, issues: [`The answer is not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+  const result = output.schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+  };
+}
@@ -0,0 +1,240 @@
+import { z } from "zod";
+import { EventScheduleError, parseTimeBoundary, resolveEventSchedule } from "../event-schedule";
+import { normalizeRecurrence, RecurrenceError } from "../recurrence";
+import type { EventRecurrence } from "../types";
+
+export const MAX_TITLE_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+export const MAX_EVENT_CAPACITY = 10_000;
+
+// A calendar date, optionally with a time and offset; epoch milliseconds are accepted as digits
+const isoDateRegex = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const coordinatesRegex = /^(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * A payload that breaks the event rules. `fields` holds the messages per
+ * field path ("location.lat"); problems with the payload as a whole are
+ * listed under "_".
+ */
+export class EventValidationError extends Error {
+  status: number;
+  fields: Record<string, string[]>;
+
+  constructor(fields: Record<string, string[]>) {
+    super(Object.values(fields).flat().join("; ") || "Invalid event");
+    this.name = "EventValidationError";
+    this.status = 400;
+    this.fields = fields;
+  }
+}
+
+export function toEventValidationError(error: z.ZodError): EventValidationError {
+  const fields: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      for (const key of issue.keys) {
+        (fields[key] ??= []).push(`${key} cannot be edited`);
+      }
+      continue;
+    }
+    const path = issue.path.join(".") || "_";
+    (fields[path] ??= []).push(issue.message);
+  }
+  return new EventValidationError(fields);
+}
+
+/**
+ * Schedule and recurrence errors raised while applying a change (the rules
+ * that need the stored event) as a field error, like schema failures.
+ */
+export function fieldErrorFrom(error: EventScheduleError | RecurrenceError): EventValidationError {
+  if (error instanceof RecurrenceError) {
+    return new EventValidationError({ recurrence: [error.message] });
+  }
+  // An end or duration without a start is the start's problem
+  const field = error.message.includes("require a startTime")
+    ? "startTime"
+    : (["startTime", "endTime", "durationMinutes"].find((name) => error.message.startsWith(name)) ?? "endTime");
+  return new EventValidationError({ [field]: [error.message] });
+}
+
+/** Parses `data` with an event schema, throwing `EventValidationError` on failure. */
+export function parseEventPayload<T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw toEventValidationError(result.error);
+  }
+  return result.data;
+}
+
+const text = (field: string, max: number) =>
+  z
+    .string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .trim()
+    .min(1, `${field} is required`)
+    .max(max, `${field} must be at most ${max} characters`);
+
+export const eventTitleSchema = text("title", MAX_TITLE_LENGTH);
+export const eventDescriptionSchema = text("description", MAX_DESCRIPTION_LENGTH);
+
+/** Lower case without a leading "#" or repeated spaces, so "#Live  Music" and "live music" are one tag. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").toLowerCase();
+}
+
+export const eventTagsSchema = z
+  .array(
+    z
+      .string({ invalid_type_error: "tags must be strings" })
+      .transform(normalizeTag)
+      .pipe(z.string().max(MAX_TAG_LENGTH, `tags must be at most ${MAX_TAG_LENGTH} characters`)),
+    { invalid_type_error: "tags must be an array of strings" }
+  )
+  .transform((tags) => [...new Set(tags.filter(Boolean))])
+  .pipe(z.array(z.string()).max(MAX_TAGS, `at most ${MAX_TAGS} tags are allowed`));
+
+const coordinate = (field: "lat" | "lng", limit: number) =>
+  z
+    .number({ required_error: `${field} is required`, invalid_type_error: `${field} must be a number` })
+    .finite(`${field} must be a number`)
+    .min(-limit, `${field} must be between -${limit} and ${limit}`)
+    .max(limit, `${field} must be between -${limit} and ${limit}`);
+
+/** `{ lat, lng }`, or the same as a "lat,lng" string. */
+export const eventLocationSchema = z.preprocess(
+  (value) => {
+    const match = typeof value === "string" ? value.trim().match(coordinatesRegex) : null;
+    return match ? { lat: Number(match[1]), lng: Number(match[2]) } : value;
+  },
+  z.object(
+    { lat: coordinate("lat", 90), lng: coordinate("lng", 180) },
+    {
+      required_error: "location is required",
+      invalid_type_error: 'location must be { lat, lng } or a "lat,lng" string',
+    }
+  )
+);
+
+/** An ISO date or epoch milliseconds, as a UTC ISO string. */
+const eventTime = (field: string) =>
+  z
+    .union([z.string(), z.number()], {
+      errorMap: () => ({ message: `${field} must be an ISO date or epoch milliseconds` }),
+    })
+    .transform((value, ctx) => {
+      const trimmed = typeof value === "string" ? value.trim() : value;
+      const date =
+        typeof trimmed === "number" || /^\d+$/.test(trimmed) || isoDateRegex.test(trimmed)
+          ? parseTimeBoundary(trimmed)
+          : null;
+      if (!date) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field} must be an ISO date or epoch milliseconds` });
+        return z.NEVER;
+      }
+      return date.toISOString();
+    });
+
+// Numbers from CSV imports and form fields arrive as strings
+const numeric = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value)) ? Number(value) : value;
+
+const durationMinutesSchema = z.preprocess(
+  numeric,
+  z
+    .number({ invalid_type_error: "durationMinutes must be a positive number" })
+    .positive("durationMinutes must be a positive number")
+);
+
+const capacityMessage = `capacity must be a whole number between 1 and ${MAX_EVENT_CAPACITY}`;
+/** Seats for `going` RSVPs; null (or "") means unlimited. */
+export const eventCapacitySchema = z.preprocess(
+  (value) => (value === "" ? null : numeric(value)),
+  z
+    .number({ invalid_type_error: capacityMessage })
+    .int(capacityMessage)
+    .min(1, capacityMessage)
+    .max(MAX_EVENT_CAPACITY, capacityMessage)
+    .nullable()
+);
+
+const priceMessage = "priceCents must be a whole number of cents, 0 or more";
+export const eventPriceSchema = z
+  .number({ invalid_type_error: priceMessage })
+  .int(priceMessage)
+  .min(0, priceMessage);
+
+const optionalField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === null || value === "" ? undefined : value), schema.optional());
+
+/**
+ * A new hangout. The end comes from `endTime`, else `durationMinutes`, else
+ * the default duration, and `recurrence` is checked against the start.
+ */
+export const createEventSchema = z
+  .object({
+    title: eventTitleSchema,
+    description: eventDescriptionSchema,
+    tags: optionalField(eventTagsSchema),
+    location: eventLocationSchema,
+    startTime: optionalField(eventTime("startTime")),
+    endTime: optionalField(eventTime("endTime")),
+    durationMinutes: optionalField(durationMinutesSchema),
+    capacity: optionalField(eventCapacitySchema),
+    priceCents: optionalField(eventPriceSchema),
+    recurrence: z.unknown().optional(),
+  })
+  .transform(({ durationMinutes, recurrence, ...event }, ctx) => {
+    let schedule: { startTime?: string; endTime?: string };
+    try {
+      schedule = resolveEventSchedule({ startTime: event.startTime, endTime: event.endTime, durationMinutes });
+    } catch (error) {
+      if (!(error instanceof EventScheduleError)) throw error;
+      const [[field, messages]] = Object.entries(fieldErrorFrom(error).fields);
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: messages[0] });
+      return z.NEVER;
+    }
+
+    let normalizedRecurrence: EventRecurrence | undefined;
+    if (recurrence !== undefined && recurrence !== null) {
+      try {
+        normalizedRecurrence = normalizeRecurrence(recurrence, schedule.startTime);
+      } catch (error) {
+        if (!(error instanceof RecurrenceError)) throw error;
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["recurrence"], message: error.message });
+        return z.NEVER;
+      }
+    }
+
+    return {
+      ...event,
+      tags: event.tags ?? [],
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      recurrence: normalizedRecurrence,
+    };
+  });
+
+/**
+ * Changes to a hangout's editable fields (see `EDITABLE_EVENT_FIELDS`). Rules
+ * that need the stored event, such as an end after the start, are checked
+ * when the change is applied.
+ */
+export const updateEventSchema = z
+  .object({
+    title: eventTitleSchema,
+    description: eventDescriptionSchema,
+    tags: eventTagsSchema,
+    location: eventLocationSchema,
+    startTime: eventTime("startTime"),
+    endTime: eventTime("endTime"),
+    capacity: eventCapacitySchema,
+    priceCents: eventPriceSchema.nullable(),
+    recurrence: z.unknown(),
+  })
+  .partial()
+  .strict();
+
+export type CreateEventInput = z.output<typeof createEventSchema>;
+export type UpdateEventInput = z.output<typeof updateEventSchema>;
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { userPreferencesSchema } from "./settings-schema";
+
+const clockTimeRegex = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?(\.\d+)?(Z|[+-][01]\d:[0-5]\d)?$/;
+
+const availabilityBound = z.union([
+  z.literal("now"),
+  z.string().datetime({ offset: true }),
+  z.string().regex(clockTimeRegex, { message: "Bounds must be 'now', an ISO date-time or a clock time" }),
+]);
+
+const availabilityWindowSchema = z
+  .object({
+    from: availabilityBound.optional(),
+    to: availabilityBound.optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    const bounds = [value.from, value.to].filter((bound): bound is string => bound !== undefined);
+    if (bounds.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "At least one of 'from' or 'to' must be provided",
+        path: ["from"],
+      });
+    }
+    const clockBounds = bounds.filter((bound) => clockTimeRegex.test(bound));
+    if (clockBounds.length > 0 && clockBounds.length !== bounds.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Clock times cannot be mixed with 'now' or date-times",
+        path: ["to"],
+      });
+    }
+  });
+
+const settingsShape = userPreferencesSchema.shape;
+
+/**
+ * Preferences sent to the recommender. Every field is optional (missing ones
+ * come from the user's saved settings) and unknown keys are dropped.
+ */
+export const recommenderPreferencesSchema = z.object({
+  interests: settingsShape.interests.optional(),
+  spontaneity: settingsShape.spontaneity.optional(),
+  matchStrictness: settingsShape.matchStrictness.optional(),
+  autoJoin: settingsShape.autoJoin.optional(),
+  locationSharing: settingsShape.locationSharing.optional(),
+  radiusKm: settingsShape.radiusKm.optional(),
+  transportPreference: settingsShape.transportPreference.optional(),
+  safetyMode: settingsShape.safetyMode.optional(),
+  aiPersona: settingsShape.aiPersona.optional(),
+  showReasoning: settingsShape.showReasoning.optional(),
+  timeAvailability: z.union([z.literal("now"), availabilityWindowSchema]).optional(),
+});
+
+const geoPointSchema = z
+  .object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  })
+  .strict();
+
+export const recommendationRequestSchema = z.object({
+  userId: z.string().min(1, "userId is required"),
+  preferences: recommenderPreferencesSchema.default({}),
+  /** Hangouts and AI suggestions are only included for a tenant. */
+  tenantId: z.string().min(1).optional(),
+  location: geoPointSchema.optional(),
+  homeLocation: geoPointSchema.optional(),
+  includeAi: z.boolean().default(true),
+  limit: z.number().int().min(1).max(50).optional(),
+});
+
+export type RecommendationRequest = z.infer<typeof recommendationRequestSchema>;
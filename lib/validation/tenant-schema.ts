@@ -0,0 +1,161 @@
+import { z } from "zod";
+import { MAX_TAG_LENGTH, normalizeTag } from "./event-schema";
+import { LLM_PROVIDER_NAMES } from "../llm-provider";
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, {
+  message: "primaryColor must be a #rrggbb hex color",
+});
+
+const mapboxStyle = z
+  .string()
+  .trim()
+  .regex(/^mapbox:\/\/styles\/[\w-]+\/[\w-]+$/, {
+    message: "mapboxStyle must be a mapbox://styles/<owner>/<style> URL",
+  });
+
+const promptTemplate = z
+  .string()
+  .trim()
+  .min(1)
+  .max(2000, "aiPromptTemplate must be at most 2000 characters")
+  .refine((value) => value.includes("{location}"), {
+    message: "aiPromptTemplate must include a {location} placeholder",
+  });
+
+export const createTenantSchema = z
+  .object({
+    tenantId: z
+      .string()
+      .min(3, "tenantId must be at least 3 characters")
+      .max(64, "tenantId must be at most 64 characters")
+      .regex(/^[a-z0-9][a-z0-9-]*$/, {
+        message: "tenantId may only contain lowercase letters, numbers and dashes",
+      }),
+    name: z.string().trim().min(1, "name is required").max(120),
+    enabled: z.boolean().optional(),
+    mapboxStyle: mapboxStyle.optional(),
+    primaryColor: hexColor.optional(),
+    aiPromptTemplate: promptTemplate.optional(),
+  })
+  .strict();
+
+export const updateTenantSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required").max(120).optional(),
+    enabled: z.boolean().optional(),
+    mapboxStyle: mapboxStyle.nullable().optional(),
+    primaryColor: hexColor.nullable().optional(),
+    aiPromptTemplate: promptTemplate.nullable().optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export const createApiKeySchema = z
+  .object({
+    label: z.string().trim().min(1).max(60).optional(),
+    expiresAt: z.string().datetime().optional(),
+  })
+  .strict();
+
+export const rotateApiKeySchema = z
+  .object({
+    label: z.string().trim().min(1).max(60).optional(),
+    graceSeconds: z
+      .number({ invalid_type_error: "graceSeconds must be a number" })
+      .int()
+      .min(0)
+      .max(30 * 24 * 60 * 60, "graceSeconds must be at most 30 days")
+      .optional(),
+  })
+  .strict();
+
+const rateLimitRule = z
+  .object({
+    limit: z.number().int().min(1).max(1_000_000),
+    windowSeconds: z
+      .number()
+      .int()
+      .min(1)
+      .max(24 * 60 * 60, "windowSeconds must be at most one day"),
+  })
+  .strict();
+
+export const tenantRateLimitsSchema = z
+  .object({
+    aiEvents: rateLimitRule.optional(),
+    aiEventsPerClient: rateLimitRule.optional(),
+    requests: rateLimitRule.optional(),
+    requestsHour: rateLimitRule.optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "At least one limit must be provided",
+  });
+
+export const tenantAiQuotaSchema = z
+  .object({
+    monthlyTokenLimit: z.number().int().min(0).max(10_000_000_000).nullable().optional(),
+    monthlyCostLimitUsd: z.number().min(0).max(1_000_000).nullable().optional(),
+    softLimitRatio: z.number().gt(0).max(1).optional(),
+  })
+  .strict()
+  .refine((value) => Object.keys(value).length > 0, {
+    message: "At least one quota field must be provided",
+  });
+
+export const MAX_TENANT_TAGS = 200;
+export const MAX_TAG_SYNONYMS = 50;
+
+const vocabularyTag = (field: string) =>
+  z
+    .string()
+    .transform(normalizeTag)
+    .pipe(
+      z
+        .string()
+        .min(1, `${field} is required`)
+        .max(MAX_TAG_LENGTH, `${field} must be at most ${MAX_TAG_LENGTH} characters`)
+    );
+
+export const tenantTagVocabularySchema = z
+  .object({
+    tags: z
+      .array(
+        z
+          .object({
+            tag: vocabularyTag("tag"),
+            category: vocabularyTag("category"),
+            synonyms: z.array(vocabularyTag("synonyms")).max(MAX_TAG_SYNONYMS).default([]),
+          })
+          .strict(),
+      )
+      .max(MAX_TENANT_TAGS, `at most ${MAX_TENANT_TAGS} tags are allowed`)
+      .refine((tags) => new Set(tags.map(({ tag }) => tag)).size === tags.length, {
+        message: "Each tag can only be listed once",
+      }),
+  })
+  .strict();
+
+// `null` goes back to the default order
+export const tenantAiProvidersSchema = z
+  .object({
+    providers: z
+      .array(z.enum(LLM_PROVIDER_NAMES))
+      .min(1, "providers must list at least one provider")
+      .refine((providers) => new Set(providers).size === providers.length, {
+        message: "Each provider can only be listed once",
+      })
+      .nullable(),
+  })
+  .strict();
+
+export const usageMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, {
+    message: "month must be formatted as YYYY-MM",
+  });
+
+export type CreateTenantInput = z.infer<typeof createTenantSchema>;
+export type UpdateTenantInput = z.infer<typeof updateTenantSchema>;
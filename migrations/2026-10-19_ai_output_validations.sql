@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS ai_output_validations (
+  month VARCHAR NOT NULL,
+  provider VARCHAR NOT NULL,
+  model VARCHAR NOT NULL,
+  route VARCHAR NOT NULL,
+  checks INTEGER NOT NULL,
+  failures INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (month, provider, model, route)
+);
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id UUID PRIMARY KEY,
+  tenant_id VARCHAR,
+  provider VARCHAR NOT NULL,
+  model VARCHAR NOT NULL,
+  route VARCHAR NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  cost_usd NUMERIC(12, 6) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_tenant_created ON ai_usage_events (tenant_id, created_at);
+
+CREATE TABLE IF NOT EXISTS tenant_ai_quotas (
+  tenant_id VARCHAR PRIMARY KEY,
+  monthly_token_limit BIGINT,
+  monthly_cost_limit_usd NUMERIC(12, 2),
+  soft_limit_ratio REAL NOT NULL DEFAULT 0.8,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS event_reports (
+  id SERIAL PRIMARY KEY,
+  event_id VARCHAR NOT NULL,
+  tenant_id VARCHAR NOT NULL,
+  reporter_id VARCHAR NOT NULL,
+  reason VARCHAR NOT NULL,
+  details TEXT,
+  status VARCHAR NOT NULL DEFAULT 'open',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by VARCHAR,
+  UNIQUE (event_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_reports_tenant_status ON event_reports (tenant_id, status, created_at);
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS event_revisions (
+  id SERIAL PRIMARY KEY,
+  event_id VARCHAR NOT NULL,
+  tenant_id VARCHAR NOT NULL,
+  actor_id VARCHAR NOT NULL,
+  action VARCHAR NOT NULL,
+  changes JSONB NOT NULL,
+  revert_of INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_revisions_event ON event_revisions (event_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_event_revisions_tenant ON event_revisions (tenant_id, created_at);
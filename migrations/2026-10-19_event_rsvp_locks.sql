@@ -0,0 +1,3 @@
+CREATE TABLE IF NOT EXISTS event_rsvp_locks (
+  event_id VARCHAR PRIMARY KEY
+);
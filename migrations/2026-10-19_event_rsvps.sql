@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS event_rsvps (
+  event_id VARCHAR NOT NULL,
+  tenant_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  status VARCHAR NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_event_status ON event_rsvps (event_id, status, updated_at);
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS event_search_documents (
+  event_id VARCHAR PRIMARY KEY,
+  tenant_id VARCHAR NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  creator_name VARCHAR,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_search_documents_tenant ON event_search_documents (tenant_id, indexed_at);
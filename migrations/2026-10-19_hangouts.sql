@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS hangouts (
+  id VARCHAR PRIMARY KEY,
+  collection VARCHAR NOT NULL,
+  tenant_id VARCHAR,
+  created_by VARCHAR,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  geohash VARCHAR,
+  start_time VARCHAR,
+  end_time VARCHAR,
+  recurring BOOLEAN NOT NULL DEFAULT FALSE,
+  deleted_at VARCHAR,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  data JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_hangouts_tenant_created ON hangouts (collection, tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_hangouts_geohash ON hangouts (collection, geohash);
+CREATE INDEX IF NOT EXISTS idx_hangouts_start ON hangouts (collection, start_time);
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS tenant_rate_limits (
+  tenant_id VARCHAR NOT NULL,
+  limit_type VARCHAR NOT NULL,
+  max_requests INTEGER NOT NULL,
+  window_seconds INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, limit_type)
+);
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT NOT NULL,
+  window_start BIGINT NOT NULL,
+  window_ms INTEGER NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires ON rate_limit_counters (expires_at);
@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS tenant_ai_providers (
+  tenant_id VARCHAR PRIMARY KEY,
+  provider_order TEXT[] NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
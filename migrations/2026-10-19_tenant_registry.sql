@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS tenants (
+  tenant_id VARCHAR PRIMARY KEY,
+  name VARCHAR NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  mapbox_style TEXT,
+  primary_color VARCHAR,
+  ai_prompt_template TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tenant_api_keys (
+  id UUID PRIMARY KEY,
+  tenant_id VARCHAR NOT NULL,
+  label VARCHAR NOT NULL,
+  key_hash VARCHAR NOT NULL UNIQUE,
+  key_prefix VARCHAR NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  replaced_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_api_keys_tenant ON tenant_api_keys (tenant_id);
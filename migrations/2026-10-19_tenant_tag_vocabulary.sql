@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS tenant_tag_vocabulary (
+  tenant_id VARCHAR NOT NULL,
+  tag VARCHAR NOT NULL,
+  category VARCHAR NOT NULL,
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, tag)
+);
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS user_locations (
+  user_id VARCHAR NOT NULL,
+  tenant_id VARCHAR NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, tenant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_locations_tenant_updated ON user_locations (tenant_id, updated_at);
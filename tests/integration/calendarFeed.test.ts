@@ -0,0 +1,76 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { GET as calendarGet } from "@/app/api/plugin/events.ics/route";
+import { setEventRepositoryForTests } from "@/app/services/events";
+import { setRateLimitStoreForTests } from "@/app/services/rate-limit";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { InMemoryEventRepository } from "@/lib/event-repository";
+import { InMemoryRateLimitStore } from "@/lib/rate-limit-store";
+import { createTenant, createTenantApiKey, resetTenantStoreCacheForTests } from "@/lib/tenant-store";
+
+let pool: Pool;
+let apiKey: string;
+const day = 86_400_000;
+const repository = new InMemoryEventRepository();
+
+before(async () => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  setEventRepositoryForTests(repository);
+  await createTenant({ tenantId: "ics-co", name: "ICS Co" });
+  apiKey = (await createTenantApiKey("ics-co")).apiKey;
+
+  const at = (offsetDays: number) => new Date(Date.now() + offsetDays * day).toISOString();
+  const base = { description: "All welcome", tags: [], location: { lat: 52.52, lng: 13.405 }, tenantId: "ics-co" };
+  await repository.create("live", { ...base, title: "Last month's picnic", startTime: at(-30), endTime: at(-30) });
+  await repository.create("live", { ...base, title: "Next week's quiz", startTime: at(7), endTime: at(7) });
+  await repository.create("live", { ...base, title: "Next year's gala", startTime: at(365), endTime: at(365) });
+  await repository.create("live", {
+    ...base,
+    title: "Weekly choir",
+    startTime: at(-60),
+    endTime: at(-60),
+    recurrence: { rrule: "FREQ=WEEKLY", dtstart: at(-60) },
+    recurring: true,
+  });
+  // Created last, so a newest-first feed would list it first
+  await repository.create("live", { ...base, title: "Yesterday's brunch", startTime: at(-3), endTime: at(-3) });
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  setRateLimitStoreForTests(null);
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+const request = () => new Request(`http://localhost/api/plugin/events.ics?apiKey=${apiKey}`);
+
+test("the calendar feed lists upcoming hangouts and running series", async () => {
+  const response = await calendarGet(request());
+  assert.equal(response.status, 200);
+  const summaries = (await response.text()).match(/^SUMMARY:.*$/gm)?.map((line) => line.slice("SUMMARY:".length).trim());
+  assert.deepEqual(summaries, ["Weekly choir", "Next week's quiz"]);
+});
+
+test("a failed read is a 503, not an empty calendar", async () => {
+  const failing = new InMemoryEventRepository();
+  failing.find = async () => {
+    throw new Error("store unavailable");
+  };
+  setEventRepositoryForTests(failing);
+  try {
+    const response = await calendarGet(request());
+    assert.equal(response.status, 503);
+    assert.equal(response.headers.get("Retry-After"), "300");
+  } finally {
+    setEventRepositoryForTests(repository);
+  }
+});
@@ -0,0 +1,37 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+
+import { resolveEventActor } from "@/app/api/_utils/event-actor";
+import { ForbiddenError, UnauthorizedError } from "@/lib/server-auth";
+
+const JWT_SECRET = "event-actor-secret";
+
+function createToken(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", JWT_SECRET).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+function buildRequest(token?: string): Request {
+  return new Request("http://localhost/api/plugin/update-event", {
+    method: "PATCH",
+    headers: { "x-api-key": "spk_test", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+  });
+}
+
+before(() => {
+  process.env.JWT_SECRET = JWT_SECRET;
+});
+
+test("an API key alone cannot act as a claimed user", async () => {
+  await assert.rejects(resolveEventActor(buildRequest(), "tenant-a", "victim"), UnauthorizedError);
+});
+
+test("the session decides the user and a claimed userId must match it", async () => {
+  const token = createToken({ sub: "user-1", scope: "events:moderate:tenant-a" });
+  assert.deepEqual(await resolveEventActor(buildRequest(token), "tenant-a", "user-1"), { userId: "user-1", isModerator: true });
+  assert.deepEqual(await resolveEventActor(buildRequest(token), "tenant-b"), { userId: "user-1", isModerator: false });
+  await assert.rejects(resolveEventActor(buildRequest(token), "tenant-a", "victim"), ForbiddenError);
+});
@@ -0,0 +1,87 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { GET as fetchEventsGet } from "@/app/api/plugin/fetch-events/route";
+import { setEventRepositoryForTests, submitEvent } from "@/app/services/events";
+import { setRateLimitStoreForTests } from "@/app/services/rate-limit";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { InMemoryEventRepository } from "@/lib/event-repository";
+import { InMemoryRateLimitStore } from "@/lib/rate-limit-store";
+import { createTenant, createTenantApiKey, resetTenantStoreCacheForTests } from "@/lib/tenant-store";
+
+let pool: Pool;
+let apiKey: string;
+const day = 86_400_000;
+const windowStart = new Date(Math.ceil(Date.now() / day) * day + day);
+
+before(async () => {
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  setEventRepositoryForTests(new InMemoryEventRepository());
+  await createTenant({ tenantId: "feed-co", name: "Feed Co" });
+  apiKey = (await createTenantApiKey("feed-co")).apiKey;
+
+  const base = { description: "All welcome", tags: [], location: { lat: 52.52, lng: 13.405 }, createdBy: "host" };
+  await submitEvent(
+    {
+      ...base,
+      title: "Daily run",
+      startTime: new Date(windowStart.getTime() + 3_600_000).toISOString(),
+      recurrence: { rrule: "FREQ=DAILY;COUNT=10" },
+    },
+    "feed-co"
+  );
+  await submitEvent(
+    { ...base, title: "Book swap", startTime: new Date(windowStart.getTime() + 2 * day).toISOString() },
+    "feed-co"
+  );
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  setRateLimitStoreForTests(null);
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+async function fetchPage(params: Record<string, string>) {
+  const query = new URLSearchParams({ includeAI: "false", limit: "2", ...params });
+  const response = await fetchEventsGet(
+    new Request(`http://localhost/api/plugin/fetch-events?${query}`, { headers: { "x-api-key": apiKey } })
+  );
+  assert.equal(response.status, 200);
+  return (await response.json()) as {
+    events: Array<{ id: string; title: string; startTime?: string }>;
+    meta: { hasMore: boolean; nextCursor?: string | null };
+  };
+}
+
+test("time-window pages list each occurrence of a recurring event", async () => {
+  const window = {
+    startsAfter: windowStart.toISOString(),
+    startsBefore: new Date(windowStart.getTime() + 4 * day).toISOString(),
+  };
+  const seen: Array<{ id: string; title: string; startTime?: string }> = [];
+  let cursor: string | null | undefined;
+  do {
+    const page = await fetchPage({ ...window, ...(cursor ? { cursor } : {}) });
+    assert.ok(page.events.length <= 2);
+    seen.push(...page.events);
+    cursor = page.meta.hasMore ? page.meta.nextCursor : null;
+  } while (cursor);
+
+  const runs = seen.filter(({ title }) => title === "Daily run");
+  assert.equal(runs.length, 4);
+  assert.equal(new Set(runs.map(({ id }) => id)).size, 4);
+  assert.ok(runs.every(({ id }) => id.includes("__")));
+  assert.deepEqual(seen.filter(({ title }) => title === "Book swap").length, 1);
+
+  const unwindowed = await fetchPage({ limit: "10" });
+  assert.deepEqual(unwindowed.events.map(({ title }) => title).sort(), ["Book swap", "Daily run"]);
+});
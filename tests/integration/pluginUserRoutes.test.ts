@@ -0,0 +1,130 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { POST as reportPost } from "@/app/api/plugin/report-event/route";
+import { GET as rsvpGet, POST as rsvpPost } from "@/app/api/plugin/rsvp/route";
+import { setEventRepositoryForTests, submitEvent } from "@/app/services/events";
+import { approveEvent, reportEvent, submitScreenedEvent } from "@/app/services/moderation";
+import { setRateLimitStoreForTests } from "@/app/services/rate-limit";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { countOpenReports } from "@/lib/event-report-store";
+import { InMemoryEventRepository } from "@/lib/event-repository";
+import { InMemoryRateLimitStore } from "@/lib/rate-limit-store";
+import { createTenant, createTenantApiKey, resetTenantStoreCacheForTests } from "@/lib/tenant-store";
+
+let pool: Pool;
+let apiKey: string;
+let eventId: string;
+const JWT_SECRET = "plugin-user-secret";
+
+function createToken(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", JWT_SECRET).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+function buildRequest(method: string, pathname: string, { body, userId }: { body?: unknown; userId?: string } = {}) {
+  return new Request(`http://localhost${pathname}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      ...(userId ? { Authorization: `Bearer ${createToken({ sub: userId })}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+before(async () => {
+  process.env.JWT_SECRET = JWT_SECRET;
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  setEventRepositoryForTests(new InMemoryEventRepository());
+  await createTenant({ tenantId: "widget-co", name: "Widget Co" });
+  apiKey = (await createTenantApiKey("widget-co")).apiKey;
+  const event = await submitEvent(
+    {
+      title: "Rooftop swap",
+      description: "Bring a book",
+      tags: [],
+      location: { lat: 52.52, lng: 13.405 },
+      startTime: new Date(Date.now() + 86_400_000).toISOString(),
+      createdBy: "host",
+      capacity: 5,
+    },
+    "widget-co"
+  );
+  eventId = event.id;
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  setRateLimitStoreForTests(null);
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("an API key alone cannot file reports under made-up user ids", async () => {
+  for (const userId of ["fake-1", "fake-2", "fake-3"]) {
+    const response = await reportPost(buildRequest("POST", "/api/plugin/report-event", { body: { eventId, userId, reason: "spam" } }));
+    assert.equal(response.status, 401);
+  }
+  assert.equal(await countOpenReports(eventId), 0);
+
+  const filed = await reportPost(buildRequest("POST", "/api/plugin/report-event", { body: { eventId, reason: "spam" }, userId: "guest" }));
+  assert.equal(filed.status, 200);
+  assert.equal(await countOpenReports(eventId), 1);
+});
+
+test("RSVPs act as the signed-in user and only a session is treated as the viewer", async () => {
+  const spoofed = await rsvpPost(buildRequest("POST", "/api/plugin/rsvp", { body: { eventId, userId: "victim" } }));
+  assert.equal(spoofed.status, 401);
+  const mismatched = await rsvpPost(buildRequest("POST", "/api/plugin/rsvp", { body: { eventId, userId: "victim" }, userId: "guest" }));
+  assert.equal(mismatched.status, 403);
+
+  const joined = await rsvpPost(buildRequest("POST", "/api/plugin/rsvp", { body: { eventId }, userId: "guest" }));
+  assert.equal(joined.status, 200);
+  assert.equal(((await joined.json()) as { rsvp: { userId: string } }).rsvp.userId, "guest");
+
+  const anonymous = await rsvpGet(buildRequest("GET", `/api/plugin/rsvp?eventId=${eventId}&userId=guest`));
+  const publicView = (await anonymous.json()) as { viewer: unknown; attendees: Array<{ userId?: string }> };
+  assert.equal(publicView.viewer, null);
+  assert.equal(publicView.attendees[0].userId, undefined);
+
+  const signedIn = await rsvpGet(buildRequest("GET", `/api/plugin/rsvp?eventId=${eventId}`, { userId: "guest" }));
+  assert.deepEqual(((await signedIn.json()) as { viewer: unknown }).viewer, { status: "going", waitlistPosition: null });
+
+  // The API key may come as the bearer token; that is not a session either
+  const keyAsBearer = await rsvpGet(
+    new Request(`http://localhost/api/plugin/rsvp?eventId=${eventId}`, { headers: { Authorization: `Bearer ${apiKey}` } })
+  );
+  assert.equal(keyAsBearer.status, 200);
+  const keyView = (await keyAsBearer.json()) as { viewer: unknown; attendees: Array<{ userId?: string }> };
+  assert.equal(keyView.viewer, null);
+  assert.equal(keyView.attendees[0].userId, undefined);
+});
+
+test("approving a hold reports whether screening or reports held the event", async () => {
+  const base = { description: "Meet at the fountain", tags: [], location: { lat: 52.52, lng: 13.405 }, createdBy: "host" };
+  const screened = await submitScreenedEvent({ ...base, title: "Crypto giveaway meetup" }, "widget-co");
+  assert.equal(screened.moderationStatus, "pending");
+  const approvedScreened = await approveEvent({ eventId: screened.id, tenantId: "widget-co", moderatorId: "mod" });
+  assert.equal(approvedScreened.published, true);
+  assert.equal(approvedScreened.source, "screening");
+
+  const reported = await submitEvent({ ...base, title: "Board games" }, "widget-co");
+  for (const reporterId of ["r1", "r2", "r3"]) {
+    await reportEvent({ eventId: reported.id, tenantId: "widget-co", reporterId, reason: "spam" });
+  }
+  const approvedReported = await approveEvent({ eventId: reported.id, tenantId: "widget-co", moderatorId: "mod" });
+  assert.equal(approvedReported.published, true);
+  assert.equal(approvedReported.source, "reports");
+});
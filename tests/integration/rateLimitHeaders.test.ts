@@ -0,0 +1,122 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { createHmac } from "crypto";
+
+import { GET as resolveTenantGet } from "@/app/api/plugin/resolve-tenant/route";
+import { identifyRateLimitClient } from "@/app/api/_utils/rate-limit";
+import { POST as spontaneousFetchPost } from "@/app/api/spontaneous/fetch/route";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { InMemoryRateLimitStore } from "@/lib/rate-limit-store";
+import {
+  createTenant,
+  createTenantApiKey,
+  resetTenantStoreCacheForTests,
+  setTenantRateLimits,
+} from "@/lib/tenant-store";
+import { setRateLimitStoreForTests } from "@/app/services/rate-limit";
+
+let pool: Pool;
+let apiKey: string;
+const JWT_SECRET = "rate-limit-secret";
+
+function createToken(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", JWT_SECRET).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+before(async () => {
+  process.env.JWT_SECRET = JWT_SECRET;
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  await createTenant({ tenantId: "widget-co", name: "Widget Co" });
+  await setTenantRateLimits("widget-co", { requests: { limit: 2, windowSeconds: 60 } });
+  apiKey = (await createTenantApiKey("widget-co")).apiKey;
+});
+
+after(async () => {
+  setRateLimitStoreForTests(null);
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+function resolveRequest(): Request {
+  return new Request("http://localhost/api/plugin/resolve-tenant", { headers: { "x-api-key": apiKey } });
+}
+
+test("plugin responses carry RateLimit headers and a standard 429", async () => {
+  const first = await resolveTenantGet(resolveRequest());
+  assert.equal(first.status, 200);
+  assert.equal(first.headers.get("RateLimit-Limit"), "2");
+  assert.equal(first.headers.get("RateLimit-Remaining"), "1");
+  assert.ok(Number(first.headers.get("RateLimit-Reset")) > 0);
+  assert.equal(first.headers.get("Retry-After"), null);
+
+  await resolveTenantGet(resolveRequest());
+  const limited = await resolveTenantGet(resolveRequest());
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get("RateLimit-Remaining"), "0");
+  assert.ok(Number(limited.headers.get("Retry-After")) >= 1);
+
+  const body = (await limited.json()) as {
+    error: string;
+    rateLimit: { limit: number; remaining: number; resetAt: number; retryAfter: number };
+  };
+  assert.equal(body.error, "Rate limit exceeded");
+  assert.equal(body.rateLimit.limit, 2);
+  assert.equal(body.rateLimit.remaining, 0);
+  assert.equal(String(body.rateLimit.retryAfter), limited.headers.get("Retry-After"));
+});
+
+test("spontaneous routes are limited per client address", async () => {
+  // Clients can send any x-forwarded-for; the platform proxy appends the address it saw
+  const send = (ip: string, spoofed = `10.0.0.${Math.floor(Math.random() * 255)}`) =>
+    spontaneousFetchPost(
+      new Request("http://localhost/api/spontaneous/fetch", {
+        method: "POST",
+        headers: { "x-forwarded-for": `${spoofed}, ${ip}`, "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+    );
+
+  let last: Response | undefined;
+  for (let i = 0; i < 51; i++) {
+    last = await send("203.0.113.7");
+  }
+  assert.equal(last?.status, 429);
+  assert.equal(last?.headers.get("RateLimit-Limit"), "50");
+
+  const other = await send("198.51.100.2");
+  assert.equal(other.status, 400);
+  assert.equal(other.headers.get("RateLimit-Remaining"), "49");
+
+  const realIp = await spontaneousFetchPost(
+    new Request("http://localhost/api/spontaneous/fetch", {
+      method: "POST",
+      headers: { "x-real-ip": "203.0.113.7", "x-forwarded-for": "198.51.100.2", "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    })
+  );
+  assert.equal(realIp.status, 429);
+});
+
+test("per-client quotas are charged to the signed-in user or the client address", async () => {
+  const signedIn = new Request("http://localhost/api/plugin/generate-event", {
+    headers: { Authorization: `Bearer ${createToken({ sub: "user-42" })}`, "x-forwarded-for": "203.0.113.9" },
+  });
+  assert.equal(await identifyRateLimitClient(signedIn), "user:user-42");
+
+  const anonymous = new Request("http://localhost/api/plugin/generate-event", {
+    headers: { Authorization: "Bearer spk_partnerkey", "x-forwarded-for": "203.0.113.9" },
+  });
+  assert.equal(await identifyRateLimitClient(anonymous), "ip:203.0.113.9");
+  assert.equal(await identifyRateLimitClient(anonymous, "known-user"), "user:known-user");
+});
@@ -0,0 +1,92 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+import { NextRequest } from "next/server";
+
+import { POST as recommendationsPost } from "@/app/api/v1/recommendations/route";
+import { setEventRepositoryForTests } from "@/app/services/events";
+import { setRateLimitStoreForTests } from "@/app/services/rate-limit";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { InMemoryEventRepository } from "@/lib/event-repository";
+import { InMemoryRateLimitStore } from "@/lib/rate-limit-store";
+import {
+  createTenant,
+  createTenantApiKey,
+  resetTenantStoreCacheForTests,
+  setTenantRateLimits,
+} from "@/lib/tenant-store";
+
+let pool: Pool;
+let apiKey: string;
+const JWT_SECRET = "recommendations-secret";
+
+function createToken(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", JWT_SECRET).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+function buildRequest(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost/api/v1/recommendations", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${createToken({ sub: "reader" })}`,
+      ...headers,
+    },
+    body: JSON.stringify({ userId: "reader", homeLocation: { lat: 40.71, lng: -74.0 }, ...body }),
+  });
+}
+
+before(async () => {
+  process.env.JWT_SECRET = JWT_SECRET;
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  setRateLimitStoreForTests(new InMemoryRateLimitStore());
+  setEventRepositoryForTests(new InMemoryEventRepository());
+  await createTenant({ tenantId: "reco-co", name: "Reco Co" });
+  await createTenant({ tenantId: "other-co", name: "Other Co" });
+  await setTenantRateLimits("reco-co", { aiEventsPerClient: { limit: 1, windowSeconds: 60 } });
+  apiKey = (await createTenantApiKey("reco-co")).apiKey;
+});
+
+after(async () => {
+  setEventRepositoryForTests(null);
+  setRateLimitStoreForTests(null);
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("AI recommendations are rate limited per caller within the tenant", async () => {
+  const first = await recommendationsPost(buildRequest({ tenantId: "reco-co", includeAi: true }));
+  assert.equal(first.status, 200);
+  assert.equal(first.headers.get("RateLimit-Limit"), "1");
+  assert.equal(first.headers.get("RateLimit-Remaining"), "0");
+
+  const limited = await recommendationsPost(buildRequest({ includeAi: true }, { "x-api-key": apiKey }));
+  assert.equal(limited.status, 429);
+  assert.ok(Number(limited.headers.get("Retry-After")) >= 1);
+
+  const withoutAi = await recommendationsPost(buildRequest({ tenantId: "reco-co", includeAi: false }));
+  assert.equal(withoutAi.status, 200);
+  assert.equal(withoutAi.headers.get("RateLimit-Limit"), null);
+});
+
+test("the tenant is resolved like on the plugin routes", async () => {
+  const mismatch = await recommendationsPost(
+    buildRequest({ tenantId: "other-co", includeAi: false }, { "x-api-key": apiKey })
+  );
+  assert.equal(mismatch.status, 403);
+
+  const badKey = await recommendationsPost(buildRequest({ includeAi: false }, { "x-api-key": "spk_unknown" }));
+  assert.equal(badKey.status, 401);
+
+  const spoofed = await recommendationsPost(buildRequest({ userId: "someone-else", tenantId: "reco-co" }));
+  assert.equal(spoofed.status, 403);
+});
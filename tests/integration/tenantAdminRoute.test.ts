@@ -0,0 +1,223 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { NextRequest } from "next/server";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { GET as listTenantsGet, POST as createTenantPost } from "@/app/api/admin/tenants/route";
+import { GET as tenantGet, PATCH as tenantPatch } from "@/app/api/admin/tenants/[tenantId]/route";
+import { POST as keyPost } from "@/app/api/admin/tenants/[tenantId]/keys/route";
+import { DELETE as keyDelete } from "@/app/api/admin/tenants/[tenantId]/keys/[keyId]/route";
+import { POST as keyRotate } from "@/app/api/admin/tenants/[tenantId]/keys/[keyId]/rotate/route";
+import { GET as tagsGet, PUT as tagsPut } from "@/app/api/admin/tenants/[tenantId]/tags/route";
+import { GET as aiProvidersGet, PUT as aiProvidersPut } from "@/app/api/admin/tenants/[tenantId]/ai-providers/route";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { resetTenantStoreCacheForTests } from "@/lib/tenant-store";
+import { resetTagVocabularyStoreForTests } from "@/lib/tag-vocabulary-store";
+import { resetAiProviderStoreForTests } from "@/lib/ai-provider-store";
+import { getTagTaxonomy } from "@/app/services/tags";
+import { getTenantConfig, validateApiKey } from "@/app/services/tenant";
+
+let pool: Pool;
+const JWT_SECRET = "tenant-admin-secret";
+
+function createToken(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", JWT_SECRET).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+function buildRequest(method: string, pathname: string, body?: unknown, scope = "tenants:admin"): NextRequest {
+  const token = createToken({ sub: "partner-success", scope });
+  const headers = new Headers({
+    Authorization: `Bearer ${token}`,
+    "Content-Type": "application/json",
+  });
+  return new NextRequest(`http://localhost${pathname}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function params<T extends Record<string, string>>(value: T) {
+  return { params: Promise.resolve(value) };
+}
+
+before(() => {
+  process.env.JWT_SECRET = JWT_SECRET;
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+});
+
+after(async () => {
+  resetTenantStoreCacheForTests();
+  resetTagVocabularyStoreForTests();
+  resetAiProviderStoreForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("tenant admin routes require an admin scope", async () => {
+  const response = await listTenantsGet(buildRequest("GET", "/api/admin/tenants", undefined, "profile"));
+  assert.equal(response.status, 403);
+});
+
+test("POST creates a tenant and rejects duplicates", async () => {
+  const payload = {
+    tenantId: "harbor-hotels",
+    name: "Harbor Hotels",
+    primaryColor: "#123abc",
+    aiPromptTemplate: "Suggest waterfront hangouts near {location}.",
+  };
+  const created = await createTenantPost(buildRequest("POST", "/api/admin/tenants", payload));
+  assert.equal(created.status, 201);
+
+  const duplicate = await createTenantPost(buildRequest("POST", "/api/admin/tenants", payload));
+  assert.equal(duplicate.status, 409);
+
+  const invalid = await createTenantPost(
+    buildRequest("POST", "/api/admin/tenants", { ...payload, tenantId: "Bad Id", primaryColor: "blue" })
+  );
+  assert.equal(invalid.status, 400);
+});
+
+test("PATCH updates branding used by getTenantConfig", async () => {
+  const response = await tenantPatch(
+    buildRequest("PATCH", "/api/admin/tenants/harbor-hotels", {
+      mapboxStyle: "mapbox://styles/harbor/coastal",
+      primaryColor: null,
+    }),
+    params({ tenantId: "harbor-hotels" })
+  );
+  assert.equal(response.status, 200);
+
+  const config = await getTenantConfig("harbor-hotels");
+  assert.equal(config.mapboxStyle, "mapbox://styles/harbor/coastal");
+  assert.equal(config.primaryColor, undefined);
+  assert.equal(config.aiPromptTemplate, "Suggest waterfront hangouts near {location}.");
+});
+
+test("keys can be minted, rotated and revoked", async () => {
+  const minted = await keyPost(
+    buildRequest("POST", "/api/admin/tenants/harbor-hotels/keys", { label: "website" }),
+    params({ tenantId: "harbor-hotels" })
+  );
+  assert.equal(minted.status, 201);
+  const { data } = (await minted.json()) as { data: { apiKey: string; key: { id: string } } };
+  assert.equal((await validateApiKey(data.apiKey)).tenantId, "harbor-hotels");
+
+  const rotated = await keyRotate(
+    buildRequest("POST", `/api/admin/tenants/harbor-hotels/keys/${data.key.id}/rotate`, { graceSeconds: 0 }),
+    params({ tenantId: "harbor-hotels", keyId: data.key.id })
+  );
+  assert.equal(rotated.status, 201);
+  const rotation = (await rotated.json()) as { data: { apiKey: string; key: { id: string } } };
+  assert.equal((await validateApiKey(data.apiKey)).valid, false);
+  assert.equal((await validateApiKey(rotation.data.apiKey)).valid, true);
+
+  const revoked = await keyDelete(
+    buildRequest("DELETE", `/api/admin/tenants/harbor-hotels/keys/${rotation.data.key.id}`),
+    params({ tenantId: "harbor-hotels", keyId: rotation.data.key.id })
+  );
+  assert.equal(revoked.status, 200);
+  assert.equal((await validateApiKey(rotation.data.apiKey)).valid, false);
+
+  const detail = await tenantGet(
+    buildRequest("GET", "/api/admin/tenants/harbor-hotels"),
+    params({ tenantId: "harbor-hotels" })
+  );
+  const json = (await detail.json()) as { data: { apiKeys: unknown[] } };
+  assert.equal(json.data.apiKeys.length, 2);
+});
+
+test("PUT replaces the tenant's tag vocabulary", async () => {
+  const vocabulary = {
+    tags: [
+      { tag: "Harbor Cruise", category: "outdoors", synonyms: ["boat tour", "#sailing"] },
+      { tag: "live music", category: "music", synonyms: ["sea shanties"] },
+    ],
+  };
+  const response = await tagsPut(
+    buildRequest("PUT", "/api/admin/tenants/harbor-hotels/tags", vocabulary),
+    params({ tenantId: "harbor-hotels" })
+  );
+  assert.equal(response.status, 200);
+
+  const taxonomy = await getTagTaxonomy("harbor-hotels");
+  assert.deepEqual(taxonomy.canonicalTags(["Sailing", "sea shanties", "gig"]), ["harbor cruise", "live music"]);
+  assert.equal(taxonomy.categoryOf("boat tour"), "outdoors");
+
+  const listed = await tagsGet(
+    buildRequest("GET", "/api/admin/tenants/harbor-hotels/tags"),
+    params({ tenantId: "harbor-hotels" })
+  );
+  const { data } = (await listed.json()) as { data: { tags: Array<{ tag: string }> } };
+  assert.deepEqual(data.tags.map(({ tag }) => tag), ["harbor cruise", "live music"]);
+
+  const duplicate = await tagsPut(
+    buildRequest("PUT", "/api/admin/tenants/harbor-hotels/tags", {
+      tags: [vocabulary.tags[0], { ...vocabulary.tags[0], tag: "#harbor cruise" }],
+    }),
+    params({ tenantId: "harbor-hotels" })
+  );
+  assert.equal(duplicate.status, 400);
+});
+
+test("PUT sets the tenant's AI provider order and null restores the default", async () => {
+  const put = (body: unknown) =>
+    aiProvidersPut(
+      buildRequest("PUT", "/api/admin/tenants/harbor-hotels/ai-providers", body),
+      params({ tenantId: "harbor-hotels" })
+    );
+
+  const response = await put({ providers: ["gemini", "stub"] });
+  assert.equal(response.status, 200);
+  const saved = (await response.json()) as { data: { providers: string[]; effective: string[] } };
+  assert.deepEqual(saved.data, { providers: ["gemini", "stub"], effective: ["gemini", "stub"] });
+
+  const listed = await aiProvidersGet(
+    buildRequest("GET", "/api/admin/tenants/harbor-hotels/ai-providers"),
+    params({ tenantId: "harbor-hotels" })
+  );
+  const { data } = (await listed.json()) as { data: { providers: string[]; health: Array<{ provider: string }> } };
+  assert.deepEqual(data.providers, ["gemini", "stub"]);
+  assert.deepEqual(data.health.map(({ provider }) => provider), ["openai", "gemini", "stub"]);
+
+  assert.equal((await put({ providers: ["openai", "openai"] })).status, 400);
+  assert.equal((await put({ providers: ["claude"] })).status, 400);
+
+  const reset = (await (await put({ providers: null })).json()) as { data: { providers: null; effective: string[] } };
+  assert.equal(reset.data.providers, null);
+  assert.deepEqual(reset.data.effective, ["openai", "gemini"]);
+});
+
+test("disabling a tenant stops its keys from resolving", async () => {
+  const minted = await keyPost(
+    buildRequest("POST", "/api/admin/tenants/harbor-hotels/keys", {}),
+    params({ tenantId: "harbor-hotels" })
+  );
+  const { data } = (await minted.json()) as { data: { apiKey: string } };
+
+  const response = await tenantPatch(
+    buildRequest("PATCH", "/api/admin/tenants/harbor-hotels", { enabled: false }),
+    params({ tenantId: "harbor-hotels" })
+  );
+  assert.equal(response.status, 200);
+
+  const validation = await validateApiKey(data.apiKey);
+  assert.equal(validation.valid, false);
+  assert.equal(validation.error, "Tenant is disabled");
+});
+
+test("unknown tenants return 404", async () => {
+  const response = await tenantGet(
+    buildRequest("GET", "/api/admin/tenants/nobody"),
+    params({ tenantId: "nobody" })
+  );
+  assert.equal(response.status, 404);
+});
@@ -0,0 +1,118 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+
+import { GET as resolveTenantGet } from "@/app/api/plugin/resolve-tenant/route";
+import { setQueryExecutorForTests } from "@/lib/db";
+import { createTenant, createTenantApiKey, resetTenantStoreCacheForTests } from "@/lib/tenant-store";
+
+let pool: Pool;
+let acmeKey: string;
+const JWT_SECRET = "tenant-resolution-secret";
+
+function createToken(payload: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", JWT_SECRET).update(`${header}.${body}`).digest("base64url");
+  return `${header}.${body}.${signature}`;
+}
+
+function buildRequest(query: Record<string, string>, headers: Record<string, string> = {}): Request {
+  const params = new URLSearchParams(query);
+  return new Request(`http://localhost/api/plugin/resolve-tenant?${params.toString()}`, { headers });
+}
+
+async function captureConsole<T>(task: () => Promise<T>): Promise<{ result: T; output: string }> {
+  const lines: string[] = [];
+  const original = { info: console.info, warn: console.warn, log: console.log };
+  const record = (...args: unknown[]) => {
+    lines.push(args.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg))).join(" "));
+  };
+  console.info = record;
+  console.warn = record;
+  console.log = record;
+  try {
+    const result = await task();
+    return { result, output: lines.join("\n") };
+  } finally {
+    Object.assign(console, original);
+  }
+}
+
+before(async () => {
+  process.env.JWT_SECRET = JWT_SECRET;
+  const db = newDb();
+  const adapter = db.adapters.createPg();
+  pool = new adapter.Pool();
+  setQueryExecutorForTests(pool);
+  await createTenant({ tenantId: "acme", name: "Acme Travel" });
+  await createTenant({ tenantId: "globex", name: "Globex Tours" });
+  acmeKey = (await createTenantApiKey("acme")).apiKey;
+});
+
+after(async () => {
+  resetTenantStoreCacheForTests();
+  setQueryExecutorForTests(null);
+  await pool.end();
+});
+
+test("an API key resolves its own tenant", async () => {
+  const response = await resolveTenantGet(buildRequest({}, { "x-api-key": acmeKey }));
+  assert.equal(response.status, 200);
+  const json = (await response.json()) as { tenantId: string };
+  assert.equal(json.tenantId, "acme");
+});
+
+test("a tenantId paired with a key for that tenant is accepted", async () => {
+  const response = await resolveTenantGet(buildRequest({ tenantId: "acme", apiKey: acmeKey }));
+  assert.equal(response.status, 200);
+});
+
+test("a tenantId that does not match the key's tenant is rejected", async () => {
+  const response = await resolveTenantGet(buildRequest({ tenantId: "globex", apiKey: acmeKey }));
+  assert.equal(response.status, 403);
+});
+
+test("a bare tenantId without a session is rejected", async () => {
+  const response = await resolveTenantGet(buildRequest({ tenantId: "globex" }));
+  assert.equal(response.status, 401);
+});
+
+test("a bare tenantId is honoured for an authenticated session", async () => {
+  const token = createToken({ sub: "user-1" });
+  const response = await resolveTenantGet(
+    buildRequest({ tenantId: "globex" }, { Authorization: `Bearer ${token}` })
+  );
+  assert.equal(response.status, 200);
+  const json = (await response.json()) as { tenantId: string };
+  assert.equal(json.tenantId, "globex");
+});
+
+test("an unknown API key is rejected rather than falling back to tenantId", async () => {
+  const token = createToken({ sub: "user-1" });
+  const response = await resolveTenantGet(
+    buildRequest({ tenantId: "acme", apiKey: "spk_not-a-real-key" }, { Authorization: `Bearer ${token}` })
+  );
+  assert.equal(response.status, 401);
+});
+
+test("requests without any tenant hint are still a 400", async () => {
+  const response = await resolveTenantGet(buildRequest({}));
+  assert.equal(response.status, 400);
+});
+
+test("audit output and echoed sources never contain the raw API key", async () => {
+  const { result: response, output } = await captureConsole(() =>
+    resolveTenantGet(buildRequest({ tenantId: "globex" }, { "x-api-key": acmeKey }))
+  );
+  assert.equal(response.status, 403);
+  assert.ok(output.includes("tenant_resolution"));
+  assert.ok(output.includes("tenant_mismatch"));
+  assert.ok(!output.includes(acmeKey));
+
+  const ok = await resolveTenantGet(buildRequest({}, { "x-api-key": acmeKey }));
+  const body = await ok.text();
+  assert.ok(!body.includes(acmeKey));
+});